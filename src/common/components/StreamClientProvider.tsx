@@ -0,0 +1,35 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { createStreamClient } from "../../services/streamClient";
+import type { BackoffPolicy } from "../utils/backoff";
+import { StreamClientContext } from "../hooks/useStreamClient";
+
+export interface StreamClientProviderProps {
+  /** Read once on mount — later changes are ignored. */
+  reconnect?: Partial<BackoffPolicy>;
+  children: ReactNode;
+}
+
+/**
+ * StreamClientProvider
+ *
+ * Owns the one stream client the app shares: it connects on mount and
+ * closes on unmount. Every `useStreamClient` / `useStreamSubscription`
+ * below it goes through the same socket.
+ */
+export function StreamClientProvider({
+  reconnect,
+  children,
+}: StreamClientProviderProps) {
+  const [client] = useState(() => createStreamClient({ reconnect }));
+
+  useEffect(() => {
+    client.connect();
+    return () => client.close();
+  }, [client]);
+
+  return (
+    <StreamClientContext.Provider value={client}>
+      {children}
+    </StreamClientContext.Provider>
+  );
+}
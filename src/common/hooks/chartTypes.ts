@@ -5,6 +5,7 @@ import type {
   HistogramSeriesOptions,
 } from "lightweight-charts";
 import type { Candle } from "../../services/apiTypes";
+import type { IndicatorConfig } from "../utils/indicators";
 
 /**
  * Options accepted by the useCandleChart hook.
@@ -25,11 +26,25 @@ export interface UseCandleChartOptions {
   volumeOptions?: DeepPartial<HistogramSeriesOptions>;
 
   /**
-   * Whether to render the volume histogram below the candles.
+   * Whether to render the volume histogram below the candles initially.
+   * Use `setVolumeVisible` to change it later.
    * @default true
    */
   showVolume?: boolean;
 
+  /**
+   * Height (px) of a separate volume pane below the price pane.
+   * When omitted, volume is overlaid on the bottom 20% of the price pane.
+   */
+  volumePaneHeight?: number;
+
+  /**
+   * Default height (px) of the pane each oscillator indicator gets.
+   * Can be overridden per indicator via `IndicatorOptions.paneHeight`.
+   * @default 120
+   */
+  oscillatorPaneHeight?: number;
+
   /**
    * Whether the chart should auto-resize when the container changes size.
    * Uses ResizeObserver when true.
@@ -38,6 +53,52 @@ export interface UseCandleChartOptions {
   autoResize?: boolean;
 }
 
+/**
+ * Appearance of an indicator added via `addIndicator`.
+ */
+export interface IndicatorOptions {
+  /** Main line colour. Defaults to a per-indicator colour. */
+  color?: string;
+  /** Height (px) of an oscillator's pane. Ignored for overlays. */
+  paneHeight?: number;
+}
+
+/**
+ * How the price axis is scaled:
+ *  - "linear"      → prices, evenly spaced
+ *  - "logarithmic" → prices, equal ratios evenly spaced
+ *  - "percentage"  → change relative to the first visible bar
+ */
+export type ChartScaleMode = "linear" | "logarithmic" | "percentage";
+
+/**
+ * How the crosshair follows the pointer:
+ *  - "normal" → moves freely
+ *  - "magnet" → its price line snaps to the close of the hovered bar
+ */
+export type ChartCrosshairMode = "normal" | "magnet";
+
+/**
+ * Options accepted by `setCandles`.
+ */
+export interface SetCandlesOptions {
+  /**
+   * Keep the bars the user is looking at in view instead of fitting all
+   * candles — e.g. when older history is prepended.
+   * @default false
+   */
+  keepView?: boolean;
+}
+
+/**
+ * The visible part of the time scale, in bar indices: 0 is the first
+ * loaded candle. Either end may be fractional or lie outside the data.
+ */
+export interface VisibleRange {
+  from: number;
+  to: number;
+}
+
 /**
  * Chart control API returned by useCandleChart.
  *
@@ -55,7 +116,7 @@ export interface UseCandleChartReturn {
    * Replace the entire candle dataset.
    * Call this after fetching historical candles for a new pair.
    */
-  setCandles: (candles: Candle[]) => void;
+  setCandles: (candles: Candle[], options?: SetCandlesOptions) => void;
 
   /**
    * Push a single real-time candle from the WebSocket stream.
@@ -64,9 +125,54 @@ export interface UseCandleChartReturn {
    */
   updateCandle: (candle: Candle) => void;
 
+  /**
+   * Add an indicator — overlays are drawn on the price series, oscillators
+   * in a new pane below it. It is computed from the loaded candles and kept up to date by every
+   * later `setCandles` / `updateCandle` call.
+   * Returns an id for `removeIndicator`, or null if the chart is not ready.
+   */
+  addIndicator: (
+    config: IndicatorConfig,
+    options?: IndicatorOptions,
+  ) => string | null;
+
+  /** Remove an indicator added with `addIndicator`. Unknown ids are ignored. */
+  removeIndicator: (id: string) => void;
+
   /** Fit all loaded candles into the visible viewport. */
   fitContent: () => void;
 
+  /**
+   * Undo the user's zooming and panning — the default bar spacing, the
+   * newest bar at the right edge and an auto-scaled price axis.
+   */
+  resetZoom: () => void;
+
+  /** Switch the price axis between linear, logarithmic and percentage. */
+  setScaleMode: (mode: ChartScaleMode) => void;
+
+  /** Switch the crosshair between moving freely and snapping to bars. */
+  setCrosshairMode: (mode: ChartCrosshairMode) => void;
+
+  /**
+   * Show or hide the volume histogram, with the appearance it was given
+   * at init. Its data is restored from the loaded candles.
+   */
+  setVolumeVisible: (visible: boolean) => void;
+
+  /**
+   * Render the chart, panes and axes included, to a canvas — e.g. to
+   * export it as a PNG. Returns null if the chart is not ready.
+   */
+  takeScreenshot: () => HTMLCanvasElement | null;
+
+  /**
+   * Subscribe to scrolling and zooming of the time scale, e.g. to load
+   * older candles once the user nears the left edge. Returns the
+   * unsubscribe function; a no-op if the chart is not ready.
+   */
+  subscribeVisibleRange: (handler: (range: VisibleRange) => void) => () => void;
+
   /**
    * True once the chart instance has been created and is ready to receive data.
    * The consuming component should wait for this before calling setCandles.
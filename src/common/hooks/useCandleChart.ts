@@ -5,19 +5,44 @@ import {
   CrosshairMode,
   CandlestickSeries,
   HistogramSeries,
+  LineSeries,
+  LineStyle,
+  PriceScaleMode,
   type IChartApi,
+  type IPaneApi,
   type ISeriesApi,
+  type Time,
   type DeepPartial,
   type ChartOptions,
+  type LogicalRange,
 } from "lightweight-charts";
 
 import type { Candle } from "../../services/apiTypes";
-import type { UseCandleChartOptions, UseCandleChartReturn } from "./chartTypes";
+import type {
+  ChartCrosshairMode,
+  ChartScaleMode,
+  IndicatorOptions,
+  SetCandlesOptions,
+  UseCandleChartOptions,
+  UseCandleChartReturn,
+  VisibleRange,
+} from "./chartTypes";
 import {
   mapCandlesToSeriesData,
   toCandlestickData,
+  toIndicatorLineData,
   toVolumeData,
 } from "../utils/chartDataMapper";
+import {
+  applyIndicatorTick,
+  getIndicatorLabel,
+  getIndicatorLevels,
+  getIndicatorLines,
+  getIndicatorPlacement,
+  seedIndicator,
+  type IndicatorConfig,
+  type IndicatorState,
+} from "../utils/indicators";
 
 const DEFAULT_CHART_OPTIONS: DeepPartial<ChartOptions> = {
   layout: {
@@ -41,6 +66,40 @@ const DEFAULT_CHART_OPTIONS: DeepPartial<ChartOptions> = {
   },
 };
 
+/** Default colour of each indicator line, in `getIndicatorLines` order. */
+const DEFAULT_INDICATOR_COLORS: Record<IndicatorConfig["type"], string[]> = {
+  sma: ["#f59e0b"],
+  ema: ["#38bdf8"],
+  bollinger: ["#a78bfa", "#a78bfa", "#a78bfa"],
+  vwap: ["#f472b6"],
+  rsi: ["#a78bfa"],
+  macd: ["#38bdf8", "#f59e0b", "rgba(148, 163, 184, 0.5)"],
+  stochastic: ["#38bdf8", "#f59e0b"],
+};
+
+const DEFAULT_OSCILLATOR_PANE_HEIGHT = 120;
+
+const SCALE_MODES: Record<ChartScaleMode, PriceScaleMode> = {
+  linear: PriceScaleMode.Normal,
+  logarithmic: PriceScaleMode.Logarithmic,
+  percentage: PriceScaleMode.Percentage,
+};
+
+const CROSSHAIR_MODES: Record<ChartCrosshairMode, CrosshairMode> = {
+  normal: CrosshairMode.Normal,
+  magnet: CrosshairMode.Magnet,
+};
+
+/**
+ * An indicator on the chart: its running state, one series per output
+ * line and — for oscillators — the pane it was given.
+ */
+interface ChartIndicator {
+  state: IndicatorState;
+  series: ISeriesApi<"Line" | "Histogram">[];
+  pane: IPaneApi<Time> | null;
+}
+
 /**
  * useCandleChart
  *
@@ -59,6 +118,8 @@ export function useCandleChart({
   candlestickOptions = {},
   volumeOptions = {},
   showVolume = true,
+  volumePaneHeight,
+  oscillatorPaneHeight = DEFAULT_OSCILLATOR_PANE_HEIGHT,
   autoResize = true,
 }: UseCandleChartOptions = {}): UseCandleChartReturn {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -68,6 +129,17 @@ export function useCandleChart({
   const chartRef = useRef<IChartApi | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
   const volumeSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  // Adds the volume series with the init options — kept so the volume can
+  // be shown again after `setVolumeVisible(false)`
+  const addVolumeSeriesRef = useRef<(() => ISeriesApi<"Histogram">) | null>(
+    null,
+  );
+
+  // Loaded candles, kept so an indicator added later can be computed from
+  // the full history, and the indicators currently on the chart.
+  const candlesRef = useRef<Candle[]>([]);
+  const indicatorsRef = useRef(new Map<string, ChartIndicator>());
+  const nextIndicatorIdRef = useRef(1);
 
   // Exposed so the consuming component can gate data calls on chart readiness.
   const [isReady, setIsReady] = useState(false);
@@ -76,6 +148,7 @@ export function useCandleChart({
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
+    const indicators = indicatorsRef.current;
 
     const mergedOptions: DeepPartial<ChartOptions> = {
       ...DEFAULT_CHART_OPTIONS,
@@ -101,18 +174,31 @@ export function useCandleChart({
     });
     candleSeriesRef.current = candleSeries;
 
-    // Optional volume histogram pinned to the bottom 20% of the pane
-    if (showVolume) {
-      const volumeSeries = chart.addSeries(HistogramSeries, {
+    // Optional volume histogram — in a pane of its own when a height is
+    // given, otherwise pinned to the bottom 20% of the price pane
+    const addVolumeSeries = () => {
+      const volumeSeriesOptions = {
         priceFormat: { type: "volume" },
         priceScaleId: "volume",
         ...volumeOptions,
-      });
+      } as const;
+
+      if (volumePaneHeight !== undefined) {
+        const pane = chart.addPane();
+        pane.setHeight(volumePaneHeight);
+        return pane.addSeries(HistogramSeries, volumeSeriesOptions);
+      }
+      const volumeSeries = chart.addSeries(
+        HistogramSeries,
+        volumeSeriesOptions,
+      );
       volumeSeries.priceScale().applyOptions({
         scaleMargins: { top: 0.8, bottom: 0 },
       });
-      volumeSeriesRef.current = volumeSeries;
-    }
+      return volumeSeries;
+    };
+    addVolumeSeriesRef.current = addVolumeSeries;
+    if (showVolume) volumeSeriesRef.current = addVolumeSeries();
 
     // Signal to the consumer that the chart is ready to accept data
     setIsReady(true);
@@ -122,6 +208,9 @@ export function useCandleChart({
       chartRef.current = null;
       candleSeriesRef.current = null;
       volumeSeriesRef.current = null;
+      addVolumeSeriesRef.current = null;
+      // Indicator series are destroyed together with the chart
+      indicators.clear();
       setIsReady(false);
     };
     // Intentionally runs once — appearance options are applied at init time only.
@@ -146,8 +235,9 @@ export function useCandleChart({
   /**
    * Public chart-control API
    *
-   * All functions are stable (useCallback with no deps) so they are safe
-   * to include in dependency arrays in the consuming component.
+   * All functions are stable (useCallback with no deps, or only primitive
+   * init options) so they are safe to include in dependency arrays in the
+   * consuming component.
    */
 
   /**
@@ -155,15 +245,43 @@ export function useCandleChart({
    *
    * Intended for the consuming component to call after it fetches historical
    * candles from the REST API (e.g. on initial load or pair switch).
+   *
+   * With `keepView`, the bars the user is looking at stay in place instead
+   * of the chart zooming out to fit — the visible logical range is shifted
+   * by the number of bars added before the previous first one.
    */
-  const setCandles = useCallback((candles: Candle[]) => {
-    if (!candleSeriesRef.current) return;
+  const setCandles = useCallback(
+    (candles: Candle[], { keepView = false }: SetCandlesOptions = {}) => {
+      if (!candleSeriesRef.current) return;
 
-    const { candlestickData, volumeData } = mapCandlesToSeriesData(candles);
-    candleSeriesRef.current.setData(candlestickData);
-    volumeSeriesRef.current?.setData(volumeData);
-    chartRef.current?.timeScale().fitContent();
-  }, []);
+      const timeScale = chartRef.current?.timeScale();
+      const view = keepView ? timeScale?.getVisibleLogicalRange() : null;
+      const previousFirst = candlesRef.current[0];
+
+      const { candlestickData, volumeData } = mapCandlesToSeriesData(candles);
+      candleSeriesRef.current.setData(candlestickData);
+      volumeSeriesRef.current?.setData(volumeData);
+
+      candlesRef.current = candles;
+      for (const indicator of indicatorsRef.current.values()) {
+        seedChartIndicator(indicator, candles);
+      }
+
+      if (!view || !previousFirst) {
+        timeScale?.fitContent();
+        return;
+      }
+      const shift = Math.max(
+        0,
+        candles.findIndex((candle) => candle.time >= previousFirst.time),
+      );
+      timeScale?.setVisibleLogicalRange({
+        from: view.from + shift,
+        to: view.to + shift,
+      });
+    },
+    [],
+  );
 
   /**
    * Apply a single real-time candle tick.
@@ -179,6 +297,113 @@ export function useCandleChart({
     if (!candleSeriesRef.current) return;
     candleSeriesRef.current.update(toCandlestickData(candle));
     volumeSeriesRef.current?.update(toVolumeData(candle));
+
+    const candles = candlesRef.current;
+    const last = candles[candles.length - 1];
+    if (last && candle.time < last.time) return;
+    candlesRef.current =
+      last?.time === candle.time
+        ? [...candles.slice(0, -1), candle]
+        : [...candles, candle];
+
+    // Only the newest bar is recomputed — see applyIndicatorTick
+    for (const indicator of indicatorsRef.current.values()) {
+      const applied = applyIndicatorTick(indicator.state, candle);
+      if (!applied) continue;
+      indicator.state = applied.state;
+      const { point } = applied;
+      if (!point) continue;
+      indicator.series.forEach((series, i) =>
+        series.update(toIndicatorLineData(point, i)),
+      );
+    }
+  }, []);
+
+  /**
+   * Add an indicator computed from the loaded candles.
+   *
+   * Overlays share the price scale; oscillators get a new pane below the
+   * existing ones, sharing the time axis. Each output line becomes its own
+   * series — a MACD histogram is drawn as bars, and secondary lines such as
+   * the Bollinger bands are thinner than the main one.
+   */
+  const addIndicator = useCallback(
+    (config: IndicatorConfig, { color, paneHeight }: IndicatorOptions = {}) => {
+      const chart = chartRef.current;
+      if (!chart) return null;
+
+      let pane: IPaneApi<Time> | null = null;
+      if (getIndicatorPlacement(config) === "pane") {
+        pane = chart.addPane();
+        pane.setHeight(paneHeight ?? oscillatorPaneHeight);
+      }
+
+      const defaults = DEFAULT_INDICATOR_COLORS[config.type];
+      const series = getIndicatorLines(config).map((line, i) => {
+        // `color` recolours the main line and any line sharing its colour
+        const lineColor =
+          color !== undefined && defaults[i] === defaults[0]
+            ? color
+            : defaults[i];
+
+        if (line === "histogram") {
+          const options = { color: lineColor, priceLineVisible: false };
+          return pane
+            ? pane.addSeries(HistogramSeries, options)
+            : chart.addSeries(HistogramSeries, options);
+        }
+
+        const options = {
+          color: lineColor,
+          lineWidth: i === 0 ? 2 : 1,
+          title: i === 0 ? getIndicatorLabel(config) : "",
+          priceLineVisible: false,
+          lastValueVisible: false,
+          crosshairMarkerVisible: false,
+        } as const;
+        return pane
+          ? pane.addSeries(LineSeries, options)
+          : chart.addSeries(LineSeries, options);
+      });
+
+      for (const price of getIndicatorLevels(config)) {
+        series[0].createPriceLine({
+          price,
+          color: "#475569",
+          lineWidth: 1,
+          lineStyle: LineStyle.Dashed,
+          axisLabelVisible: false,
+          title: "",
+        });
+      }
+
+      const id = `indicator-${nextIndicatorIdRef.current++}`;
+      const indicator: ChartIndicator = {
+        state: seedIndicator(config, []).state,
+        series,
+        pane,
+      };
+      seedChartIndicator(indicator, candlesRef.current);
+      indicatorsRef.current.set(id, indicator);
+      return id;
+    },
+    [oscillatorPaneHeight],
+  );
+
+  /** Remove an indicator with its series — and its pane, if it had one. */
+  const removeIndicator = useCallback((id: string) => {
+    const indicator = indicatorsRef.current.get(id);
+    if (!indicator) return;
+
+    if (indicator.pane) {
+      // Panes are re-indexed as others are removed — look the index up now
+      chartRef.current?.removePane(indicator.pane.paneIndex());
+    } else {
+      for (const series of indicator.series) {
+        chartRef.current?.removeSeries(series);
+      }
+    }
+    indicatorsRef.current.delete(id);
   }, []);
 
   /** Zoom the time scale so all loaded candles are visible. */
@@ -186,5 +411,94 @@ export function useCandleChart({
     chartRef.current?.timeScale().fitContent();
   }, []);
 
-  return { containerRef, setCandles, updateCandle, fitContent, isReady };
+  /** Back to the default zoom, scrolled to the newest bar. */
+  const resetZoom = useCallback(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    chart.timeScale().resetTimeScale();
+    chart.priceScale("right").applyOptions({ autoScale: true });
+  }, []);
+
+  const setScaleMode = useCallback((mode: ChartScaleMode) => {
+    chartRef.current
+      ?.priceScale("right")
+      .applyOptions({ mode: SCALE_MODES[mode] });
+  }, []);
+
+  const setCrosshairMode = useCallback((mode: ChartCrosshairMode) => {
+    chartRef.current?.applyOptions({
+      crosshair: { mode: CROSSHAIR_MODES[mode] },
+    });
+  }, []);
+
+  /**
+   * Add or remove the volume series. Removing it also removes its pane,
+   * if it had one; showing it again adds a new pane at the bottom.
+   */
+  const setVolumeVisible = useCallback((visible: boolean) => {
+    const chart = chartRef.current;
+    const addVolumeSeries = addVolumeSeriesRef.current;
+    if (!chart || !addVolumeSeries) return;
+
+    if (!visible && volumeSeriesRef.current) {
+      chart.removeSeries(volumeSeriesRef.current);
+      volumeSeriesRef.current = null;
+    } else if (visible && !volumeSeriesRef.current) {
+      const volumeSeries = addVolumeSeries();
+      volumeSeries.setData(
+        mapCandlesToSeriesData(candlesRef.current).volumeData,
+      );
+      volumeSeriesRef.current = volumeSeries;
+    }
+  }, []);
+
+  const takeScreenshot = useCallback(
+    () => chartRef.current?.takeScreenshot() ?? null,
+    [],
+  );
+
+  /**
+   * Call `handler` whenever the user scrolls or zooms the time scale.
+   * Returns the function that unsubscribes it.
+   */
+  const subscribeVisibleRange = useCallback(
+    (handler: (range: VisibleRange) => void) => {
+      const timeScale = chartRef.current?.timeScale();
+      if (!timeScale) return () => {};
+
+      const listener = (range: LogicalRange | null) => {
+        if (range) handler({ from: range.from, to: range.to });
+      };
+      timeScale.subscribeVisibleLogicalRangeChange(listener);
+      return () => timeScale.unsubscribeVisibleLogicalRangeChange(listener);
+    },
+    [],
+  );
+
+  return {
+    containerRef,
+    setCandles,
+    updateCandle,
+    addIndicator,
+    removeIndicator,
+    fitContent,
+    resetZoom,
+    setScaleMode,
+    setCrosshairMode,
+    setVolumeVisible,
+    takeScreenshot,
+    subscribeVisibleRange,
+    isReady,
+  };
+}
+
+/**
+ * Recompute an indicator over `candles` and replace its series data.
+ */
+function seedChartIndicator(indicator: ChartIndicator, candles: Candle[]) {
+  const { state, points } = seedIndicator(indicator.state.config, candles);
+  indicator.state = state;
+  indicator.series.forEach((series, i) =>
+    series.setData(points.map((point) => toIndicatorLineData(point, i))),
+  );
 }
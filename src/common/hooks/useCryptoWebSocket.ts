@@ -1,128 +1,402 @@
-import { useEffect, useRef, useState } from "react";
-import type { Candle, CryptoPair, OrderBook } from "../../services/apiTypes";
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import type {
+  Candle,
+  CryptoPair,
+  OrderBook,
+  OrderBookDelta,
+  PairInfo,
+  StreamMode,
+  Ticker,
+  Trade,
+} from "../../services/apiTypes";
+import { fetchOrderBook } from "../../services/cryptoApiService";
+import type {
+  OrderBookEvent,
+  StreamSubscription,
+} from "../../services/streamClient";
+import {
+  DEFAULT_BACKOFF_POLICY,
+  getBackoffDelay,
+  type BackoffPolicy,
+} from "../utils/backoff";
+import { applyOrderBookDelta } from "../utils/orderBookDeltas";
+import { DEFAULT_PAIRS } from "../utils/pairCatalogue";
+import {
+  getDesiredSubscriptions,
+  getWatchlistSubscriptions,
+  type Subscription,
+} from "../utils/streamSubscriptions";
+import { useStreamClient } from "./useStreamClient";
 
-interface SubscribePayload {
-  type: "subscribe" | "unsubscribe";
-  pair: CryptoPair;
-  stream: "all";
-}
+/** Sliding window (ms) used to compute the inbound message rate. */
+const MESSAGE_RATE_WINDOW_MS = 60_000;
+/** How often (ms) the message rate is recomputed while no messages arrive. */
+const MESSAGE_RATE_REFRESH_MS = 5_000;
+/**
+ * Live trades kept in memory, newest first. The trade tape shows as many,
+ * so live trades never fall off it before its own limit.
+ */
+export const MAX_LIVE_TRADES = 500;
+/** Levels kept per side of the book maintained from deltas. */
+const MAX_ORDER_BOOK_DEPTH = 50;
+/** Default watchlist — a constant so the subscription effect stays quiet. */
+const NO_PAIRS: readonly CryptoPair[] = [];
+
+/** Latest value per watched pair. */
+type PerPair<T> = Partial<Record<CryptoPair, T>>;
+
+/** `record` without the entry for `pair`. */
+const omitPair = <T>(record: PerPair<T>, pair: CryptoPair): PerPair<T> =>
+  Object.fromEntries(
+    Object.entries(record).filter(([key]) => key !== pair),
+  ) as PerPair<T>;
 
-interface CandleUpdateMessage {
-  type: "candle_update";
-  pair: CryptoPair;
-  candle: Candle;
+/**
+ * `subscription`, also running `discard` once it is released — data from
+ * a topic nobody holds is stale, and a panel that comes back later must
+ * not briefly show an old snapshot.
+ */
+const discardOnRelease = (
+  subscription: StreamSubscription,
+  discard: () => void,
+): StreamSubscription => ({
+  unsubscribe: () => {
+    subscription.unsubscribe();
+    discard();
+  },
+});
+
+/**
+ * Local order book kept up to date from `orderbook_delta` messages.
+ *
+ * `buffer` is non-null while a REST re-sync is in flight; it collects the
+ * deltas that arrive meanwhile so they can be replayed on top of the
+ * fresh snapshot. A new object is created whenever the book is reset, so
+ * a re-sync that finishes afterwards can tell that its result is stale.
+ *
+ * Re-syncs back off: `attempts` counts re-syncs since a delta last applied
+ * cleanly, and gaps found before `retryAt` are dropped instead of fetching
+ * again. `snapshotOnly` is set when the REST book carries no `sequence` —
+ * deltas cannot be lined up with it, so they are ignored and the book only
+ * changes with full snapshots until the sync state is reset.
+ */
+interface DeltaSync {
+  book: OrderBook | null;
+  buffer: OrderBookDelta[] | null;
+  attempts: number;
+  retryAt: number;
+  snapshotOnly: boolean;
 }
 
-interface OrderBookUpdateMessage {
-  type: "orderbook_update";
-  pair: CryptoPair;
-  data: OrderBook;
+const createDeltaSync = (): DeltaSync => ({
+  book: null,
+  buffer: null,
+  attempts: 0,
+  retryAt: 0,
+  snapshotOnly: false,
+});
+
+/**
+ * Drop timestamps that fell out of the rate window (mutates `times`)
+ * and return how many remain.
+ */
+function countRecentMessages(times: number[], now: number): number {
+  while (times.length > 0 && times[0] <= now - MESSAGE_RATE_WINDOW_MS) {
+    times.shift();
+  }
+  return times.length;
 }
 
-interface ErrorMessage {
-  type: "error";
-  message: string;
+export interface UseCryptoWebSocketOptions {
+  /**
+   * Override parts of the reconnection policy. Only used when no
+   * `StreamClientProvider` is mounted; read once on mount.
+   */
+  reconnect?: Partial<BackoffPolicy>;
+  /**
+   * Extra pairs to follow alongside `pair`, e.g. for a watchlist. Their
+   * live candles and tickers are returned per pair in `watchedCandles` and
+   * `watchedTickers`. Compared by reference — pass a stable array.
+   */
+  watchlist?: readonly CryptoPair[];
+  /**
+   * The pair catalogue, e.g. from `usePairs`; defaults to the built-in
+   * pairs. Unknown and halted pairs are not streamed, and a new catalogue
+   * re-evaluates the subscriptions, e.g. when a pair is halted. Compared
+   * by reference — pass a stable array.
+   */
+  pairs?: readonly PairInfo[];
 }
 
-type InboundMessage =
-  | CandleUpdateMessage
-  | OrderBookUpdateMessage
-  | ErrorMessage;
+/**
+ * Live data for the selected pair (and an optional watchlist), received
+ * through the stream client. Holds only the topics the current pair and
+ * stream mode need; other consumers of the same client share the socket.
+ */
+export function useCryptoWebSocket(
+  pair: CryptoPair,
+  streamMode: StreamMode = "all",
+  {
+    reconnect,
+    watchlist = NO_PAIRS,
+    pairs = DEFAULT_PAIRS,
+  }: UseCryptoWebSocketOptions = {},
+) {
+  const client = useStreamClient({ reconnect });
+  const { status, reconnectAttempt, nextRetryAt } = useSyncExternalStore(
+    client.onStateChange,
+    client.getState,
+  );
 
-export function useCryptoWebSocket(pair: CryptoPair) {
-  const wsUrl = import.meta.env.VITE_WS_URL || "ws://localhost:3001";
-  const socketRef = useRef<WebSocket | null>(null);
-  const currentPairRef = useRef<CryptoPair | null>(null);
+  // Open client subscriptions, keyed by consumer and topic
+  const handlesRef = useRef(new Map<string, StreamSubscription>());
 
   const [updatedCandle, setUpdatedCandle] = useState<Candle | null>(null);
   const [orderBook, setOrderBook] = useState<OrderBook | null>(null);
+  // Trades received since subscribing, newest first. Kept as a list rather
+  // than just the latest one so trades arriving in one render batch survive.
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [ticker, setTicker] = useState<Ticker | null>(null);
+  const [watchedCandles, setWatchedCandles] = useState<PerPair<Candle>>({});
+  const [watchedTickers, setWatchedTickers] = useState<PerPair<Ticker>>({});
+
+  // Epoch ms of the most recent inbound frame, null until the first one.
+  const [lastMessageAt, setLastMessageAt] = useState<number | null>(null);
+  // Inbound frames received during the last MESSAGE_RATE_WINDOW_MS.
+  const [messagesPerMinute, setMessagesPerMinute] = useState(0);
+  const messageTimesRef = useRef<number[]>([]);
+  const deltaSyncRef = useRef<DeltaSync>(createDeltaSync());
 
   /*
-   * Establish WebSocket connection once
+   * Track the connection. Sequence numbers are per connection, so every
+   * (re)open starts the delta sync over from a fresh snapshot.
    */
   useEffect(() => {
-    const socket = new WebSocket(wsUrl);
-    socketRef.current = socket;
-    currentPairRef.current = "BTC-USDT";
-
-    socket.onopen = () => {
-      console.log("WebSocket connected");
-
-      // Default subscription on initial load
-      socket.send(
-        JSON.stringify({
-          type: "subscribe",
-          pair: "BTC-USDT",
-          stream: "all",
-        } satisfies SubscribePayload),
+    let previous = client.getState().status;
+    const stopState = client.onStateChange(({ status: next }) => {
+      if (next === "open" && previous !== "open") {
+        deltaSyncRef.current = createDeltaSync();
+      }
+      previous = next;
+    });
+    const stopFrames = client.onFrame((receivedAt) => {
+      messageTimesRef.current.push(receivedAt);
+      setLastMessageAt(receivedAt);
+      setMessagesPerMinute(
+        countRecentMessages(messageTimesRef.current, receivedAt),
       );
+    });
+
+    return () => {
+      stopState();
+      stopFrames();
     };
+  }, [client]);
 
-    socket.onmessage = (event: MessageEvent<string>) => {
-      let msg: InboundMessage;
-      try {
-        msg = JSON.parse(event.data) as InboundMessage;
-      } catch {
+  /*
+   * Let the message rate decay while the stream is silent — otherwise the
+   * last computed value would stick forever once messages stop arriving.
+   */
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setMessagesPerMinute(
+        countRecentMessages(messageTimesRef.current, Date.now()),
+      );
+    }, MESSAGE_RATE_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  /*
+   * Hold the topics the selected pair, stream mode and watchlist need.
+   * Only the difference from the previous render is (un)subscribed, drops
+   * first, so topics that stay wanted never blink on the server. The client
+   * queues whatever changes while the socket is down. Which pairs can be
+   * streamed comes from the `pairs` catalogue.
+   */
+  useEffect(() => {
+    /*
+     * Apply a delta to the local book. The first delta (no book yet) and
+     * any delta that skips a sequence number trigger a re-sync instead,
+     * unless the previous re-sync is too recent.
+     */
+    const applyDelta = (delta: OrderBookDelta) => {
+      const sync = deltaSyncRef.current;
+      if (sync.snapshotOnly) return;
+      if (sync.buffer) {
+        sync.buffer.push(delta);
         return;
       }
 
-      // Ignore messages for pairs we are no longer subscribed to
-      if (msg.type === "error") {
-        console.warn("[ws] server error:", msg.message);
-        return;
+      const result = sync.book
+        ? applyOrderBookDelta(sync.book, delta, MAX_ORDER_BOOK_DEPTH)
+        : ({ status: "gap" } as const);
+      if (result.status === "applied") {
+        sync.book = result.book;
+        sync.attempts = 0;
+        setOrderBook(result.book);
+      } else if (result.status === "gap") {
+        const now = Date.now();
+        if (now < sync.retryAt) return;
+        sync.attempts += 1;
+        sync.retryAt =
+          now + getBackoffDelay(sync.attempts, DEFAULT_BACKOFF_POLICY);
+        sync.buffer = [delta];
+        void resync(delta.pair, sync);
       }
+    };
 
-      if (msg.pair !== currentPairRef.current) return;
+    /*
+     * Replace the local book with a REST snapshot and replay the deltas
+     * buffered since the gap was found. Deltas the snapshot already covers
+     * are skipped; if the snapshot is too old to continue from, the next
+     * delta after the back-off triggers another re-sync. A snapshot without
+     * a `sequence` switches the book to snapshot-only mode.
+     */
+    const resync = async (syncPair: CryptoPair, sync: DeltaSync) => {
+      let snapshot: OrderBook;
+      try {
+        snapshot = await fetchOrderBook(syncPair);
+      } catch (error) {
+        console.warn(`[ws] order book re-sync failed for ${syncPair}:`, error);
+        sync.buffer = null;
+        return;
+      }
+      if (deltaSyncRef.current !== sync) return;
 
-      switch (msg.type) {
-        case "candle_update":
-          setUpdatedCandle(msg.candle);
-          break;
+      if (snapshot.sequence === undefined) {
+        console.warn(
+          `[ws] order book snapshot for ${syncPair} has no sequence; ignoring deltas`,
+        );
+        sync.snapshotOnly = true;
+        sync.book = snapshot;
+        sync.buffer = null;
+        setOrderBook(snapshot);
+        return;
+      }
 
-        case "orderbook_update":
-          setOrderBook(msg.data);
-          break;
+      let book = snapshot;
+      for (const delta of sync.buffer ?? []) {
+        const result = applyOrderBookDelta(book, delta, MAX_ORDER_BOOK_DEPTH);
+        if (result.status === "gap") break;
+        if (result.status === "applied") book = result.book;
       }
+      sync.book = book;
+      sync.buffer = null;
+      setOrderBook(book);
     };
 
-    socket.onclose = () => {
-      console.log("WebSocket disconnected");
+    const handleOrderBook = (event: OrderBookEvent) => {
+      if (event.type === "delta") {
+        applyDelta(event.delta);
+        return;
+      }
+      deltaSyncRef.current.book = event.book;
+      setOrderBook(event.book);
     };
 
-    return () => {
-      socket.close();
+    const subscribeMain = ({ pair: topicPair, stream }: Subscription) => {
+      switch (stream) {
+        case "candles":
+          return discardOnRelease(
+            client.subscribe(topicPair, stream, setUpdatedCandle),
+            () => setUpdatedCandle(null),
+          );
+        case "orderbook":
+          return discardOnRelease(
+            client.subscribe(topicPair, stream, handleOrderBook),
+            () => {
+              setOrderBook(null);
+              deltaSyncRef.current = createDeltaSync();
+            },
+          );
+        case "trades":
+          return discardOnRelease(
+            client.subscribe(topicPair, stream, (trade) =>
+              setTrades((current) =>
+                [trade, ...current].slice(0, MAX_LIVE_TRADES),
+              ),
+            ),
+            () => setTrades([]),
+          );
+      }
     };
-  }, []);
 
-  useEffect(() => {
-    const socket = socketRef.current;
-    if (!socket || socket.readyState !== WebSocket.OPEN) return;
-
-    const previousPair = currentPairRef.current;
-
-    if (previousPair && previousPair !== pair) {
-      socket.send(
-        JSON.stringify({
-          type: "unsubscribe",
-          pair: previousPair,
-          stream: "all",
-        } satisfies SubscribePayload),
+    const main = getDesiredSubscriptions(pair, streamMode, pairs);
+    const wanted = new Map<string, () => StreamSubscription>();
+    for (const subscription of main) {
+      wanted.set(`main|${subscription.pair}|${subscription.stream}`, () =>
+        subscribeMain(subscription),
+      );
+    }
+    // The ticker belongs to the pair, not to a channel; a pair that cannot
+    // be streamed gets none
+    if (main.length > 0) {
+      wanted.set(`main-ticker|${pair}`, () =>
+        discardOnRelease(client.subscribeTicker(pair, setTicker), () =>
+          setTicker(null),
+        ),
+      );
+    }
+    for (const { pair: watchedPair } of getWatchlistSubscriptions(
+      watchlist,
+      pairs,
+    )) {
+      wanted.set(`watched|${watchedPair}`, () =>
+        discardOnRelease(
+          client.subscribe(watchedPair, "candles", (candle) =>
+            setWatchedCandles((current) => ({
+              ...current,
+              [watchedPair]: candle,
+            })),
+          ),
+          () => setWatchedCandles((current) => omitPair(current, watchedPair)),
+        ),
+      );
+      wanted.set(`watched-ticker|${watchedPair}`, () =>
+        discardOnRelease(
+          client.subscribeTicker(watchedPair, (update) =>
+            setWatchedTickers((current) => ({
+              ...current,
+              [watchedPair]: update,
+            })),
+          ),
+          () => setWatchedTickers((current) => omitPair(current, watchedPair)),
+        ),
       );
     }
 
-    socket.send(
-      JSON.stringify({
-        type: "subscribe",
-        pair,
-        stream: "all",
-      } satisfies SubscribePayload),
-    );
+    const handles = handlesRef.current;
+    for (const [key, handle] of handles) {
+      if (wanted.has(key)) continue;
+      handle.unsubscribe();
+      handles.delete(key);
+    }
+    for (const [key, open] of wanted) {
+      if (!handles.has(key)) handles.set(key, open());
+    }
+  }, [client, pair, streamMode, watchlist, pairs]);
 
-    currentPairRef.current = pair;
-  }, [pair]);
+  // Release every topic on unmount so the client can unsubscribe them
+  useEffect(() => {
+    const handles = handlesRef.current;
+    return () => {
+      for (const handle of handles.values()) handle.unsubscribe();
+      handles.clear();
+    };
+  }, [client]);
 
   return {
     updatedCandle,
     orderBook,
+    trades,
+    ticker,
+    watchedCandles,
+    watchedTickers,
+    status,
+    lastMessageAt,
+    messagesPerMinute,
+    reconnectAttempt,
+    nextRetryAt,
   };
 }
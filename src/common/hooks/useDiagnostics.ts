@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+import {
+  getDiagnostics,
+  subscribeDiagnostics,
+  type Diagnostic,
+} from "../../services/diagnostics";
+
+/**
+ * Reports from the diagnostics channel, oldest first. Re-renders whenever
+ * a new one arrives.
+ */
+export function useDiagnostics(): readonly Diagnostic[] {
+  return useSyncExternalStore(subscribeDiagnostics, getDiagnostics);
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import type { PairInfo } from "../../services/apiTypes";
+import { fetchPairs } from "../../services/cryptoApiService";
+import { DEFAULT_PAIRS } from "../utils/pairCatalogue";
+
+/**
+ * The pair catalogue.
+ *
+ * Starts from the default pairs, then fetches `GET /api/pairs` once.
+ * Pass the result to whatever needs the backend's metadata — price
+ * formatting, grouping steps, subscriptions. If the catalogue cannot be
+ * loaded, or comes back empty, the defaults stay in use.
+ */
+export function usePairs() {
+  const [pairs, setPairs] = useState<PairInfo[]>(DEFAULT_PAIRS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPairs()
+      .then((data) => {
+        if (cancelled) return;
+        if (data.length === 0) {
+          console.warn("[pairs] empty pair catalogue — keeping the defaults");
+        } else {
+          setPairs(data);
+        }
+        setLoading(false);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.warn("[pairs] failed to load the pair catalogue:", err);
+        setError("Failed to fetch pairs");
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { pairs, loading, error };
+}
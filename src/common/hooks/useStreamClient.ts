@@ -0,0 +1,69 @@
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import type { CryptoPair, StreamChannel } from "../../services/apiTypes";
+import {
+  createStreamClient,
+  type StreamClient,
+  type StreamHandler,
+} from "../../services/streamClient";
+import type { BackoffPolicy } from "../utils/backoff";
+
+/** The app-wide client, provided by `StreamClientProvider`. */
+export const StreamClientContext = createContext<StreamClient | null>(null);
+
+export interface UseStreamClientOptions {
+  /**
+   * Reconnection policy for the client created when no provider is
+   * mounted. Read once on mount — later changes are ignored.
+   */
+  reconnect?: Partial<BackoffPolicy>;
+}
+
+/**
+ * The shared stream client from the nearest `StreamClientProvider`.
+ *
+ * Outside a provider the component gets a client of its own, connected
+ * while it is mounted — handy for tests and isolated widgets, but every
+ * such component opens its own socket.
+ */
+export function useStreamClient({
+  reconnect,
+}: UseStreamClientOptions = {}): StreamClient {
+  const shared = useContext(StreamClientContext);
+  const [owned] = useState(() =>
+    shared ? null : createStreamClient({ reconnect }),
+  );
+
+  useEffect(() => {
+    if (!owned) return;
+    owned.connect();
+    return () => owned.close();
+  }, [owned]);
+
+  return (shared ?? owned)!;
+}
+
+/**
+ * Receive `stream` messages for `pair` while the component is mounted.
+ * Pass a null pair to hold no subscription. The latest `handler` is always
+ * called, so it does not need to be memoised.
+ */
+export function useStreamSubscription<S extends StreamChannel>(
+  pair: CryptoPair | null,
+  stream: S,
+  handler: StreamHandler<S>,
+): void {
+  const client = useStreamClient();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (pair === null) return;
+    const subscription = client.subscribe(pair, stream, (payload) =>
+      handlerRef.current(payload),
+    );
+    return () => subscription.unsubscribe();
+  }, [client, pair, stream]);
+}
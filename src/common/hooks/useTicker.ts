@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import type { Candle, CryptoPair } from "../../services/apiTypes";
+import { fetchCandles } from "../../services/cryptoApiService";
+import { computeTicker, mergeLiveCandle } from "../utils/ticker";
+import type { useCryptoWebSocket } from "./useCryptoWebSocket";
+
+/** The live data `useTicker` reads from `useCryptoWebSocket`. */
+export type TickerStream = Pick<
+  ReturnType<typeof useCryptoWebSocket>,
+  "updatedCandle" | "ticker"
+>;
+
+/** Direction of the last price change, used to flash the price. */
+export type PriceDirection = "up" | "down";
+
+interface PriceFlash {
+  last: number | null;
+  direction: PriceDirection | null;
+  /** Bumped on every change so the flash animation restarts. */
+  key: number;
+}
+
+/**
+ * 24h ticker for a pair.
+ *
+ * Prefers the server's `ticker` message when one has arrived for the pair.
+ * Otherwise the ticker is computed from the hourly candle history (shared
+ * with the chart through the candle cache) plus the live candle.
+ */
+export function useTicker(
+  pair: CryptoPair,
+  { updatedCandle, ticker: streamedTicker }: TickerStream,
+) {
+  const [candles, setCandles] = useState<{
+    pair: CryptoPair;
+    data: Candle[];
+  } | null>(null);
+  const [flash, setFlash] = useState<PriceFlash>({
+    last: null,
+    direction: null,
+    key: 0,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const store = (data: Candle[]) => {
+      if (!cancelled) setCandles({ pair, data });
+    };
+    // Cached candles may be stale; recompute once the fresh ones arrive
+    fetchCandles(pair, "1H", { onRevalidate: store })
+      .then(store)
+      .catch((error: unknown) => {
+        // The ticker is a nice-to-have — the chart reports load failures
+        console.warn(`[ticker] failed to load candles for ${pair}:`, error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pair]);
+
+  const history = candles?.pair === pair ? candles.data : null;
+  const ticker =
+    streamedTicker?.pair === pair
+      ? streamedTicker
+      : history
+        ? computeTicker(pair, mergeLiveCandle(history, updatedCandle))
+        : null;
+
+  // Track the previous price during render so each change flashes once
+  const last = ticker?.last ?? null;
+  if (last !== flash.last) {
+    setFlash({
+      last,
+      direction:
+        flash.last === null || last === null
+          ? null
+          : last > flash.last
+            ? "up"
+            : "down",
+      key: flash.key + 1,
+    });
+  }
+
+  return {
+    ticker,
+    direction: flash.direction,
+    flashKey: flash.key,
+  };
+}
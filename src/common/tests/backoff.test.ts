@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BACKOFF_POLICY,
+  getBackoffDelay,
+  type BackoffPolicy,
+} from "../utils/backoff";
+
+const noJitter: BackoffPolicy = {
+  initialDelayMs: 1_000,
+  maxDelayMs: 10_000,
+  multiplier: 2,
+  jitter: 0,
+  maxAttempts: 5,
+};
+
+describe("getBackoffDelay", () => {
+  it("uses the initial delay for the first attempt", () => {
+    expect(getBackoffDelay(1, noJitter)).toBe(1_000);
+  });
+
+  it("grows the delay exponentially with each attempt", () => {
+    expect(getBackoffDelay(2, noJitter)).toBe(2_000);
+    expect(getBackoffDelay(3, noJitter)).toBe(4_000);
+    expect(getBackoffDelay(4, noJitter)).toBe(8_000);
+  });
+
+  it("caps the delay at maxDelayMs", () => {
+    expect(getBackoffDelay(5, noJitter)).toBe(10_000);
+    expect(getBackoffDelay(20, noJitter)).toBe(10_000);
+  });
+
+  it("subtracts up to `jitter` of the delay using the random source", () => {
+    const policy = { ...noJitter, jitter: 0.5 };
+    expect(getBackoffDelay(1, policy, () => 0)).toBe(1_000);
+    expect(getBackoffDelay(1, policy, () => 0.5)).toBe(750);
+    expect(getBackoffDelay(1, policy, () => 1)).toBe(500);
+  });
+
+  it("clamps jitter values outside 0..1", () => {
+    expect(getBackoffDelay(1, { ...noJitter, jitter: 2 }, () => 0.5)).toBe(500);
+    expect(getBackoffDelay(1, { ...noJitter, jitter: -1 }, () => 0.5)).toBe(
+      1_000,
+    );
+  });
+
+  it("falls back to the default policy", () => {
+    const delay = getBackoffDelay(1);
+    expect(delay).toBeGreaterThanOrEqual(
+      DEFAULT_BACKOFF_POLICY.initialDelayMs *
+        (1 - DEFAULT_BACKOFF_POLICY.jitter),
+    );
+    expect(delay).toBeLessThanOrEqual(DEFAULT_BACKOFF_POLICY.initialDelayMs);
+  });
+});
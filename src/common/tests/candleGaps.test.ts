@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import type { Candle } from "../../services/apiTypes";
+import {
+  checkTickContinuity,
+  foldTick,
+  mergeCandles,
+  refreshHistory,
+} from "../utils/candleGaps";
+
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+const candle = (hour: number, close = 100): Candle => ({
+  time: T0 + hour * HOUR,
+  open: 100,
+  high: 110,
+  low: 90,
+  close,
+  volume: 10,
+});
+
+// ---------------------------------------------------------------------------
+// checkTickContinuity
+// ---------------------------------------------------------------------------
+describe("checkTickContinuity", () => {
+  it("accepts an update of the last candle", () => {
+    expect(checkTickContinuity(T0, T0, HOUR)).toEqual({ kind: "next" });
+  });
+
+  it("accepts the candle right after the last one", () => {
+    expect(checkTickContinuity(T0, T0 + HOUR, HOUR)).toEqual({ kind: "next" });
+  });
+
+  it("flags a tick older than the last candle", () => {
+    expect(checkTickContinuity(T0, T0 - HOUR, HOUR)).toEqual({
+      kind: "stale",
+    });
+  });
+
+  it("reports the missing range when candles were skipped", () => {
+    expect(checkTickContinuity(T0, T0 + 4 * HOUR, HOUR)).toEqual({
+      kind: "gap",
+      gap: { from: T0 + HOUR, to: T0 + 3 * HOUR },
+    });
+  });
+
+  it("measures a finer tick at the resolution of the history", () => {
+    const DAY = 24 * HOUR;
+    expect(checkTickContinuity(T0, T0 + DAY + 13 * HOUR, DAY)).toEqual({
+      kind: "next",
+    });
+    expect(checkTickContinuity(T0, T0 + 3 * DAY + 13 * HOUR, DAY)).toEqual({
+      kind: "gap",
+      gap: { from: T0 + DAY, to: T0 + 2 * DAY },
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// foldTick
+// ---------------------------------------------------------------------------
+describe("foldTick", () => {
+  const FOUR_HOURS = 4 * HOUR;
+
+  it("merges a tick at the history's resolution as is", () => {
+    expect(foldTick([candle(0)], candle(1, 105), HOUR)).toEqual([
+      candle(0),
+      candle(1, 105),
+    ]);
+  });
+
+  it("rolls a finer tick into the candle of its interval", () => {
+    const tick = { ...candle(2, 120), high: 130, low: 95, volume: 3 };
+    expect(foldTick([candle(0)], tick, FOUR_HOURS)).toEqual([
+      { ...candle(0), high: 130, close: 120 },
+    ]);
+  });
+
+  it("opens the next candle for a finer tick past the last interval", () => {
+    expect(foldTick([candle(0)], candle(5, 120), FOUR_HOURS)).toEqual([
+      candle(0),
+      { ...candle(5, 120), time: candle(4).time },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeCandles
+// ---------------------------------------------------------------------------
+describe("mergeCandles", () => {
+  it("appends candles newer than the series", () => {
+    expect(mergeCandles([candle(0)], [candle(1), candle(2)])).toEqual([
+      candle(0),
+      candle(1),
+      candle(2),
+    ]);
+  });
+
+  it("fills a hole in the middle, keeping time order", () => {
+    expect(
+      mergeCandles([candle(0), candle(3)], [candle(1), candle(2)]),
+    ).toEqual([candle(0), candle(1), candle(2), candle(3)]);
+  });
+
+  it("lets the incoming candle win at the same time", () => {
+    expect(mergeCandles([candle(0), candle(1)], [candle(1, 105)])).toEqual([
+      candle(0),
+      candle(1, 105),
+    ]);
+  });
+
+  it("does not modify its inputs", () => {
+    const existing = [candle(0)];
+    const merged = mergeCandles(existing, []);
+    expect(merged).toEqual(existing);
+    expect(merged).not.toBe(existing);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// refreshHistory
+// ---------------------------------------------------------------------------
+describe("refreshHistory", () => {
+  it("keeps cached candles that reach the fresh window", () => {
+    expect(
+      refreshHistory(
+        [candle(0), candle(1), candle(2)],
+        [candle(2, 105), candle(3)],
+        HOUR,
+      ),
+    ).toEqual([candle(0), candle(1), candle(2, 105), candle(3)]);
+  });
+
+  it("keeps cached candles that end right before the fresh window", () => {
+    expect(refreshHistory([candle(0)], [candle(1)], HOUR)).toEqual([
+      candle(0),
+      candle(1),
+    ]);
+  });
+
+  it("replaces cached candles that would leave a hole", () => {
+    expect(refreshHistory([candle(0), candle(1)], [candle(72)], HOUR)).toEqual([
+      candle(72),
+    ]);
+  });
+
+  it("takes the fresh candles when nothing is cached", () => {
+    expect(refreshHistory([], [candle(0)], HOUR)).toEqual([candle(0)]);
+  });
+});
@@ -4,6 +4,7 @@ import {
   toCandlestickData,
   toVolumeData,
   mapCandlesToSeriesData,
+  toIndicatorLineData,
 } from "../utils/chartDataMapper";
 import type { Candle } from "../../services/apiTypes";
 
@@ -111,4 +112,12 @@ describe("chartDataMapper utils", () => {
       },
     ]);
   });
+
+  it("toIndicatorLineData picks one line of an indicator point", () => {
+    const point = { time: 1680000000000, values: [100, 104, 96] };
+    expect(toIndicatorLineData(point, 1)).toEqual({
+      time: Math.floor(1680000000000 / 1000),
+      value: 104,
+    });
+  });
 });
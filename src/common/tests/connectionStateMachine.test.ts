@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  INITIAL_CONNECTION_STATUS,
+  transitionConnection,
+  type ConnectionEvent,
+  type ConnectionStatus,
+} from "../utils/connectionStateMachine";
+
+const OPEN: ConnectionEvent = { type: "OPEN" };
+const ERROR: ConnectionEvent = { type: "ERROR" };
+const CLOSE: ConnectionEvent = { type: "CLOSE" };
+const RETRY: ConnectionEvent = { type: "RETRY" };
+const GIVE_UP: ConnectionEvent = { type: "GIVE_UP" };
+
+/** Replays a sequence of events from the initial state. */
+function run(...events: ConnectionEvent[]): ConnectionStatus {
+  return events.reduce(transitionConnection, INITIAL_CONNECTION_STATUS);
+}
+
+describe("transitionConnection", () => {
+  it("starts in the connecting state", () => {
+    expect(INITIAL_CONNECTION_STATUS).toBe("connecting");
+  });
+
+  it("connecting → open on OPEN", () => {
+    expect(run(OPEN)).toBe("open");
+  });
+
+  it("open → error on ERROR", () => {
+    expect(run(OPEN, ERROR)).toBe("error");
+  });
+
+  it("keeps the error state visible when CLOSE follows ERROR", () => {
+    expect(run(OPEN, ERROR, CLOSE)).toBe("error");
+  });
+
+  it("open → closed on CLOSE", () => {
+    expect(run(OPEN, CLOSE)).toBe("closed");
+  });
+
+  it("moves to reconnecting when a retry is scheduled", () => {
+    expect(run(OPEN, CLOSE, RETRY)).toBe("reconnecting");
+    expect(run(OPEN, ERROR, CLOSE, RETRY)).toBe("reconnecting");
+  });
+
+  it("stays reconnecting while retries fail", () => {
+    expect(run(OPEN, CLOSE, RETRY, ERROR, CLOSE, RETRY)).toBe("reconnecting");
+  });
+
+  it("reconnecting → open when a retry succeeds", () => {
+    expect(run(OPEN, CLOSE, RETRY, OPEN)).toBe("open");
+  });
+
+  it("reconnecting → closed when retries are exhausted", () => {
+    expect(run(OPEN, CLOSE, RETRY, CLOSE, GIVE_UP)).toBe("closed");
+  });
+
+  it("ignores events that are not valid for the current state", () => {
+    expect(transitionConnection("closed", CLOSE)).toBe("closed");
+    expect(transitionConnection("open", OPEN)).toBe("open");
+  });
+});
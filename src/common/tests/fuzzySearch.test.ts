@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { fuzzyFilter, fuzzyScore } from "../utils/fuzzySearch";
+
+describe("fuzzyScore", () => {
+  it("matches characters in order, case-insensitively", () => {
+    expect(fuzzyScore("btc", "BTCUSDT")).not.toBeNull();
+    expect(fuzzyScore("bus", "BTCUSDT")).not.toBeNull();
+  });
+
+  it("returns null when a character is missing or out of order", () => {
+    expect(fuzzyScore("btx", "BTCUSDT")).toBeNull();
+    expect(fuzzyScore("ctb", "BTCUSDT")).toBeNull();
+  });
+
+  it("scores a prefix above a scattered match", () => {
+    expect(fuzzyScore("eth", "ETHUSDT")!).toBeGreaterThan(
+      fuzzyScore("eth", "ETCUSDTH")!,
+    );
+  });
+
+  it("scores adjacent characters above gapped ones", () => {
+    expect(fuzzyScore("us", "USDT")!).toBeGreaterThan(
+      fuzzyScore("ud", "USDT")!,
+    );
+  });
+
+  it("matches everything with an empty query", () => {
+    expect(fuzzyScore("", "BTCUSDT")).toBe(0);
+  });
+});
+
+describe("fuzzyFilter", () => {
+  const symbols = ["ETCUSDT", "BTCETH", "ETHUSDT", "XRPUSDT"];
+
+  it("drops non-matches and ranks the best match first", () => {
+    expect(fuzzyFilter(symbols, "eth", (s) => s)).toEqual([
+      "ETHUSDT",
+      "BTCETH",
+    ]);
+  });
+
+  it("keeps the original order for equal scores", () => {
+    expect(fuzzyFilter(symbols, "usdt", (s) => s)).toEqual([
+      "ETCUSDT",
+      "ETHUSDT",
+      "XRPUSDT",
+    ]);
+  });
+
+  it("returns every item for an empty query", () => {
+    expect(fuzzyFilter(symbols, "", (s) => s)).toEqual(symbols);
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, it, expect } from "vitest";
+import type { Candle } from "../../services/apiTypes";
+import {
+  applyIndicatorTick,
+  computeIndicator,
+  getIndicatorLabel,
+  getIndicatorLevels,
+  getIndicatorLines,
+  getIndicatorPlacement,
+  seedIndicator,
+  type IndicatorConfig,
+} from "../utils/indicators";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const HOUR = 3_600_000;
+// 2024-01-01 00:00 UTC
+const T0 = Date.UTC(2024, 0, 1);
+
+const candle = (hour: number, close: number, volume = 10): Candle => ({
+  time: T0 + hour * HOUR,
+  open: close,
+  high: close + 2,
+  low: close - 2,
+  close,
+  volume,
+});
+
+const series = (closes: number[]) => closes.map((c, i) => candle(i, c));
+
+const values = (config: IndicatorConfig, candles: Candle[]) =>
+  computeIndicator(config, candles).map((p) => p.values);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("indicators", () => {
+  describe("sma", () => {
+    it("averages the last `period` closes", () => {
+      expect(
+        values({ type: "sma", period: 3 }, series([1, 2, 3, 4, 5])),
+      ).toEqual([[2], [3], [4]]);
+    });
+
+    it("emits nothing during the warm-up period", () => {
+      const points = computeIndicator(
+        { type: "sma", period: 3 },
+        series([1, 2, 3]),
+      );
+      expect(points).toEqual([{ time: T0 + 2 * HOUR, values: [2] }]);
+    });
+  });
+
+  describe("ema", () => {
+    it("seeds with the SMA and then smooths with k = 2 / (period + 1)", () => {
+      // k = 0.5: seed (1+2+3)/3 = 2, then 4*0.5 + 2*0.5 = 3, then 4
+      expect(
+        values({ type: "ema", period: 3 }, series([1, 2, 3, 4, 5])),
+      ).toEqual([[2], [3], [4]]);
+    });
+  });
+
+  describe("bollinger", () => {
+    it("returns the middle, upper and lower bands", () => {
+      // closes 2, 4 → mean 3, population std dev 1
+      const [point] = values(
+        { type: "bollinger", period: 2, stdDev: 2 },
+        series([2, 4]),
+      );
+      expect(point).toEqual([3, 5, 1]);
+    });
+
+    it("collapses the bands when prices are flat", () => {
+      const [point] = values(
+        { type: "bollinger", period: 3, stdDev: 2 },
+        series([5, 5, 5]),
+      );
+      expect(point).toEqual([5, 5, 5]);
+    });
+  });
+
+  describe("vwap", () => {
+    it("weights the typical price by volume", () => {
+      const candles = [candle(0, 10, 1), candle(1, 20, 3)];
+      // typical price = close here (high / low are symmetric around it)
+      expect(values({ type: "vwap" }, candles)).toEqual([[10], [17.5]]);
+    });
+
+    it("starts a new session every UTC day", () => {
+      const candles = [candle(22, 10), candle(23, 20), candle(24, 30)];
+      expect(values({ type: "vwap" }, candles)).toEqual([[10], [15], [30]]);
+    });
+
+    it("emits nothing until volume has traded", () => {
+      expect(values({ type: "vwap" }, [candle(0, 10, 0)])).toEqual([]);
+    });
+  });
+
+  describe("rsi", () => {
+    it("is 100 when prices only rise and 0 when they only fall", () => {
+      expect(values({ type: "rsi", period: 2 }, series([1, 2, 3]))).toEqual([
+        [100],
+      ]);
+      expect(values({ type: "rsi", period: 2 }, series([3, 2, 1]))).toEqual([
+        [0],
+      ]);
+    });
+
+    it("averages the first period, then applies Wilder smoothing", () => {
+      // changes +2, -1 → avgGain 1, avgLoss 0.5 → RS 2 → RSI 66.67
+      // next change +1 → avgGain (1 + 1) / 2 = 1, avgLoss 0.25 → RS 4 → 80
+      const [first, second] = values(
+        { type: "rsi", period: 2 },
+        series([10, 12, 11, 12]),
+      );
+      expect(first[0]).toBeCloseTo(200 / 3);
+      expect(second[0]).toBeCloseTo(80);
+    });
+
+    it("reports 50 for a flat series", () => {
+      expect(values({ type: "rsi", period: 2 }, series([5, 5, 5]))).toEqual([
+        [50],
+      ]);
+    });
+  });
+
+  describe("macd", () => {
+    it("returns the MACD line, its signal and the histogram", () => {
+      const config: IndicatorConfig = {
+        type: "macd",
+        fast: 2,
+        slow: 3,
+        signal: 2,
+      };
+      const closes = [1, 2, 3, 4, 5, 6];
+      const points = values(config, series(closes));
+
+      const fast = values({ type: "ema", period: 2 }, series(closes));
+      const slow = values({ type: "ema", period: 3 }, series(closes));
+      // MACD starts once the slow EMA is ready (bar 3); the signal needs two
+      const macd = slow.map(([s], i) => fast[i + 1][0] - s);
+      const signal = (macd[0] + macd[1]) / 2;
+
+      expect(points[0][0]).toBeCloseTo(macd[1]);
+      expect(points[0][1]).toBeCloseTo(signal);
+      expect(points[0][2]).toBeCloseTo(macd[1] - signal);
+      expect(points).toHaveLength(3);
+    });
+  });
+
+  describe("stochastic", () => {
+    it("places the close within the recent high-low range", () => {
+      // high = close + 2, low = close - 2 → range over 2 bars of 3, 5: 1..7
+      const [point] = values(
+        { type: "stochastic", period: 2, smoothK: 1, smoothD: 1 },
+        series([3, 5]),
+      );
+      expect(point).toEqual([(100 * (5 - 1)) / 6, (100 * (5 - 1)) / 6]);
+    });
+
+    it("smooths %K and derives %D from it", () => {
+      const points = values(
+        { type: "stochastic", period: 1, smoothK: 2, smoothD: 2 },
+        [candle(0, 10), candle(1, 12), candle(2, 8)],
+      );
+      // Raw %K over a single bar: (close - low) / (high - low) = 50 each time
+      expect(points).toEqual([[50, 50]]);
+    });
+
+    it("reports 50 when the range is flat", () => {
+      const flat = { ...candle(0, 5), high: 5, low: 5 };
+      expect(
+        values({ type: "stochastic", period: 1, smoothK: 1, smoothD: 1 }, [
+          flat,
+        ]),
+      ).toEqual([[50, 50]]);
+    });
+  });
+
+  describe("placement", () => {
+    it("draws oscillators in a pane and everything else as an overlay", () => {
+      expect(getIndicatorPlacement({ type: "rsi", period: 14 })).toBe("pane");
+      expect(
+        getIndicatorPlacement({ type: "macd", fast: 12, slow: 26, signal: 9 }),
+      ).toBe("pane");
+      expect(
+        getIndicatorPlacement({
+          type: "stochastic",
+          period: 14,
+          smoothK: 3,
+          smoothD: 3,
+        }),
+      ).toBe("pane");
+      expect(getIndicatorPlacement({ type: "vwap" })).toBe("overlay");
+    });
+
+    it("provides guide levels for bounded oscillators", () => {
+      expect(getIndicatorLevels({ type: "rsi", period: 14 })).toEqual([30, 70]);
+      expect(
+        getIndicatorLevels({ type: "macd", fast: 12, slow: 26, signal: 9 }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("labels", () => {
+    it("describes each indicator", () => {
+      expect(getIndicatorLabel({ type: "sma", period: 20 })).toBe("SMA 20");
+      expect(getIndicatorLabel({ type: "ema", period: 50 })).toBe("EMA 50");
+      expect(
+        getIndicatorLabel({ type: "bollinger", period: 20, stdDev: 2 }),
+      ).toBe("BB 20 2");
+      expect(getIndicatorLabel({ type: "vwap" })).toBe("VWAP");
+    });
+
+    it("lists one line per output value", () => {
+      expect(getIndicatorLines({ type: "sma", period: 20 })).toHaveLength(1);
+      expect(
+        getIndicatorLines({ type: "bollinger", period: 20, stdDev: 2 }),
+      ).toEqual(["middle", "upper", "lower"]);
+    });
+  });
+
+  describe("applyIndicatorTick", () => {
+    const configs: IndicatorConfig[] = [
+      { type: "sma", period: 3 },
+      { type: "ema", period: 3 },
+      { type: "bollinger", period: 3, stdDev: 2 },
+      { type: "vwap" },
+      { type: "rsi", period: 2 },
+      { type: "macd", fast: 2, slow: 3, signal: 2 },
+      { type: "stochastic", period: 2, smoothK: 2, smoothD: 1 },
+    ];
+
+    it.each(configs)("matches a full recompute for $type", (config) => {
+      const history = series([1, 2, 3, 4, 5]);
+      let { state } = seedIndicator(config, history);
+
+      // Update the newest bar twice, then open a new one
+      const ticks = [candle(4, 7), candle(4, 6), candle(5, 8)];
+      let last = null;
+      for (const tick of ticks) {
+        const applied = applyIndicatorTick(state, tick);
+        state = applied!.state;
+        last = applied!.point;
+      }
+
+      const expected = computeIndicator(config, [
+        ...series([1, 2, 3, 4, 6]),
+        candle(5, 8),
+      ]);
+      expect(last).toEqual(expected[expected.length - 1]);
+    });
+
+    it("ignores ticks older than the newest bar", () => {
+      const { state } = seedIndicator(
+        { type: "sma", period: 2 },
+        series([1, 2, 3]),
+      );
+      expect(applyIndicatorTick(state, candle(1, 9))).toBeNull();
+    });
+
+    it("returns a null point while still warming up", () => {
+      const { state } = seedIndicator({ type: "sma", period: 3 }, series([1]));
+      expect(applyIndicatorTick(state, candle(1, 2))?.point).toBeNull();
+    });
+
+    it("starts from an empty series", () => {
+      const { state } = seedIndicator({ type: "sma", period: 1 }, []);
+      expect(applyIndicatorTick(state, candle(0, 4))?.point).toEqual({
+        time: T0,
+        values: [4],
+      });
+    });
+  });
+});
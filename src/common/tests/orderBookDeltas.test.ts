@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import type { OrderBook, OrderBookDelta } from "../../services/apiTypes";
+import {
+  applyLevelChanges,
+  applyOrderBookDelta,
+} from "../utils/orderBookDeltas";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const book: OrderBook = {
+  pair: "BTC-USDT",
+  asks: [
+    [30100, 0.5],
+    [30200, 1],
+  ],
+  bids: [
+    [29900, 1.2],
+    [29800, 2],
+  ],
+  timestamp: 1_680_000_000_000,
+  sequence: 10,
+};
+
+const delta = (
+  sequence: number,
+  overrides: Partial<OrderBookDelta> = {},
+): OrderBookDelta => ({
+  pair: "BTC-USDT",
+  sequence,
+  asks: [],
+  bids: [],
+  timestamp: 1_680_000_000_000 + sequence,
+  ...overrides,
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("orderBookDeltas", () => {
+  describe("applyLevelChanges", () => {
+    it("replaces the amount at an existing price", () => {
+      expect(applyLevelChanges(book.asks, [[30100, 0.7]], "ask")).toEqual([
+        [30100, 0.7],
+        [30200, 1],
+      ]);
+    });
+
+    it("removes a level whose amount is 0", () => {
+      expect(applyLevelChanges(book.bids, [[29900, 0]], "bid")).toEqual([
+        [29800, 2],
+      ]);
+    });
+
+    it("inserts new levels in best-first order", () => {
+      expect(applyLevelChanges(book.asks, [[30150, 3]], "ask")).toEqual([
+        [30100, 0.5],
+        [30150, 3],
+        [30200, 1],
+      ]);
+      expect(applyLevelChanges(book.bids, [[29950, 3]], "bid")).toEqual([
+        [29950, 3],
+        [29900, 1.2],
+        [29800, 2],
+      ]);
+    });
+
+    it("ignores the removal of a level that does not exist", () => {
+      expect(applyLevelChanges(book.asks, [[31000, 0]], "ask")).toEqual(
+        book.asks,
+      );
+    });
+
+    it("keeps only the best levels up to the depth", () => {
+      expect(applyLevelChanges(book.asks, [[30150, 3]], "ask", 2)).toEqual([
+        [30100, 0.5],
+        [30150, 3],
+      ]);
+      expect(applyLevelChanges(book.bids, [], "bid", 1)).toEqual([
+        [29900, 1.2],
+      ]);
+    });
+
+    it("does not mutate the input levels", () => {
+      const levels = structuredClone(book.bids);
+      applyLevelChanges(levels, [[29900, 0]], "bid");
+      expect(levels).toEqual(book.bids);
+    });
+  });
+
+  describe("applyOrderBookDelta", () => {
+    it("applies the next delta in sequence", () => {
+      const result = applyOrderBookDelta(
+        book,
+        delta(11, { asks: [[30100, 0]], bids: [[29900, 5]] }),
+      );
+      expect(result).toEqual({
+        status: "applied",
+        book: {
+          pair: "BTC-USDT",
+          asks: [[30200, 1]],
+          bids: [
+            [29900, 5],
+            [29800, 2],
+          ],
+          timestamp: 1_680_000_000_011,
+          sequence: 11,
+        },
+      });
+    });
+
+    it("caps each side of the result to the depth", () => {
+      const result = applyOrderBookDelta(
+        book,
+        delta(11, { asks: [[30050, 1]], bids: [[29950, 1]] }),
+        2,
+      );
+      expect(result).toMatchObject({
+        status: "applied",
+        book: {
+          asks: [
+            [30050, 1],
+            [30100, 0.5],
+          ],
+          bids: [
+            [29950, 1],
+            [29900, 1.2],
+          ],
+        },
+      });
+    });
+
+    it("reports deltas the book already includes as stale", () => {
+      expect(applyOrderBookDelta(book, delta(10))).toEqual({
+        status: "stale",
+      });
+      expect(applyOrderBookDelta(book, delta(3))).toEqual({ status: "stale" });
+    });
+
+    it("reports a gap when a sequence number is skipped", () => {
+      expect(applyOrderBookDelta(book, delta(12))).toEqual({ status: "gap" });
+    });
+
+    it("reports a gap for a book without a sequence number", () => {
+      const unsequenced = { ...book, sequence: undefined };
+      expect(applyOrderBookDelta(unsequenced, delta(11))).toEqual({
+        status: "gap",
+      });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import type { PairInfo } from "../../services/apiTypes";
+import {
+  DEFAULT_PAIRS,
+  formatPairLabel,
+  getPairInfo,
+  isTradablePair,
+} from "../utils/pairCatalogue";
+
+const sol: PairInfo = {
+  symbol: "SOL-USDT",
+  base: "SOL",
+  quote: "USDT",
+  pricePrecision: 3,
+  amountPrecision: 2,
+  tickSize: 0.001,
+  status: "trading",
+};
+
+describe("pairCatalogue", () => {
+  it("looks pairs up in the given catalogue", () => {
+    const pairs = [sol, DEFAULT_PAIRS[0]];
+    expect(getPairInfo("SOL-USDT", pairs)).toEqual(sol);
+    expect(getPairInfo("ETH-USDT", pairs)).toBeUndefined();
+  });
+
+  it("only treats listed, trading pairs as tradable", () => {
+    const pairs = [sol, { ...DEFAULT_PAIRS[0], status: "halted" as const }];
+    expect(isTradablePair("SOL-USDT", pairs)).toBe(true);
+    expect(isTradablePair("BTC-USDT", pairs)).toBe(false);
+    expect(isTradablePair("ETH-USDT", pairs)).toBe(false);
+  });
+
+  it("labels pairs by base and quote", () => {
+    expect(formatPairLabel(DEFAULT_PAIRS[0])).toBe("BTC / USDT");
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect } from "vitest";
+import type { Candle } from "../../services/apiTypes";
+import {
+  applyTick,
+  getBucketStart,
+  getTimeZoneOffset,
+  inferCandleInterval,
+  resampleCandles,
+  seedLiveBucket,
+  TIMEFRAME_MS,
+} from "../utils/resampler";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const HOUR = TIMEFRAME_MS["1H"];
+// Monday 2024-01-01 00:00 UTC
+const T0 = Date.UTC(2024, 0, 1);
+
+const H4 = { bucketMs: TIMEFRAME_MS["4H"] };
+
+const candle = (hour: number, overrides: Partial<Candle> = {}): Candle => ({
+  time: T0 + hour * HOUR,
+  open: 100 + hour,
+  high: 110 + hour,
+  low: 90 + hour,
+  close: 101 + hour,
+  volume: 10,
+  ...overrides,
+});
+
+const hourly = (count: number) =>
+  Array.from({ length: count }, (_, i) => candle(i));
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("resampler", () => {
+  describe("getTimeZoneOffset", () => {
+    it("returns the zone's offset from UTC", () => {
+      expect(getTimeZoneOffset(T0, "UTC")).toBe(0);
+      expect(getTimeZoneOffset(T0, "Asia/Kolkata")).toBe(5.5 * HOUR);
+      expect(getTimeZoneOffset(T0, "America/New_York")).toBe(-5 * HOUR);
+    });
+
+    it("follows daylight saving time", () => {
+      const july = Date.UTC(2024, 6, 1);
+      expect(getTimeZoneOffset(july, "America/New_York")).toBe(-4 * HOUR);
+    });
+  });
+
+  describe("getBucketStart", () => {
+    it("floors to the start of the bucket", () => {
+      expect(getBucketStart(T0 + 5 * HOUR + 123, H4)).toBe(T0 + 4 * HOUR);
+    });
+
+    it("aligns daily buckets to midnight UTC by default", () => {
+      expect(
+        getBucketStart(T0 + 23 * HOUR, { bucketMs: TIMEFRAME_MS["1D"] }),
+      ).toBe(T0);
+    });
+
+    it("aligns weekly buckets to Monday 00:00 UTC", () => {
+      // Sunday 2024-01-07 → week starting Monday 2024-01-01
+      const sunday = Date.UTC(2024, 0, 7, 15);
+      expect(getBucketStart(sunday, { bucketMs: TIMEFRAME_MS["1W"] })).toBe(T0);
+    });
+
+    it("aligns daily buckets to local midnight of an exchange zone", () => {
+      const options = {
+        bucketMs: TIMEFRAME_MS["1D"],
+        alignment: { timeZone: "Asia/Tokyo" },
+      };
+      // 2024-01-01 20:00 UTC is already 2024-01-02 05:00 in Tokyo
+      expect(getBucketStart(T0 + 20 * HOUR, options)).toBe(
+        Date.UTC(2024, 0, 1, 15),
+      );
+      expect(getBucketStart(T0 + 10 * HOUR, options)).toBe(
+        Date.UTC(2023, 11, 31, 15),
+      );
+    });
+
+    it("aligns hourly buckets to half-hour offsets", () => {
+      const options = {
+        bucketMs: HOUR,
+        alignment: { timeZone: "Asia/Kolkata" },
+      };
+      expect(getBucketStart(T0 + 2 * HOUR, options)).toBe(T0 + 1.5 * HOUR);
+    });
+
+    it("aligns weekly buckets to Monday in the chosen zone", () => {
+      const options = {
+        bucketMs: TIMEFRAME_MS["1W"],
+        alignment: { timeZone: "Asia/Tokyo" },
+      };
+      // Monday 2024-01-01 00:00 JST is Sunday 15:00 UTC
+      expect(getBucketStart(Date.UTC(2024, 0, 3), options)).toBe(
+        Date.UTC(2023, 11, 31, 15),
+      );
+    });
+
+    it("keeps daily buckets on local midnight across a DST switch", () => {
+      const options = {
+        bucketMs: TIMEFRAME_MS["1D"],
+        alignment: { timeZone: "America/New_York" },
+      };
+      // Clocks spring forward on 2024-03-10; midnight that day is still EST
+      expect(getBucketStart(Date.UTC(2024, 2, 10, 16), options)).toBe(
+        Date.UTC(2024, 2, 10, 5),
+      );
+      // …and the next midnight is EDT, so that bar was only 23 hours long
+      expect(getBucketStart(Date.UTC(2024, 2, 11, 16), options)).toBe(
+        Date.UTC(2024, 2, 11, 4),
+      );
+    });
+
+    it("uses the browser's zone for local alignment", () => {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const time = T0 + 13 * HOUR;
+      expect(
+        getBucketStart(time, {
+          bucketMs: TIMEFRAME_MS["1D"],
+          alignment: "local",
+        }),
+      ).toBe(
+        getBucketStart(time, {
+          bucketMs: TIMEFRAME_MS["1D"],
+          alignment: { timeZone },
+        }),
+      );
+    });
+  });
+
+  describe("inferCandleInterval", () => {
+    it("returns the smallest gap between consecutive candles", () => {
+      expect(inferCandleInterval([candle(0), candle(2), candle(3)])).toBe(HOUR);
+    });
+
+    it("returns null for fewer than two candles", () => {
+      expect(inferCandleInterval([])).toBeNull();
+      expect(inferCandleInterval([candle(0)])).toBeNull();
+    });
+  });
+
+  describe("resampleCandles", () => {
+    it("rolls hourly candles up into 4H bars", () => {
+      const bars = resampleCandles(hourly(8), H4);
+      expect(bars).toEqual([
+        { time: T0, open: 100, high: 113, low: 90, close: 104, volume: 40 },
+        {
+          time: T0 + 4 * HOUR,
+          open: 104,
+          high: 117,
+          low: 94,
+          close: 108,
+          volume: 40,
+        },
+      ]);
+    });
+
+    it("keeps a partial trailing bucket", () => {
+      const bars = resampleCandles(hourly(6), H4);
+      expect(bars).toHaveLength(2);
+      expect(bars[1]).toMatchObject({ open: 104, close: 106, volume: 20 });
+    });
+
+    it("skips empty buckets instead of inventing bars", () => {
+      const bars = resampleCandles([candle(0), candle(9)], H4);
+      expect(bars.map((b) => b.time)).toEqual([T0, T0 + 8 * HOUR]);
+    });
+
+    it("buckets by the chosen time zone", () => {
+      const bars = resampleCandles(hourly(24), {
+        bucketMs: TIMEFRAME_MS["1D"],
+        alignment: { timeZone: "Asia/Tokyo" },
+      });
+      // Tokyo midnight falls at 15:00 UTC, splitting the UTC day in two
+      expect(bars.map((b) => b.time)).toEqual([
+        Date.UTC(2023, 11, 31, 15),
+        Date.UTC(2024, 0, 1, 15),
+      ]);
+      expect(bars.map((b) => b.volume)).toEqual([150, 90]);
+    });
+
+    it("returns an empty array for no input", () => {
+      expect(resampleCandles([], { bucketMs: TIMEFRAME_MS["1D"] })).toEqual([]);
+    });
+  });
+
+  describe("seedLiveBucket", () => {
+    it("settles every candle in the newest bucket but the last", () => {
+      const bucket = seedLiveBucket(hourly(7), H4);
+      expect(bucket).toEqual({
+        start: T0 + 4 * HOUR,
+        settled: {
+          time: T0 + 4 * HOUR,
+          open: 104,
+          high: 115,
+          low: 94,
+          close: 106,
+          volume: 20,
+        },
+        current: candle(6),
+      });
+    });
+
+    it("has nothing settled when the newest bucket holds one candle", () => {
+      expect(seedLiveBucket(hourly(5), H4)).toEqual({
+        start: T0 + 4 * HOUR,
+        settled: null,
+        current: candle(4),
+      });
+    });
+
+    it("returns null for no candles", () => {
+      expect(seedLiveBucket([], H4)).toBeNull();
+    });
+  });
+
+  describe("applyTick", () => {
+    it("replaces an updated source candle instead of double-counting it", () => {
+      const bucket = seedLiveBucket(hourly(6), H4);
+      const result = applyTick(
+        bucket,
+        candle(5, { close: 120, high: 125, volume: 30 }),
+        H4,
+      );
+
+      expect(result?.bar).toEqual({
+        time: T0 + 4 * HOUR,
+        open: 104,
+        high: 125,
+        low: 94,
+        close: 120,
+        volume: 40,
+      });
+    });
+
+    it("appends a new source candle inside the same bucket", () => {
+      const bucket = seedLiveBucket(hourly(6), H4);
+      const result = applyTick(bucket, candle(6), H4);
+
+      expect(result?.bucket.current).toEqual(candle(6));
+      expect(result?.bar).toMatchObject({ open: 104, close: 107, volume: 30 });
+    });
+
+    it("matches a full resample after a sequence of ticks", () => {
+      let bucket = seedLiveBucket(hourly(5), H4);
+      for (const tick of [
+        candle(5, { close: 103 }),
+        candle(5),
+        candle(6, { high: 200 }),
+        candle(7),
+      ]) {
+        bucket = applyTick(bucket, tick, H4)?.bucket ?? bucket;
+      }
+
+      const [, expected] = resampleCandles(
+        [...hourly(6), candle(6, { high: 200 }), candle(7)],
+        H4,
+      );
+      expect(applyTick(bucket, candle(7), H4)?.bar).toEqual(expected);
+    });
+
+    it("starts a new bucket when the tick crosses the boundary", () => {
+      const bucket = seedLiveBucket(hourly(8), H4);
+      const result = applyTick(bucket, candle(8), H4);
+
+      expect(result?.bucket).toEqual({
+        start: T0 + 8 * HOUR,
+        settled: null,
+        current: candle(8),
+      });
+      expect(result?.bar).toEqual(candle(8));
+    });
+
+    it("ignores ticks older than the current bucket", () => {
+      const bucket = seedLiveBucket(hourly(8), H4);
+      expect(applyTick(bucket, candle(1), H4)).toBeNull();
+    });
+
+    it("ignores ticks for a source candle that has already been settled", () => {
+      const bucket = seedLiveBucket(hourly(7), H4);
+      expect(applyTick(bucket, candle(5), H4)).toBeNull();
+    });
+
+    it("starts from scratch when there is no bucket yet", () => {
+      const result = applyTick(null, candle(2), H4);
+      expect(result?.bar).toEqual({ ...candle(2), time: T0 });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDesiredSubscriptions,
+  getWatchlistSubscriptions,
+  hasSubscription,
+  mergeSubscriptions,
+  reconcileSubscriptions,
+  STREAM_MODE_CHANNELS,
+  type Subscription,
+} from "../utils/streamSubscriptions";
+import { DEFAULT_PAIRS } from "../utils/pairCatalogue";
+
+const btcCandles: Subscription = { pair: "BTC-USDT", stream: "candles" };
+const btcBook: Subscription = { pair: "BTC-USDT", stream: "orderbook" };
+const ethCandles: Subscription = { pair: "ETH-USDT", stream: "candles" };
+const ethBook: Subscription = { pair: "ETH-USDT", stream: "orderbook" };
+
+describe("STREAM_MODE_CHANNELS", () => {
+  it("maps 'all' to both channels", () => {
+    expect(STREAM_MODE_CHANNELS.all).toEqual(["candles", "orderbook"]);
+  });
+
+  it("maps single-channel modes to that channel only", () => {
+    expect(STREAM_MODE_CHANNELS.candles).toEqual(["candles"]);
+    expect(STREAM_MODE_CHANNELS.orderbook).toEqual(["orderbook"]);
+    expect(STREAM_MODE_CHANNELS.trades).toEqual(["trades"]);
+  });
+});
+
+describe("getDesiredSubscriptions", () => {
+  it("returns one subscription per channel of the mode", () => {
+    expect(getDesiredSubscriptions("ETH-USDT", "all", DEFAULT_PAIRS)).toEqual([
+      ethCandles,
+      ethBook,
+    ]);
+    expect(
+      getDesiredSubscriptions("BTC-USDT", "orderbook", DEFAULT_PAIRS),
+    ).toEqual([btcBook]);
+  });
+
+  it("returns nothing for a pair missing from the catalogue", () => {
+    expect(getDesiredSubscriptions("DOGE-USDT", "all", DEFAULT_PAIRS)).toEqual(
+      [],
+    );
+  });
+
+  it("returns nothing for a halted pair", () => {
+    const pairs = [{ ...DEFAULT_PAIRS[0], status: "halted" as const }];
+    expect(getDesiredSubscriptions("BTC-USDT", "all", pairs)).toEqual([]);
+  });
+});
+
+describe("getWatchlistSubscriptions", () => {
+  it("follows the candles of every watched pair", () => {
+    expect(
+      getWatchlistSubscriptions(["BTC-USDT", "ETH-USDT"], DEFAULT_PAIRS),
+    ).toEqual([btcCandles, ethCandles]);
+  });
+
+  it("skips halted and unknown pairs", () => {
+    const pairs = [
+      { ...DEFAULT_PAIRS[0], status: "halted" as const },
+      DEFAULT_PAIRS[1],
+    ];
+    expect(
+      getWatchlistSubscriptions(["BTC-USDT", "ETH-USDT", "DOGE-USDT"], pairs),
+    ).toEqual([ethCandles]);
+  });
+});
+
+describe("mergeSubscriptions", () => {
+  it("keeps each subscription once, in first-seen order", () => {
+    expect(
+      mergeSubscriptions([btcCandles, btcBook], [btcCandles, ethCandles]),
+    ).toEqual([btcCandles, btcBook, ethCandles]);
+  });
+});
+
+describe("hasSubscription", () => {
+  it("matches on both pair and stream", () => {
+    expect(hasSubscription([btcCandles], "BTC-USDT", "candles")).toBe(true);
+    expect(hasSubscription([btcCandles], "BTC-USDT", "orderbook")).toBe(false);
+    expect(hasSubscription([btcCandles], "ETH-USDT", "candles")).toBe(false);
+  });
+});
+
+describe("reconcileSubscriptions", () => {
+  it("returns nothing to do when active already matches desired", () => {
+    expect(reconcileSubscriptions([btcCandles], [btcCandles])).toEqual({
+      subscribe: [],
+      unsubscribe: [],
+    });
+  });
+
+  it("subscribes everything when the server has nothing (fresh socket)", () => {
+    expect(reconcileSubscriptions([], [btcCandles, btcBook])).toEqual({
+      subscribe: [btcCandles, btcBook],
+      unsubscribe: [],
+    });
+  });
+
+  it("only touches the channel that changed on a mode switch", () => {
+    expect(reconcileSubscriptions([btcCandles, btcBook], [btcCandles])).toEqual(
+      {
+        subscribe: [],
+        unsubscribe: [btcBook],
+      },
+    );
+  });
+
+  it("moves every channel over on a pair switch", () => {
+    expect(
+      reconcileSubscriptions([btcCandles, btcBook], [ethCandles, ethBook]),
+    ).toEqual({
+      subscribe: [ethCandles, ethBook],
+      unsubscribe: [btcCandles, btcBook],
+    });
+  });
+
+  it("unsubscribes everything when nothing is desired", () => {
+    expect(reconcileSubscriptions([btcCandles], [])).toEqual({
+      subscribe: [],
+      unsubscribe: [btcCandles],
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { Candle } from "../../services/apiTypes";
+import { computeTicker, mergeLiveCandle } from "../utils/ticker";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+const candle = (hour: number, overrides: Partial<Candle> = {}): Candle => ({
+  time: T0 + hour * HOUR,
+  open: 100 + hour,
+  high: 105 + hour,
+  low: 95 + hour,
+  close: 101 + hour,
+  volume: 10,
+  ...overrides,
+});
+
+const hourly = (count: number) =>
+  Array.from({ length: count }, (_, i) => candle(i));
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("ticker", () => {
+  describe("computeTicker", () => {
+    it("summarises the last 24 hourly candles", () => {
+      // 30 candles: the window is hours 6 … 29
+      expect(computeTicker("BTC-USDT", hourly(30))).toEqual({
+        pair: "BTC-USDT",
+        last: 130,
+        change: 130 - 106,
+        changePercent: ((130 - 106) / 106) * 100,
+        high: 134,
+        low: 101,
+        volume: 240,
+      });
+    });
+
+    it("uses the whole series when it covers less than 24 hours", () => {
+      const ticker = computeTicker("ETH-USDT", hourly(3));
+      expect(ticker).toMatchObject({ last: 103, change: 3, volume: 30 });
+    });
+
+    it("returns null for no candles", () => {
+      expect(computeTicker("BTC-USDT", [])).toBeNull();
+    });
+  });
+
+  describe("mergeLiveCandle", () => {
+    it("replaces the candle with the same start time", () => {
+      const live = candle(2, { close: 150 });
+      expect(mergeLiveCandle(hourly(3), live)).toEqual([
+        candle(0),
+        candle(1),
+        live,
+      ]);
+    });
+
+    it("appends a candle that starts a new period", () => {
+      expect(mergeLiveCandle(hourly(2), candle(2))).toEqual(hourly(3));
+    });
+
+    it("ignores a live candle older than the series", () => {
+      expect(mergeLiveCandle(hourly(3), candle(0, { close: 1 }))).toEqual(
+        hourly(3),
+      );
+    });
+
+    it("returns the series unchanged without a live candle", () => {
+      expect(mergeLiveCandle(hourly(2), null)).toEqual(hourly(2));
+    });
+  });
+});
@@ -1,4 +1,12 @@
-import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterAll,
+  type Mock,
+} from "vitest";
 import { render, cleanup } from "@testing-library/react";
 import { createElement } from "react";
 import { createChart } from "lightweight-charts";
@@ -16,6 +24,11 @@ import type { Candle } from "../../services/apiTypes";
 const {
   candleSeriesMock,
   volumeSeriesMock,
+  lineSeriesMocks,
+  paneMocks,
+  addSeriesImpl,
+  addPaneImpl,
+  priceScaleMock,
   timeScaleMock,
   chartMock,
   observeMock,
@@ -24,6 +37,11 @@ const {
 } = vi.hoisted(() => {
   const timeScaleMock = {
     fitContent: vi.fn(),
+    resetTimeScale: vi.fn(),
+    getVisibleLogicalRange: vi.fn(),
+    setVisibleLogicalRange: vi.fn(),
+    subscribeVisibleLogicalRangeChange: vi.fn(),
+    unsubscribeVisibleLogicalRangeChange: vi.fn(),
   };
 
   const priceScaleMock = { applyOptions: vi.fn() };
@@ -39,14 +57,60 @@ const {
     priceScale: vi.fn(() => priceScaleMock),
   };
 
-  // Returns candleSeriesMock for "CandlestickSeries", volumeSeriesMock otherwise
+  // Every line series — and every series added to a pane — gets its own
+  // mock so tests can tell them apart
+  type LineSeriesMock = {
+    type: string;
+    setData: Mock;
+    update: Mock;
+    createPriceLine: Mock;
+  };
+  const lineSeriesMocks: LineSeriesMock[] = [];
+
+  const createSeriesMock = (type: string) => {
+    const series = {
+      type,
+      setData: vi.fn(),
+      update: vi.fn(),
+      createPriceLine: vi.fn(),
+    };
+    lineSeriesMocks.push(series);
+    return series;
+  };
+
+  const addSeriesImpl = (type: string) => {
+    if (type === "CandlestickSeries") return candleSeriesMock;
+    if (type === "HistogramSeries") return volumeSeriesMock;
+    return createSeriesMock(type);
+  };
+
+  // Panes added after the price pane; paneIndex() reflects their position
+  const paneMocks: {
+    setHeight: Mock;
+    addSeries: Mock;
+    paneIndex: () => number;
+  }[] = [];
+
+  const addPaneImpl = () => {
+    const pane = {
+      setHeight: vi.fn(),
+      addSeries: vi.fn(createSeriesMock),
+      paneIndex: () => paneMocks.indexOf(pane) + 1,
+    };
+    paneMocks.push(pane);
+    return pane;
+  };
+
   const chartMock = {
-    addSeries: vi.fn((type: string) =>
-      type === "CandlestickSeries" ? candleSeriesMock : volumeSeriesMock,
-    ),
+    addSeries: vi.fn(addSeriesImpl),
+    addPane: vi.fn(addPaneImpl),
+    removePane: vi.fn((index: number) => paneMocks.splice(index - 1, 1)),
+    removeSeries: vi.fn(),
     remove: vi.fn(),
     timeScale: vi.fn(() => timeScaleMock),
+    priceScale: vi.fn(() => priceScaleMock),
     applyOptions: vi.fn(),
+    takeScreenshot: vi.fn(),
   };
 
   const observeMock = vi.fn();
@@ -60,6 +124,11 @@ const {
   return {
     candleSeriesMock,
     volumeSeriesMock,
+    lineSeriesMocks,
+    paneMocks,
+    addSeriesImpl,
+    addPaneImpl,
+    priceScaleMock,
     timeScaleMock,
     chartMock,
     observeMock,
@@ -74,11 +143,14 @@ const {
 vi.mock("lightweight-charts", () => ({
   createChart: vi.fn(() => chartMock),
   ColorType: { Solid: "solid" },
-  CrosshairMode: { Normal: 0 },
+  CrosshairMode: { Normal: 0, Magnet: 1 },
+  PriceScaleMode: { Normal: 0, Logarithmic: 1, Percentage: 2 },
   // These sentinel strings are passed as the first arg to chart.addSeries(),
   // so chartMock.addSeries can distinguish them.
   CandlestickSeries: "CandlestickSeries",
   HistogramSeries: "HistogramSeries",
+  LineSeries: "LineSeries",
+  LineStyle: { Dashed: 2 },
 }));
 
 // jsdom does not ship ResizeObserver — stub it globally
@@ -150,9 +222,10 @@ describe("useCandleChart", () => {
     vi.mocked(createChart).mockReturnValue(
       chartMock as unknown as ReturnType<typeof createChart>,
     );
-    chartMock.addSeries.mockImplementation((type: string) =>
-      type === "CandlestickSeries" ? candleSeriesMock : volumeSeriesMock,
-    );
+    chartMock.addSeries.mockImplementation(addSeriesImpl);
+    chartMock.addPane.mockImplementation(addPaneImpl);
+    lineSeriesMocks.length = 0;
+    paneMocks.length = 0;
     cleanup();
   });
 
@@ -270,6 +343,36 @@ describe("useCandleChart", () => {
       expect(timeScaleMock.fitContent).toHaveBeenCalled();
     });
 
+    it("keeps the view in place when older candles are prepended", () => {
+      const { api } = renderHookViaComponent();
+      api.setCandles(sampleCandles);
+      timeScaleMock.fitContent.mockClear();
+      timeScaleMock.getVisibleLogicalRange.mockReturnValueOnce({
+        from: 0.5,
+        to: 1.5,
+      });
+
+      const older = {
+        ...sampleCandles[0],
+        time: sampleCandles[0].time - 60_000,
+      };
+      api.setCandles([older, ...sampleCandles], { keepView: true });
+
+      expect(timeScaleMock.fitContent).not.toHaveBeenCalled();
+      expect(timeScaleMock.setVisibleLogicalRange).toHaveBeenCalledWith({
+        from: 1.5,
+        to: 2.5,
+      });
+    });
+
+    it("fits the content with keepView when nothing was shown before", () => {
+      const { api } = renderHookViaComponent();
+      api.setCandles(sampleCandles, { keepView: true });
+
+      expect(timeScaleMock.fitContent).toHaveBeenCalled();
+      expect(timeScaleMock.setVisibleLogicalRange).not.toHaveBeenCalled();
+    });
+
     it("does nothing when called before chart is ready (candleSeries is null)", () => {
       // Simulate uninitialized state by rendering without a container
       let captured: UseCandleChartReturn | undefined;
@@ -341,6 +444,231 @@ describe("useCandleChart", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Indicators
+  // -------------------------------------------------------------------------
+  describe("indicators", () => {
+    const hourlyCandles: Candle[] = [100, 102, 104, 106].map((close, i) => ({
+      time: 1_680_000_000_000 + i * 3_600_000,
+      open: close - 1,
+      high: close + 1,
+      low: close - 2,
+      close,
+      volume: 10,
+    }));
+
+    it("adds one line series per indicator line", () => {
+      const { api } = renderHookViaComponent();
+
+      api.addIndicator({ type: "sma", period: 2 });
+      api.addIndicator({ type: "bollinger", period: 2, stdDev: 2 });
+
+      const lineCalls = chartMock.addSeries.mock.calls.filter(
+        ([type]) => type === "LineSeries",
+      );
+      expect(lineCalls).toHaveLength(4);
+    });
+
+    it("computes an indicator added after candles were loaded", () => {
+      const { api } = renderHookViaComponent();
+      api.setCandles(hourlyCandles);
+
+      api.addIndicator({ type: "sma", period: 2 });
+
+      const [data] = lineSeriesMocks[0].setData.mock.calls[0];
+      expect(data.map((p: { value: number }) => p.value)).toEqual([
+        101, 103, 105,
+      ]);
+    });
+
+    it("recomputes indicators when the candle dataset is replaced", () => {
+      const { api } = renderHookViaComponent();
+      api.addIndicator({ type: "sma", period: 2 });
+
+      api.setCandles(hourlyCandles);
+
+      const calls = lineSeriesMocks[0].setData.mock.calls;
+      expect(calls[calls.length - 1][0]).toHaveLength(3);
+    });
+
+    it("updates only the newest indicator point on a tick", () => {
+      const { api } = renderHookViaComponent();
+      api.setCandles(hourlyCandles);
+      api.addIndicator({ type: "sma", period: 2 });
+      const [sma] = lineSeriesMocks;
+
+      api.updateCandle({ ...hourlyCandles[3], close: 110 });
+      api.updateCandle({
+        ...hourlyCandles[3],
+        time: hourlyCandles[3].time + 3_600_000,
+        close: 112,
+      });
+
+      expect(sma.setData).toHaveBeenCalledOnce();
+      expect(sma.update.mock.calls.map(([p]) => p.value)).toEqual([107, 111]);
+    });
+
+    it("applies the requested colour", () => {
+      const { api } = renderHookViaComponent();
+
+      api.addIndicator({ type: "vwap" }, { color: "#ffffff" });
+
+      const [, options] = chartMock.addSeries.mock.calls.find(
+        ([type]) => type === "LineSeries",
+      ) as unknown as [string, { color: string }];
+      expect(options.color).toBe("#ffffff");
+    });
+
+    it("removes every line series of an indicator", () => {
+      const { api } = renderHookViaComponent();
+      const id = api.addIndicator({
+        type: "bollinger",
+        period: 2,
+        stdDev: 2,
+      });
+
+      api.removeIndicator(id!);
+
+      expect(chartMock.removeSeries).toHaveBeenCalledTimes(3);
+      expect(chartMock.removeSeries.mock.calls.map(([s]) => s)).toEqual(
+        lineSeriesMocks,
+      );
+    });
+
+    it("stops updating a removed indicator", () => {
+      const { api } = renderHookViaComponent();
+      const id = api.addIndicator({ type: "sma", period: 1 });
+      api.removeIndicator(id!);
+
+      api.updateCandle(singleCandle);
+
+      expect(lineSeriesMocks[0].update).not.toHaveBeenCalled();
+    });
+
+    it("ignores unknown ids", () => {
+      const { api } = renderHookViaComponent();
+
+      expect(() => api.removeIndicator("nope")).not.toThrow();
+      expect(chartMock.removeSeries).not.toHaveBeenCalled();
+    });
+
+    it("returns null when the chart is not ready", () => {
+      let captured: UseCandleChartReturn | undefined;
+
+      function TestChart() {
+        const result = useCandleChart();
+        // eslint-disable-next-line react-hooks/globals
+        captured = result;
+        return createElement("div"); // no ref attached
+      }
+
+      render(createElement(TestChart));
+
+      expect(captured!.addIndicator({ type: "vwap" })).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Panes
+  // -------------------------------------------------------------------------
+  describe("panes", () => {
+    it("overlays volume on the price pane by default", () => {
+      renderHookViaComponent();
+
+      expect(chartMock.addPane).not.toHaveBeenCalled();
+      expect(priceScaleMock.applyOptions).toHaveBeenCalledWith({
+        scaleMargins: { top: 0.8, bottom: 0 },
+      });
+    });
+
+    it("moves volume into its own pane when volumePaneHeight is set", () => {
+      renderHookViaComponent({ volumePaneHeight: 90 });
+
+      expect(paneMocks).toHaveLength(1);
+      expect(paneMocks[0].setHeight).toHaveBeenCalledWith(90);
+      expect(paneMocks[0].addSeries).toHaveBeenCalledWith(
+        "HistogramSeries",
+        expect.objectContaining({ priceScaleId: "volume" }),
+      );
+      expect(priceScaleMock.applyOptions).not.toHaveBeenCalled();
+    });
+
+    it("keeps overlay indicators on the price pane", () => {
+      const { api } = renderHookViaComponent();
+
+      api.addIndicator({ type: "ema", period: 10 });
+
+      expect(chartMock.addPane).not.toHaveBeenCalled();
+    });
+
+    it("gives each oscillator a pane of the default height", () => {
+      const { api } = renderHookViaComponent();
+
+      api.addIndicator({ type: "rsi", period: 14 });
+      api.addIndicator({
+        type: "stochastic",
+        period: 14,
+        smoothK: 3,
+        smoothD: 3,
+      });
+
+      expect(paneMocks).toHaveLength(2);
+      expect(paneMocks[0].setHeight).toHaveBeenCalledWith(120);
+      expect(paneMocks[1].addSeries).toHaveBeenCalledTimes(2);
+    });
+
+    it("honours oscillatorPaneHeight and per-indicator paneHeight", () => {
+      const { api } = renderHookViaComponent({ oscillatorPaneHeight: 150 });
+
+      api.addIndicator({ type: "rsi", period: 14 });
+      api.addIndicator({ type: "rsi", period: 7 }, { paneHeight: 80 });
+
+      expect(paneMocks[0].setHeight).toHaveBeenCalledWith(150);
+      expect(paneMocks[1].setHeight).toHaveBeenCalledWith(80);
+    });
+
+    it("draws the MACD histogram as bars", () => {
+      const { api } = renderHookViaComponent();
+
+      api.addIndicator({ type: "macd", fast: 12, slow: 26, signal: 9 });
+
+      expect(lineSeriesMocks.map((series) => series.type)).toEqual([
+        "LineSeries",
+        "LineSeries",
+        "HistogramSeries",
+      ]);
+    });
+
+    it("draws overbought / oversold guide lines for RSI", () => {
+      const { api } = renderHookViaComponent();
+
+      api.addIndicator({ type: "rsi", period: 14 });
+
+      const prices = lineSeriesMocks[0].createPriceLine.mock.calls.map(
+        ([line]) => line.price,
+      );
+      expect(prices).toEqual([30, 70]);
+    });
+
+    it("removes an oscillator's pane by its current index", () => {
+      const { api } = renderHookViaComponent({ volumePaneHeight: 90 });
+      const rsi = api.addIndicator({ type: "rsi", period: 14 });
+      const macd = api.addIndicator({
+        type: "macd",
+        fast: 12,
+        slow: 26,
+        signal: 9,
+      });
+
+      api.removeIndicator(rsi!);
+      api.removeIndicator(macd!);
+
+      // volume = 1, rsi = 2, macd = 3 → 2 once rsi is gone
+      expect(chartMock.removePane.mock.calls).toEqual([[2], [2]]);
+      expect(chartMock.removeSeries).not.toHaveBeenCalled();
+    });
+  });
+
   // -------------------------------------------------------------------------
   // fitContent
   // -------------------------------------------------------------------------
@@ -355,6 +683,128 @@ describe("useCandleChart", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Toolbar controls
+  // -------------------------------------------------------------------------
+  describe("resetZoom", () => {
+    it("resets the time scale and auto-scales the price axis", () => {
+      const { api } = renderHookViaComponent();
+
+      api.resetZoom();
+
+      expect(timeScaleMock.resetTimeScale).toHaveBeenCalledOnce();
+      expect(chartMock.priceScale).toHaveBeenCalledWith("right");
+      expect(priceScaleMock.applyOptions).toHaveBeenCalledWith({
+        autoScale: true,
+      });
+    });
+  });
+
+  describe("setScaleMode", () => {
+    it.each([
+      ["linear", 0],
+      ["logarithmic", 1],
+      ["percentage", 2],
+    ] as const)("applies the %s mode to the price axis", (mode, expected) => {
+      const { api } = renderHookViaComponent();
+
+      api.setScaleMode(mode);
+
+      expect(chartMock.priceScale).toHaveBeenCalledWith("right");
+      expect(priceScaleMock.applyOptions).toHaveBeenCalledWith({
+        mode: expected,
+      });
+    });
+  });
+
+  describe("setCrosshairMode", () => {
+    it("applies the crosshair mode to the chart", () => {
+      const { api } = renderHookViaComponent();
+
+      api.setCrosshairMode("magnet");
+
+      expect(chartMock.applyOptions).toHaveBeenCalledWith({
+        crosshair: { mode: 1 },
+      });
+    });
+  });
+
+  describe("setVolumeVisible", () => {
+    it("removes the volume series when hidden", () => {
+      const { api } = renderHookViaComponent();
+
+      api.setVolumeVisible(false);
+      api.setVolumeVisible(false);
+
+      expect(chartMock.removeSeries).toHaveBeenCalledOnce();
+      expect(chartMock.removeSeries).toHaveBeenCalledWith(volumeSeriesMock);
+    });
+
+    it("adds the volume series with the loaded candles when shown", () => {
+      const { api } = renderHookViaComponent({ showVolume: false });
+      api.setCandles(sampleCandles);
+
+      api.setVolumeVisible(true);
+
+      const types = chartMock.addSeries.mock.calls.map(([type]) => type);
+      expect(types).toContain("HistogramSeries");
+      const [data] = volumeSeriesMock.setData.mock.calls[0];
+      expect(data).toHaveLength(sampleCandles.length);
+    });
+
+    it("keeps updating the volume once it is shown again", () => {
+      const { api } = renderHookViaComponent();
+      api.setVolumeVisible(false);
+      api.setVolumeVisible(true);
+
+      api.updateCandle(singleCandle);
+
+      expect(volumeSeriesMock.update).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("takeScreenshot", () => {
+    it("returns the chart's screenshot canvas", () => {
+      const canvas = document.createElement("canvas");
+      chartMock.takeScreenshot.mockReturnValueOnce(canvas);
+      const { api } = renderHookViaComponent();
+
+      expect(api.takeScreenshot()).toBe(canvas);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // subscribeVisibleRange
+  // -------------------------------------------------------------------------
+  describe("subscribeVisibleRange", () => {
+    it("passes visible range changes on to the handler", () => {
+      const { api } = renderHookViaComponent();
+      const handler = vi.fn();
+
+      api.subscribeVisibleRange(handler);
+      const [listener] =
+        timeScaleMock.subscribeVisibleLogicalRangeChange.mock.calls[0];
+      listener({ from: -3, to: 40 });
+      listener(null);
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(handler).toHaveBeenCalledWith({ from: -3, to: 40 });
+    });
+
+    it("returns a function that unsubscribes the handler", () => {
+      const { api } = renderHookViaComponent();
+
+      const unsubscribe = api.subscribeVisibleRange(vi.fn());
+      const [listener] =
+        timeScaleMock.subscribeVisibleLogicalRangeChange.mock.calls[0];
+      unsubscribe();
+
+      expect(
+        timeScaleMock.unsubscribeVisibleLogicalRangeChange,
+      ).toHaveBeenCalledWith(listener);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Auto-resize
   // -------------------------------------------------------------------------
@@ -394,7 +844,15 @@ describe("useCandleChart", () => {
       expect(api.containerRef).toBeDefined();
       expect(typeof api.setCandles).toBe("function");
       expect(typeof api.updateCandle).toBe("function");
+      expect(typeof api.addIndicator).toBe("function");
+      expect(typeof api.removeIndicator).toBe("function");
       expect(typeof api.fitContent).toBe("function");
+      expect(typeof api.resetZoom).toBe("function");
+      expect(typeof api.setScaleMode).toBe("function");
+      expect(typeof api.setCrosshairMode).toBe("function");
+      expect(typeof api.setVolumeVisible).toBe("function");
+      expect(typeof api.takeScreenshot).toBe("function");
+      expect(typeof api.subscribeVisibleRange).toBe("function");
       expect(typeof api.isReady).toBe("boolean");
     });
 
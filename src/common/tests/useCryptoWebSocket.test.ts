@@ -1,9 +1,31 @@
 /* eslint-disable react-hooks/immutability */
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, act } from "@testing-library/react";
-import { createElement, useRef } from "react";
-import type { CryptoPair } from "../../services/apiTypes";
-import { useCryptoWebSocket } from "../hooks/useCryptoWebSocket";
+import { createElement } from "react";
+import type {
+  CryptoPair,
+  OrderBook,
+  OrderBookDelta,
+  PairInfo,
+  StreamMode,
+  Trade,
+} from "../../services/apiTypes";
+import {
+  useCryptoWebSocket,
+  type UseCryptoWebSocketOptions,
+} from "../hooks/useCryptoWebSocket";
+import { MAX_TAPE_TRADES } from "../../domain/trades/tradesTypes";
+import { DEFAULT_PAIRS } from "../utils/pairCatalogue";
+
+// ---------------------------------------------------------------------------
+// Mock fetchOrderBook — used to re-sync the book on a sequence gap
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchOrderBook: vi.fn(),
+}));
+
+import { fetchOrderBook } from "../../services/cryptoApiService";
+const mockFetchOrderBook = vi.mocked(fetchOrderBook);
 
 // ---------------------------------------------------------------------------
 // MockWebSocket — must be a class (not an arrow fn) for `new` to work
@@ -14,12 +36,14 @@ class MockWebSocket {
   static CLOSED = 3;
   static CONNECTING = 0;
 
-  readyState = MockWebSocket.OPEN;
+  // Starts CONNECTING like a real socket; simulateOpen/simulateClose move it on
+  readyState = MockWebSocket.CONNECTING;
   url: string;
 
   onopen: ((e: Event) => void) | null = null;
   onmessage: ((e: MessageEvent) => void) | null = null;
   onclose: ((e: CloseEvent) => void) | null = null;
+  onerror: ((e: Event) => void) | null = null;
 
   send = vi.fn();
   close = vi.fn();
@@ -34,6 +58,7 @@ class MockWebSocket {
 
   /** Helper: trigger onopen as if the server accepted the connection. */
   simulateOpen() {
+    this.readyState = MockWebSocket.OPEN;
     this.onopen?.({} as Event);
   }
 
@@ -48,8 +73,14 @@ class MockWebSocket {
   }
 
   simulateClose() {
+    this.readyState = MockWebSocket.CLOSED;
     this.onclose?.({} as CloseEvent);
   }
+
+  /** Helper: trigger onerror as if the connection failed. */
+  simulateError() {
+    this.onerror?.({} as Event);
+  }
 }
 
 vi.stubGlobal("WebSocket", MockWebSocket);
@@ -58,28 +89,48 @@ vi.stubGlobal("WebSocket", MockWebSocket);
 // Test helpers
 // ---------------------------------------------------------------------------
 
-interface HookState {
-  updatedCandle: ReturnType<typeof useCryptoWebSocket>["updatedCandle"];
-  orderBook: ReturnType<typeof useCryptoWebSocket>["orderBook"];
-}
+type HookState = ReturnType<typeof useCryptoWebSocket>;
 
-function renderHookViaComponent(initialPair: CryptoPair = "BTC-USDT") {
+function renderHookViaComponent(
+  initialPair: CryptoPair = "BTC-USDT",
+  options: UseCryptoWebSocketOptions = {},
+) {
   const stateRef: { current: HookState } = {
-    current: { updatedCandle: null, orderBook: null },
+    current: {
+      updatedCandle: null,
+      orderBook: null,
+      trades: [],
+      ticker: null,
+      watchedCandles: {},
+      watchedTickers: {},
+      status: "connecting",
+      lastMessageAt: null,
+      messagesPerMinute: 0,
+      reconnectAttempt: 0,
+      nextRetryAt: null,
+    },
   };
-  const pairRef = { current: initialPair };
 
-  function TestComponent() {
-    // Allow the pair to be changed imperatively from tests via pairRef
-    const pair = useRef(pairRef.current).current;
-    const result = useCryptoWebSocket(pair as CryptoPair);
+  function TestComponent({ p, m }: { p: CryptoPair; m: StreamMode }) {
+    const result = useCryptoWebSocket(p, m, options);
     stateRef.current = result;
     return null;
   }
 
-  const renderResult = render(createElement(TestComponent));
+  const renderResult = render(
+    createElement(TestComponent, { p: initialPair, m: "all" }),
+  );
+
+  // Re-render with a new pair and/or stream mode, as the Dashboard would
+  const rerender = (p: CryptoPair, m: StreamMode = "all") =>
+    act(() => renderResult.rerender(createElement(TestComponent, { p, m })));
 
-  return { stateRef, renderResult };
+  return { stateRef, renderResult, rerender };
+}
+
+/** Parse every message sent on `socket` so far. */
+function sentMessages(socket: MockWebSocket) {
+  return socket.send.mock.calls.map((c) => JSON.parse(c[0] as string));
 }
 
 // ---------------------------------------------------------------------------
@@ -105,7 +156,7 @@ describe("useCryptoWebSocket", () => {
       expect(MockWebSocket.lastInstance).not.toBeNull();
     });
 
-    it("sends a subscribe message for BTC-USDT on socket open", () => {
+    it("subscribes BTC-USDT to every channel on socket open", () => {
       renderHookViaComponent("BTC-USDT");
       const socket = MockWebSocket.lastInstance!;
 
@@ -113,13 +164,15 @@ describe("useCryptoWebSocket", () => {
 
       // React 18 may double-invoke effects — verify at least one send
       expect(socket.send).toHaveBeenCalled();
-      const sentMessages = socket.send.mock.calls.map((c) =>
-        JSON.parse(c[0] as string),
-      );
-      expect(sentMessages).toContainEqual({
+      expect(sentMessages(socket)).toContainEqual({
         type: "subscribe",
         pair: "BTC-USDT",
-        stream: "all",
+        stream: "candles",
+      });
+      expect(sentMessages(socket)).toContainEqual({
+        type: "subscribe",
+        pair: "BTC-USDT",
+        stream: "orderbook",
       });
     });
   });
@@ -192,7 +245,8 @@ describe("useCryptoWebSocket", () => {
       expect(stateRef.current.updatedCandle).toBeNull();
     });
 
-    it("silently ignores non-JSON messages (parse errors)", () => {
+    it("drops non-JSON messages and reports them", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
       const { stateRef } = renderHookViaComponent("BTC-USDT");
       const socket = MockWebSocket.lastInstance!;
 
@@ -202,6 +256,30 @@ describe("useCryptoWebSocket", () => {
       ).not.toThrow();
 
       expect(stateRef.current.updatedCandle).toBeNull();
+      expect(warnSpy).toHaveBeenCalledWith(
+        "[diagnostics] WebSocket:",
+        "message: not valid JSON",
+      );
+      warnSpy.mockRestore();
+    });
+
+    it("drops malformed candles instead of passing them on", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+
+      act(() => socket.simulateOpen());
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "BTC-USDT",
+          candle: { time: 1_680_000_000_000, open: "100" },
+        }),
+      );
+
+      expect(stateRef.current.updatedCandle).toBeNull();
+      expect(warnSpy).toHaveBeenCalledOnce();
+      warnSpy.mockRestore();
     });
 
     it("logs a warning but does not throw on error messages", () => {
@@ -218,6 +296,1017 @@ describe("useCryptoWebSocket", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Order book deltas
+  // -------------------------------------------------------------------------
+  describe("order book deltas", () => {
+    const snapshot: OrderBook = {
+      pair: "BTC-USDT",
+      asks: [[30000, 0.5]],
+      bids: [[29900, 1.2]],
+      timestamp: 1_680_000_000_000,
+      sequence: 10,
+    };
+
+    const delta = (
+      sequence: number,
+      overrides: Partial<OrderBookDelta> = {},
+    ): OrderBookDelta => ({
+      pair: "BTC-USDT",
+      sequence,
+      asks: [],
+      bids: [],
+      timestamp: 1_680_000_000_000 + sequence,
+      ...overrides,
+    });
+
+    const sendDelta = (socket: MockWebSocket, data: OrderBookDelta) =>
+      act(() =>
+        socket.simulateMessage({
+          type: "orderbook_delta",
+          pair: data.pair,
+          data,
+        }),
+      );
+
+    /** Open the socket and seed the local book with `snapshot`. */
+    function openWithSnapshot() {
+      const result = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+      act(() =>
+        socket.simulateMessage({
+          type: "orderbook_update",
+          pair: "BTC-USDT",
+          data: snapshot,
+        }),
+      );
+      return { ...result, socket };
+    }
+
+    it("applies in-sequence deltas to the local book", () => {
+      const { stateRef, socket } = openWithSnapshot();
+
+      sendDelta(
+        socket,
+        delta(11, {
+          asks: [
+            [30000, 0],
+            [30050, 2],
+          ],
+        }),
+      );
+      sendDelta(socket, delta(12, { bids: [[29950, 1]] }));
+
+      expect(stateRef.current.orderBook).toEqual({
+        pair: "BTC-USDT",
+        asks: [[30050, 2]],
+        bids: [
+          [29950, 1],
+          [29900, 1.2],
+        ],
+        timestamp: 1_680_000_000_012,
+        sequence: 12,
+      });
+      expect(mockFetchOrderBook).not.toHaveBeenCalled();
+    });
+
+    it("keeps only the best 50 levels per side", () => {
+      const { stateRef, socket } = openWithSnapshot();
+      const asks = Array.from({ length: 60 }, (_, i): [number, number] => [
+        30001 + i,
+        1,
+      ]);
+
+      sendDelta(socket, delta(11, { asks }));
+
+      const book = stateRef.current.orderBook;
+      expect(book?.asks).toHaveLength(50);
+      expect(book?.asks[0]).toEqual([30000, 0.5]);
+      expect(book?.asks[49]).toEqual([30049, 1]);
+    });
+
+    it("ignores deltas the book already includes", () => {
+      const { stateRef, socket } = openWithSnapshot();
+
+      sendDelta(socket, delta(9, { asks: [[30000, 0]] }));
+
+      expect(stateRef.current.orderBook).toEqual(snapshot);
+      expect(mockFetchOrderBook).not.toHaveBeenCalled();
+    });
+
+    it("re-syncs from a REST snapshot when a sequence number is skipped", async () => {
+      let resolveSnapshot: (book: OrderBook) => void = () => {};
+      mockFetchOrderBook.mockReturnValue(
+        new Promise((resolve) => (resolveSnapshot = resolve)),
+      );
+      const { stateRef, socket } = openWithSnapshot();
+
+      sendDelta(socket, delta(13, { bids: [[29800, 1]] }));
+      sendDelta(socket, delta(14, { bids: [[29700, 1]] }));
+      expect(mockFetchOrderBook).toHaveBeenCalledExactlyOnceWith("BTC-USDT");
+      // The book stays as it was until the snapshot arrives
+      expect(stateRef.current.orderBook).toEqual(snapshot);
+
+      // The fresh snapshot already includes delta 13; only 14 is replayed
+      await act(async () =>
+        resolveSnapshot({
+          ...snapshot,
+          bids: [[29800, 1]],
+          sequence: 13,
+        }),
+      );
+
+      expect(stateRef.current.orderBook).toMatchObject({
+        bids: [
+          [29800, 1],
+          [29700, 1],
+        ],
+        sequence: 14,
+      });
+    });
+
+    it("fetches a snapshot for a delta that arrives before any book", async () => {
+      mockFetchOrderBook.mockResolvedValue(snapshot);
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+
+      await act(async () =>
+        socket.simulateMessage({
+          type: "orderbook_delta",
+          pair: "BTC-USDT",
+          data: delta(11, { asks: [[30000, 0.9]] }),
+        }),
+      );
+
+      expect(mockFetchOrderBook).toHaveBeenCalledOnce();
+      expect(stateRef.current.orderBook).toMatchObject({
+        asks: [[30000, 0.9]],
+        sequence: 11,
+      });
+    });
+
+    it("backs off before retrying a failed re-sync", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetchOrderBook.mockRejectedValueOnce(new Error("network error"));
+      const { stateRef, socket } = openWithSnapshot();
+
+      await act(async () => sendDelta(socket, delta(12)));
+      expect(console.warn).toHaveBeenCalled();
+      expect(stateRef.current.orderBook).toEqual(snapshot);
+
+      // Gaps within the back-off window do not fetch again
+      await act(async () => sendDelta(socket, delta(13)));
+      expect(mockFetchOrderBook).toHaveBeenCalledOnce();
+
+      act(() => vi.advanceTimersByTime(1_000));
+      mockFetchOrderBook.mockResolvedValueOnce({ ...snapshot, sequence: 13 });
+      await act(async () => sendDelta(socket, delta(14)));
+      vi.useRealTimers();
+
+      expect(mockFetchOrderBook).toHaveBeenCalledTimes(2);
+      expect(stateRef.current.orderBook?.sequence).toBe(14);
+    });
+
+    it("falls back to snapshots when the REST book has no sequence", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const unsequenced: OrderBook = { ...snapshot, sequence: undefined };
+      mockFetchOrderBook.mockResolvedValue(unsequenced);
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+
+      await act(async () => sendDelta(socket, delta(11)));
+      expect(stateRef.current.orderBook).toEqual(unsequenced);
+
+      await act(async () => sendDelta(socket, delta(13, { asks: [[1, 1]] })));
+      expect(mockFetchOrderBook).toHaveBeenCalledOnce();
+      expect(stateRef.current.orderBook).toEqual(unsequenced);
+
+      const next: OrderBook = { ...unsequenced, asks: [[30100, 1]] };
+      act(() =>
+        socket.simulateMessage({
+          type: "orderbook_update",
+          pair: "BTC-USDT",
+          data: next,
+        }),
+      );
+      expect(stateRef.current.orderBook).toEqual(next);
+    });
+
+    it("discards a re-sync that finishes after the pair changed", async () => {
+      let resolveSnapshot: (book: OrderBook) => void = () => {};
+      mockFetchOrderBook.mockReturnValue(
+        new Promise((resolve) => (resolveSnapshot = resolve)),
+      );
+      const { stateRef, socket, rerender } = openWithSnapshot();
+
+      sendDelta(socket, delta(12));
+      rerender("ETH-USDT");
+      await act(async () => resolveSnapshot(snapshot));
+
+      expect(stateRef.current.orderBook).toBeNull();
+    });
+
+    it("starts from a fresh snapshot after a reconnect", async () => {
+      vi.useFakeTimers();
+      mockFetchOrderBook.mockResolvedValue({ ...snapshot, sequence: 1 });
+      const { stateRef, socket } = openWithSnapshot();
+
+      act(() => socket.simulateClose());
+      act(() => vi.runOnlyPendingTimers());
+      const next = MockWebSocket.lastInstance!;
+      act(() => next.simulateOpen());
+
+      // The server restarted its sequence; 2 would look stale to the old book
+      await act(async () => sendDelta(next, delta(2, { asks: [[30000, 3]] })));
+      vi.useRealTimers();
+
+      expect(mockFetchOrderBook).toHaveBeenCalledOnce();
+      expect(stateRef.current.orderBook).toMatchObject({
+        asks: [[30000, 3]],
+        sequence: 2,
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Ticker
+  // -------------------------------------------------------------------------
+  describe("ticker", () => {
+    const ticker = {
+      pair: "BTC-USDT" as CryptoPair,
+      last: 30_000,
+      change: 100,
+      changePercent: 0.33,
+      high: 30_500,
+      low: 29_500,
+      volume: 1_000,
+    };
+
+    it("stores ticker messages for the followed pair in any stream mode", () => {
+      const { stateRef, rerender } = renderHookViaComponent("BTC-USDT");
+      rerender("BTC-USDT", "trades");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+
+      act(() =>
+        socket.simulateMessage({ type: "ticker", pair: "BTC-USDT", ticker }),
+      );
+
+      expect(stateRef.current.ticker).toEqual(ticker);
+    });
+
+    it("ignores tickers for other pairs", () => {
+      const { stateRef } = renderHookViaComponent("ETH-USDT");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+
+      act(() =>
+        socket.simulateMessage({ type: "ticker", pair: "BTC-USDT", ticker }),
+      );
+
+      expect(stateRef.current.ticker).toBeNull();
+    });
+
+    it("clears the ticker on a pair change but not on a mode change", () => {
+      const { stateRef, rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+      act(() =>
+        socket.simulateMessage({ type: "ticker", pair: "BTC-USDT", ticker }),
+      );
+
+      rerender("BTC-USDT", "candles");
+      expect(stateRef.current.ticker).toEqual(ticker);
+
+      rerender("ETH-USDT", "candles");
+      expect(stateRef.current.ticker).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Trades
+  // -------------------------------------------------------------------------
+  describe("trades", () => {
+    const trade = (id: string, pair: CryptoPair = "BTC-USDT"): Trade => ({
+      id,
+      pair,
+      price: 30000,
+      amount: 0.1,
+      side: "buy",
+      time: 1_680_000_000_000,
+    });
+
+    const sendTrade = (socket: MockWebSocket, data: Trade) =>
+      act(() =>
+        socket.simulateMessage({ type: "trade", pair: data.pair, trade: data }),
+      );
+
+    function openTradesSocket() {
+      const result = renderHookViaComponent("BTC-USDT");
+      result.rerender("BTC-USDT", "trades");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+      return { ...result, socket };
+    }
+
+    it("subscribes only the trades channel in 'trades' mode", () => {
+      const { socket } = openTradesSocket();
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "trades" },
+      ]);
+    });
+
+    it("collects live trades newest first", () => {
+      const { stateRef, socket } = openTradesSocket();
+
+      sendTrade(socket, trade("a"));
+      sendTrade(socket, trade("b"));
+
+      expect(stateRef.current.trades.map((t) => t.id)).toEqual(["b", "a"]);
+    });
+
+    it("keeps as many live trades as the tape shows", () => {
+      const { stateRef, socket } = openTradesSocket();
+
+      act(() => {
+        for (let i = 0; i < MAX_TAPE_TRADES + 10; i++) {
+          socket.simulateMessage({
+            type: "trade",
+            pair: "BTC-USDT",
+            trade: trade(String(i)),
+          });
+        }
+      });
+
+      expect(stateRef.current.trades).toHaveLength(MAX_TAPE_TRADES);
+      expect(stateRef.current.trades[0].id).toBe(String(MAX_TAPE_TRADES + 9));
+    });
+
+    it("ignores trades while the channel is not subscribed", () => {
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+
+      sendTrade(socket, trade("a"));
+
+      expect(stateRef.current.trades).toEqual([]);
+    });
+
+    it("clears the trades when the pair changes", () => {
+      const { stateRef, socket, rerender } = openTradesSocket();
+      sendTrade(socket, trade("a"));
+
+      rerender("ETH-USDT", "trades");
+      sendTrade(socket, trade("b"));
+
+      expect(stateRef.current.trades).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Stream mode
+  // -------------------------------------------------------------------------
+  describe("stream mode", () => {
+    const sampleCandle = {
+      time: 1_680_000_000_000,
+      open: 100,
+      high: 110,
+      low: 90,
+      close: 105,
+      volume: 1234,
+    };
+
+    const sampleOrderBook = {
+      pair: "BTC-USDT" as CryptoPair,
+      asks: [[30000, 0.5]] as [number, number][],
+      bids: [[29900, 1.2]] as [number, number][],
+      timestamp: 1_680_000_000_000,
+    };
+
+    function openSocket() {
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+      socket.send.mockClear();
+      return socket;
+    }
+
+    it("only unsubscribes the order book when switching to candles", () => {
+      const { rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = openSocket();
+
+      rerender("BTC-USDT", "candles");
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "unsubscribe", pair: "BTC-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("swaps channels when switching between single-channel modes", () => {
+      const { rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = openSocket();
+
+      rerender("BTC-USDT", "candles");
+      socket.send.mockClear();
+      rerender("BTC-USDT", "orderbook");
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "unsubscribe", pair: "BTC-USDT", stream: "candles" },
+        { type: "subscribe", pair: "BTC-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("only subscribes the missing channel when switching back to all", () => {
+      const { rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = openSocket();
+
+      rerender("BTC-USDT", "candles");
+      socket.send.mockClear();
+      rerender("BTC-USDT", "all");
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("moves only the active channels over on a pair change", () => {
+      const { rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = openSocket();
+
+      rerender("BTC-USDT", "candles");
+      socket.send.mockClear();
+      rerender("ETH-USDT", "candles");
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "unsubscribe", pair: "BTC-USDT", stream: "candles" },
+        { type: "subscribe", pair: "ETH-USDT", stream: "candles" },
+      ]);
+    });
+
+    it("clears the order book and ignores late snapshots once unsubscribed", () => {
+      const { stateRef, rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = openSocket();
+
+      act(() =>
+        socket.simulateMessage({
+          type: "orderbook_update",
+          pair: "BTC-USDT",
+          data: sampleOrderBook,
+        }),
+      );
+      expect(stateRef.current.orderBook).toEqual(sampleOrderBook);
+
+      rerender("BTC-USDT", "candles");
+      expect(stateRef.current.orderBook).toBeNull();
+
+      act(() =>
+        socket.simulateMessage({
+          type: "orderbook_update",
+          pair: "BTC-USDT",
+          data: sampleOrderBook,
+        }),
+      );
+      expect(stateRef.current.orderBook).toBeNull();
+    });
+
+    it("keeps delivering candles for the channel that stays subscribed", () => {
+      const { stateRef, rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = openSocket();
+
+      rerender("BTC-USDT", "candles");
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "BTC-USDT",
+          candle: sampleCandle,
+        }),
+      );
+
+      expect(stateRef.current.updatedCandle).toEqual(sampleCandle);
+    });
+
+    it("re-subscribes only the selected channels after a reconnect", () => {
+      vi.useFakeTimers();
+      const { rerender } = renderHookViaComponent("BTC-USDT", {
+        reconnect: { jitter: 0, initialDelayMs: 1_000 },
+      });
+      const first = openSocket();
+
+      rerender("BTC-USDT", "orderbook");
+      act(() => first.simulateClose());
+      act(() => vi.advanceTimersByTime(1_000));
+
+      const second = MockWebSocket.lastInstance!;
+      act(() => second.simulateOpen());
+
+      expect(sentMessages(second)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "orderbook" },
+      ]);
+      vi.useRealTimers();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Watchlist
+  // -------------------------------------------------------------------------
+  describe("watchlist", () => {
+    const candle = (close: number) => ({
+      time: 1_680_000_000_000,
+      open: 100,
+      high: 110,
+      low: 90,
+      close,
+      volume: 5,
+    });
+
+    /** Render with a watchlist that can change between renders. */
+    function renderWatching(watchlist: CryptoPair[], mode: StreamMode = "all") {
+      const stateRef: { current: HookState | null } = { current: null };
+
+      function TestComponent({ w }: { w: CryptoPair[] }) {
+        stateRef.current = useCryptoWebSocket("BTC-USDT", mode, {
+          watchlist: w,
+        });
+        return null;
+      }
+
+      const renderResult = render(
+        createElement(TestComponent, { w: watchlist }),
+      );
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+
+      const rewatch = (w: CryptoPair[]) =>
+        act(() => renderResult.rerender(createElement(TestComponent, { w })));
+      return { state: () => stateRef.current!, socket, rewatch };
+    }
+
+    it("holds the watched pairs' candles on the same socket", () => {
+      const { socket } = renderWatching(["BTC-USDT", "ETH-USDT"]);
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "candles" },
+        { type: "subscribe", pair: "BTC-USDT", stream: "orderbook" },
+        { type: "subscribe", pair: "ETH-USDT", stream: "candles" },
+      ]);
+    });
+
+    it("routes candles to the watchlist without feeding the chart", () => {
+      const { state, socket } = renderWatching(
+        ["BTC-USDT", "ETH-USDT"],
+        "orderbook",
+      );
+
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "BTC-USDT",
+          candle: candle(101),
+        }),
+      );
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "ETH-USDT",
+          candle: candle(202),
+        }),
+      );
+
+      expect(state().updatedCandle).toBeNull();
+      expect(state().watchedCandles["BTC-USDT"]?.close).toBe(101);
+      expect(state().watchedCandles["ETH-USDT"]?.close).toBe(202);
+    });
+
+    it("routes tickers for watched pairs", () => {
+      const { state, socket } = renderWatching(["ETH-USDT"]);
+      const ticker = {
+        pair: "ETH-USDT",
+        last: 3_000,
+        change: 30,
+        changePercent: 1,
+        high: 3_100,
+        low: 2_900,
+        volume: 10,
+      };
+
+      act(() =>
+        socket.simulateMessage({ type: "ticker", pair: "ETH-USDT", ticker }),
+      );
+
+      expect(state().watchedTickers["ETH-USDT"]).toEqual(ticker);
+      // Not the selected pair's ticker
+      expect(state().ticker).toBeNull();
+    });
+
+    it("unsubscribes and forgets a pair once it is unwatched", () => {
+      const { state, socket, rewatch } = renderWatching([
+        "BTC-USDT",
+        "ETH-USDT",
+      ]);
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "ETH-USDT",
+          candle: candle(202),
+        }),
+      );
+      socket.send.mockClear();
+
+      rewatch([]);
+
+      // BTC candles are still wanted by the chart
+      expect(sentMessages(socket)).toEqual([
+        { type: "unsubscribe", pair: "ETH-USDT", stream: "candles" },
+      ]);
+      expect(state().watchedCandles).toEqual({});
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Pair catalogue
+  // -------------------------------------------------------------------------
+  describe("pair catalogue", () => {
+    function renderWithCatalogue(pairs: readonly PairInfo[]) {
+      function TestComponent({ p }: { p: readonly PairInfo[] }) {
+        useCryptoWebSocket("BTC-USDT", "candles", { pairs: p });
+        return null;
+      }
+
+      const renderResult = render(createElement(TestComponent, { p: pairs }));
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+      socket.send.mockClear();
+
+      const recatalogue = (p: readonly PairInfo[]) =>
+        act(() => renderResult.rerender(createElement(TestComponent, { p })));
+      return { socket, recatalogue };
+    }
+
+    it("drops the subscriptions of a pair the new catalogue halts", () => {
+      const { socket, recatalogue } = renderWithCatalogue(DEFAULT_PAIRS);
+
+      const halted = DEFAULT_PAIRS.map((info) =>
+        info.symbol === "BTC-USDT"
+          ? { ...info, status: "halted" as const }
+          : info,
+      );
+      recatalogue(halted);
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "unsubscribe", pair: "BTC-USDT", stream: "candles" },
+      ]);
+    });
+
+    it("subscribes a pair once the catalogue resumes it", () => {
+      const halted = DEFAULT_PAIRS.map((info) =>
+        info.symbol === "BTC-USDT"
+          ? { ...info, status: "halted" as const }
+          : info,
+      );
+      const { socket, recatalogue } = renderWithCatalogue(halted);
+
+      recatalogue(DEFAULT_PAIRS);
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "candles" },
+      ]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Initial subscription race
+  // -------------------------------------------------------------------------
+  describe("subscription queue", () => {
+    it("subscribes to the initial pair, not BTC-USDT, when starting elsewhere", () => {
+      renderHookViaComponent("ETH-USDT");
+      const socket = MockWebSocket.lastInstance!;
+
+      act(() => socket.simulateOpen());
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "ETH-USDT", stream: "candles" },
+        { type: "subscribe", pair: "ETH-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("applies a pair change made before the socket opens", () => {
+      const { rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+
+      rerender("XRP-USDT");
+      expect(socket.send).not.toHaveBeenCalled();
+
+      act(() => socket.simulateOpen());
+
+      // Only the latest pair — no stale BTC subscribe or pointless unsubscribe
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "XRP-USDT", stream: "candles" },
+        { type: "subscribe", pair: "XRP-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("applies a stream mode change made before the socket opens", () => {
+      const { rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+
+      rerender("BTC-USDT", "orderbook");
+
+      act(() => socket.simulateOpen());
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("delivers messages for a pair selected before the socket opened", () => {
+      const { stateRef, rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+
+      rerender("ETH-USDT");
+      act(() => socket.simulateOpen());
+
+      const candle = {
+        time: 1_680_000_000_000,
+        open: 1,
+        high: 2,
+        low: 0.5,
+        close: 1.5,
+        volume: 10,
+      };
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "BTC-USDT",
+          candle,
+        }),
+      );
+      expect(stateRef.current.updatedCandle).toBeNull();
+
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "ETH-USDT",
+          candle,
+        }),
+      );
+      expect(stateRef.current.updatedCandle).toEqual(candle);
+    });
+
+    it("resubscribes to the pair chosen while reconnecting", () => {
+      vi.useFakeTimers();
+      const { rerender } = renderHookViaComponent("BTC-USDT", {
+        reconnect: { jitter: 0, initialDelayMs: 1_000 },
+      });
+      const first = MockWebSocket.lastInstance!;
+      act(() => first.simulateOpen());
+
+      act(() => first.simulateClose());
+      first.send.mockClear();
+
+      rerender("ETH-USDT");
+      expect(first.send).not.toHaveBeenCalled();
+
+      act(() => vi.advanceTimersByTime(1_000));
+      const second = MockWebSocket.lastInstance!;
+      act(() => second.simulateOpen());
+
+      // The new socket starts clean — nothing to unsubscribe from
+      expect(sentMessages(second)).toEqual([
+        { type: "subscribe", pair: "ETH-USDT", stream: "candles" },
+        { type: "subscribe", pair: "ETH-USDT", stream: "orderbook" },
+      ]);
+      vi.useRealTimers();
+    });
+
+    it("does not resend subscriptions when re-rendered with the same selection", () => {
+      const { rerender } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+      act(() => socket.simulateOpen());
+      socket.send.mockClear();
+
+      rerender("BTC-USDT", "all");
+
+      expect(socket.send).not.toHaveBeenCalled();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Reconnection
+  // -------------------------------------------------------------------------
+  describe("reconnection", () => {
+    const policy = {
+      initialDelayMs: 1_000,
+      maxDelayMs: 8_000,
+      multiplier: 2,
+      jitter: 0,
+      maxAttempts: 3,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("opens a new socket after the backoff delay when the connection drops", () => {
+      renderHookViaComponent("BTC-USDT", { reconnect: policy });
+      const first = MockWebSocket.lastInstance!;
+
+      act(() => first.simulateOpen());
+      act(() => first.simulateClose());
+
+      act(() => vi.advanceTimersByTime(999));
+      expect(MockWebSocket.lastInstance).toBe(first);
+
+      act(() => vi.advanceTimersByTime(1));
+      expect(MockWebSocket.lastInstance).not.toBe(first);
+    });
+
+    it("re-subscribes to the current pair once the new socket opens", () => {
+      renderHookViaComponent("BTC-USDT", { reconnect: policy });
+      const first = MockWebSocket.lastInstance!;
+
+      act(() => first.simulateOpen());
+      act(() => first.simulateClose());
+      act(() => vi.advanceTimersByTime(1_000));
+
+      const second = MockWebSocket.lastInstance!;
+      act(() => second.simulateOpen());
+
+      expect(sentMessages(second)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "candles" },
+        { type: "subscribe", pair: "BTC-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("exposes the attempt count and next retry time while waiting", () => {
+      vi.setSystemTime(1_700_000_000_000);
+      const { stateRef } = renderHookViaComponent("BTC-USDT", {
+        reconnect: policy,
+      });
+
+      act(() => MockWebSocket.lastInstance!.simulateClose());
+
+      expect(stateRef.current.reconnectAttempt).toBe(1);
+      expect(stateRef.current.nextRetryAt).toBe(1_700_000_001_000);
+    });
+
+    it("doubles the delay on every consecutive failure", () => {
+      renderHookViaComponent("BTC-USDT", { reconnect: policy });
+
+      act(() => MockWebSocket.lastInstance!.simulateClose());
+      act(() => vi.advanceTimersByTime(1_000));
+      const second = MockWebSocket.lastInstance!;
+
+      act(() => second.simulateClose());
+      act(() => vi.advanceTimersByTime(1_999));
+      expect(MockWebSocket.lastInstance).toBe(second);
+
+      act(() => vi.advanceTimersByTime(1));
+      expect(MockWebSocket.lastInstance).not.toBe(second);
+    });
+
+    it("resets the attempt count after a successful reconnect", () => {
+      const { stateRef } = renderHookViaComponent("BTC-USDT", {
+        reconnect: policy,
+      });
+
+      act(() => MockWebSocket.lastInstance!.simulateClose());
+      act(() => vi.advanceTimersByTime(1_000));
+      act(() => MockWebSocket.lastInstance!.simulateOpen());
+
+      expect(stateRef.current.reconnectAttempt).toBe(0);
+      expect(stateRef.current.nextRetryAt).toBeNull();
+    });
+
+    it("stops retrying after maxAttempts consecutive failures", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { stateRef } = renderHookViaComponent("BTC-USDT", {
+        reconnect: policy,
+      });
+
+      for (let i = 0; i < policy.maxAttempts; i++) {
+        act(() => MockWebSocket.lastInstance!.simulateClose());
+        act(() => vi.runOnlyPendingTimers());
+      }
+      const last = MockWebSocket.lastInstance!;
+
+      act(() => last.simulateClose());
+      act(() => vi.runOnlyPendingTimers());
+
+      expect(MockWebSocket.lastInstance).toBe(last);
+      expect(stateRef.current.reconnectAttempt).toBe(policy.maxAttempts);
+      expect(stateRef.current.nextRetryAt).toBeNull();
+    });
+
+    it("cancels a pending reconnect on unmount", () => {
+      const { renderResult } = renderHookViaComponent("BTC-USDT", {
+        reconnect: policy,
+      });
+      const first = MockWebSocket.lastInstance!;
+
+      act(() => first.simulateClose());
+      renderResult.unmount();
+      vi.runOnlyPendingTimers();
+
+      expect(MockWebSocket.lastInstance).toBe(first);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Connection status & stats
+  // -------------------------------------------------------------------------
+  describe("connection status", () => {
+    const policy = {
+      initialDelayMs: 1_000,
+      maxDelayMs: 8_000,
+      multiplier: 2,
+      jitter: 0,
+      maxAttempts: 1,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("starts in the connecting state", () => {
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      expect(stateRef.current.status).toBe("connecting");
+    });
+
+    it("moves to open once the socket connects", () => {
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      act(() => MockWebSocket.lastInstance!.simulateOpen());
+      expect(stateRef.current.status).toBe("open");
+    });
+
+    it("moves to error when the socket reports an error", () => {
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      act(() => MockWebSocket.lastInstance!.simulateOpen());
+      act(() => MockWebSocket.lastInstance!.simulateError());
+      expect(stateRef.current.status).toBe("error");
+    });
+
+    it("moves to reconnecting when the socket drops and a retry is scheduled", () => {
+      const { stateRef } = renderHookViaComponent("BTC-USDT", {
+        reconnect: policy,
+      });
+      act(() => MockWebSocket.lastInstance!.simulateOpen());
+      act(() => MockWebSocket.lastInstance!.simulateClose());
+      expect(stateRef.current.status).toBe("reconnecting");
+    });
+
+    it("moves to closed once reconnect attempts are exhausted", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { stateRef } = renderHookViaComponent("BTC-USDT", {
+        reconnect: policy,
+      });
+
+      act(() => MockWebSocket.lastInstance!.simulateClose());
+      act(() => vi.runOnlyPendingTimers());
+      act(() => MockWebSocket.lastInstance!.simulateClose());
+
+      expect(stateRef.current.status).toBe("closed");
+    });
+
+    it("records the time of the last inbound message", () => {
+      vi.setSystemTime(1_700_000_000_000);
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+
+      act(() => socket.simulateOpen());
+      act(() => socket.simulateMessage({ type: "error", message: "x" }));
+
+      expect(stateRef.current.lastMessageAt).toBe(1_700_000_000_000);
+    });
+
+    it("counts messages received during the last minute", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      const socket = MockWebSocket.lastInstance!;
+
+      act(() => socket.simulateOpen());
+      act(() => socket.simulateMessage({ type: "error", message: "a" }));
+      act(() => vi.advanceTimersByTime(30_000));
+      act(() => socket.simulateMessage({ type: "error", message: "b" }));
+
+      expect(stateRef.current.messagesPerMinute).toBe(2);
+
+      // The first message falls out of the 60s window
+      act(() => vi.advanceTimersByTime(35_000));
+      expect(stateRef.current.messagesPerMinute).toBe(1);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Unmount
   // -------------------------------------------------------------------------
@@ -241,5 +1330,11 @@ describe("useCryptoWebSocket", () => {
       expect(stateRef.current.updatedCandle).toBeNull();
       expect(stateRef.current.orderBook).toBeNull();
     });
+
+    it("starts with no reconnect attempt pending", () => {
+      const { stateRef } = renderHookViaComponent("BTC-USDT");
+      expect(stateRef.current.reconnectAttempt).toBe(0);
+      expect(stateRef.current.nextRetryAt).toBeNull();
+    });
   });
 });
@@ -0,0 +1,90 @@
+/* eslint-disable react-hooks/globals */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import type { PairInfo } from "../../services/apiTypes";
+import { usePairs } from "../hooks/usePairs";
+import { DEFAULT_PAIRS } from "../utils/pairCatalogue";
+
+// ---------------------------------------------------------------------------
+// Mock fetchPairs
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchPairs: vi.fn(),
+}));
+
+import { fetchPairs } from "../../services/cryptoApiService";
+const mockFetchPairs = vi.mocked(fetchPairs);
+
+const sol: PairInfo = {
+  symbol: "SOL-USDT",
+  base: "SOL",
+  quote: "USDT",
+  pricePrecision: 3,
+  amountPrecision: 2,
+  tickSize: 0.001,
+  status: "trading",
+};
+
+// ---------------------------------------------------------------------------
+// Helper: render hook via component
+// ---------------------------------------------------------------------------
+type HookResult = ReturnType<typeof usePairs>;
+
+function renderHookViaComponent() {
+  let captured: HookResult | undefined;
+
+  function TestComponent() {
+    captured = usePairs();
+    return null;
+  }
+
+  render(createElement(TestComponent));
+  return { captured: () => captured as HookResult };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("usePairs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("starts with the default pairs while loading", () => {
+    mockFetchPairs.mockReturnValue(new Promise(() => {}));
+    const { captured } = renderHookViaComponent();
+    expect(captured().pairs).toEqual(DEFAULT_PAIRS);
+    expect(captured().loading).toBe(true);
+  });
+
+  it("returns the fetched catalogue", async () => {
+    mockFetchPairs.mockResolvedValue([sol]);
+    const { captured } = renderHookViaComponent();
+    await waitFor(() => expect(captured().loading).toBe(false));
+    expect(captured().pairs).toEqual([sol]);
+    expect(captured().error).toBeNull();
+  });
+
+  it("keeps the default pairs when the catalogue is empty", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetchPairs.mockResolvedValue([]);
+    const { captured } = renderHookViaComponent();
+    await waitFor(() => expect(captured().loading).toBe(false));
+    expect(captured().pairs).toEqual(DEFAULT_PAIRS);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("keeps the default pairs when the catalogue fails to load", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetchPairs.mockRejectedValue(new Error("network error"));
+    const { captured } = renderHookViaComponent();
+    await waitFor(() => expect(captured().loading).toBe(false));
+    expect(captured().pairs).toEqual(DEFAULT_PAIRS);
+    expect(captured().error).toBe("Failed to fetch pairs");
+  });
+});
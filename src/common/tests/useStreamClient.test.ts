@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { createElement } from "react";
+import type { Candle, CryptoPair } from "../../services/apiTypes";
+import type { StreamClient } from "../../services/streamClient";
+import { StreamClientProvider } from "../components/StreamClientProvider";
+import {
+  useStreamClient,
+  useStreamSubscription,
+} from "../hooks/useStreamClient";
+
+// ---------------------------------------------------------------------------
+// MockWebSocket — the client opens sockets through the global
+// ---------------------------------------------------------------------------
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  readyState = 0;
+  onopen: ((e: Event) => void) | null = null;
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onclose: ((e: CloseEvent) => void) | null = null;
+  onerror: ((e: Event) => void) | null = null;
+
+  send = vi.fn();
+  close = vi.fn();
+
+  url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    MockWebSocket.instances.push(this);
+  }
+
+  simulateOpen() {
+    this.readyState = 1;
+    this.onopen?.({} as Event);
+  }
+
+  simulateMessage(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) } as MessageEvent);
+  }
+}
+
+vi.stubGlobal("WebSocket", MockWebSocket);
+
+const sentMessages = (socket: MockWebSocket) =>
+  socket.send.mock.calls.map(([data]) => JSON.parse(data as string));
+
+const candle: Candle = {
+  time: 1_700_000_000_000,
+  open: 100,
+  high: 110,
+  low: 95,
+  close: 105,
+  volume: 12,
+};
+
+describe("useStreamClient", () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // -------------------------------------------------------------------------
+  // Client ownership
+  // -------------------------------------------------------------------------
+  describe("client ownership", () => {
+    it("shares the provider's client between components", () => {
+      const clients: StreamClient[] = [];
+      function Consumer() {
+        clients.push(useStreamClient());
+        return null;
+      }
+
+      render(
+        createElement(
+          StreamClientProvider,
+          null,
+          createElement(Consumer),
+          createElement(Consumer),
+        ),
+      );
+
+      expect(clients[0]).toBe(clients[1]);
+      expect(MockWebSocket.instances).toHaveLength(1);
+    });
+
+    it("closes the provider's socket on unmount", () => {
+      const { unmount } = render(
+        createElement(StreamClientProvider, null, null),
+      );
+      unmount();
+      expect(MockWebSocket.instances[0].close).toHaveBeenCalled();
+    });
+
+    it("connects a client of its own outside a provider", () => {
+      function Consumer() {
+        useStreamClient();
+        return null;
+      }
+
+      const { unmount } = render(createElement(Consumer));
+      expect(MockWebSocket.instances).toHaveLength(1);
+
+      unmount();
+      expect(MockWebSocket.instances[0].close).toHaveBeenCalled();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // useStreamSubscription
+  // -------------------------------------------------------------------------
+  describe("useStreamSubscription", () => {
+    function Subscriber({
+      pair,
+      onCandle,
+    }: {
+      pair: CryptoPair | null;
+      onCandle: (candle: Candle) => void;
+    }) {
+      useStreamSubscription(pair, "candles", onCandle);
+      return null;
+    }
+
+    function renderSubscribers(
+      subscribers: { pair: CryptoPair | null; onCandle: () => void }[],
+    ) {
+      const tree = (list: typeof subscribers) =>
+        createElement(
+          StreamClientProvider,
+          null,
+          ...list.map((props, i) =>
+            createElement(Subscriber, { key: i, ...props }),
+          ),
+        );
+      const result = render(tree(subscribers));
+      return {
+        ...result,
+        rerenderWith: (list: typeof subscribers) => result.rerender(tree(list)),
+      };
+    }
+
+    it("subscribes once for two components on the same topic", () => {
+      renderSubscribers([
+        { pair: "BTC-USDT", onCandle: vi.fn() },
+        { pair: "BTC-USDT", onCandle: vi.fn() },
+      ]);
+      const socket = MockWebSocket.instances[0];
+      act(() => socket.simulateOpen());
+
+      expect(sentMessages(socket)).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "candles" },
+      ]);
+    });
+
+    it("delivers messages to every subscribed component", () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      renderSubscribers([
+        { pair: "BTC-USDT", onCandle: first },
+        { pair: "BTC-USDT", onCandle: second },
+      ]);
+      const socket = MockWebSocket.instances[0];
+      act(() => socket.simulateOpen());
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "BTC-USDT",
+          candle,
+        }),
+      );
+
+      expect(first).toHaveBeenCalledWith(candle);
+      expect(second).toHaveBeenCalledWith(candle);
+    });
+
+    it("calls the latest handler without resubscribing", () => {
+      const stale = vi.fn();
+      const fresh = vi.fn();
+      const { rerenderWith } = renderSubscribers([
+        { pair: "BTC-USDT", onCandle: stale },
+      ]);
+      const socket = MockWebSocket.instances[0];
+      act(() => socket.simulateOpen());
+      rerenderWith([{ pair: "BTC-USDT", onCandle: fresh }]);
+      act(() =>
+        socket.simulateMessage({
+          type: "candle_update",
+          pair: "BTC-USDT",
+          candle,
+        }),
+      );
+
+      expect(stale).not.toHaveBeenCalled();
+      expect(fresh).toHaveBeenCalledWith(candle);
+      expect(sentMessages(socket)).toHaveLength(1);
+    });
+
+    it("unsubscribes only once the last component lets go", () => {
+      const { rerenderWith } = renderSubscribers([
+        { pair: "BTC-USDT", onCandle: vi.fn() },
+        { pair: "BTC-USDT", onCandle: vi.fn() },
+      ]);
+      const socket = MockWebSocket.instances[0];
+      act(() => socket.simulateOpen());
+      socket.send.mockClear();
+
+      rerenderWith([{ pair: "BTC-USDT", onCandle: vi.fn() }]);
+      expect(sentMessages(socket)).toEqual([]);
+
+      rerenderWith([{ pair: null, onCandle: vi.fn() }]);
+      expect(sentMessages(socket)).toEqual([
+        { type: "unsubscribe", pair: "BTC-USDT", stream: "candles" },
+      ]);
+    });
+  });
+});
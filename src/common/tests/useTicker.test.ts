@@ -0,0 +1,171 @@
+/* eslint-disable react-hooks/globals */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, act, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import type { Candle, CryptoPair, Ticker } from "../../services/apiTypes";
+import { useTicker, type TickerStream } from "../hooks/useTicker";
+
+// ---------------------------------------------------------------------------
+// Mock fetchCandles
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchCandles: vi.fn(),
+}));
+
+import { fetchCandles } from "../../services/cryptoApiService";
+const mockFetchCandles = vi.mocked(fetchCandles);
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const HOUR = 3_600_000;
+
+const candle = (hour: number, close: number): Candle => ({
+  time: hour * HOUR,
+  open: 100,
+  high: Math.max(100, close),
+  low: Math.min(100, close),
+  close,
+  volume: 5,
+});
+
+const streamedTicker: Ticker = {
+  pair: "BTC-USDT",
+  last: 42_000,
+  change: 1_000,
+  changePercent: 2.44,
+  high: 42_500,
+  low: 40_000,
+  volume: 1_234,
+};
+
+// ---------------------------------------------------------------------------
+// Helper: render hook via component
+// ---------------------------------------------------------------------------
+type HookResult = ReturnType<typeof useTicker>;
+
+function renderHookViaComponent(
+  pair: CryptoPair = "BTC-USDT",
+  stream: TickerStream = { updatedCandle: null, ticker: null },
+) {
+  let captured: HookResult | undefined;
+
+  function TestComponent({ p, s }: { p: CryptoPair; s: TickerStream }) {
+    captured = useTicker(p, s);
+    return null;
+  }
+
+  const renderResult = render(
+    createElement(TestComponent, { p: pair, s: stream }),
+  );
+  const rerender = (p: CryptoPair, s: TickerStream) =>
+    renderResult.rerender(createElement(TestComponent, { p, s }));
+
+  return { captured: () => captured as HookResult, rerender };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("useTicker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetchCandles.mockResolvedValue([candle(0, 100), candle(1, 110)]);
+  });
+
+  it("is null until the candles have loaded", () => {
+    mockFetchCandles.mockReturnValue(new Promise(() => {}));
+    const { captured } = renderHookViaComponent();
+    expect(captured().ticker).toBeNull();
+  });
+
+  it("computes the ticker from the hourly candle history", async () => {
+    const { captured } = renderHookViaComponent("ETH-USDT");
+    await waitFor(() => expect(captured().ticker).not.toBeNull());
+
+    expect(mockFetchCandles).toHaveBeenCalledWith(
+      "ETH-USDT",
+      "1H",
+      expect.objectContaining({ onRevalidate: expect.any(Function) }),
+    );
+    expect(captured().ticker).toMatchObject({
+      pair: "ETH-USDT",
+      last: 110,
+      change: 10,
+      volume: 10,
+    });
+  });
+
+  it("recomputes when fresh candles replace cached ones", async () => {
+    const { captured } = renderHookViaComponent();
+    await waitFor(() => expect(captured().ticker).not.toBeNull());
+
+    const onRevalidate = mockFetchCandles.mock.calls[0][2]?.onRevalidate;
+    act(() => onRevalidate?.([candle(0, 100), candle(1, 130)]));
+
+    expect(captured().ticker?.last).toBe(130);
+  });
+
+  it("ignores a refresh for a pair no longer shown", async () => {
+    const { captured, rerender } = renderHookViaComponent();
+    await waitFor(() => expect(captured().ticker).not.toBeNull());
+    const onRevalidate = mockFetchCandles.mock.calls[0][2]?.onRevalidate;
+
+    rerender("ETH-USDT", { updatedCandle: null, ticker: null });
+    await waitFor(() => expect(captured().ticker?.pair).toBe("ETH-USDT"));
+    act(() => onRevalidate?.([candle(0, 100), candle(1, 130)]));
+
+    expect(captured().ticker).toMatchObject({ pair: "ETH-USDT", last: 110 });
+  });
+
+  it("folds live candles into the computed ticker", async () => {
+    const { captured, rerender } = renderHookViaComponent();
+    await waitFor(() => expect(captured().ticker).not.toBeNull());
+
+    rerender("BTC-USDT", { updatedCandle: candle(1, 120), ticker: null });
+
+    expect(captured().ticker?.last).toBe(120);
+  });
+
+  it("prefers a streamed ticker for the pair", async () => {
+    const { captured } = renderHookViaComponent("BTC-USDT", {
+      updatedCandle: null,
+      ticker: streamedTicker,
+    });
+    expect(captured().ticker).toEqual(streamedTicker);
+  });
+
+  it("ignores a streamed ticker for another pair", async () => {
+    const { captured } = renderHookViaComponent("XRP-USDT", {
+      updatedCandle: null,
+      ticker: streamedTicker,
+    });
+    await waitFor(() => expect(captured().ticker).not.toBeNull());
+    expect(captured().ticker?.pair).toBe("XRP-USDT");
+  });
+
+  it("reports the direction of each price change", async () => {
+    const { captured, rerender } = renderHookViaComponent();
+    await waitFor(() => expect(captured().ticker).not.toBeNull());
+    // The first price has nothing to compare with
+    expect(captured().direction).toBeNull();
+    const firstKey = captured().flashKey;
+
+    rerender("BTC-USDT", { updatedCandle: candle(1, 90), ticker: null });
+    expect(captured().direction).toBe("down");
+
+    rerender("BTC-USDT", { updatedCandle: candle(1, 95), ticker: null });
+    expect(captured().direction).toBe("up");
+    expect(captured().flashKey).toBe(firstKey + 2);
+  });
+
+  it("does not flash when the price is unchanged", async () => {
+    const { captured, rerender } = renderHookViaComponent();
+    await waitFor(() => expect(captured().ticker).not.toBeNull());
+    const key = captured().flashKey;
+
+    rerender("BTC-USDT", { updatedCandle: candle(1, 110), ticker: null });
+
+    expect(captured().flashKey).toBe(key);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Exponential backoff policy used when retrying a failed operation
+ * (e.g. re-opening a dropped WebSocket connection).
+ */
+export interface BackoffPolicy {
+  /** Delay (ms) before the first retry. */
+  initialDelayMs: number;
+  /** Upper bound (ms) for any single delay. */
+  maxDelayMs: number;
+  /** Growth factor applied to the delay after every failed attempt. */
+  multiplier: number;
+  /**
+   * Fraction of the delay that is randomised, between 0 and 1.
+   * 0 → fully deterministic, 1 → anywhere between 0 and the full delay.
+   */
+  jitter: number;
+  /** Give up after this many consecutive failed attempts. */
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: 10,
+};
+
+/**
+ * Compute the delay before retry number `attempt` (1-based).
+ *
+ * The base delay grows exponentially and is capped at `maxDelayMs`; jitter
+ * then shaves a random portion off it so that many clients reconnecting after
+ * the same outage do not all hit the server at the same instant.
+ *
+ * @param random  Injectable random source — defaults to Math.random.
+ */
+export function getBackoffDelay(
+  attempt: number,
+  policy: BackoffPolicy = DEFAULT_BACKOFF_POLICY,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.multiplier ** exponent,
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(base - base * jitter * random());
+}
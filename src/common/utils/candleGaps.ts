@@ -0,0 +1,121 @@
+import type { Candle } from "../../services/apiTypes";
+
+/** A time range of missing candles, both ends inclusive (ms). */
+export interface CandleGap {
+  from: number;
+  to: number;
+}
+
+/**
+ * How a live tick relates to the newest candle already loaded.
+ *
+ *  - "next"  → it updates that candle or directly follows it
+ *  - "stale" → it is older than that candle; drawing it would go back in time
+ *  - "gap"   → candles are missing in between, e.g. after the socket was down
+ */
+export type TickContinuity =
+  | { kind: "next" }
+  | { kind: "stale" }
+  | { kind: "gap"; gap: CandleGap };
+
+/**
+ * Start of the interval of a series with candles every `intervalMs` that
+ * `time` falls into, counted from the candle at `lastTime`. A tick finer
+ * than the series — e.g. an hourly one on daily candles — lands on the
+ * candle it belongs to.
+ */
+function intervalStart(
+  lastTime: number,
+  time: number,
+  intervalMs: number,
+): number {
+  return lastTime + Math.floor((time - lastTime) / intervalMs) * intervalMs;
+}
+
+/**
+ * Compare a tick against the newest loaded candle time, for a series with
+ * candles every `intervalMs`. The tick is measured at the series'
+ * resolution, so a gap always covers at least one whole candle.
+ */
+export function checkTickContinuity(
+  lastTime: number,
+  tickTime: number,
+  intervalMs: number,
+): TickContinuity {
+  if (tickTime < lastTime) return { kind: "stale" };
+  const tickStart = intervalStart(lastTime, tickTime, intervalMs);
+  if (tickStart - lastTime <= intervalMs) return { kind: "next" };
+  return {
+    kind: "gap",
+    gap: { from: lastTime + intervalMs, to: tickStart - intervalMs },
+  };
+}
+
+/**
+ * Fold a live tick into a time-ordered series with candles every
+ * `intervalMs`, so the series keeps a single resolution. A tick at the
+ * series' resolution is merged as is. A finer one is rolled into the
+ * candle of its interval: it extends that candle's high and low and sets
+ * its close, or opens the next candle. The candle's volume is left as is,
+ * as a tick only covers part of the interval.
+ */
+export function foldTick(
+  history: readonly Candle[],
+  tick: Candle,
+  intervalMs: number,
+): Candle[] {
+  const last = history[history.length - 1];
+  if (!last || tick.time < last.time) return mergeCandles(history, [tick]);
+
+  const time = intervalStart(last.time, tick.time, intervalMs);
+  if (time === tick.time) return mergeCandles(history, [tick]);
+  if (time > last.time) return [...history, { ...tick, time }];
+  return [
+    ...history.slice(0, -1),
+    {
+      ...last,
+      high: Math.max(last.high, tick.high),
+      low: Math.min(last.low, tick.low),
+      close: tick.close,
+    },
+  ];
+}
+
+/**
+ * Merge two time-ordered candle series into one. Where both have a
+ * candle at the same time, `incoming`'s wins. Neither input is modified.
+ */
+export function mergeCandles(
+  existing: readonly Candle[],
+  incoming: readonly Candle[],
+): Candle[] {
+  if (incoming.length === 0) return [...existing];
+  // The common case — a tick or a page appended at the end
+  const last = existing[existing.length - 1];
+  if (!last || incoming[0].time > last.time) {
+    return [...existing, ...incoming];
+  }
+
+  const byTime = new Map<number, Candle>();
+  for (const candle of existing) byTime.set(candle.time, candle);
+  for (const candle of incoming) byTime.set(candle.time, candle);
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Fold a freshly loaded window of candles into the cached history it
+ * refreshes, for a series with candles every `intervalMs`. The cached
+ * candles are kept only when they reach the window — the newest of them
+ * at most one interval before its oldest candle. Otherwise the history
+ * would have a hole nothing fills, so the window replaces it.
+ */
+export function refreshHistory(
+  cached: readonly Candle[],
+  fresh: readonly Candle[],
+  intervalMs: number,
+): Candle[] {
+  const newestCached = cached[cached.length - 1];
+  if (!newestCached || !fresh[0]) return [...fresh];
+  if (fresh[0].time - newestCached.time > intervalMs) return [...fresh];
+  return mergeCandles(cached, fresh);
+}
@@ -1,5 +1,11 @@
-import type { CandlestickData, HistogramData, Time } from "lightweight-charts";
+import type {
+  CandlestickData,
+  HistogramData,
+  LineData,
+  Time,
+} from "lightweight-charts";
 import type { Candle } from "../../services/apiTypes";
+import type { IndicatorPoint } from "./indicators";
 
 /**
  * lightweight-charts expects time as seconds (Unix timestamp in seconds).
@@ -56,3 +62,13 @@ export function mapCandlesToSeriesData(candles: Candle[]): {
 
   return { candlestickData, volumeData };
 }
+
+/**
+ * Map one output line of an indicator to lightweight-charts LineData.
+ */
+export function toIndicatorLineData(
+  point: IndicatorPoint,
+  lineIndex: number,
+): LineData {
+  return { time: toChartTime(point.time), value: point.values[lineIndex] };
+}
@@ -0,0 +1,78 @@
+/**
+ * Lifecycle states of the live-data WebSocket connection.
+ *
+ *  - connecting   → first socket is being opened
+ *  - open         → socket is connected and streaming
+ *  - reconnecting → connection dropped, a retry is pending or in progress
+ *  - closed       → connection is down and no retry will be made
+ *  - error        → the socket reported an error
+ */
+export type ConnectionStatus =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed"
+  | "error";
+
+/**
+ * Events that drive the connection state machine.
+ * They map 1:1 onto socket callbacks and reconnect-scheduler decisions.
+ */
+export type ConnectionEvent =
+  | { type: "OPEN" }
+  | { type: "ERROR" }
+  | { type: "CLOSE" }
+  | { type: "RETRY" }
+  | { type: "GIVE_UP" };
+
+type TransitionTable = Record<
+  ConnectionStatus,
+  Partial<Record<ConnectionEvent["type"], ConnectionStatus>>
+>;
+
+/**
+ * Allowed transitions. Events not listed for a state leave it unchanged —
+ * e.g. a CLOSE that follows an ERROR keeps the "error" state visible until
+ * the reconnect scheduler decides what to do next.
+ */
+const TRANSITIONS: TransitionTable = {
+  connecting: {
+    OPEN: "open",
+    ERROR: "error",
+    CLOSE: "closed",
+    RETRY: "reconnecting",
+    GIVE_UP: "closed",
+  },
+  open: {
+    ERROR: "error",
+    CLOSE: "closed",
+    RETRY: "reconnecting",
+    GIVE_UP: "closed",
+  },
+  reconnecting: {
+    OPEN: "open",
+    GIVE_UP: "closed",
+  },
+  closed: {
+    OPEN: "open",
+    RETRY: "reconnecting",
+  },
+  error: {
+    OPEN: "open",
+    RETRY: "reconnecting",
+  },
+};
+
+/** The state a new connection starts in. */
+export const INITIAL_CONNECTION_STATUS: ConnectionStatus = "connecting";
+
+/**
+ * Pure transition function — returns the next status for `event`.
+ * Safe to pass to a functional setState updater.
+ */
+export function transitionConnection(
+  status: ConnectionStatus,
+  event: ConnectionEvent,
+): ConnectionStatus {
+  return TRANSITIONS[status][event.type] ?? status;
+}
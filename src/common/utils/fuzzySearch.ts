@@ -0,0 +1,49 @@
+/**
+ * Score how well `query` fuzzy-matches `text`: every query character must
+ * appear in `text`, in order, but not necessarily adjacent. Matches at the
+ * start and runs of adjacent characters score higher; skipped characters
+ * cost a little. Case-insensitive. Null when `text` does not match.
+ *
+ * e.g. "eth" matches "ETHUSDT" better than "ETCUSDTH".
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let from = 0;
+  let previous = -1;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === 0) score += 3;
+    if (previous !== -1 && index === previous + 1) score += 2;
+    score -= Math.min(index - from, 3) * 0.5;
+
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+/**
+ * Keep the items whose text fuzzy-matches `query`, best match first.
+ * Equal scores keep their original order; an empty query keeps everything.
+ */
+export function fuzzyFilter<T>(
+  items: readonly T[],
+  query: string,
+  getText: (item: T) => string,
+): T[] {
+  if (query === "") return [...items];
+
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter(
+      (entry): entry is { item: T; score: number } => entry.score !== null,
+    )
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,465 @@
+import type { Candle } from "../../services/apiTypes";
+import { getBucketStart, TIMEFRAME_MS } from "./resampler";
+
+/**
+ * Technical indicators computed from a candle series.
+ *
+ * Overlays, drawn on top of the price series:
+ *  - sma        → simple moving average of the close
+ *  - ema        → exponential moving average of the close, seeded with an SMA
+ *  - bollinger  → SMA ± `stdDev` population standard deviations
+ *  - vwap       → volume-weighted average typical price, reset every UTC day
+ *
+ * Oscillators, drawn in their own pane below the price:
+ *  - rsi        → Wilder's relative strength index, 0–100
+ *  - macd       → EMA(fast) − EMA(slow), its EMA(signal) and the difference
+ *  - stochastic → %K of the close within the `period` range, smoothed by
+ *                 `smoothK`, and %D = SMA(`smoothD`) of %K
+ */
+export type IndicatorConfig =
+  | { type: "sma"; period: number }
+  | { type: "ema"; period: number }
+  | { type: "bollinger"; period: number; stdDev: number }
+  | { type: "vwap" }
+  | { type: "rsi"; period: number }
+  | { type: "macd"; fast: number; slow: number; signal: number }
+  | { type: "stochastic"; period: number; smoothK: number; smoothD: number };
+
+/** Where an indicator is drawn. */
+export type IndicatorPlacement = "overlay" | "pane";
+
+/**
+ * One computed value per output line, in the order of `getIndicatorLines`.
+ */
+export interface IndicatorPoint {
+  time: number;
+  values: number[];
+}
+
+/**
+ * A single calculation step. `step` must not mutate `state`, so the state
+ * from before a bar can be reused when that bar is updated by a live tick.
+ */
+interface Calculator<S> {
+  initial: () => S;
+  step: (state: S, candle: Candle) => { state: S; values: number[] | null };
+}
+
+interface WindowState {
+  values: number[];
+  sum: number;
+}
+
+const EMPTY_WINDOW: WindowState = { values: [], sum: 0 };
+
+/**
+ * Slide a fixed-size window of values forward by one.
+ */
+function pushWindow(
+  { values, sum }: WindowState,
+  value: number,
+  period: number,
+): WindowState {
+  const next = [...values, value];
+  let nextSum = sum + value;
+  if (next.length > period) nextSum -= next.shift()!;
+  return { values: next, sum: nextSum };
+}
+
+/** Mean of a full window, null while it is still filling up. */
+function windowMean({ values, sum }: WindowState, period: number) {
+  return values.length === period ? sum / period : null;
+}
+
+function smaCalculator(period: number): Calculator<WindowState> {
+  return {
+    initial: () => EMPTY_WINDOW,
+    step: (state, candle) => {
+      const next = pushWindow(state, candle.close, period);
+      const mean = windowMean(next, period);
+      return { state: next, values: mean === null ? null : [mean] };
+    },
+  };
+}
+
+interface EmaState {
+  window: WindowState;
+  ema: number | null;
+}
+
+const EMPTY_EMA: EmaState = { window: EMPTY_WINDOW, ema: null };
+
+/**
+ * Advance an EMA by one value. The first `period` values are averaged to
+ * seed it; `ema` stays null until then.
+ */
+function stepEma(
+  { window, ema }: EmaState,
+  value: number,
+  period: number,
+): EmaState {
+  if (ema !== null) {
+    const k = 2 / (period + 1);
+    return { window, ema: value * k + ema * (1 - k) };
+  }
+
+  const nextWindow = pushWindow(window, value, period);
+  const seed = windowMean(nextWindow, period);
+  return seed === null
+    ? { window: nextWindow, ema: null }
+    : { window: EMPTY_WINDOW, ema: seed };
+}
+
+function emaCalculator(period: number): Calculator<EmaState> {
+  return {
+    initial: () => EMPTY_EMA,
+    step: (state, candle) => {
+      const next = stepEma(state, candle.close, period);
+      return { state: next, values: next.ema === null ? null : [next.ema] };
+    },
+  };
+}
+
+function bollingerCalculator(
+  period: number,
+  stdDev: number,
+): Calculator<WindowState> {
+  return {
+    initial: () => EMPTY_WINDOW,
+    step: (state, candle) => {
+      const next = pushWindow(state, candle.close, period);
+      const mean = windowMean(next, period);
+      if (mean === null) return { state: next, values: null };
+
+      const variance =
+        next.values.reduce((acc, close) => acc + (close - mean) ** 2, 0) /
+        period;
+      const band = stdDev * Math.sqrt(variance);
+      return { state: next, values: [mean, mean + band, mean - band] };
+    },
+  };
+}
+
+interface VwapState {
+  session: number | null;
+  priceVolume: number;
+  volume: number;
+}
+
+function vwapCalculator(): Calculator<VwapState> {
+  const sessionOptions = { bucketMs: TIMEFRAME_MS["1D"] };
+  return {
+    initial: () => ({ session: null, priceVolume: 0, volume: 0 }),
+    step: (state, candle) => {
+      const session = getBucketStart(candle.time, sessionOptions);
+      const carried = session === state.session ? state : null;
+      const typical = (candle.high + candle.low + candle.close) / 3;
+      const next = {
+        session,
+        priceVolume: (carried?.priceVolume ?? 0) + typical * candle.volume,
+        volume: (carried?.volume ?? 0) + candle.volume,
+      };
+      return {
+        state: next,
+        values: next.volume > 0 ? [next.priceVolume / next.volume] : null,
+      };
+    },
+  };
+}
+
+interface RsiState {
+  prevClose: number | null;
+  /** Price changes seen so far, up to `period` — used for the first average. */
+  count: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+function rsiCalculator(period: number): Calculator<RsiState> {
+  return {
+    initial: () => ({ prevClose: null, count: 0, avgGain: 0, avgLoss: 0 }),
+    step: (state, candle) => {
+      if (state.prevClose === null) {
+        return { state: { ...state, prevClose: candle.close }, values: null };
+      }
+
+      const change = candle.close - state.prevClose;
+      const gain = Math.max(change, 0);
+      const loss = Math.max(-change, 0);
+      // Simple average over the first `period` changes, Wilder smoothing after
+      const count = Math.min(state.count + 1, period);
+      const weight = state.count < period ? count : period;
+      const next = {
+        prevClose: candle.close,
+        count,
+        avgGain: (state.avgGain * (weight - 1) + gain) / weight,
+        avgLoss: (state.avgLoss * (weight - 1) + loss) / weight,
+      };
+      if (count < period) return { state: next, values: null };
+
+      const rsi =
+        next.avgLoss === 0
+          ? next.avgGain === 0
+            ? 50
+            : 100
+          : 100 - 100 / (1 + next.avgGain / next.avgLoss);
+      return { state: next, values: [rsi] };
+    },
+  };
+}
+
+interface MacdState {
+  fast: EmaState;
+  slow: EmaState;
+  signal: EmaState;
+}
+
+function macdCalculator(
+  fast: number,
+  slow: number,
+  signal: number,
+): Calculator<MacdState> {
+  return {
+    initial: () => ({ fast: EMPTY_EMA, slow: EMPTY_EMA, signal: EMPTY_EMA }),
+    step: (state, candle) => {
+      const fastEma = stepEma(state.fast, candle.close, fast);
+      const slowEma = stepEma(state.slow, candle.close, slow);
+      if (fastEma.ema === null || slowEma.ema === null) {
+        return {
+          state: { ...state, fast: fastEma, slow: slowEma },
+          values: null,
+        };
+      }
+
+      const macd = fastEma.ema - slowEma.ema;
+      const signalEma = stepEma(state.signal, macd, signal);
+      const next = { fast: fastEma, slow: slowEma, signal: signalEma };
+      if (signalEma.ema === null) return { state: next, values: null };
+
+      return {
+        state: next,
+        values: [macd, signalEma.ema, macd - signalEma.ema],
+      };
+    },
+  };
+}
+
+interface StochasticState {
+  highs: number[];
+  lows: number[];
+  rawK: WindowState;
+  k: WindowState;
+}
+
+function stochasticCalculator(
+  period: number,
+  smoothK: number,
+  smoothD: number,
+): Calculator<StochasticState> {
+  return {
+    initial: () => ({
+      highs: [],
+      lows: [],
+      rawK: EMPTY_WINDOW,
+      k: EMPTY_WINDOW,
+    }),
+    step: (state, candle) => {
+      const highs = [...state.highs, candle.high].slice(-period);
+      const lows = [...state.lows, candle.low].slice(-period);
+      if (highs.length < period) {
+        return { state: { ...state, highs, lows }, values: null };
+      }
+
+      const highest = Math.max(...highs);
+      const lowest = Math.min(...lows);
+      // A flat range has no position within it — report the midpoint
+      const raw =
+        highest === lowest
+          ? 50
+          : (100 * (candle.close - lowest)) / (highest - lowest);
+
+      const rawK = pushWindow(state.rawK, raw, smoothK);
+      const k = windowMean(rawK, smoothK);
+      if (k === null) {
+        return { state: { ...state, highs, lows, rawK }, values: null };
+      }
+
+      const kWindow = pushWindow(state.k, k, smoothD);
+      const d = windowMean(kWindow, smoothD);
+      const next = { highs, lows, rawK, k: kWindow };
+      return { state: next, values: d === null ? null : [k, d] };
+    },
+  };
+}
+
+function getCalculator(config: IndicatorConfig): Calculator<unknown> {
+  switch (config.type) {
+    case "sma":
+      return smaCalculator(config.period) as Calculator<unknown>;
+    case "ema":
+      return emaCalculator(config.period) as Calculator<unknown>;
+    case "bollinger":
+      return bollingerCalculator(
+        config.period,
+        config.stdDev,
+      ) as Calculator<unknown>;
+    case "vwap":
+      return vwapCalculator() as Calculator<unknown>;
+    case "rsi":
+      return rsiCalculator(config.period) as Calculator<unknown>;
+    case "macd":
+      return macdCalculator(
+        config.fast,
+        config.slow,
+        config.signal,
+      ) as Calculator<unknown>;
+    case "stochastic":
+      return stochasticCalculator(
+        config.period,
+        config.smoothK,
+        config.smoothD,
+      ) as Calculator<unknown>;
+  }
+}
+
+/**
+ * Short label for the indicator, e.g. "SMA 20" or "BB 20 2".
+ */
+export function getIndicatorLabel(config: IndicatorConfig): string {
+  switch (config.type) {
+    case "sma":
+      return `SMA ${config.period}`;
+    case "ema":
+      return `EMA ${config.period}`;
+    case "bollinger":
+      return `BB ${config.period} ${config.stdDev}`;
+    case "vwap":
+      return "VWAP";
+    case "rsi":
+      return `RSI ${config.period}`;
+    case "macd":
+      return `MACD ${config.fast} ${config.slow} ${config.signal}`;
+    case "stochastic":
+      return `Stoch ${config.period} ${config.smoothK} ${config.smoothD}`;
+  }
+}
+
+/**
+ * Names of the lines an indicator draws, matching `IndicatorPoint.values`.
+ */
+export function getIndicatorLines(config: IndicatorConfig): string[] {
+  switch (config.type) {
+    case "bollinger":
+      return ["middle", "upper", "lower"];
+    case "macd":
+      return ["macd", "signal", "histogram"];
+    case "stochastic":
+      return ["k", "d"];
+    default:
+      return ["value"];
+  }
+}
+
+/**
+ * Oscillators live on their own scale, so they get a pane of their own.
+ */
+export function getIndicatorPlacement(
+  config: IndicatorConfig,
+): IndicatorPlacement {
+  return config.type === "rsi" ||
+    config.type === "macd" ||
+    config.type === "stochastic"
+    ? "pane"
+    : "overlay";
+}
+
+/**
+ * Conventional overbought / oversold levels, drawn as guide lines.
+ */
+export function getIndicatorLevels(config: IndicatorConfig): number[] {
+  switch (config.type) {
+    case "rsi":
+      return [30, 70];
+    case "stochastic":
+      return [20, 80];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Running state of one indicator over a candle series.
+ *
+ * Live ticks usually update the newest bar rather than add a new one, so
+ * the state from *before* that bar is kept alongside it. An update then
+ * costs a single step instead of a pass over the whole history.
+ */
+export interface IndicatorState {
+  readonly config: IndicatorConfig;
+  /** State after every bar except the newest. */
+  readonly base: unknown;
+  /** The newest bar's time and the state after it, null before any bar. */
+  readonly last: { time: number; state: unknown } | null;
+}
+
+/**
+ * Compute an indicator over a time-ordered candle series.
+ *
+ * Bars inside the warm-up period produce no point. The returned state can
+ * be fed to `applyIndicatorTick` to keep the indicator current.
+ */
+export function seedIndicator(
+  config: IndicatorConfig,
+  candles: Candle[],
+): { state: IndicatorState; points: IndicatorPoint[] } {
+  const { initial, step } = getCalculator(config);
+  const points: IndicatorPoint[] = [];
+  let base = initial();
+  let last: IndicatorState["last"] = null;
+
+  for (const candle of candles) {
+    if (last) base = last.state;
+    const result = step(base, candle);
+    last = { time: candle.time, state: result.state };
+    if (result.values) {
+      points.push({ time: candle.time, values: result.values });
+    }
+  }
+
+  return { state: { config, base, last }, points };
+}
+
+/**
+ * Convenience wrapper around `seedIndicator` when only the values matter.
+ */
+export function computeIndicator(
+  config: IndicatorConfig,
+  candles: Candle[],
+): IndicatorPoint[] {
+  return seedIndicator(config, candles).points;
+}
+
+/**
+ * Apply a live candle to an indicator.
+ *
+ * - Same time as the newest bar → that bar is recomputed from `base`.
+ * - Newer                       → the newest bar is committed first.
+ * - Older                       → the tick is stale and `null` is returned.
+ *
+ * `point` is null while the indicator is still warming up.
+ */
+export function applyIndicatorTick(
+  indicator: IndicatorState,
+  candle: Candle,
+): { state: IndicatorState; point: IndicatorPoint | null } | null {
+  const { config, last } = indicator;
+  if (last && candle.time < last.time) return null;
+
+  const base = last && candle.time > last.time ? last.state : indicator.base;
+  const result = getCalculator(config).step(base, candle);
+
+  return {
+    state: { config, base, last: { time: candle.time, state: result.state } },
+    point: result.values ? { time: candle.time, values: result.values } : null,
+  };
+}
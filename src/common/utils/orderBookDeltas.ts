@@ -0,0 +1,70 @@
+import type {
+  OrderBook,
+  OrderBookDelta,
+  OrderBookEntry,
+} from "../../services/apiTypes";
+
+/**
+ * Outcome of applying a delta to a local order book.
+ *
+ *  - "applied" → the delta was the next in sequence; `book` is the result
+ *  - "stale"   → the book already includes the delta; nothing to do
+ *  - "gap"     → one or more deltas were missed; the book must be re-synced
+ */
+export type DeltaResult =
+  | { status: "applied"; book: OrderBook }
+  | { status: "stale" }
+  | { status: "gap" };
+
+/**
+ * Merge level changes into one side of the book. A change replaces the
+ * amount at its price and an amount of 0 removes the level. The result is
+ * sorted best price first: ascending for asks, descending for bids, and
+ * cut to the best `maxDepth` levels.
+ */
+export function applyLevelChanges(
+  levels: OrderBookEntry[],
+  changes: OrderBookEntry[],
+  side: "ask" | "bid",
+  maxDepth = Infinity,
+): OrderBookEntry[] {
+  if (changes.length === 0 && levels.length <= maxDepth) return levels;
+
+  const amounts = new Map(levels);
+  for (const [price, amount] of changes) {
+    if (amount === 0) amounts.delete(price);
+    else amounts.set(price, amount);
+  }
+
+  const direction = side === "ask" ? 1 : -1;
+  return [...amounts]
+    .sort(([a], [b]) => (a - b) * direction)
+    .slice(0, maxDepth);
+}
+
+/**
+ * Apply a delta to a local book, checking its sequence number first.
+ * A book without a sequence number cannot be continued and reports a gap.
+ * Each side of the result keeps at most `maxDepth` levels, so levels that
+ * drift away from the top do not pile up over a long session.
+ */
+export function applyOrderBookDelta(
+  book: OrderBook,
+  delta: OrderBookDelta,
+  maxDepth = Infinity,
+): DeltaResult {
+  if (book.sequence === undefined) return { status: "gap" };
+  if (delta.sequence <= book.sequence) return { status: "stale" };
+  if (delta.sequence !== book.sequence + 1) return { status: "gap" };
+
+  return {
+    status: "applied",
+    book: {
+      pair: book.pair,
+      asks: applyLevelChanges(book.asks, delta.asks, "ask", maxDepth),
+      bids: applyLevelChanges(book.bids, delta.bids, "bid", maxDepth),
+      timestamp: delta.timestamp,
+      sequence: delta.sequence,
+    },
+  };
+}
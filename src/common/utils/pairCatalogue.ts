@@ -0,0 +1,58 @@
+import type { CryptoPair, PairInfo } from "../../services/apiTypes";
+
+/**
+ * Pairs known before the catalogue has loaded, and the fallback when the
+ * backend does not serve `GET /api/pairs`.
+ */
+export const DEFAULT_PAIRS: PairInfo[] = [
+  {
+    symbol: "BTC-USDT",
+    base: "BTC",
+    quote: "USDT",
+    pricePrecision: 2,
+    amountPrecision: 5,
+    tickSize: 0.01,
+    status: "trading",
+  },
+  {
+    symbol: "ETH-USDT",
+    base: "ETH",
+    quote: "USDT",
+    pricePrecision: 2,
+    amountPrecision: 4,
+    tickSize: 0.01,
+    status: "trading",
+  },
+  {
+    symbol: "XRP-USDT",
+    base: "XRP",
+    quote: "USDT",
+    pricePrecision: 4,
+    amountPrecision: 1,
+    tickSize: 0.0001,
+    status: "trading",
+  },
+];
+
+/**
+ * Look up a pair in the catalogue, e.g. the `pairs` from `usePairs`.
+ */
+export function getPairInfo(
+  symbol: CryptoPair,
+  pairs: readonly PairInfo[],
+): PairInfo | undefined {
+  return pairs.find((pair) => pair.symbol === symbol);
+}
+
+/** True when the catalogue lists the pair and it is currently trading. */
+export function isTradablePair(
+  symbol: CryptoPair,
+  pairs: readonly PairInfo[],
+): boolean {
+  return getPairInfo(symbol, pairs)?.status === "trading";
+}
+
+/** Human-readable pair name, e.g. "BTC / USDT". */
+export function formatPairLabel({ base, quote }: PairInfo): string {
+  return `${base} / ${quote}`;
+}
@@ -0,0 +1,268 @@
+import type { Candle, Timeframe } from "../../services/apiTypes";
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Bucket length (ms) of each supported timeframe.
+ */
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  "1m": MINUTE_MS,
+  "5m": 5 * MINUTE_MS,
+  "15m": 15 * MINUTE_MS,
+  "1H": HOUR_MS,
+  "4H": 4 * HOUR_MS,
+  "1D": DAY_MS,
+  "1W": WEEK_MS,
+};
+
+/**
+ * The Unix epoch fell on a Thursday; weekly buckets start on Monday 00:00,
+ * which is 4 days later.
+ */
+const WEEK_ORIGIN_MS = 4 * DAY_MS;
+
+/**
+ * Which wall clock bucket boundaries are aligned to.
+ *
+ *  - "utc"        → midnight / hour boundaries in UTC
+ *  - "local"      → the user's own time zone, as reported by the browser
+ *  - { timeZone } → any IANA zone, e.g. an exchange's "Asia/Tokyo"
+ *
+ * Only buckets that span whole hours are affected by the choice — a 1m bar
+ * starts on the same instant everywhere except in zones with odd offsets.
+ */
+export type BucketAlignment = "utc" | "local" | { timeZone: string };
+
+export interface ResampleOptions {
+  /** Target bucket length (ms), e.g. TIMEFRAME_MS["4H"]. */
+  bucketMs: number;
+  /** Defaults to "utc". */
+  alignment?: BucketAlignment;
+}
+
+/**
+ * Resolve an alignment to an IANA time zone name, or null for UTC.
+ */
+function resolveTimeZone(alignment: BucketAlignment = "utc"): string | null {
+  if (alignment === "utc") return null;
+  if (alignment === "local") {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+  return alignment.timeZone;
+}
+
+// Building a DateTimeFormat is expensive; one per zone is plenty.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Offset (ms) of `timeZone` from UTC at the instant `time`,
+ * e.g. +19_800_000 for Asia/Kolkata, -18_000_000 for New York in winter.
+ */
+export function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(time)) {
+    if (type !== "literal") parts[type] = Number(value);
+  }
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  // formatToParts drops milliseconds, so compare whole seconds only
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Floor a wall-clock timestamp to its bucket. Weekly buckets start on Monday.
+ */
+function floorToBucket(wallClock: number, bucketMs: number): number {
+  const origin = bucketMs === WEEK_MS ? WEEK_ORIGIN_MS : 0;
+  return Math.floor((wallClock - origin) / bucketMs) * bucketMs + origin;
+}
+
+/**
+ * Start (ms) of the bucket that `time` falls into.
+ *
+ * Boundaries are computed on the wall clock of the chosen zone and mapped
+ * back to an instant, so a daily bar in New York always opens at local
+ * midnight — even on DST days, when that bar is 23 or 25 hours long.
+ */
+export function getBucketStart(
+  time: number,
+  { bucketMs, alignment }: ResampleOptions,
+): number {
+  const timeZone = resolveTimeZone(alignment);
+  if (timeZone === null) return floorToBucket(time, bucketMs);
+
+  const offset = getTimeZoneOffset(time, timeZone);
+  const wallStart = floorToBucket(time + offset, bucketMs);
+
+  // The boundary may lie on the other side of a DST switch
+  const start = wallStart - offset;
+  const startOffset = getTimeZoneOffset(start, timeZone);
+  if (startOffset === offset) return start;
+
+  const corrected = wallStart - startOffset;
+  return corrected <= time ? corrected : start;
+}
+
+/**
+ * Guess the resolution of a candle series from the smallest gap between
+ * consecutive candles. Returns null when there are fewer than two candles.
+ */
+export function inferCandleInterval(candles: Candle[]): number | null {
+  let interval: number | null = null;
+  for (let i = 1; i < candles.length; i++) {
+    const delta = candles[i].time - candles[i - 1].time;
+    if (delta > 0 && (interval === null || delta < interval)) {
+      interval = delta;
+    }
+  }
+  return interval;
+}
+
+/**
+ * Combine two consecutive bars: `earlier`'s open, `later`'s close,
+ * the extremes of both and the summed volume. Stamped with `time`.
+ */
+function mergeBars(
+  time: number,
+  earlier: Candle | null,
+  later: Candle,
+): Candle {
+  if (!earlier) return { ...later, time };
+  return {
+    time,
+    open: earlier.open,
+    high: Math.max(earlier.high, later.high),
+    low: Math.min(earlier.low, later.low),
+    close: later.close,
+    volume: earlier.volume + later.volume,
+  };
+}
+
+/**
+ * Roll a time-ordered candle series up into larger bars.
+ *
+ * open = first open, close = last close, high/low = extremes,
+ * volume = sum. Each output bar is stamped with its bucket start.
+ * Empty buckets are skipped rather than filled with invented bars.
+ */
+export function resampleCandles(
+  candles: Candle[],
+  options: ResampleOptions,
+): Candle[] {
+  const bars: Candle[] = [];
+  let bar: Candle | null = null;
+
+  for (const candle of candles) {
+    const start = getBucketStart(candle.time, options);
+    if (bar && start !== bar.time) {
+      bars.push(bar);
+      bar = null;
+    }
+    bar = mergeBars(start, bar, candle);
+  }
+
+  if (bar) bars.push(bar);
+  return bars;
+}
+
+/**
+ * The bucket currently being built from live ticks.
+ *
+ * Live `candle_update` messages carry the latest state of a whole source
+ * candle (not an individual trade), so repeated ticks for the same source
+ * candle must replace it instead of adding its volume again. The bucket
+ * therefore keeps the finished part of the bar separate from the source
+ * candle still in progress, and every tick costs O(1).
+ */
+export interface LiveBucket {
+  /** Bucket start (ms). */
+  start: number;
+  /** Merged source candles that will not change any more, null if none. */
+  settled: Candle | null;
+  /** The newest source candle — the one live ticks keep updating. */
+  current: Candle;
+}
+
+/**
+ * Seed the live bucket from loaded history: the source candles that fall
+ * into the same bucket as the newest one.
+ */
+export function seedLiveBucket(
+  candles: Candle[],
+  options: ResampleOptions,
+): LiveBucket | null {
+  if (candles.length === 0) return null;
+
+  const current = candles[candles.length - 1];
+  const start = getBucketStart(current.time, options);
+  let settled: Candle | null = null;
+  for (const candle of candles.slice(0, -1)) {
+    if (getBucketStart(candle.time, options) === start) {
+      settled = mergeBars(start, settled, candle);
+    }
+  }
+  return { start, settled, current };
+}
+
+/**
+ * Apply a live source candle to the current bucket.
+ *
+ * - Same source candle  → it replaces the in-progress one.
+ * - Newer, same bucket  → the in-progress candle is settled, the tick
+ *                         becomes the new in-progress one.
+ * - Newer bucket        → a fresh bucket is started.
+ * - Anything older      → the tick is stale and `null` is returned.
+ *
+ * Returns the updated bucket together with the resampled bar to draw.
+ */
+export function applyTick(
+  bucket: LiveBucket | null,
+  tick: Candle,
+  options: ResampleOptions,
+): { bucket: LiveBucket; bar: Candle } | null {
+  const start = getBucketStart(tick.time, options);
+
+  let next: LiveBucket;
+  if (!bucket || start > bucket.start) {
+    next = { start, settled: null, current: tick };
+  } else if (start < bucket.start || tick.time < bucket.current.time) {
+    return null;
+  } else if (tick.time === bucket.current.time) {
+    next = { ...bucket, current: tick };
+  } else {
+    next = {
+      start,
+      settled: mergeBars(start, bucket.settled, bucket.current),
+      current: tick,
+    };
+  }
+
+  return { bucket: next, bar: mergeBars(start, next.settled, next.current) };
+}
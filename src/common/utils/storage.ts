@@ -0,0 +1,28 @@
+/**
+ * Read a list of strings saved with `saveStringList`. Null when nothing
+ * valid is stored or storage is unavailable (e.g. blocked cookies), so
+ * callers can tell "never saved" from "saved empty".
+ */
+export function loadStringList(key: string): string[] | null {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed: unknown = raw === null ? null : JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === "string")
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist a list of strings. Failures (quota, private mode) are logged and
+ * otherwise ignored — the list then only lasts for the current session.
+ */
+export function saveStringList(key: string, list: readonly string[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(list));
+  } catch (error) {
+    console.warn(`[storage] could not persist ${key}:`, error);
+  }
+}
@@ -0,0 +1,98 @@
+import type {
+  CryptoPair,
+  PairInfo,
+  StreamChannel,
+  StreamMode,
+} from "../../services/apiTypes";
+import { isTradablePair } from "./pairCatalogue";
+
+/**
+ * The WebSocket channels each stream mode needs.
+ */
+export const STREAM_MODE_CHANNELS: Record<StreamMode, StreamChannel[]> = {
+  all: ["candles", "orderbook"],
+  candles: ["candles"],
+  orderbook: ["orderbook"],
+  trades: ["trades"],
+};
+
+/**
+ * A single server-side subscription: one channel for one pair.
+ */
+export interface Subscription {
+  pair: CryptoPair;
+  stream: StreamChannel;
+}
+
+/**
+ * The subscriptions needed to follow `pair` in the given stream mode.
+ * Pairs that are unknown to the `pairs` catalogue or halted are not
+ * streamed.
+ */
+export function getDesiredSubscriptions(
+  pair: CryptoPair,
+  mode: StreamMode,
+  pairs: readonly PairInfo[],
+): Subscription[] {
+  if (!isTradablePair(pair, pairs)) return [];
+  return STREAM_MODE_CHANNELS[mode].map((stream) => ({ pair, stream }));
+}
+
+/**
+ * The subscriptions a watchlist needs: the candle stream of every tradable
+ * watched pair. Tickers need no channel of their own — the server sends
+ * them for any subscribed pair.
+ */
+export function getWatchlistSubscriptions(
+  watchlist: readonly CryptoPair[],
+  pairs: readonly PairInfo[],
+): Subscription[] {
+  return watchlist
+    .filter((pair) => isTradablePair(pair, pairs))
+    .map((pair) => ({ pair, stream: "candles" }));
+}
+
+/**
+ * Union of several consumers' subscriptions, in first-seen order. A
+ * (pair, stream) wanted by more than one consumer is held only once on
+ * the socket.
+ */
+export function mergeSubscriptions(
+  ...lists: (readonly Subscription[])[]
+): Subscription[] {
+  const merged: Subscription[] = [];
+  for (const list of lists) {
+    for (const s of list) {
+      if (!hasSubscription(merged, s.pair, s.stream)) merged.push(s);
+    }
+  }
+  return merged;
+}
+
+/** True when `list` contains the (pair, stream) subscription. */
+export function hasSubscription(
+  list: readonly Subscription[],
+  pair: CryptoPair,
+  stream: StreamChannel,
+): boolean {
+  return list.some((s) => s.pair === pair && s.stream === stream);
+}
+
+/**
+ * Work out which subscriptions to send and which to drop to move the server
+ * from `active` to `desired`. Subscriptions present in both are left
+ * untouched, so nothing the server already has is ever re-sent.
+ */
+export function reconcileSubscriptions(
+  active: readonly Subscription[],
+  desired: readonly Subscription[],
+): { subscribe: Subscription[]; unsubscribe: Subscription[] } {
+  return {
+    subscribe: desired.filter(
+      (s) => !hasSubscription(active, s.pair, s.stream),
+    ),
+    unsubscribe: active.filter(
+      (s) => !hasSubscription(desired, s.pair, s.stream),
+    ),
+  };
+}
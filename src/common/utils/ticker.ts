@@ -0,0 +1,44 @@
+import type { Candle, CryptoPair, Ticker } from "../../services/apiTypes";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Merge a live candle into a loaded series: it replaces the candle with
+ * the same start time, or is appended when it starts a new one. Older
+ * live candles are ignored.
+ */
+export function mergeLiveCandle(
+  candles: readonly Candle[],
+  live: Candle | null,
+): Candle[] {
+  const last = candles[candles.length - 1];
+  if (!live || (last && live.time < last.time)) return [...candles];
+  if (last && live.time === last.time) return [...candles.slice(0, -1), live];
+  return [...candles, live];
+}
+
+/**
+ * Derive a 24h ticker from a time-ordered candle series: every candle that
+ * starts within 24 hours of the newest one. Null for an empty series.
+ */
+export function computeTicker(
+  pair: CryptoPair,
+  candles: readonly Candle[],
+): Ticker | null {
+  const newest = candles[candles.length - 1];
+  if (!newest) return null;
+
+  const window = candles.filter((c) => c.time > newest.time - DAY_MS);
+  const open = window[0].open;
+  const change = newest.close - open;
+
+  return {
+    pair,
+    last: newest.close,
+    change,
+    changePercent: open !== 0 ? (change / open) * 100 : 0,
+    high: Math.max(...window.map((c) => c.high)),
+    low: Math.min(...window.map((c) => c.low)),
+    volume: window.reduce((sum, c) => sum + c.volume, 0),
+  };
+}
@@ -1,6 +1,20 @@
 import useCryptoCandleChartController, {
   type CryptoCandleChartProps,
 } from "./useCryptoCandleChartController";
+import { INDICATOR_PRESETS } from "./indicatorPresets";
+import type { ChartScaleMode } from "../../common/hooks/chartTypes";
+
+const SCALE_MODES: { mode: ChartScaleMode; label: string; title: string }[] = [
+  { mode: "linear", label: "Lin", title: "Linear price scale" },
+  { mode: "logarithmic", label: "Log", title: "Logarithmic price scale" },
+  { mode: "percentage", label: "%", title: "Percentage price scale" },
+];
+
+const TOGGLE_CLASS =
+  "rounded border px-2 py-0.5 text-xs font-medium transition-colors focus:outline-none focus:ring-1 focus:ring-teal-500";
+const ACTIVE_CLASS = "border-teal-500 bg-teal-500/10 text-teal-300";
+const INACTIVE_CLASS =
+  "border-slate-700 bg-slate-900 text-slate-400 hover:text-slate-200";
 
 function LoadingOverlay() {
   return (
@@ -20,28 +34,148 @@ export type FetchStatus = "idle" | "loading" | "success" | "error";
  *  1. Accepts a `pair` prop and fetches historical candles from the REST API
  *     (results are served from the client-side cache on repeat selections).
  *  2. Renders them via `useCandleChart` (lightweight-charts under the hood).
- *  3. Listens for real-time updates via the `updatedCandle` prop and applies them
+ *  3. Listens for real-time updates via the `updatedCandle` prop and folds them
+ *     into the current bar of the selected `timeframe`.
+ *  4. Offers toggles for overlay indicators (moving averages, Bollinger Bands,
+ *     VWAP) drawn on top of the candles.
+ *  5. Offers a toolbar to fit or reset the zoom, switch the price scale and
+ *     crosshair, show or hide volume and save the chart as a PNG.
  */
 export function CryptoCandleChart({
   pair,
+  timeframe,
   updatedCandle,
 }: CryptoCandleChartProps) {
   const {
-    state: { containerRef, isLoading, errorMessage },
-  } = useCryptoCandleChartController({ pair, updatedCandle });
+    state: {
+      containerRef,
+      isLoading,
+      errorMessage,
+      activeIndicators,
+      scaleMode,
+      crosshairMode,
+      showVolume,
+      resolutionNotice,
+    },
+    handler: {
+      toggleIndicator,
+      retry,
+      fitContent,
+      resetZoom,
+      setScaleMode,
+      toggleCrosshairMode,
+      toggleVolume,
+      saveScreenshot,
+    },
+  } = useCryptoCandleChartController({ pair, timeframe, updatedCandle });
 
   return (
     <div className="flex-col relative">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-1.5">
+        <div
+          className="flex flex-wrap gap-1.5"
+          role="group"
+          aria-label="Indicators"
+        >
+          {INDICATOR_PRESETS.map(({ id, label }) => {
+            const active = activeIndicators.includes(id);
+            return (
+              <button
+                key={id}
+                type="button"
+                aria-pressed={active}
+                onClick={() => toggleIndicator(id)}
+                className={`${TOGGLE_CLASS} ${active ? ACTIVE_CLASS : INACTIVE_CLASS}`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+        <div
+          className="flex flex-wrap gap-1.5"
+          role="toolbar"
+          aria-label="Chart tools"
+        >
+          <button
+            type="button"
+            title="Fit all candles"
+            onClick={fitContent}
+            className={`${TOGGLE_CLASS} ${INACTIVE_CLASS}`}
+          >
+            Fit
+          </button>
+          <button
+            type="button"
+            title="Reset zoom"
+            onClick={resetZoom}
+            className={`${TOGGLE_CLASS} ${INACTIVE_CLASS}`}
+          >
+            Reset
+          </button>
+          {SCALE_MODES.map(({ mode, label, title }) => (
+            <button
+              key={mode}
+              type="button"
+              title={title}
+              aria-label={title}
+              aria-pressed={scaleMode === mode}
+              onClick={() => setScaleMode(mode)}
+              className={`${TOGGLE_CLASS} ${scaleMode === mode ? ACTIVE_CLASS : INACTIVE_CLASS}`}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            type="button"
+            title="Snap the crosshair to candles"
+            aria-pressed={crosshairMode === "magnet"}
+            onClick={toggleCrosshairMode}
+            className={`${TOGGLE_CLASS} ${crosshairMode === "magnet" ? ACTIVE_CLASS : INACTIVE_CLASS}`}
+          >
+            Magnet
+          </button>
+          <button
+            type="button"
+            title="Show volume"
+            aria-pressed={showVolume}
+            onClick={toggleVolume}
+            className={`${TOGGLE_CLASS} ${showVolume ? ACTIVE_CLASS : INACTIVE_CLASS}`}
+          >
+            Volume
+          </button>
+          <button
+            type="button"
+            title="Save the chart as a PNG"
+            onClick={saveScreenshot}
+            className={`${TOGGLE_CLASS} ${INACTIVE_CLASS}`}
+          >
+            PNG
+          </button>
+        </div>
+      </div>
+      {resolutionNotice && (
+        <p className="mb-2 text-xs text-amber-400" role="status">
+          {resolutionNotice}
+        </p>
+      )}
       <div
         className="h-[320px] sm:h-[420px] lg:h-full lg:min-h-[520px]"
         ref={containerRef}
         role="img"
-        aria-label={`Candlestick chart for ${pair}`}
+        aria-label={`Candlestick chart for ${pair} (${timeframe})`}
       />
       {isLoading && <LoadingOverlay />}
       {errorMessage && (
-        <div className="mt-2 text-xs text-red-400 text-center">
-          {errorMessage}
+        <div className="mt-2 flex items-center justify-center gap-2 text-xs text-red-400">
+          <span>{errorMessage}</span>
+          <button
+            type="button"
+            onClick={retry}
+            className="rounded border border-slate-700 bg-slate-900 px-2 py-0.5 font-medium text-slate-300 hover:text-slate-100 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            Retry
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,42 @@
+import type { IndicatorConfig } from "../../common/utils/indicators";
+
+export type IndicatorPresetId =
+  | "sma20"
+  | "ema50"
+  | "bb20"
+  | "vwap"
+  | "rsi14"
+  | "macd"
+  | "stoch";
+
+export interface IndicatorPreset {
+  id: IndicatorPresetId;
+  label: string;
+  config: IndicatorConfig;
+}
+
+/**
+ * Indicators offered as toggles above the candle chart — overlays first,
+ * then the oscillators that open a pane below the price.
+ */
+export const INDICATOR_PRESETS: IndicatorPreset[] = [
+  { id: "sma20", label: "SMA 20", config: { type: "sma", period: 20 } },
+  { id: "ema50", label: "EMA 50", config: { type: "ema", period: 50 } },
+  {
+    id: "bb20",
+    label: "BB 20",
+    config: { type: "bollinger", period: 20, stdDev: 2 },
+  },
+  { id: "vwap", label: "VWAP", config: { type: "vwap" } },
+  { id: "rsi14", label: "RSI 14", config: { type: "rsi", period: 14 } },
+  {
+    id: "macd",
+    label: "MACD",
+    config: { type: "macd", fast: 12, slow: 26, signal: 9 },
+  },
+  {
+    id: "stoch",
+    label: "Stoch",
+    config: { type: "stochastic", period: 14, smoothK: 3, smoothD: 3 },
+  },
+];
@@ -1,7 +1,28 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { fetchCandles } from "../../services/cryptoApiService";
-import type { Candle, CryptoPair } from "../../services/apiTypes";
+import { formatRequestError } from "../../services/apiErrors";
+import type { Candle, CryptoPair, Timeframe } from "../../services/apiTypes";
 import { useCandleChart } from "../../common/hooks/useCandleChart";
+import type {
+  ChartCrosshairMode,
+  ChartScaleMode,
+  SetCandlesOptions,
+} from "../../common/hooks/chartTypes";
+import {
+  applyTick,
+  inferCandleInterval,
+  resampleCandles,
+  seedLiveBucket,
+  TIMEFRAME_MS,
+  type LiveBucket,
+} from "../../common/utils/resampler";
+import {
+  checkTickContinuity,
+  foldTick,
+  mergeCandles,
+  type CandleGap,
+} from "../../common/utils/candleGaps";
+import { INDICATOR_PRESETS, type IndicatorPresetId } from "./indicatorPresets";
 
 /**
  * Props for the CandleChart component.
@@ -12,18 +33,124 @@ import { useCandleChart } from "../../common/hooks/useCandleChart";
 export interface CryptoCandleChartProps {
   /** The trading pair to display, e.g. "BTC-USDT". */
   pair: CryptoPair;
+  /** Bar resolution to display, e.g. "4H". */
+  timeframe: Timeframe;
   updatedCandle: Candle | null;
 }
 
+/** Pane heights (px) below the price pane. */
+const VOLUME_PANE_HEIGHT = 80;
+const OSCILLATOR_PANE_HEIGHT = 110;
+
+/** Older candles requested per page when the user scrolls back. */
+const PAGE_SIZE = 200;
+/** Start loading the next page once the view is this many bars from the oldest. */
+const SCROLL_BACK_THRESHOLD_BARS = 10;
+
+/** A candle interval as a timeframe label, e.g. "1H", or in minutes. */
+function describeInterval(intervalMs: number): string {
+  const timeframe = (Object.keys(TIMEFRAME_MS) as Timeframe[]).find(
+    (candidate) => TIMEFRAME_MS[candidate] === intervalMs,
+  );
+  return timeframe ?? `${Math.round(intervalMs / 60_000)}m`;
+}
+
+/** Save a canvas as a PNG through a temporary download link. */
+function downloadPng(canvas: HTMLCanvasElement, fileName: string) {
+  const link = document.createElement("a");
+  link.href = canvas.toDataURL("image/png");
+  link.download = fileName;
+  link.click();
+}
+
+interface PagingState {
+  /** The page request in flight, if any */
+  controller: AbortController | null;
+  /** No (more) older candles to page in */
+  exhausted: boolean;
+}
+
 const useCryptoCandleChartController = ({
   pair,
+  timeframe,
   updatedCandle,
 }: CryptoCandleChartProps) => {
-  const { containerRef, setCandles, isReady, updateCandle } = useCandleChart();
+  const {
+    containerRef,
+    setCandles,
+    isReady,
+    updateCandle,
+    addIndicator,
+    removeIndicator,
+    subscribeVisibleRange,
+    fitContent,
+    resetZoom,
+    setScaleMode,
+    setCrosshairMode,
+    setVolumeVisible,
+    takeScreenshot,
+  } = useCandleChart({
+    volumePaneHeight: VOLUME_PANE_HEIGHT,
+    oscillatorPaneHeight: OSCILLATOR_PANE_HEIGHT,
+  });
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Bumped by `retry` to run the fetch effect again
+  const [reloadKey, setReloadKey] = useState(0);
+  const [activeIndicators, setActiveIndicators] = useState<IndicatorPresetId[]>(
+    [],
+  );
+  const [scaleMode, setScaleModeState] = useState<ChartScaleMode>("linear");
+  const [crosshairMode, setCrosshairModeState] =
+    useState<ChartCrosshairMode>("normal");
+  const [showVolume, setShowVolume] = useState(true);
+  // Set while the candles drawn are coarser than the selected timeframe
+  const [resolutionNotice, setResolutionNotice] = useState<string | null>(null);
+
+  // Preset → id returned by addIndicator, for the presets currently drawn
+  const chartIndicatorsRef = useRef(new Map<IndicatorPresetId, string>());
+
+  // The bar currently being built from live ticks. Held in a ref because it
+  // only feeds the imperative chart API and must never trigger a re-render.
+  const liveBucketRef = useRef<LiveBucket | null>(null);
 
-  // 1. Fetch historical candles whenever `pair` changes or chart becomes ready
+  // Loaded candles at the source resolution, plus the live ticks since —
+  // what gaps are measured against and backfilled candles merged into
+  const historyRef = useRef<Candle[]>([]);
+  const historyIntervalRef = useRef<number | null>(null);
+  const backfillRef = useRef<AbortController | null>(null);
+  // Paging stays off until the history of the current pair / timeframe
+  // has been drawn
+  const pagingRef = useRef<PagingState>({ controller: null, exhausted: true });
+
+  // Draw `candles` as the whole history. A backend that ignores
+  // `?timeframe=` returns finer candles than requested — roll them up
+  // client-side. Coarser ones cannot be split, so they are drawn as they
+  // are, with a notice.
+  const drawHistory = useCallback(
+    (candles: Candle[], drawOptions?: SetCandlesOptions) => {
+      const options = { bucketMs: TIMEFRAME_MS[timeframe] };
+      const interval = inferCandleInterval(candles);
+      const bars =
+        interval !== null && interval < options.bucketMs
+          ? resampleCandles(candles, options)
+          : candles;
+
+      historyRef.current = candles;
+      historyIntervalRef.current = interval;
+      liveBucketRef.current = seedLiveBucket(candles, options);
+      setResolutionNotice(
+        interval !== null && interval > options.bucketMs
+          ? `Showing ${describeInterval(interval)} candles — the server has no ${timeframe} data`
+          : null,
+      );
+      setCandles(bars, drawOptions);
+    },
+    [timeframe, setCandles],
+  );
+
+  // 1. Fetch historical candles whenever `pair` / `timeframe` changes or the
+  //    chart becomes ready, and again on `retry`
   useEffect(() => {
     // Gate: don't fetch until the chart canvas exists
     if (!isReady) return;
@@ -31,19 +158,30 @@ const useCryptoCandleChartController = ({
     // Cancellation flag prevents setState calls after the effect re-runs or
     // the component unmounts while an async fetch is still in flight.
     let cancelled = false;
+    // Lets the service drop the request once no component waits for it
+    const controller = new AbortController();
 
     async function load() {
       try {
         setIsLoading(true);
-        const candles = await fetchCandles(pair);
+        setErrorMessage(null);
+        // Cached candles may be stale: they are drawn at once, and redrawn
+        // when the background refresh brings fresh ones
+        const candles = await fetchCandles(pair, timeframe, {
+          onRevalidate: (fresh) => {
+            if (!cancelled) drawHistory(fresh);
+          },
+          signal: controller.signal,
+        });
         if (cancelled) return;
 
-        setCandles(candles);
+        drawHistory(candles);
+        pagingRef.current.exhausted = false;
         setIsLoading(false);
       } catch (err) {
         if (cancelled) return;
         const error = err instanceof Error ? err : new Error(String(err));
-        setErrorMessage("Failed to fetch candles");
+        setErrorMessage(formatRequestError("Failed to fetch candles", error));
         setIsLoading(false);
         console.log(error);
       }
@@ -52,20 +190,212 @@ const useCryptoCandleChartController = ({
     load();
     return () => {
       cancelled = true;
+      controller.abort();
+      // Neither the old history nor a backfill for it may meet the ticks
+      // of the new pair / timeframe
+      historyRef.current = [];
+      historyIntervalRef.current = null;
+      liveBucketRef.current = null;
+      backfillRef.current?.abort();
+      backfillRef.current = null;
+      pagingRef.current.controller?.abort();
+      pagingRef.current = { controller: null, exhausted: true };
     };
-  }, [pair, isReady, setCandles]);
+  }, [pair, timeframe, isReady, drawHistory, reloadKey]);
 
+  // 2. Fold each live tick into the current bar of the selected timeframe.
+  //    A tick older than the loaded history, or one that arrives before
+  //    it, is dropped; one that skips
+  //    candles (e.g. after the socket was down) triggers a backfill of the
+  //    missing range, and the history is redrawn once it arrives.
+  //    The handler is rebuilt after every render so it always sees the
+  //    current pair, timeframe and chart callbacks; the effect that calls
+  //    it runs per tick only — a timeframe switch re-seeds the bucket from
+  //    freshly loaded history instead.
+  const handleTickRef = useRef<(tick: Candle) => void>(() => {});
   useEffect(() => {
-    if (updatedCandle) {
-      updateCandle(updatedCandle);
-    }
+    handleTickRef.current = (updatedCandle: Candle) => {
+      function backfill(gap: CandleGap) {
+        // One at a time — a later gap check catches anything still missing
+        if (backfillRef.current) return;
+        const controller = new AbortController();
+        backfillRef.current = controller;
+
+        fetchCandles(pair, timeframe, { ...gap, signal: controller.signal })
+          .then((missing) => {
+            if (controller.signal.aborted) return;
+            drawHistory(mergeCandles(historyRef.current, missing), {
+              keepView: true,
+            });
+          })
+          .catch((error: unknown) => {
+            if (controller.signal.aborted) return;
+            console.warn(`[chart] could not backfill ${pair}:`, error);
+          })
+          .finally(() => {
+            if (backfillRef.current === controller) backfillRef.current = null;
+          });
+      }
+
+      // Ticks are measured and kept at the resolution of the history, which
+      // is coarser than theirs when the backend honours `?timeframe=`
+      const history = historyRef.current;
+      const intervalMs = historyIntervalRef.current ?? TIMEFRAME_MS[timeframe];
+      const last = history[history.length - 1];
+      // Until the history has loaded there is nothing to draw on — it comes
+      // with the newest candle anyway
+      if (!last) return;
+      const continuity = checkTickContinuity(
+        last.time,
+        updatedCandle.time,
+        intervalMs,
+      );
+      if (continuity.kind === "stale") return;
+      if (continuity.kind === "gap") backfill(continuity.gap);
+      historyRef.current = foldTick(history, updatedCandle, intervalMs);
+
+      const folded = applyTick(liveBucketRef.current, updatedCandle, {
+        bucketMs: TIMEFRAME_MS[timeframe],
+      });
+      if (!folded) return;
+
+      liveBucketRef.current = folded.bucket;
+      updateCandle(folded.bar);
+    };
+  });
+
+  useEffect(() => {
+    if (updatedCandle) handleTickRef.current(updatedCandle);
   }, [updatedCandle]);
 
+  // 3. Page in older candles as the user scrolls back towards the oldest
+  //    one, keeping the bars in view where they are. A short page means
+  //    there is no older history left.
+  const loadOlder = useCallback(() => {
+    const paging = pagingRef.current;
+    const oldest = historyRef.current[0];
+    if (paging.controller || paging.exhausted || !oldest) return;
+    const controller = new AbortController();
+    paging.controller = controller;
+
+    fetchCandles(pair, timeframe, {
+      before: oldest.time,
+      limit: PAGE_SIZE,
+      signal: controller.signal,
+    })
+      .then((older) => {
+        if (controller.signal.aborted) return;
+        if (older.length < PAGE_SIZE) paging.exhausted = true;
+        if (older.length === 0) return;
+        drawHistory(mergeCandles(older, historyRef.current), {
+          keepView: true,
+        });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        console.warn(
+          `[chart] could not load older candles for ${pair}:`,
+          error,
+        );
+      })
+      .finally(() => {
+        if (paging.controller === controller) paging.controller = null;
+      });
+  }, [pair, timeframe, drawHistory]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    // Only a move to the left counts — the fit after every load starts at
+    // the oldest bar too, but must not page in history nobody asked for
+    let previousFrom: number | null = null;
+    return subscribeVisibleRange((range) => {
+      const scrolledBack = previousFrom !== null && range.from < previousFrom;
+      previousFrom = range.from;
+      if (scrolledBack && range.from < SCROLL_BACK_THRESHOLD_BARS) loadOlder();
+    });
+  }, [isReady, subscribeVisibleRange, loadOlder]);
+
+  // 4. Keep the overlay indicators on the chart in sync with the toggles
+  useEffect(() => {
+    if (!isReady) return;
+
+    const drawn = chartIndicatorsRef.current;
+    for (const { id, config } of INDICATOR_PRESETS) {
+      const wanted = activeIndicators.includes(id);
+      const chartId = drawn.get(id);
+      if (wanted && chartId === undefined) {
+        const added = addIndicator(config);
+        if (added) drawn.set(id, added);
+      } else if (!wanted && chartId !== undefined) {
+        removeIndicator(chartId);
+        drawn.delete(id);
+      }
+    }
+  }, [isReady, activeIndicators, addIndicator, removeIndicator]);
+
+  // 5. Apply the toolbar settings to the chart
+  useEffect(() => {
+    if (!isReady) return;
+    setScaleMode(scaleMode);
+  }, [isReady, scaleMode, setScaleMode]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    setCrosshairMode(crosshairMode);
+  }, [isReady, crosshairMode, setCrosshairMode]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    setVolumeVisible(showVolume);
+  }, [isReady, showVolume, setVolumeVisible]);
+
+  const toggleIndicator = useCallback((id: IndicatorPresetId) => {
+    setActiveIndicators((current) =>
+      current.includes(id)
+        ? current.filter((active) => active !== id)
+        : [...current, id],
+    );
+  }, []);
+
+  const retry = useCallback(() => {
+    setReloadKey((key) => key + 1);
+  }, []);
+
+  const toggleCrosshairMode = useCallback(() => {
+    setCrosshairModeState((mode) => (mode === "normal" ? "magnet" : "normal"));
+  }, []);
+
+  const toggleVolume = useCallback(() => {
+    setShowVolume((shown) => !shown);
+  }, []);
+
+  const saveScreenshot = useCallback(() => {
+    const canvas = takeScreenshot();
+    if (!canvas) return;
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadPng(canvas, `${pair}-${timeframe}-${stamp}.png`);
+  }, [pair, timeframe, takeScreenshot]);
+
   return {
     state: {
       containerRef,
       isLoading,
       errorMessage,
+      activeIndicators,
+      scaleMode,
+      crosshairMode,
+      showVolume,
+      resolutionNotice,
+    },
+    handler: {
+      toggleIndicator,
+      retry,
+      fitContent,
+      resetZoom,
+      setScaleMode: setScaleModeState,
+      toggleCrosshairMode,
+      toggleVolume,
+      saveScreenshot,
     },
   };
 };
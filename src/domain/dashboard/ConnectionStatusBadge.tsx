@@ -0,0 +1,136 @@
+import { useEffect, useId, useState } from "react";
+import type { ConnectionStatus } from "../../common/utils/connectionStateMachine";
+import type { Diagnostic } from "../../services/diagnostics";
+
+export interface ConnectionStatusBadgeProps {
+  status: ConnectionStatus;
+  /** Epoch ms of the last inbound message, null if none yet. */
+  lastMessageAt: number | null;
+  messagesPerMinute: number;
+  reconnectAttempt: number;
+  /** Epoch ms of the next reconnect attempt, null when none is pending. */
+  nextRetryAt: number | null;
+  /** Payloads dropped because they failed validation, oldest first. */
+  diagnostics: readonly Diagnostic[];
+}
+
+const STATUS_STYLES: Record<
+  ConnectionStatus,
+  { label: string; dot: string; text: string }
+> = {
+  open: { label: "Live", dot: "bg-teal-400", text: "text-teal-300" },
+  connecting: {
+    label: "Connecting",
+    dot: "bg-amber-400 animate-pulse",
+    text: "text-amber-300",
+  },
+  reconnecting: {
+    label: "Reconnecting",
+    dot: "bg-amber-400 animate-pulse",
+    text: "text-amber-300",
+  },
+  closed: { label: "Offline", dot: "bg-slate-500", text: "text-slate-400" },
+  error: { label: "Error", dot: "bg-red-500", text: "text-red-400" },
+};
+
+/**
+ * Human-readable "time ago" for the tooltip, e.g. "4s ago" / "2m ago".
+ */
+function formatAgo(timestamp: number | null, now: number): string {
+  if (timestamp === null) return "never";
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.floor(seconds / 60)}m ago`;
+}
+
+/**
+ * ConnectionStatusBadge
+ *
+ * Small pill in the header showing whether live data is flowing.
+ * Hovering or focusing it reveals a tooltip with the last-message age,
+ * the inbound message rate, any pending reconnect attempt and how many
+ * invalid payloads were dropped.
+ */
+export function ConnectionStatusBadge({
+  status,
+  lastMessageAt,
+  messagesPerMinute,
+  reconnectAttempt,
+  nextRetryAt,
+  diagnostics,
+}: ConnectionStatusBadgeProps) {
+  const tooltipId = useId();
+  const { label, dot, text } = STATUS_STYLES[status];
+  const lastDiagnostic = diagnostics[diagnostics.length - 1];
+
+  // Re-render every second so the relative times in the tooltip stay current
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="relative group">
+      <button
+        type="button"
+        aria-describedby={tooltipId}
+        aria-label={`Connection status: ${label}`}
+        className="flex items-center gap-1.5 rounded-full border border-slate-700 bg-slate-900 px-2.5 py-1 text-xs font-medium focus:outline-none focus:ring-1 focus:ring-teal-500"
+      >
+        <span className={`h-2 w-2 rounded-full ${dot}`} />
+        <span className={text}>{label}</span>
+      </button>
+
+      <div
+        id={tooltipId}
+        role="tooltip"
+        className="
+          invisible opacity-0 group-hover:visible group-hover:opacity-100
+          group-focus-within:visible group-focus-within:opacity-100
+          absolute right-0 top-full mt-2 w-52 z-30
+          rounded-md border border-slate-700 bg-slate-900 p-2.5 shadow-lg
+          text-xs text-slate-400 transition-opacity duration-150
+        "
+      >
+        <dl className="grid grid-cols-2 gap-y-1">
+          <dt>Status</dt>
+          <dd className={`text-right ${text}`}>{label}</dd>
+          <dt>Last message</dt>
+          <dd className="text-right text-slate-200">
+            {formatAgo(lastMessageAt, now)}
+          </dd>
+          <dt>Rate</dt>
+          <dd className="text-right text-slate-200">
+            {messagesPerMinute} msg/min
+          </dd>
+          {reconnectAttempt > 0 && (
+            <>
+              <dt>Attempt</dt>
+              <dd className="text-right text-slate-200">{reconnectAttempt}</dd>
+            </>
+          )}
+          {nextRetryAt !== null && (
+            <>
+              <dt>Next retry</dt>
+              <dd className="text-right text-slate-200">
+                in {Math.max(0, Math.ceil((nextRetryAt - now) / 1000))}s
+              </dd>
+            </>
+          )}
+          {lastDiagnostic && (
+            <>
+              <dt>Invalid payloads</dt>
+              <dd
+                className="text-right text-amber-300"
+                title={`${lastDiagnostic.source}: ${lastDiagnostic.error.message}`}
+              >
+                {diagnostics.length}
+              </dd>
+            </>
+          )}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,51 @@
 import { Select } from "../../common/components/Select";
+import { useCryptoWebSocket } from "../../common/hooks/useCryptoWebSocket";
+import { useDiagnostics } from "../../common/hooks/useDiagnostics";
+import { useTicker } from "../../common/hooks/useTicker";
+import { PairPicker } from "../pairPicker/PairPicker";
+import { Watchlist } from "../watchlist/Watchlist";
+import { ConnectionStatusBadge } from "./ConnectionStatusBadge";
 import { DashboardPanels } from "./DashboardPanel";
-import { PAIR_OPTIONS, STREAM_OPTIONS } from "./dashboardTypes";
+import { STREAM_OPTIONS, TIMEFRAME_OPTIONS } from "./dashboardTypes";
 import { useDashboardController } from "./useDashboardController";
 
 export function Dashboard() {
   const {
-    state: { pair, streamMode, showCandles, showOrderBook, showBoth },
-    handler: { handlePairChange, handleStreamModeChange },
+    state: {
+      pair,
+      pairInfo,
+      pairs,
+      streamMode,
+      timeframe,
+      watchlist,
+      showCandles,
+      showOrderBook,
+      showBoth,
+      showTrades,
+    },
+    handler: {
+      handlePairChange,
+      handleStreamModeChange,
+      handleTimeframeChange,
+      handleWatchlistAdd,
+      handleWatchlistRemove,
+    },
   } = useDashboardController();
+  const {
+    updatedCandle,
+    orderBook,
+    trades,
+    ticker: streamedTicker,
+    watchedCandles,
+    watchedTickers,
+    status,
+    lastMessageAt,
+    messagesPerMinute,
+    reconnectAttempt,
+    nextRetryAt,
+  } = useCryptoWebSocket(pair, streamMode, { watchlist, pairs });
+  const ticker = useTicker(pair, { updatedCandle, ticker: streamedTicker });
+  const diagnostics = useDiagnostics();
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 flex flex-col">
@@ -28,21 +66,41 @@ export function Dashboard() {
             <span className="text-sm font-semibold tracking-wide text-white">
               Crypto<span className="text-teal-400">Dashboard</span>
             </span>
+            <ConnectionStatusBadge
+              status={status}
+              lastMessageAt={lastMessageAt}
+              messagesPerMinute={messagesPerMinute}
+              reconnectAttempt={reconnectAttempt}
+              nextRetryAt={nextRetryAt}
+              diagnostics={diagnostics}
+            />
           </div>
 
           {/* Selects container
-              flex-row always — the two selects sit side by side on every screen.
+              flex-row always — the selects sit side by side on every screen.
               Each select gets flex-1 so they share whatever width is available
               without overflowing. On larger screens they naturally fit alongside
               the logo in the same header row.
           */}
           <div className="flex flex-row items-end gap-2 sm:gap-3">
             <div className="flex-1 sm:flex-none sm:w-44">
-              <Select
-                label="Pair"
+              <PairPicker
+                pairs={pairs}
                 value={pair}
-                options={PAIR_OPTIONS}
                 onChange={handlePairChange}
+                liveTickers={
+                  ticker.ticker
+                    ? { ...watchedTickers, [pair]: ticker.ticker }
+                    : watchedTickers
+                }
+              />
+            </div>
+            <div className="flex-1 sm:flex-none sm:w-24">
+              <Select
+                label="Timeframe"
+                value={timeframe}
+                options={TIMEFRAME_OPTIONS}
+                onChange={handleTimeframeChange}
               />
             </div>
             <div className="flex-1 sm:flex-none sm:w-56">
@@ -57,13 +115,37 @@ export function Dashboard() {
         </div>
       </header>
 
-      {/* ── Main ─────────────────────────────────────────────────────────────*/}
-      <DashboardPanels
-        pair={pair}
-        showCandles={showCandles}
-        showOrderBook={showOrderBook}
-        showBoth={showBoth}
-      />
+      {/* ── Main ─────────────────────────────────────────────────────────────
+          The watchlist is a left sidebar from xl up and drops below the
+          panels on smaller screens.
+      ────────────────────────────────────────────────────────────────────── */}
+      <div className="flex-1 flex flex-col xl:flex-row max-w-screen-2xl mx-auto w-full">
+        <DashboardPanels
+          pair={pair}
+          pairInfo={pairInfo}
+          timeframe={timeframe}
+          updatedCandle={updatedCandle}
+          orderBook={orderBook}
+          trades={trades}
+          ticker={ticker}
+          showCandles={showCandles}
+          showOrderBook={showOrderBook}
+          showBoth={showBoth}
+          showTrades={showTrades}
+        />
+        <aside className="shrink-0 px-4 sm:px-6 pb-4 xl:order-first xl:w-72 xl:pr-0 xl:py-6">
+          <Watchlist
+            pairs={pairs}
+            watchlist={watchlist}
+            selectedPair={pair}
+            liveCandles={watchedCandles}
+            liveTickers={watchedTickers}
+            onSelect={handlePairChange}
+            onAdd={handleWatchlistAdd}
+            onRemove={handleWatchlistRemove}
+          />
+        </aside>
+      </div>
 
       {/* ── Footer ───────────────────────────────────────────────────────── */}
       <footer className="border-t border-slate-800/60 py-3 px-6 mt-auto">
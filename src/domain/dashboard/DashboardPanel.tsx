@@ -1,34 +1,61 @@
-import { useCryptoWebSocket } from "../../common/hooks/useCryptoWebSocket";
+import type {
+  Candle,
+  OrderBook as OrderBookData,
+  Trade,
+} from "../../services/apiTypes";
 import CryptoCandleChart from "../cryptoCandleChart/CryptoCandleChart";
+import type { useTicker } from "../../common/hooks/useTicker";
+import { formatPairLabel } from "../../common/utils/pairCatalogue";
 import { OrderBook } from "../orderbook/Orderbook";
-import { PAIR_OPTIONS } from "./dashboardTypes";
+import { TradeTape } from "../trades/TradeTape";
+import { TickerBar } from "./TickerBar";
 import type { useDashboardController } from "./useDashboardController";
 
 interface DashboardPanelsProps {
   pair: ReturnType<typeof useDashboardController>["state"]["pair"];
+  /** Catalogue entry of `pair`, missing for a pair the catalogue lacks. */
+  pairInfo: ReturnType<typeof useDashboardController>["state"]["pairInfo"];
+  timeframe: ReturnType<typeof useDashboardController>["state"]["timeframe"];
+  /** Latest live candle from the WebSocket stream. */
+  updatedCandle: Candle | null;
+  /** Latest live order book snapshot from the WebSocket stream. */
+  orderBook: OrderBookData | null;
+  /** Live trades from the WebSocket stream, newest first. */
+  trades: Trade[];
+  /** 24h ticker for the selected pair. */
+  ticker: ReturnType<typeof useTicker>;
   showCandles: boolean;
   showOrderBook: boolean;
   showBoth: boolean;
+  showTrades: boolean;
 }
 
 export function DashboardPanels({
   pair,
+  pairInfo,
+  timeframe,
+  updatedCandle,
+  orderBook,
+  trades,
+  ticker,
   showCandles,
   showOrderBook,
   showBoth,
+  showTrades,
 }: DashboardPanelsProps) {
-  const { updatedCandle, orderBook } = useCryptoWebSocket(pair);
-
   return (
-    <main className="flex-1 max-w-screen-2xl mx-auto w-full px-4 sm:px-6 py-4 sm:py-6">
-      {/* Pair label */}
-      <div className="flex items-baseline gap-2 mb-4">
-        <h1 className="text-lg sm:text-xl font-semibold tracking-tight text-white">
-          {pair}
-        </h1>
-        <span className="text-sm text-slate-500 hidden sm:inline">
-          {PAIR_OPTIONS.find((p) => p.value === pair)?.label}
-        </span>
+    <main className="flex-1 min-w-0 px-4 sm:px-6 py-4 sm:py-6">
+      {/* Pair label and 24h ticker */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-x-6 gap-y-2 mb-4">
+        <div className="flex items-baseline gap-2">
+          <h1 className="text-lg sm:text-xl font-semibold tracking-tight text-white">
+            {pair}
+          </h1>
+          <span className="text-sm text-slate-500 hidden sm:inline">
+            {pairInfo ? formatPairLabel(pairInfo) : pair}
+          </span>
+        </div>
+        <TickerBar {...ticker} pairInfo={pairInfo} />
       </div>
       <div
         className={`
@@ -38,7 +65,11 @@ export function DashboardPanels({
       >
         {showCandles && (
           <div className={`w-full ${showBoth ? "lg:w-[70%]" : ""}`}>
-            <CryptoCandleChart pair={pair} updatedCandle={updatedCandle} />
+            <CryptoCandleChart
+              pair={pair}
+              timeframe={timeframe}
+              updatedCandle={updatedCandle}
+            />
           </div>
         )}
         {showOrderBook && (
@@ -48,7 +79,16 @@ export function DashboardPanels({
                ${showBoth ? "w-full lg:w-[30%]" : ""}
             `}
           >
-            <OrderBook pair={pair} updatedOrderBook={orderBook} />
+            <OrderBook
+              pair={pair}
+              pairInfo={pairInfo}
+              updatedOrderBook={orderBook}
+            />
+          </div>
+        )}
+        {showTrades && (
+          <div className="flex flex-col gap-2 w-full">
+            <TradeTape pair={pair} pairInfo={pairInfo} liveTrades={trades} />
           </div>
         )}
       </div>
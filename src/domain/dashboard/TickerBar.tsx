@@ -0,0 +1,86 @@
+import type { useTicker } from "../../common/hooks/useTicker";
+import type { PairInfo } from "../../services/apiTypes";
+import { formatNotional, formatPrice } from "../orderbook/utils";
+
+export type TickerBarProps = ReturnType<typeof useTicker> & {
+  /** Catalogue entry of the pair, for its price decimals. */
+  pairInfo?: PairInfo;
+};
+
+const FLASH_CLASS = {
+  up: "animate-flash-up",
+  down: "animate-flash-down",
+};
+
+function Field({ label, children }: { label: string; children: string }) {
+  return (
+    <div className="flex flex-col">
+      <dt className="text-[10px] uppercase tracking-wider text-slate-500">
+        {label}
+      </dt>
+      <dd className="text-slate-200">{children}</dd>
+    </div>
+  );
+}
+
+/**
+ * TickerBar
+ *
+ * 24h summary for the selected pair: last price, change, high / low and
+ * volume. The last price flashes green or red each time it moves.
+ */
+export function TickerBar({
+  ticker,
+  direction,
+  flashKey,
+  pairInfo,
+}: TickerBarProps) {
+  if (!ticker) {
+    return (
+      <div
+        className="h-8 w-72 rounded bg-slate-800 animate-pulse"
+        aria-label="Loading ticker"
+      />
+    );
+  }
+
+  const { last, change, changePercent, high, low, volume } = ticker;
+  const changeColor =
+    change > 0
+      ? "text-teal-400"
+      : change < 0
+        ? "text-red-400"
+        : "text-slate-300";
+  const sign = change > 0 ? "+" : change < 0 ? "-" : "";
+
+  return (
+    <dl
+      aria-label="24h ticker"
+      className="flex flex-wrap items-end gap-x-5 gap-y-1 text-xs font-mono"
+    >
+      <div className="flex flex-col">
+        <dt className="sr-only">Last price</dt>
+        <dd
+          key={flashKey}
+          className={`rounded px-1 -mx-1 text-base font-semibold text-white ${
+            direction ? FLASH_CLASS[direction] : ""
+          }`}
+          data-direction={direction ?? undefined}
+        >
+          {formatPrice(last, pairInfo)}
+        </dd>
+      </div>
+      <div className="flex flex-col">
+        <dt className="text-[10px] uppercase tracking-wider text-slate-500">
+          24h change
+        </dt>
+        <dd className={changeColor}>
+          {`${sign}${formatPrice(Math.abs(change), pairInfo)} (${sign}${Math.abs(changePercent).toFixed(2)}%)`}
+        </dd>
+      </div>
+      <Field label="24h high">{formatPrice(high, pairInfo)}</Field>
+      <Field label="24h low">{formatPrice(low, pairInfo)}</Field>
+      <Field label="24h volume">{formatNotional(volume)}</Field>
+    </dl>
+  );
+}
@@ -1,26 +1,31 @@
-import type { CryptoPair } from "../../services/apiTypes";
+import type { StreamMode, Timeframe } from "../../services/apiTypes";
 
-/** The three stream modes exposed in the UI dropdown. */
-export type StreamMode = "all" | "candles" | "orderbook";
+/** The stream modes exposed in the UI dropdown. */
+export type { StreamMode } from "../../services/apiTypes";
 
 export interface StreamOption {
   value: StreamMode;
   label: string;
 }
 
-export interface PairOption {
-  value: CryptoPair;
+export interface TimeframeOption {
+  value: Timeframe;
   label: string;
 }
 
-export const PAIR_OPTIONS: PairOption[] = [
-  { value: "BTC-USDT", label: "BTC / USDT" },
-  { value: "ETH-USDT", label: "ETH / USDT" },
-  { value: "XRP-USDT", label: "XRP / USDT" },
-];
-
 export const STREAM_OPTIONS: StreamOption[] = [
   { value: "all", label: "All — Candles & Order Book" },
   { value: "candles", label: "Candles Only" },
   { value: "orderbook", label: "Order Book Only" },
+  { value: "trades", label: "Trades Only" },
+];
+
+export const TIMEFRAME_OPTIONS: TimeframeOption[] = [
+  { value: "1m", label: "1m" },
+  { value: "5m", label: "5m" },
+  { value: "15m", label: "15m" },
+  { value: "1H", label: "1H" },
+  { value: "4H", label: "4H" },
+  { value: "1D", label: "1D" },
+  { value: "1W", label: "1W" },
 ];
@@ -1,32 +1,66 @@
 import { useState } from "react";
-import type { CryptoPair } from "../../services/apiTypes";
+import type { CryptoPair, Timeframe } from "../../services/apiTypes";
+import { usePairs } from "../../common/hooks/usePairs";
+import { getPairInfo } from "../../common/utils/pairCatalogue";
+import { loadWatchlist, saveWatchlist } from "../watchlist/utils";
 import type { StreamMode } from "./dashboardTypes";
 
 export function useDashboardController() {
-  const [pair, setPair] = useState<CryptoPair>("BTC-USDT");
+  const { pairs } = usePairs();
+  const [selectedPair, setSelectedPair] = useState<CryptoPair>("BTC-USDT");
   const [streamMode, setStreamMode] = useState<StreamMode>("all");
+  const [timeframe, setTimeframe] = useState<Timeframe>("1H");
+  const [watchlist, setWatchlist] = useState<CryptoPair[]>(loadWatchlist);
+
+  // If the catalogue no longer lists the selected pair, show the first one
+  const pair = pairs.some((p) => p.symbol === selectedPair)
+    ? selectedPair
+    : (pairs[0]?.symbol ?? selectedPair);
+  const pairInfo = getPairInfo(pair, pairs);
 
   const showCandles = streamMode === "all" || streamMode === "candles";
   const showOrderBook = streamMode === "all" || streamMode === "orderbook";
   const showBoth = showCandles && showOrderBook;
+  const showTrades = streamMode === "trades";
   const handlePairChange = (pair: CryptoPair) => {
-    setPair(pair);
+    setSelectedPair(pair);
   };
   const handleStreamModeChange = (mode: StreamMode) => {
     setStreamMode(mode);
   };
+  const handleTimeframeChange = (timeframe: Timeframe) => {
+    setTimeframe(timeframe);
+  };
+  const updateWatchlist = (next: CryptoPair[]) => {
+    saveWatchlist(next);
+    setWatchlist(next);
+  };
+  const handleWatchlistAdd = (pair: CryptoPair) => {
+    if (!watchlist.includes(pair)) updateWatchlist([...watchlist, pair]);
+  };
+  const handleWatchlistRemove = (pair: CryptoPair) => {
+    updateWatchlist(watchlist.filter((p) => p !== pair));
+  };
 
   return {
     state: {
       pair,
+      pairInfo,
+      pairs,
       streamMode,
+      timeframe,
+      watchlist,
       showCandles,
       showOrderBook,
       showBoth,
+      showTrades,
     },
     handler: {
       handlePairChange,
       handleStreamModeChange,
+      handleTimeframeChange,
+      handleWatchlistAdd,
+      handleWatchlistRemove,
     },
   };
 }
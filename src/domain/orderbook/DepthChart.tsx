@@ -0,0 +1,209 @@
+import { useState, type PointerEvent } from "react";
+import type { PairInfo } from "../../services/apiTypes";
+import {
+  findDepthLevel,
+  formatAmount,
+  formatPrice,
+  type DepthLevel,
+} from "./utils";
+
+export interface DepthChartProps {
+  /** Catalogue entry of the pair, for its price decimals. */
+  pairInfo?: PairInfo;
+  /** Cumulative bid depth, best (highest) price first. */
+  bids: DepthLevel[];
+  /** Cumulative ask depth, best (lowest) price first. */
+  asks: DepthLevel[];
+  midPrice: number | null;
+}
+
+// Drawing space of the SVG viewBox; the chart is stretched to fit its box.
+const WIDTH = 400;
+const HEIGHT = 200;
+
+interface Scale {
+  minPrice: number;
+  maxPrice: number;
+  maxSize: number;
+}
+
+/**
+ * Centre the price axis on the mid price so both sides get equal width,
+ * and leave a little headroom above the deepest side.
+ */
+function getScale(
+  bids: DepthLevel[],
+  asks: DepthLevel[],
+  midPrice: number,
+): Scale {
+  const lowestBid = bids[bids.length - 1]?.price ?? midPrice;
+  const highestAsk = asks[asks.length - 1]?.price ?? midPrice;
+  const halfRange = Math.max(midPrice - lowestBid, highestAsk - midPrice) || 1;
+  const maxSize = Math.max(
+    bids[bids.length - 1]?.cumulativeSize ?? 0,
+    asks[asks.length - 1]?.cumulativeSize ?? 0,
+  );
+  return {
+    minPrice: midPrice - halfRange,
+    maxPrice: midPrice + halfRange,
+    maxSize: maxSize * 1.1 || 1,
+  };
+}
+
+const toX = (price: number, { minPrice, maxPrice }: Scale) =>
+  ((price - minPrice) / (maxPrice - minPrice)) * WIDTH;
+
+const toY = (size: number, { maxSize }: Scale) =>
+  HEIGHT - (size / maxSize) * HEIGHT;
+
+/**
+ * Closed SVG path for one side's staircase. Depth at a price is the size
+ * resting at that price or better, so the step holds its height until the
+ * next level further from the mid price.
+ */
+function getStaircasePath(depth: DepthLevel[], scale: Scale): string {
+  if (depth.length === 0) return "";
+
+  const commands = [`M ${toX(depth[0].price, scale)} ${HEIGHT}`];
+  depth.forEach((level, i) => {
+    const y = toY(level.cumulativeSize, scale);
+    commands.push(`L ${toX(level.price, scale)} ${y}`);
+    const next = depth[i + 1];
+    if (next) commands.push(`L ${toX(next.price, scale)} ${y}`);
+  });
+  commands.push(`L ${toX(depth[depth.length - 1].price, scale)} ${HEIGHT} Z`);
+  return commands.join(" ");
+}
+
+/**
+ * Pointer position as a price. The level under it is looked up on every
+ * render, so the readout follows live book updates without a pointer move.
+ */
+interface HoverState {
+  side: "ask" | "bid";
+  price: number;
+}
+
+/**
+ * DepthChart
+ *
+ * Cumulative depth of the order book as a bid / ask staircase around the
+ * mid price. Hovering the chart shows the cumulative size and notional
+ * that would be consumed down (or up) to the price under the pointer.
+ */
+export function DepthChart({
+  pairInfo,
+  bids,
+  asks,
+  midPrice,
+}: DepthChartProps) {
+  const [hover, setHover] = useState<HoverState | null>(null);
+
+  if (midPrice === null || (bids.length === 0 && asks.length === 0)) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-6 text-xs text-slate-500">
+        No depth data
+      </div>
+    );
+  }
+
+  const scale = getScale(bids, asks, midPrice);
+  const hoveredLevel = hover
+    ? findDepthLevel(
+        hover.side === "bid" ? bids : asks,
+        hover.price,
+        hover.side,
+      )
+    : null;
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width === 0) return;
+    const ratio = (event.clientX - rect.left) / rect.width;
+    const price = scale.minPrice + ratio * (scale.maxPrice - scale.minPrice);
+    setHover({ side: price < midPrice ? "bid" : "ask", price });
+  };
+
+  return (
+    <div className="relative flex flex-1 flex-col p-3 gap-2">
+      <div
+        className="h-10 text-xs font-mono"
+        aria-live="polite"
+        data-testid="depth-readout"
+      >
+        {hover && hoveredLevel ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3">
+            <dt className="text-slate-500">Price</dt>
+            <dd
+              className={
+                hover.side === "bid" ? "text-teal-400" : "text-red-400"
+              }
+            >
+              {formatPrice(hoveredLevel.price, pairInfo)}
+            </dd>
+            <dt className="text-slate-500">Cum. size</dt>
+            <dd className="text-slate-200">
+              {formatAmount(hoveredLevel.cumulativeSize)}
+            </dd>
+            <dt className="text-slate-500">Notional</dt>
+            <dd className="text-slate-200">
+              {formatPrice(hoveredLevel.cumulativeNotional)}
+            </dd>
+          </dl>
+        ) : (
+          <span className="text-slate-600">Hover the chart for depth</span>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full flex-1 min-h-[200px]"
+        role="img"
+        aria-label="Cumulative order book depth"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHover(null)}
+      >
+        <path
+          d={getStaircasePath(bids, scale)}
+          className="fill-teal-500/20 stroke-teal-400"
+          vectorEffect="non-scaling-stroke"
+          data-side="bid"
+        />
+        <path
+          d={getStaircasePath(asks, scale)}
+          className="fill-red-500/20 stroke-red-400"
+          vectorEffect="non-scaling-stroke"
+          data-side="ask"
+        />
+        <line
+          x1={WIDTH / 2}
+          x2={WIDTH / 2}
+          y1={0}
+          y2={HEIGHT}
+          className="stroke-slate-700"
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        {hoveredLevel && (
+          <line
+            x1={toX(hoveredLevel.price, scale)}
+            x2={toX(hoveredLevel.price, scale)}
+            y1={0}
+            y2={HEIGHT}
+            className="stroke-slate-400"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      <div className="flex justify-between text-[10px] font-mono text-slate-500">
+        <span>{formatPrice(scale.minPrice, pairInfo)}</span>
+        <span className="text-slate-300">
+          {formatPrice(midPrice, pairInfo)}
+        </span>
+        <span>{formatPrice(scale.maxPrice, pairInfo)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import type { ReactNode } from "react";
+import type { PairInfo } from "../../services/apiTypes";
+import type { OrderBookAnalytics, SlippageEstimate } from "./analytics";
+import {
+  ANALYTICS_BAND_PERCENT,
+  ANALYTICS_DEPTH_LEVELS,
+  SLIPPAGE_ORDER_NOTIONALS,
+} from "./orderbookTypes";
+import { formatNotional, formatPrice } from "./utils";
+
+export interface OrderBookStatsProps {
+  /** Catalogue entry of the pair, for its price decimals. */
+  pairInfo?: PairInfo;
+  analytics: OrderBookAnalytics;
+  orderNotional: number;
+  onOrderNotionalChange: (notional: number) => void;
+}
+
+const formatBps = (bps: number) => `${bps.toFixed(2)} bps`;
+
+/**
+ * Slippage in bps, prefixed with ">" when the visible book could not fill
+ * the whole order (the real cost would be higher still).
+ */
+function formatSlippage(estimate: SlippageEstimate | null): string {
+  if (!estimate) return "—";
+  return `${estimate.complete ? "" : ">"}${formatBps(estimate.slippageBps)}`;
+}
+
+function Stat({
+  label,
+  title,
+  children,
+}: {
+  label: string;
+  title?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="flex flex-col min-w-0" title={title}>
+      <dt className="text-[10px] uppercase tracking-wider text-slate-500">
+        {label}
+      </dt>
+      <dd className="truncate text-slate-200">{children}</dd>
+    </div>
+  );
+}
+
+/**
+ * OrderBookStats
+ *
+ * Compact strip of liquidity analytics shown above the order book:
+ * spread, microprice, weighted mid, top-of-book imbalance, notional near
+ * the mid and the estimated slippage of a market order of a chosen size.
+ */
+export function OrderBookStats({
+  pairInfo,
+  analytics: {
+    spread,
+    microprice,
+    weightedMid,
+    imbalance,
+    bandNotional,
+    buySlippage,
+    sellSlippage,
+  },
+  orderNotional,
+  onOrderNotionalChange,
+}: OrderBookStatsProps) {
+  const imbalanceColor =
+    imbalance === null || imbalance === 0
+      ? "text-slate-200"
+      : imbalance > 0
+        ? "text-teal-400"
+        : "text-red-400";
+
+  return (
+    <dl
+      aria-label="Order book analytics"
+      className="grid grid-cols-3 gap-x-4 gap-y-2 rounded-lg border border-slate-800 bg-slate-900 px-3 py-2 text-xs font-mono"
+    >
+      <Stat label="Spread">
+        {spread
+          ? `${formatPrice(spread.absolute, pairInfo)} · ${formatBps(spread.bps)}`
+          : "—"}
+      </Stat>
+      <Stat
+        label="Microprice"
+        title="Mid weighted by top-of-book size, leaning to the thinner side"
+      >
+        {microprice !== null ? formatPrice(microprice, pairInfo) : "—"}
+      </Stat>
+      <Stat
+        label="Weighted mid"
+        title={`Mid of the top ${ANALYTICS_DEPTH_LEVELS} levels' VWAPs`}
+      >
+        {weightedMid !== null ? formatPrice(weightedMid, pairInfo) : "—"}
+      </Stat>
+      <Stat
+        label={`Imbalance ${ANALYTICS_DEPTH_LEVELS}L`}
+        title="(bid − ask) / (bid + ask) volume; positive means more bids"
+      >
+        <span className={imbalanceColor}>
+          {imbalance !== null
+            ? `${imbalance > 0 ? "+" : ""}${(imbalance * 100).toFixed(1)}%`
+            : "—"}
+        </span>
+      </Stat>
+      <Stat label={`±${ANALYTICS_BAND_PERCENT}% notional`}>
+        <span className="text-teal-400">
+          {formatNotional(bandNotional.bid)}
+        </span>
+        {" / "}
+        <span className="text-red-400">{formatNotional(bandNotional.ask)}</span>
+      </Stat>
+      <div className="flex flex-col min-w-0">
+        <dt className="flex items-center gap-1 text-[10px] uppercase tracking-wider text-slate-500">
+          Slippage
+          <select
+            aria-label="Slippage order size"
+            value={orderNotional}
+            onChange={(e) => onOrderNotionalChange(Number(e.target.value))}
+            className="bg-transparent text-slate-400 cursor-pointer focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            {SLIPPAGE_ORDER_NOTIONALS.map((notional) => (
+              <option key={notional} value={notional}>
+                {formatNotional(notional)}
+              </option>
+            ))}
+          </select>
+        </dt>
+        <dd className="truncate text-slate-200">
+          <span title="Market buy">B {formatSlippage(buySlippage)}</span>
+          {" · "}
+          <span title="Market sell">S {formatSlippage(sellSlippage)}</span>
+        </dd>
+      </div>
+    </dl>
+  );
+}
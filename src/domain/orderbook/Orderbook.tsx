@@ -1,9 +1,21 @@
-import type { OrderBook, OrderBookEntry } from "../../services/apiTypes";
+import type {
+  OrderBook,
+  OrderBookEntry,
+  PairInfo,
+} from "../../services/apiTypes";
 import {
   useOrderbookController,
   type OrderBookProps,
 } from "./useOrderbookController";
-import { formatAmount, formatPrice, formatTotal } from "./utils";
+import { DepthChart } from "./DepthChart";
+import { OrderBookStats } from "./OrderBookStats";
+import { VIEW_OPTIONS } from "./orderbookTypes";
+import {
+  formatAmount,
+  formatPrice,
+  formatTotal,
+  getStepDecimals,
+} from "./utils";
 
 /**
  * A single row in the order book with a depth-bar background.
@@ -11,10 +23,12 @@ import { formatAmount, formatPrice, formatTotal } from "./utils";
  * largest total in the visible window — gives a quick visual depth cue.
  */
 function OrderRow({
+  pairInfo,
   entry,
   side,
   maxTotal,
 }: {
+  pairInfo: PairInfo | undefined;
   entry: OrderBookEntry;
   side: "ask" | "bid";
   maxTotal: number;
@@ -33,7 +47,7 @@ function OrderRow({
         style={{ width: `${barWidth}%` }}
       />
       <span className={`relative z-10 ${priceColor}`}>
-        {formatPrice(price)}
+        {formatPrice(price, pairInfo)}
       </span>
       <span className="relative z-10 text-slate-300 text-right">
         {formatAmount(amount)}
@@ -69,11 +83,40 @@ function SkeletonRows({ count = 12 }: { count?: number }) {
  * Fetches its own data for the given pair, handles loading and error states.
  * Renders asks (red, sells) above a mid-price marker and bids (green, buys) below.
  * Each row has a proportional depth bar to visualize order concentration.
+ * A toggle swaps the table for a cumulative depth chart of the same data.
+ * A stats strip above both views summarises spread and liquidity.
  */
-export function OrderBook({ pair, updatedOrderBook }: OrderBookProps) {
+export function OrderBook({
+  pair,
+  pairInfo,
+  updatedOrderBook,
+}: OrderBookProps) {
   const {
-    state: { asks, bids, maxTotal, midPrice, loading, error },
-  } = useOrderbookController({ pair, updatedOrderBook });
+    state: {
+      asks,
+      bids,
+      maxTotal,
+      midPrice,
+      depth,
+      analytics,
+      orderNotional,
+      view,
+      grouping,
+      groupingOptions,
+      loading,
+      error,
+    },
+    handler: {
+      handleViewChange,
+      handleGroupingChange,
+      handleOrderNotionalChange,
+      handleRetry,
+    },
+  } = useOrderbookController({
+    pair,
+    pairInfo,
+    updatedOrderBook,
+  });
 
   return (
     <>
@@ -81,11 +124,74 @@ export function OrderBook({ pair, updatedOrderBook }: OrderBookProps) {
         <span className="text-xs font-medium tracking-widest uppercase text-slate-500">
           Order Book
         </span>
-        <span className="text-xs text-slate-600">{pair}</span>
+        <div className="flex items-center gap-3">
+          <select
+            aria-label="Price grouping"
+            value={grouping}
+            onChange={(e) => handleGroupingChange(Number(e.target.value))}
+            className="rounded border border-slate-700 bg-slate-900 px-1.5 py-0.5 text-xs font-mono text-slate-300 cursor-pointer focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            {groupingOptions.map((step) => (
+              <option key={step} value={step}>
+                {step.toFixed(getStepDecimals(step))}
+              </option>
+            ))}
+          </select>
+          <div
+            className="flex rounded border border-slate-700 overflow-hidden"
+            role="group"
+            aria-label="Order book view"
+          >
+            {VIEW_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                aria-pressed={view === value}
+                onClick={() => handleViewChange(value)}
+                className={`px-2 py-0.5 text-xs font-medium transition-colors focus:outline-none focus:ring-1 focus:ring-teal-500 ${
+                  view === value
+                    ? "bg-slate-700 text-slate-100"
+                    : "bg-slate-900 text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-slate-600">{pair}</span>
+        </div>
       </div>
+      {analytics && !error && (
+        <OrderBookStats
+          pairInfo={pairInfo}
+          analytics={analytics}
+          orderNotional={orderNotional}
+          onOrderNotionalChange={handleOrderNotionalChange}
+        />
+      )}
       {error ? (
-        <div className="flex items-center justify-center rounded-lg border border-slate-800 bg-slate-900 p-6 min-h-[200px]">
+        <div className="flex flex-col items-center justify-center gap-3 rounded-lg border border-slate-800 bg-slate-900 p-6 min-h-[200px]">
           <p className="text-xs text-red-400 text-center">{error}</p>
+          <button
+            type="button"
+            onClick={handleRetry}
+            className="rounded border border-slate-700 bg-slate-900 px-2 py-0.5 text-xs font-medium text-slate-300 hover:text-slate-100 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            Retry
+          </button>
+        </div>
+      ) : view === "depth" ? (
+        <div className="flex flex-col h-full min-h-[300px] bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+          {loading ? (
+            <div className="flex-1 m-3 rounded bg-slate-800 animate-pulse" />
+          ) : (
+            <DepthChart
+              pairInfo={pairInfo}
+              bids={depth.bids}
+              asks={depth.asks}
+              midPrice={midPrice}
+            />
+          )}
         </div>
       ) : (
         <div className="flex flex-col h-full bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
@@ -110,6 +216,7 @@ export function OrderBook({ pair, updatedOrderBook }: OrderBookProps) {
               ) : (
                 asks.map((entry, i) => (
                   <OrderRow
+                    pairInfo={pairInfo}
                     key={`ask-${i}`}
                     entry={entry}
                     side="ask"
@@ -124,7 +231,7 @@ export function OrderBook({ pair, updatedOrderBook }: OrderBookProps) {
               {midPrice !== null ? (
                 <>
                   <span className="text-base font-mono font-semibold text-white">
-                    {formatPrice(midPrice)}
+                    {formatPrice(midPrice, pairInfo)}
                   </span>
                   <span className="text-xs text-slate-500 font-medium">
                     Mid Price
@@ -142,6 +249,7 @@ export function OrderBook({ pair, updatedOrderBook }: OrderBookProps) {
               ) : (
                 bids.map((entry, i) => (
                   <OrderRow
+                    pairInfo={pairInfo}
                     key={`bid-${i}`}
                     entry={entry}
                     side="bid"
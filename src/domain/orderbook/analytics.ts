@@ -0,0 +1,191 @@
+import type { OrderBook, OrderBookEntry } from "../../services/apiTypes";
+
+export interface Spread {
+  /** Best ask − best bid, in quote currency */
+  absolute: number;
+  /** Spread relative to the mid price, in basis points */
+  bps: number;
+}
+
+/**
+ * Result of walking one side of the book with a market order.
+ */
+export interface SlippageEstimate {
+  /** Volume-weighted fill price */
+  averagePrice: number;
+  /** Price of the last level the order reaches */
+  worstPrice: number;
+  /** Distance from the best price to the average fill, in basis points */
+  slippageBps: number;
+  /** False when the visible book is too thin to fill the whole order */
+  complete: boolean;
+}
+
+export interface OrderBookAnalytics {
+  spread: Spread | null;
+  microprice: number | null;
+  weightedMid: number | null;
+  /** Bid/ask volume imbalance over the top levels, from −1 to 1 */
+  imbalance: number | null;
+  /** Notional resting within the band around the mid, per side */
+  bandNotional: { bid: number; ask: number };
+  /** Estimated cost of a market buy (walks the asks) */
+  buySlippage: SlippageEstimate | null;
+  /** Estimated cost of a market sell (walks the bids) */
+  sellSlippage: SlippageEstimate | null;
+}
+
+export interface OrderBookAnalyticsOptions {
+  /** Levels per side counted by the imbalance and weighted mid */
+  depthLevels: number;
+  /** Half-width of the band around the mid, in percent */
+  bandPercent: number;
+  /** Size of the hypothetical market order, in quote currency */
+  orderNotional: number;
+}
+
+const BPS = 10_000;
+
+const sumAmounts = (levels: readonly OrderBookEntry[]) =>
+  levels.reduce((sum, [, amount]) => sum + amount, 0);
+
+/**
+ * Absolute and relative distance between the best ask and best bid.
+ * Null while either side is empty.
+ */
+export function getSpread(book: OrderBook): Spread | null {
+  const bestAsk = book.asks[0]?.[0];
+  const bestBid = book.bids[0]?.[0];
+  if (bestAsk === undefined || bestBid === undefined) return null;
+
+  const absolute = bestAsk - bestBid;
+  const mid = (bestAsk + bestBid) / 2;
+  return { absolute, bps: mid > 0 ? (absolute / mid) * BPS : 0 };
+}
+
+/**
+ * Mid price weighted by the size resting at the top of the book. It leans
+ * towards the side with *less* size — the side more likely to be taken
+ * out next — so it anticipates the next move better than the plain mid.
+ */
+export function getMicroprice(book: OrderBook): number | null {
+  const [bestAsk, askSize] = book.asks[0] ?? [];
+  const [bestBid, bidSize] = book.bids[0] ?? [];
+  if (bestAsk === undefined || bestBid === undefined) return null;
+
+  const totalSize = askSize + bidSize;
+  if (totalSize === 0) return (bestAsk + bestBid) / 2;
+  return (bestBid * askSize + bestAsk * bidSize) / totalSize;
+}
+
+/**
+ * Midpoint of the volume-weighted average prices of the top `levels`
+ * on each side. Less jumpy than the plain mid when the top level is thin.
+ */
+export function getWeightedMid(book: OrderBook, levels: number): number | null {
+  const vwap = (side: readonly OrderBookEntry[]) => {
+    const top = side.slice(0, levels);
+    const size = sumAmounts(top);
+    if (size === 0) return null;
+    return top.reduce((sum, [price, amount]) => sum + price * amount, 0) / size;
+  };
+
+  const askVwap = vwap(book.asks);
+  const bidVwap = vwap(book.bids);
+  if (askVwap === null || bidVwap === null) return null;
+  return (askVwap + bidVwap) / 2;
+}
+
+/**
+ * (bid volume − ask volume) / (bid volume + ask volume) over the top
+ * `levels` of each side. Positive values mean more resting demand than
+ * supply. Null when both sides are empty.
+ */
+export function getImbalance(book: OrderBook, levels: number): number | null {
+  const bidVolume = sumAmounts(book.bids.slice(0, levels));
+  const askVolume = sumAmounts(book.asks.slice(0, levels));
+  const total = bidVolume + askVolume;
+  return total > 0 ? (bidVolume - askVolume) / total : null;
+}
+
+/**
+ * Notional (price × amount) resting within ±`percent` % of `midPrice`
+ * on each side of the book.
+ */
+export function getNotionalWithinBand(
+  book: OrderBook,
+  midPrice: number,
+  percent: number,
+): { bid: number; ask: number } {
+  const lower = midPrice * (1 - percent / 100);
+  const upper = midPrice * (1 + percent / 100);
+  const notional = (levels: readonly OrderBookEntry[]) =>
+    levels
+      .filter(([price]) => price >= lower && price <= upper)
+      .reduce((sum, [price, amount]) => sum + price * amount, 0);
+
+  return { bid: notional(book.bids), ask: notional(book.asks) };
+}
+
+/**
+ * Walk one side of the book (best price first) with a market order worth
+ * `notional` in quote currency and report the resulting fill. Levels with
+ * no amount are skipped. Null when nothing can be filled or the order size
+ * is not positive.
+ */
+export function estimateSlippage(
+  levels: readonly OrderBookEntry[],
+  notional: number,
+): SlippageEstimate | null {
+  const fillable = levels.filter(([, amount]) => amount > 0);
+  const bestPrice = fillable[0]?.[0];
+  if (bestPrice === undefined || notional <= 0) return null;
+
+  let remaining = notional;
+  let filledAmount = 0;
+  let worstPrice = bestPrice;
+  for (const [price, amount] of fillable) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, price * amount);
+    filledAmount += take / price;
+    remaining -= take;
+    worstPrice = price;
+  }
+
+  const averagePrice = (notional - Math.max(remaining, 0)) / filledAmount;
+  return {
+    averagePrice,
+    worstPrice,
+    slippageBps: (Math.abs(averagePrice - bestPrice) / bestPrice) * BPS,
+    complete: remaining <= 0,
+  };
+}
+
+/**
+ * All order book analytics in one pass, for the stats strip.
+ */
+export function getOrderBookAnalytics(
+  book: OrderBook,
+  { depthLevels, bandPercent, orderNotional }: OrderBookAnalyticsOptions,
+): OrderBookAnalytics {
+  const spread = getSpread(book);
+  const bestAsk = book.asks[0]?.[0];
+  const bestBid = book.bids[0]?.[0];
+  const mid =
+    bestAsk !== undefined && bestBid !== undefined
+      ? (bestAsk + bestBid) / 2
+      : null;
+
+  return {
+    spread,
+    microprice: getMicroprice(book),
+    weightedMid: getWeightedMid(book, depthLevels),
+    imbalance: getImbalance(book, depthLevels),
+    bandNotional:
+      mid === null
+        ? { bid: 0, ask: 0 }
+        : getNotionalWithinBand(book, mid, bandPercent),
+    buySlippage: estimateSlippage(book.asks, orderNotional),
+    sellSlippage: estimateSlippage(book.bids, orderNotional),
+  };
+}
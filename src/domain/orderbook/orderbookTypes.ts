@@ -0,0 +1,27 @@
+/** How the order book is shown: the price ladder or the depth chart. */
+export type OrderBookView = "table" | "depth";
+
+export interface OrderBookViewOption {
+  value: OrderBookView;
+  label: string;
+}
+
+export const VIEW_OPTIONS: OrderBookViewOption[] = [
+  { value: "table", label: "Table" },
+  { value: "depth", label: "Depth" },
+];
+
+/**
+ * Number of price grouping steps offered per pair: the tick size and
+ * successive multiples of ten — see `getGroupingSteps`.
+ */
+export const GROUPING_STEP_COUNT = 5;
+
+/** Levels per side counted by the imbalance and weighted mid. */
+export const ANALYTICS_DEPTH_LEVELS = 5;
+
+/** Half-width (%) of the band around the mid used for band notional. */
+export const ANALYTICS_BAND_PERCENT = 1;
+
+/** Market order sizes (quote currency) offered for the slippage estimate. */
+export const SLIPPAGE_ORDER_NOTIONALS = [10_000, 100_000, 1_000_000];
@@ -2,36 +2,75 @@ import { useEffect, useState } from "react";
 import type {
   CryptoPair,
   OrderBook as OrderBookData,
+  PairInfo,
 } from "../../services/apiTypes";
 import { fetchOrderBook } from "../../services/cryptoApiService";
-import { getMidPrice } from "./utils";
+import { formatRequestError } from "../../services/apiErrors";
+import { getOrderBookAnalytics } from "./analytics";
+import {
+  ANALYTICS_BAND_PERCENT,
+  ANALYTICS_DEPTH_LEVELS,
+  GROUPING_STEP_COUNT,
+  SLIPPAGE_ORDER_NOTIONALS,
+  type OrderBookView,
+} from "./orderbookTypes";
+import {
+  getCumulativeDepth,
+  getGroupingSteps,
+  getMidPrice,
+  groupOrderBookLevels,
+} from "./utils";
 
 export interface OrderBookProps {
   pair: CryptoPair;
+  /** Catalogue entry of `pair`, for its price decimals and tick size. */
+  pairInfo?: PairInfo;
   updatedOrderBook: OrderBookData | null;
 }
+
 export function useOrderbookController({
   pair,
+  pairInfo,
   updatedOrderBook,
 }: OrderBookProps) {
   const [orderBook, setOrderBook] = useState<OrderBookData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Bumped by `handleRetry` to run the fetch effect again
+  const [reloadKey, setReloadKey] = useState(0);
+  const [view, setView] = useState<OrderBookView>("table");
+  // Remembered per pair — a step that suits BTC is meaningless for XRP
+  const [groupingByPair, setGroupingByPair] = useState<
+    Partial<Record<CryptoPair, number>>
+  >({});
+
+  const [orderNotional, setOrderNotional] = useState(
+    SLIPPAGE_ORDER_NOTIONALS[1],
+  );
+
+  // Pairs missing from the catalogue fall back to a cent tick
+  const groupingOptions = getGroupingSteps(
+    pairInfo?.tickSize ?? 0.01,
+    GROUPING_STEP_COUNT,
+  );
+  const grouping = groupingByPair[pair] ?? groupingOptions[0];
 
   useEffect(() => {
     let cancelled = false;
+    // Lets the service drop the request once no component waits for it
+    const controller = new AbortController();
     const fetchData = async () => {
       setLoading(true);
       setError(null);
       try {
-        const data = await fetchOrderBook(pair);
+        const data = await fetchOrderBook(pair, controller.signal);
         if (!cancelled) {
           setOrderBook(data);
           setLoading(false);
         }
-      } catch {
+      } catch (err) {
         if (!cancelled) {
-          setError("Failed to fetch order book");
+          setError(formatRequestError("Failed to fetch order book", err));
           setLoading(false);
         }
       }
@@ -39,18 +78,50 @@ export function useOrderbookController({
     fetchData();
     return () => {
       cancelled = true;
+      controller.abort();
     };
-  }, [pair]);
+  }, [pair, reloadKey]);
 
   // Use updatedOrderBook if available, otherwise fallback to fetched orderBook
   const displayedOrderBook = updatedOrderBook ?? orderBook;
 
   // Move derived data calculations here
-  const asks = displayedOrderBook ? [...displayedOrderBook.asks].reverse() : [];
-  const bids = displayedOrderBook ? displayedOrderBook.bids : [];
+  const groupedAsks = displayedOrderBook
+    ? groupOrderBookLevels(displayedOrderBook.asks, grouping, "ask")
+    : [];
+  const asks = [...groupedAsks].reverse();
+  const bids = displayedOrderBook
+    ? groupOrderBookLevels(displayedOrderBook.bids, grouping, "bid")
+    : [];
   const allTotals = [...asks, ...bids].map(([p, a]) => p * a);
   const maxTotal = allTotals.length > 0 ? Math.max(...allTotals) : 1;
   const midPrice = displayedOrderBook ? getMidPrice(displayedOrderBook) : null;
+  // Both sides best price first, as the depth staircase grows outward
+  const depth = {
+    bids: getCumulativeDepth(bids),
+    asks: getCumulativeDepth(groupedAsks),
+  };
+  // Computed on the raw levels — grouping would widen the spread
+  const analytics = displayedOrderBook
+    ? getOrderBookAnalytics(displayedOrderBook, {
+        depthLevels: ANALYTICS_DEPTH_LEVELS,
+        bandPercent: ANALYTICS_BAND_PERCENT,
+        orderNotional,
+      })
+    : null;
+
+  const handleViewChange = (next: OrderBookView) => {
+    setView(next);
+  };
+  const handleGroupingChange = (step: number) => {
+    setGroupingByPair((current) => ({ ...current, [pair]: step }));
+  };
+  const handleOrderNotionalChange = (notional: number) => {
+    setOrderNotional(notional);
+  };
+  const handleRetry = () => {
+    setReloadKey((key) => key + 1);
+  };
 
   return {
     state: {
@@ -58,8 +129,20 @@ export function useOrderbookController({
       bids,
       maxTotal,
       midPrice,
+      depth,
+      analytics,
+      orderNotional,
+      view,
+      grouping,
+      groupingOptions,
       loading,
       error,
     },
+    handler: {
+      handleViewChange,
+      handleGroupingChange,
+      handleOrderNotionalChange,
+      handleRetry,
+    },
   };
 }
@@ -1,4 +1,8 @@
-import type { OrderBook } from "../../services/apiTypes";
+import type {
+  OrderBook,
+  OrderBookEntry,
+  PairInfo,
+} from "../../services/apiTypes";
 
 /**
  * Compute mid-price between best ask and best bid.
@@ -10,10 +14,67 @@ export function getMidPrice(data: OrderBook): number {
 }
 
 /**
- * Format a price value with appropriate decimal places.
+ * Number of decimals needed to print multiples of `step` exactly,
+ * e.g. 0.01 → 2, 0.25 → 2, 10 → 0.
  */
-export function formatPrice(price: number): string {
-  const decimals = price >= 100 ? 2 : price >= 1 ? 3 : 5;
+export function getStepDecimals(step: number): number {
+  let decimals = 0;
+  while (decimals < 12 && Number(step.toFixed(decimals)) !== step) decimals++;
+  return decimals;
+}
+
+/**
+ * Price grouping steps for a pair with the given tick size, finest first:
+ * the tick itself, then `count - 1` successive multiples of ten.
+ * e.g. 0.01 → [0.01, 0.1, 1, 10, 100]
+ */
+export function getGroupingSteps(tickSize: number, count: number): number[] {
+  // toPrecision drops float noise such as 0.1 * 10 ** 2 = 10.000000000000002
+  return Array.from({ length: count }, (_, i) =>
+    Number((tickSize * 10 ** i).toPrecision(12)),
+  );
+}
+
+/**
+ * Bucket order book levels into multiples of `step` and sum their amounts.
+ *
+ * Bids round down and asks round up, so a grouped level never advertises a
+ * better price than the orders inside it. Levels must be ordered best price
+ * first (as the API returns them); the result keeps that order.
+ */
+export function groupOrderBookLevels(
+  levels: readonly OrderBookEntry[],
+  step: number,
+  side: "ask" | "bid",
+): OrderBookEntry[] {
+  const decimals = getStepDecimals(step);
+  const round = side === "bid" ? Math.floor : Math.ceil;
+  // Tolerance so 0.3 / 0.1 = 2.9999999999999996 still lands on 3
+  const epsilon = side === "bid" ? 1e-9 : -1e-9;
+
+  const grouped: OrderBookEntry[] = [];
+  for (const [price, amount] of levels) {
+    const bucket = Number(
+      (round(price / step + epsilon) * step).toFixed(decimals),
+    );
+    const last = grouped[grouped.length - 1];
+    if (last && last[0] === bucket) {
+      last[1] += amount;
+    } else {
+      grouped.push([bucket, amount]);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Format a price with the precision the pair is quoted in, given its
+ * catalogue entry. Without one the decimals follow the magnitude of the
+ * price.
+ */
+export function formatPrice(price: number, pairInfo?: PairInfo): string {
+  const decimals =
+    pairInfo?.pricePrecision ?? (price >= 100 ? 2 : price >= 1 ? 3 : 5);
   return price.toLocaleString(undefined, {
     minimumFractionDigits: decimals,
     maximumFractionDigits: decimals,
@@ -34,3 +95,61 @@ export function formatTotal(price: number, amount: number): string {
     maximumFractionDigits: 2,
   });
 }
+
+/**
+ * Format a large quote-currency value compactly, e.g. 1_250_000 → "1.3M".
+ */
+export function formatNotional(value: number): string {
+  return value.toLocaleString(undefined, {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  });
+}
+
+/**
+ * One step of the cumulative depth staircase.
+ */
+export interface DepthLevel {
+  price: number;
+  size: number;
+  /** Size resting at this price and every better one. */
+  cumulativeSize: number;
+  /** Quote-currency value (price × size) of `cumulativeSize`. */
+  cumulativeNotional: number;
+}
+
+/**
+ * Accumulate size and notional over levels ordered from the best price
+ * outward — bids high → low, asks low → high, as the API returns them.
+ */
+export function getCumulativeDepth(
+  levels: readonly OrderBookEntry[],
+): DepthLevel[] {
+  let cumulativeSize = 0;
+  let cumulativeNotional = 0;
+  return levels.map(([price, size]) => {
+    cumulativeSize += size;
+    cumulativeNotional += price * size;
+    return { price, size, cumulativeSize, cumulativeNotional };
+  });
+}
+
+/**
+ * The depth step that covers `price` on one side of the book: the deepest
+ * level at or better than `price`, or null if `price` is better than the
+ * best level (i.e. inside the spread).
+ */
+export function findDepthLevel(
+  depth: readonly DepthLevel[],
+  price: number,
+  side: "ask" | "bid",
+): DepthLevel | null {
+  let match: DepthLevel | null = null;
+  for (const level of depth) {
+    const reached =
+      side === "bid" ? level.price >= price : level.price <= price;
+    if (!reached) break;
+    match = level;
+  }
+  return match;
+}
@@ -0,0 +1,290 @@
+import { useEffect, useId, useRef } from "react";
+import type { PairInfo, Ticker } from "../../services/apiTypes";
+import { formatPairLabel } from "../../common/utils/pairCatalogue";
+import { formatPrice } from "../orderbook/utils";
+import { PAIR_PICKER_TABS } from "./pairPickerTypes";
+import {
+  usePairPickerController,
+  type PairPickerProps,
+} from "./usePairPickerController";
+
+/**
+ * One result row: favorite star, pair name and a mini 24h price column.
+ */
+function PairRow({
+  id,
+  pair,
+  ticker,
+  active,
+  selected,
+  favorite,
+  onSelect,
+  onHover,
+  onToggleFavorite,
+}: {
+  id: string;
+  pair: PairInfo;
+  ticker: Ticker | undefined;
+  active: boolean;
+  selected: boolean;
+  favorite: boolean;
+  onSelect: () => void;
+  onHover: () => void;
+  onToggleFavorite: () => void;
+}) {
+  const rowRef = useRef<HTMLLIElement>(null);
+  const label = formatPairLabel(pair);
+
+  // Keep the keyboard-selected row in view while arrowing through the list
+  useEffect(() => {
+    if (active) rowRef.current?.scrollIntoView?.({ block: "nearest" });
+  }, [active]);
+  const changeColor = !ticker
+    ? "text-slate-500"
+    : ticker.changePercent > 0
+      ? "text-teal-400"
+      : ticker.changePercent < 0
+        ? "text-red-400"
+        : "text-slate-300";
+
+  return (
+    <li
+      ref={rowRef}
+      id={id}
+      role="option"
+      aria-selected={active}
+      onClick={onSelect}
+      onMouseMove={onHover}
+      className={`grid grid-cols-[auto_1fr_auto_4rem] items-center gap-3 px-3 py-1.5 cursor-pointer text-sm ${
+        active ? "bg-slate-800" : ""
+      }`}
+    >
+      <button
+        type="button"
+        tabIndex={-1}
+        aria-label={
+          favorite
+            ? `Remove ${label} from favorites`
+            : `Add ${label} to favorites`
+        }
+        aria-pressed={favorite}
+        onClick={(e) => {
+          // Starring a pair must not select it
+          e.stopPropagation();
+          onToggleFavorite();
+        }}
+        className={
+          favorite ? "text-amber-400" : "text-slate-600 hover:text-slate-400"
+        }
+      >
+        {favorite ? "★" : "☆"}
+      </button>
+      <span className="flex items-center gap-2 min-w-0">
+        <span
+          className={`truncate ${selected ? "text-teal-300" : "text-slate-100"}`}
+        >
+          {label}
+        </span>
+        {pair.status === "halted" && (
+          <span className="rounded bg-amber-500/15 px-1 text-[10px] uppercase tracking-wider text-amber-300">
+            Halted
+          </span>
+        )}
+      </span>
+      <span className="font-mono text-xs text-slate-300 text-right">
+        {ticker ? formatPrice(ticker.last, pair) : "—"}
+      </span>
+      <span className={`font-mono text-xs text-right ${changeColor}`}>
+        {ticker
+          ? `${ticker.changePercent > 0 ? "+" : ""}${ticker.changePercent.toFixed(2)}%`
+          : "—"}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * PairPicker
+ *
+ * Command-palette style replacement for the pair select. The trigger opens
+ * a dialog with fuzzy search, tabs per quote currency plus a favorites tab,
+ * and a mini last price / 24h change column per row. Arrow keys move
+ * through the results, Enter picks and Escape closes; Ctrl/Cmd + K opens
+ * it from anywhere. Favorites are starred per row and persist across
+ * sessions.
+ */
+export function PairPicker({
+  pairs,
+  value,
+  onChange,
+  liveTickers,
+}: PairPickerProps) {
+  const id = useId();
+  const listId = `${id}-list`;
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const {
+    state: {
+      open,
+      query,
+      tab,
+      searching,
+      results,
+      activeIndex,
+      favorites,
+      tickers,
+    },
+    handler: {
+      handleOpen,
+      handleClose,
+      handleSelect,
+      handleQueryChange,
+      handleTabChange,
+      handleActiveIndexChange,
+      handleToggleFavorite,
+      handleKeyDown,
+    },
+  } = usePairPickerController({
+    pairs,
+    value,
+    onChange,
+    liveTickers,
+  });
+
+  const current = pairs.find((p) => p.symbol === value);
+  const optionId = (index: number) => `${listId}-${index}`;
+  // Give focus back to the trigger once the dialog is gone
+  const closeAndRefocus = () => {
+    handleClose();
+    triggerRef.current?.focus();
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <label
+        htmlFor={id}
+        className="text-xs font-medium tracking-widest uppercase text-slate-500"
+      >
+        Pair
+      </label>
+      <button
+        ref={triggerRef}
+        id={id}
+        type="button"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        onClick={handleOpen}
+        className="
+          flex items-center justify-between gap-2 w-full
+          bg-slate-900 border border-slate-700
+          text-slate-100 text-sm font-medium
+          px-3 py-2 rounded-md
+          focus:outline-none focus:ring-1 focus:ring-teal-500 focus:border-teal-500
+          hover:border-slate-500
+          transition-colors duration-150
+        "
+      >
+        <span className="truncate">
+          {current ? formatPairLabel(current) : value}
+        </span>
+        <kbd className="text-[10px] text-slate-500 font-sans">Ctrl K</kbd>
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-30 flex items-start justify-center bg-slate-950/70 p-4 pt-[15vh]"
+          onClick={closeAndRefocus}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label="Select pair"
+            className="w-full max-w-md overflow-hidden rounded-lg border border-slate-700 bg-slate-900 shadow-xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <input
+              type="text"
+              role="combobox"
+              aria-label="Search pairs"
+              aria-expanded="true"
+              aria-controls={listId}
+              aria-activedescendant={
+                activeIndex !== -1 ? optionId(activeIndex) : undefined
+              }
+              autoFocus
+              autoComplete="off"
+              placeholder="Search pairs…"
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              onKeyDown={(e) => {
+                const closing = e.key === "Escape" || e.key === "Enter";
+                if (handleKeyDown(e.key)) {
+                  e.preventDefault();
+                  if (closing) triggerRef.current?.focus();
+                }
+              }}
+              className="w-full border-b border-slate-800 bg-transparent px-3 py-2.5 text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none"
+            />
+            <div
+              role="tablist"
+              aria-label="Quote currency"
+              className="flex gap-1 border-b border-slate-800 px-2 py-1.5"
+            >
+              {PAIR_PICKER_TABS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="tab"
+                  aria-selected={!searching && tab === option.value}
+                  onClick={() => handleTabChange(option.value)}
+                  className={`rounded px-2 py-0.5 text-xs font-medium transition-colors ${
+                    !searching && tab === option.value
+                      ? "bg-slate-700 text-slate-100"
+                      : "text-slate-400 hover:text-slate-200"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {results.length === 0 ? (
+              <p className="p-6 text-center text-xs text-slate-500">
+                {searching
+                  ? "No pairs match your search"
+                  : tab === "favorites"
+                    ? "Star a pair to add it to your favorites"
+                    : tab === "other"
+                      ? "No pairs quoted in other currencies"
+                      : "No pairs quoted in this currency"}
+              </p>
+            ) : (
+              <ul
+                id={listId}
+                role="listbox"
+                aria-label="Pairs"
+                className="max-h-80 overflow-y-auto py-1"
+              >
+                {results.map((pair, index) => (
+                  <PairRow
+                    key={pair.symbol}
+                    id={optionId(index)}
+                    pair={pair}
+                    ticker={tickers[pair.symbol]}
+                    active={index === activeIndex}
+                    selected={pair.symbol === value}
+                    favorite={favorites.includes(pair.symbol)}
+                    onSelect={() => {
+                      handleSelect(pair.symbol);
+                      triggerRef.current?.focus();
+                    }}
+                    onHover={() => handleActiveIndexChange(index)}
+                    onToggleFavorite={() => handleToggleFavorite(pair.symbol)}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
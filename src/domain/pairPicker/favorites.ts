@@ -0,0 +1,12 @@
+import type { CryptoPair } from "../../services/apiTypes";
+import { loadStringList, saveStringList } from "../../common/utils/storage";
+import { FAVORITES_STORAGE_KEY } from "./pairPickerTypes";
+
+/** Favorite pairs saved by a previous session, if any. */
+export function loadFavorites(): CryptoPair[] {
+  return loadStringList(FAVORITES_STORAGE_KEY) ?? [];
+}
+
+export function saveFavorites(favorites: readonly CryptoPair[]): void {
+  saveStringList(FAVORITES_STORAGE_KEY, favorites);
+}
@@ -0,0 +1,24 @@
+/** Quote currencies the picker groups pairs under, in tab order. */
+export const QUOTE_TABS = ["USDT", "BTC", "ETH"] as const;
+
+export type QuoteTab = (typeof QUOTE_TABS)[number];
+
+/**
+ * A picker tab: the favorites list, the pairs quoted in one currency, or
+ * "other" for the pairs whose quote currency has no tab of its own.
+ */
+export type PairPickerTab = "favorites" | QuoteTab | "other";
+
+export interface PairPickerTabOption {
+  value: PairPickerTab;
+  label: string;
+}
+
+export const PAIR_PICKER_TABS: PairPickerTabOption[] = [
+  { value: "favorites", label: "★ Favorites" },
+  ...QUOTE_TABS.map((quote) => ({ value: quote, label: quote })),
+  { value: "other", label: "Other" },
+];
+
+/** localStorage key the favorite pairs are persisted under. */
+export const FAVORITES_STORAGE_KEY = "cryptoDashboard.favoritePairs";
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import type {
+  Candle,
+  CryptoPair,
+  PairInfo,
+  Ticker,
+} from "../../services/apiTypes";
+import { fetchCandles } from "../../services/cryptoApiService";
+import { fuzzyFilter } from "../../common/utils/fuzzySearch";
+import { computeTicker } from "../../common/utils/ticker";
+import { loadFavorites, saveFavorites } from "./favorites";
+import {
+  QUOTE_TABS,
+  type PairPickerTab,
+  type QuoteTab,
+} from "./pairPickerTypes";
+
+export interface PairPickerProps {
+  /** The pair catalogue to choose from. */
+  pairs: PairInfo[];
+  value: CryptoPair;
+  onChange: (pair: CryptoPair) => void;
+  /**
+   * Tickers pushed by the stream, e.g. for the selected and watched pairs.
+   * They take precedence over the ones derived from hourly candles.
+   */
+  liveTickers?: Partial<Record<CryptoPair, Ticker>>;
+}
+
+/** The tab a quote currency is listed under: its own, or "other". */
+const getQuoteTab = (quote: string | undefined): QuoteTab | "other" =>
+  QUOTE_TABS.find((tab) => tab === quote) ?? "other";
+
+/** Searchable text of a pair: "BTC-USDT" is found by "btcusdt", "btc"... */
+const getSearchText = (pair: PairInfo) => `${pair.base}${pair.quote}`;
+
+export function usePairPickerController({
+  pairs,
+  value,
+  onChange,
+  liveTickers = {},
+}: PairPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  // null until the user picks a tab: the current pair's quote tab
+  const [selectedTab, setSelectedTab] = useState<PairPickerTab | null>(null);
+  // null until the user moves: the current pair's row
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [favorites, setFavorites] = useState<CryptoPair[]>(loadFavorites);
+  const [candleTickers, setCandleTickers] = useState<
+    Partial<Record<CryptoPair, Ticker>>
+  >({});
+
+  // Ctrl/Cmd + K opens the picker from anywhere, as in a command palette
+  useEffect(() => {
+    const handleShortcut = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener("keydown", handleShortcut);
+    return () => window.removeEventListener("keydown", handleShortcut);
+  }, []);
+
+  // Derive the price column from each pair's hourly candles when the
+  // picker opens — the same 24h history the watchlist uses, served from
+  // the candle cache after the first load
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const store = (pair: CryptoPair, candles: Candle[]) => {
+      if (cancelled) return;
+      const ticker = computeTicker(pair, candles);
+      if (ticker)
+        setCandleTickers((current) => ({ ...current, [pair]: ticker }));
+    };
+    for (const { symbol } of pairs) {
+      fetchCandles(symbol, "1H", {
+        onRevalidate: (fresh) => store(symbol, fresh),
+      })
+        .then((candles) => store(symbol, candles))
+        .catch((error: unknown) => {
+          // The row simply shows "—"
+          console.warn(
+            `[pairPicker] failed to load candles for ${symbol}:`,
+            error,
+          );
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [open, pairs]);
+
+  const tickers = { ...candleTickers, ...liveTickers };
+
+  const tab =
+    selectedTab ?? getQuoteTab(pairs.find((p) => p.symbol === value)?.quote);
+  const searching = query.trim() !== "";
+  // A search spans every pair; the tabs only narrow the list when browsing
+  const results = searching
+    ? fuzzyFilter(pairs, query.replace(/[\s/-]/g, ""), getSearchText)
+    : tab === "favorites"
+      ? pairs.filter((p) => favorites.includes(p.symbol))
+      : pairs.filter((p) => getQuoteTab(p.quote) === tab);
+  const activeIndex =
+    results.length === 0
+      ? -1
+      : Math.min(
+          selectedIndex ??
+            Math.max(
+              0,
+              results.findIndex((p) => p.symbol === value),
+            ),
+          results.length - 1,
+        );
+
+  const reset = () => {
+    setQuery("");
+    setSelectedTab(null);
+    setSelectedIndex(null);
+  };
+
+  const handleOpen = () => {
+    setOpen(true);
+  };
+  const handleClose = () => {
+    setOpen(false);
+    reset();
+  };
+  const handleSelect = (pair: CryptoPair) => {
+    onChange(pair);
+    handleClose();
+  };
+  const handleQueryChange = (next: string) => {
+    setQuery(next);
+    setSelectedIndex(0);
+  };
+  const handleTabChange = (next: PairPickerTab) => {
+    setSelectedTab(next);
+    setQuery("");
+    setSelectedIndex(null);
+  };
+  const handleActiveIndexChange = (index: number) => {
+    setSelectedIndex(index);
+  };
+  const handleToggleFavorite = (pair: CryptoPair) => {
+    const next = favorites.includes(pair)
+      ? favorites.filter((p) => p !== pair)
+      : [...favorites, pair];
+    saveFavorites(next);
+    setFavorites(next);
+  };
+  /**
+   * Keyboard navigation for the search box. Returns true when the key was
+   * handled, so the caller can prevent its default action.
+   */
+  const handleKeyDown = (key: string): boolean => {
+    const count = results.length;
+    switch (key) {
+      case "ArrowDown":
+        if (count > 0) setSelectedIndex((activeIndex + 1) % count);
+        return true;
+      case "ArrowUp":
+        if (count > 0) setSelectedIndex((activeIndex - 1 + count) % count);
+        return true;
+      case "Enter":
+        if (activeIndex !== -1) handleSelect(results[activeIndex].symbol);
+        return true;
+      case "Escape":
+        handleClose();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  return {
+    state: {
+      open,
+      query,
+      tab,
+      searching,
+      results,
+      activeIndex,
+      favorites,
+      tickers,
+    },
+    handler: {
+      handleOpen,
+      handleClose,
+      handleSelect,
+      handleQueryChange,
+      handleTabChange,
+      handleActiveIndexChange,
+      handleToggleFavorite,
+      handleKeyDown,
+    },
+  };
+}
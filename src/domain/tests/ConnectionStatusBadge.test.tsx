@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import {
+  ConnectionStatusBadge,
+  type ConnectionStatusBadgeProps,
+} from "../dashboard/ConnectionStatusBadge";
+
+const NOW = 1_700_000_000_000;
+
+function renderBadge(overrides: Partial<ConnectionStatusBadgeProps> = {}) {
+  return render(
+    <ConnectionStatusBadge
+      status="open"
+      lastMessageAt={null}
+      messagesPerMinute={0}
+      reconnectAttempt={0}
+      nextRetryAt={null}
+      diagnostics={[]}
+      {...overrides}
+    />,
+  );
+}
+
+describe("ConnectionStatusBadge", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ["open", "Live"],
+    ["connecting", "Connecting"],
+    ["reconnecting", "Reconnecting"],
+    ["closed", "Offline"],
+    ["error", "Error"],
+  ] as const)("labels the %s state as %s", (status, label) => {
+    renderBadge({ status });
+    expect(
+      screen.getByRole("button", { name: `Connection status: ${label}` }),
+    ).toBeInTheDocument();
+  });
+
+  it("links the tooltip to the badge for assistive technology", () => {
+    renderBadge();
+    const tooltip = screen.getByRole("tooltip", { hidden: true });
+    expect(screen.getByRole("button")).toHaveAttribute(
+      "aria-describedby",
+      tooltip.id,
+    );
+  });
+
+  it("shows the age of the last message and the message rate", () => {
+    renderBadge({ lastMessageAt: NOW - 12_000, messagesPerMinute: 6 });
+    expect(screen.getByText("12s ago")).toBeInTheDocument();
+    expect(screen.getByText("6 msg/min")).toBeInTheDocument();
+  });
+
+  it("shows 'never' before the first message arrives", () => {
+    renderBadge();
+    expect(screen.getByText("never")).toBeInTheDocument();
+  });
+
+  it("shows the reconnect attempt and countdown while reconnecting", () => {
+    renderBadge({
+      status: "reconnecting",
+      reconnectAttempt: 3,
+      nextRetryAt: NOW + 4_000,
+    });
+    expect(screen.getByText("3")).toBeInTheDocument();
+    expect(screen.getByText("in 4s")).toBeInTheDocument();
+  });
+
+  it("hides reconnect details while connected", () => {
+    renderBadge();
+    expect(screen.queryByText("Attempt")).toBeNull();
+    expect(screen.queryByText("Next retry")).toBeNull();
+  });
+
+  it("counts invalid payloads and describes the latest one", () => {
+    renderBadge({
+      diagnostics: [
+        { source: "WebSocket", error: new Error("a"), at: NOW },
+        {
+          source: "GET /api/trades/BTC-USDT",
+          error: new Error("trades[2].price: expected a positive number"),
+          at: NOW,
+        },
+      ],
+    });
+    expect(screen.getByText("Invalid payloads")).toBeInTheDocument();
+    expect(screen.getByText("2")).toHaveAttribute(
+      "title",
+      "GET /api/trades/BTC-USDT: trades[2].price: expected a positive number",
+    );
+  });
+
+  it("hides the invalid payload count when there are none", () => {
+    renderBadge();
+    expect(screen.queryByText("Invalid payloads")).toBeNull();
+  });
+});
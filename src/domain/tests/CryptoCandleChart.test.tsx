@@ -1,7 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen } from "@testing-library/react";
+import { fireEvent, render, screen } from "@testing-library/react";
 import { CryptoCandleChart } from "../cryptoCandleChart/CryptoCandleChart";
 import { createElement, createRef } from "react";
+import type { IndicatorPresetId } from "../cryptoCandleChart/indicatorPresets";
+import type {
+  ChartCrosshairMode,
+  ChartScaleMode,
+} from "../../common/hooks/chartTypes";
 
 // ---------------------------------------------------------------------------
 // Mock the controller — CryptoCandleChart delegates all logic to it
@@ -16,9 +21,23 @@ const mockController = vi.mocked(useCryptoCandleChartController);
 // ---------------------------------------------------------------------------
 // Helper: build a default controller return value
 // ---------------------------------------------------------------------------
+const toggleIndicator = vi.fn();
+const retry = vi.fn();
+const fitContent = vi.fn();
+const resetZoom = vi.fn();
+const setScaleMode = vi.fn();
+const toggleCrosshairMode = vi.fn();
+const toggleVolume = vi.fn();
+const saveScreenshot = vi.fn();
+
 function makeControllerState(overrides: {
   isLoading?: boolean;
   errorMessage?: string | null;
+  activeIndicators?: IndicatorPresetId[];
+  scaleMode?: ChartScaleMode;
+  crosshairMode?: ChartCrosshairMode;
+  showVolume?: boolean;
+  resolutionNotice?: string | null;
 }) {
   const containerRef = createRef<HTMLDivElement>();
   return {
@@ -26,6 +45,21 @@ function makeControllerState(overrides: {
       containerRef,
       isLoading: overrides.isLoading ?? false,
       errorMessage: overrides.errorMessage ?? null,
+      activeIndicators: overrides.activeIndicators ?? [],
+      scaleMode: overrides.scaleMode ?? "linear",
+      crosshairMode: overrides.crosshairMode ?? "normal",
+      showVolume: overrides.showVolume ?? true,
+      resolutionNotice: overrides.resolutionNotice ?? null,
+    },
+    handler: {
+      toggleIndicator,
+      retry,
+      fitContent,
+      resetZoom,
+      setScaleMode,
+      toggleCrosshairMode,
+      toggleVolume,
+      saveScreenshot,
     },
   };
 }
@@ -48,6 +82,7 @@ describe("CryptoCandleChart", () => {
       render(
         createElement(CryptoCandleChart, {
           pair: "BTC-USDT",
+          timeframe: "1H",
           updatedCandle: null,
         }),
       );
@@ -57,12 +92,29 @@ describe("CryptoCandleChart", () => {
       ).toBeInTheDocument();
     });
 
+    it("includes the timeframe in the aria-label", () => {
+      mockController.mockReturnValue(makeControllerState({}));
+
+      render(
+        createElement(CryptoCandleChart, {
+          pair: "BTC-USDT",
+          timeframe: "1D",
+          updatedCandle: null,
+        }),
+      );
+
+      expect(
+        screen.getByRole("img", { name: /BTC-USDT \(1D\)/i }),
+      ).toBeInTheDocument();
+    });
+
     it("includes the pair name in the aria-label", () => {
       mockController.mockReturnValue(makeControllerState({}));
 
       render(
         createElement(CryptoCandleChart, {
           pair: "ETH-USDT",
+          timeframe: "1H",
           updatedCandle: null,
         }),
       );
@@ -83,6 +135,7 @@ describe("CryptoCandleChart", () => {
       const { container } = render(
         createElement(CryptoCandleChart, {
           pair: "BTC-USDT",
+          timeframe: "1H",
           updatedCandle: null,
         }),
       );
@@ -97,6 +150,7 @@ describe("CryptoCandleChart", () => {
       const { container } = render(
         createElement(CryptoCandleChart, {
           pair: "BTC-USDT",
+          timeframe: "1H",
           updatedCandle: null,
         }),
       );
@@ -117,6 +171,7 @@ describe("CryptoCandleChart", () => {
       render(
         createElement(CryptoCandleChart, {
           pair: "BTC-USDT",
+          timeframe: "1H",
           updatedCandle: null,
         }),
       );
@@ -124,6 +179,23 @@ describe("CryptoCandleChart", () => {
       expect(screen.getByText("Failed to fetch candles")).toBeInTheDocument();
     });
 
+    it("re-runs the fetch when Retry is clicked", () => {
+      mockController.mockReturnValue(
+        makeControllerState({ errorMessage: "Failed to fetch candles" }),
+      );
+
+      render(
+        createElement(CryptoCandleChart, {
+          pair: "BTC-USDT",
+          timeframe: "1H",
+          updatedCandle: null,
+        }),
+      );
+      fireEvent.click(screen.getByRole("button", { name: "Retry" }));
+
+      expect(retry).toHaveBeenCalledOnce();
+    });
+
     it("does not display an error message when errorMessage is null", () => {
       mockController.mockReturnValue(
         makeControllerState({ errorMessage: null }),
@@ -132,6 +204,7 @@ describe("CryptoCandleChart", () => {
       render(
         createElement(CryptoCandleChart, {
           pair: "BTC-USDT",
+          timeframe: "1H",
           updatedCandle: null,
         }),
       );
@@ -140,11 +213,167 @@ describe("CryptoCandleChart", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Resolution notice
+  // -------------------------------------------------------------------------
+  describe("resolution notice", () => {
+    it("shows the notice when the candles are coarser than the timeframe", () => {
+      mockController.mockReturnValue(
+        makeControllerState({
+          resolutionNotice: "Showing 1H candles — the server has no 5m data",
+        }),
+      );
+
+      render(
+        createElement(CryptoCandleChart, {
+          pair: "BTC-USDT",
+          timeframe: "5m",
+          updatedCandle: null,
+        }),
+      );
+
+      expect(screen.getByRole("status")).toHaveTextContent(
+        "Showing 1H candles — the server has no 5m data",
+      );
+    });
+
+    it("shows no notice otherwise", () => {
+      mockController.mockReturnValue(makeControllerState({}));
+
+      render(
+        createElement(CryptoCandleChart, {
+          pair: "BTC-USDT",
+          timeframe: "1H",
+          updatedCandle: null,
+        }),
+      );
+
+      expect(screen.queryByRole("status")).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Indicators
+  // -------------------------------------------------------------------------
+  describe("indicator toggles", () => {
+    const renderChart = () =>
+      render(
+        createElement(CryptoCandleChart, {
+          pair: "BTC-USDT",
+          timeframe: "1H",
+          updatedCandle: null,
+        }),
+      );
+
+    it("renders a toggle per indicator preset", () => {
+      mockController.mockReturnValue(makeControllerState({}));
+      renderChart();
+
+      const group = screen.getByRole("group", { name: "Indicators" });
+      expect(group.querySelectorAll("button")).toHaveLength(7);
+      expect(screen.getByRole("button", { name: "VWAP" })).toHaveAttribute(
+        "aria-pressed",
+        "false",
+      );
+    });
+
+    it("marks active indicators as pressed", () => {
+      mockController.mockReturnValue(
+        makeControllerState({ activeIndicators: ["sma20"] }),
+      );
+      renderChart();
+
+      expect(screen.getByRole("button", { name: "SMA 20" })).toHaveAttribute(
+        "aria-pressed",
+        "true",
+      );
+    });
+
+    it("calls toggleIndicator with the preset id on click", () => {
+      mockController.mockReturnValue(makeControllerState({}));
+      renderChart();
+
+      fireEvent.click(screen.getByRole("button", { name: "BB 20" }));
+
+      expect(toggleIndicator).toHaveBeenCalledWith("bb20");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Chart toolbar
+  // -------------------------------------------------------------------------
+  describe("chart toolbar", () => {
+    const renderChart = () =>
+      render(
+        createElement(CryptoCandleChart, {
+          pair: "BTC-USDT",
+          timeframe: "1H",
+          updatedCandle: null,
+        }),
+      );
+
+    it.each([
+      ["Fit", fitContent],
+      ["Reset", resetZoom],
+      ["Magnet", toggleCrosshairMode],
+      ["Volume", toggleVolume],
+      ["PNG", saveScreenshot],
+    ])("calls the handler of the %s button", (name, handler) => {
+      mockController.mockReturnValue(makeControllerState({}));
+      renderChart();
+
+      fireEvent.click(screen.getByRole("button", { name }));
+
+      expect(handler).toHaveBeenCalledOnce();
+    });
+
+    it("marks the current price scale as pressed", () => {
+      mockController.mockReturnValue(
+        makeControllerState({ scaleMode: "logarithmic" }),
+      );
+      renderChart();
+
+      expect(
+        screen.getByRole("button", { name: "Logarithmic price scale" }),
+      ).toHaveAttribute("aria-pressed", "true");
+      expect(
+        screen.getByRole("button", { name: "Linear price scale" }),
+      ).toHaveAttribute("aria-pressed", "false");
+    });
+
+    it("switches the price scale on click", () => {
+      mockController.mockReturnValue(makeControllerState({}));
+      renderChart();
+
+      fireEvent.click(
+        screen.getByRole("button", { name: "Percentage price scale" }),
+      );
+
+      expect(setScaleMode).toHaveBeenCalledWith("percentage");
+    });
+
+    it("reflects the crosshair and volume settings", () => {
+      mockController.mockReturnValue(
+        makeControllerState({ crosshairMode: "magnet", showVolume: false }),
+      );
+      renderChart();
+
+      expect(screen.getByRole("button", { name: "Magnet" })).toHaveAttribute(
+        "aria-pressed",
+        "true",
+      );
+      expect(screen.getByRole("button", { name: "Volume" })).toHaveAttribute(
+        "aria-pressed",
+        "false",
+      );
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Controller integration
   // -------------------------------------------------------------------------
   describe("controller integration", () => {
-    it("passes pair and updatedCandle to the controller", () => {
+    it("passes pair, timeframe and updatedCandle to the controller", () => {
       const candle = {
         time: 1_680_000_000_000,
         open: 100,
@@ -158,12 +387,17 @@ describe("CryptoCandleChart", () => {
       render(
         createElement(CryptoCandleChart, {
           pair: "XRP-USDT",
+          timeframe: "4H",
           updatedCandle: candle,
         }),
       );
 
       expect(mockController).toHaveBeenCalledWith(
-        expect.objectContaining({ pair: "XRP-USDT", updatedCandle: candle }),
+        expect.objectContaining({
+          pair: "XRP-USDT",
+          timeframe: "4H",
+          updatedCandle: candle,
+        }),
       );
     });
   });
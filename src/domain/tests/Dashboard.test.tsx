@@ -9,12 +9,41 @@ vi.mock("../../common/hooks/useCryptoWebSocket", () => ({
   useCryptoWebSocket: vi.fn(() => ({ updatedCandle: null, orderBook: null })),
 }));
 
+vi.mock("../../common/hooks/useTicker", () => ({
+  useTicker: vi.fn(() => ({ ticker: null, direction: null, flashKey: 0 })),
+}));
+
+vi.mock("../../common/hooks/usePairs", async () => {
+  const { DEFAULT_PAIRS } = await import("../../common/utils/pairCatalogue");
+  return {
+    usePairs: vi.fn(() => ({
+      pairs: DEFAULT_PAIRS,
+      loading: false,
+      error: null,
+    })),
+  };
+});
+
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchCandles: vi.fn(() => new Promise(() => {})),
+}));
+
 vi.mock("../cryptoCandleChart/CryptoCandleChart", () => ({
-  CryptoCandleChart: vi.fn(({ pair }: { pair: string }) => (
-    <div data-testid="candle-chart" data-pair={pair} />
-  )),
-  default: vi.fn(({ pair }: { pair: string }) => (
-    <div data-testid="candle-chart" data-pair={pair} />
+  CryptoCandleChart: vi.fn(
+    ({ pair, timeframe }: { pair: string; timeframe: string }) => (
+      <div
+        data-testid="candle-chart"
+        data-pair={pair}
+        data-timeframe={timeframe}
+      />
+    ),
+  ),
+  default: vi.fn(({ pair, timeframe }: { pair: string; timeframe: string }) => (
+    <div
+      data-testid="candle-chart"
+      data-pair={pair}
+      data-timeframe={timeframe}
+    />
   )),
 }));
 
@@ -24,6 +53,28 @@ vi.mock("../orderbook/Orderbook", () => ({
   )),
 }));
 
+vi.mock("../watchlist/Watchlist", () => ({
+  Watchlist: vi.fn(
+    ({
+      watchlist,
+      onSelect,
+    }: {
+      watchlist: string[];
+      onSelect: (pair: string) => void;
+    }) => (
+      <div data-testid="watchlist" data-pairs={watchlist.join(",")}>
+        <button onClick={() => onSelect("ETH-USDT")}>Watch ETH</button>
+      </div>
+    ),
+  ),
+}));
+
+vi.mock("../trades/TradeTape", () => ({
+  TradeTape: vi.fn(({ pair }: { pair: string }) => (
+    <div data-testid="trade-tape" data-pair={pair} />
+  )),
+}));
+
 import { useCryptoWebSocket } from "../../common/hooks/useCryptoWebSocket";
 const mockUseCryptoWebSocket = vi.mocked(useCryptoWebSocket);
 
@@ -33,9 +84,19 @@ const mockUseCryptoWebSocket = vi.mocked(useCryptoWebSocket);
 describe("Dashboard", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
     mockUseCryptoWebSocket.mockReturnValue({
       updatedCandle: null,
       orderBook: null,
+      trades: [],
+      ticker: null,
+      watchedCandles: {},
+      watchedTickers: {},
+      status: "open",
+      lastMessageAt: null,
+      messagesPerMinute: 0,
+      reconnectAttempt: 0,
+      nextRetryAt: null,
     });
   });
 
@@ -56,10 +117,47 @@ describe("Dashboard", () => {
       expect(screen.getByLabelText(/pair/i)).toBeInTheDocument();
     });
 
+    it("renders the Timeframe selector", () => {
+      render(<Dashboard />);
+      expect(screen.getByLabelText(/timeframe/i)).toBeInTheDocument();
+    });
+
     it("renders the Stream selector", () => {
       render(<Dashboard />);
       expect(screen.getByLabelText(/stream/i)).toBeInTheDocument();
     });
+
+    it("renders the connection status badge from the WebSocket state", () => {
+      render(<Dashboard />);
+      const header = screen.getByRole("banner");
+      expect(
+        within(header).getByRole("button", {
+          name: /connection status: live/i,
+        }),
+      ).toBeInTheDocument();
+    });
+
+    it("reflects a reconnecting socket in the status badge", () => {
+      mockUseCryptoWebSocket.mockReturnValue({
+        updatedCandle: null,
+        orderBook: null,
+        trades: [],
+        ticker: null,
+        watchedCandles: {},
+        watchedTickers: {},
+        status: "reconnecting",
+        lastMessageAt: null,
+        messagesPerMinute: 0,
+        reconnectAttempt: 2,
+        nextRetryAt: Date.now() + 4_000,
+      });
+      render(<Dashboard />);
+      expect(
+        screen.getByRole("button", {
+          name: /connection status: reconnecting/i,
+        }),
+      ).toBeInTheDocument();
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -85,7 +183,11 @@ describe("Dashboard", () => {
 
     it("passes BTC-USDT to useCryptoWebSocket", () => {
       render(<Dashboard />);
-      expect(mockUseCryptoWebSocket).toHaveBeenCalledWith("BTC-USDT");
+      expect(mockUseCryptoWebSocket).toHaveBeenCalledWith(
+        "BTC-USDT",
+        "all",
+        expect.anything(),
+      );
     });
   });
 
@@ -117,6 +219,34 @@ describe("Dashboard", () => {
       expect(screen.queryByTestId("order-book")).toBeNull();
     });
 
+    it("passes the selected stream mode to useCryptoWebSocket", () => {
+      render(<Dashboard />);
+      const streamSelect = screen.getByLabelText(/stream/i);
+
+      act(() => {
+        fireEvent.change(streamSelect, { target: { value: "candles" } });
+      });
+
+      expect(mockUseCryptoWebSocket).toHaveBeenLastCalledWith(
+        "BTC-USDT",
+        "candles",
+        expect.anything(),
+      );
+    });
+
+    it("shows only the trade tape in 'trades' mode", () => {
+      render(<Dashboard />);
+      const streamSelect = screen.getByLabelText(/stream/i);
+
+      act(() => {
+        fireEvent.change(streamSelect, { target: { value: "trades" } });
+      });
+
+      expect(screen.getByTestId("trade-tape")).toBeInTheDocument();
+      expect(screen.queryByTestId("candle-chart")).toBeNull();
+      expect(screen.queryByTestId("order-book")).toBeNull();
+    });
+
     it("shows both panels when switching back to 'all'", () => {
       render(<Dashboard />);
       const streamSelect = screen.getByLabelText(/stream/i);
@@ -135,13 +265,14 @@ describe("Dashboard", () => {
   // Pair selection
   // -------------------------------------------------------------------------
   describe("pair selection", () => {
+    const pickPair = (name: RegExp) => {
+      fireEvent.click(screen.getByLabelText("Pair"));
+      fireEvent.click(screen.getByRole("option", { name }));
+    };
+
     it("updates the heading when the pair is changed", () => {
       render(<Dashboard />);
-      const pairSelect = screen.getByLabelText(/pair/i);
-
-      act(() => {
-        fireEvent.change(pairSelect, { target: { value: "ETH-USDT" } });
-      });
+      pickPair(/ETH \/ USDT/);
 
       expect(
         screen.getByRole("heading", { name: /ETH-USDT/i }),
@@ -150,13 +281,77 @@ describe("Dashboard", () => {
 
     it("passes the new pair to useCryptoWebSocket after a change", () => {
       render(<Dashboard />);
-      const pairSelect = screen.getByLabelText(/pair/i);
+      pickPair(/XRP \/ USDT/);
+
+      expect(mockUseCryptoWebSocket).toHaveBeenLastCalledWith(
+        "XRP-USDT",
+        "all",
+        expect.anything(),
+      );
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Watchlist
+  // -------------------------------------------------------------------------
+  describe("watchlist", () => {
+    it("follows the watched pairs on the shared socket", () => {
+      render(<Dashboard />);
+      expect(screen.getByTestId("watchlist")).toHaveAttribute(
+        "data-pairs",
+        "BTC-USDT,ETH-USDT,XRP-USDT",
+      );
+      expect(mockUseCryptoWebSocket).toHaveBeenLastCalledWith(
+        "BTC-USDT",
+        "all",
+        expect.objectContaining({
+          watchlist: ["BTC-USDT", "ETH-USDT", "XRP-USDT"],
+        }),
+      );
+    });
+
+    it("hands the pair catalogue to the socket", () => {
+      render(<Dashboard />);
+      expect(mockUseCryptoWebSocket).toHaveBeenLastCalledWith(
+        "BTC-USDT",
+        "all",
+        expect.objectContaining({ pairs: expect.any(Array) }),
+      );
+    });
+
+    it("selects a pair clicked in the watchlist", () => {
+      render(<Dashboard />);
+      fireEvent.click(screen.getByRole("button", { name: "Watch ETH" }));
+      expect(
+        screen.getByRole("heading", { name: /ETH-USDT/i }),
+      ).toBeInTheDocument();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Timeframe selection
+  // -------------------------------------------------------------------------
+  describe("timeframe selection", () => {
+    it("passes 1H to the chart by default", () => {
+      render(<Dashboard />);
+      expect(screen.getByTestId("candle-chart")).toHaveAttribute(
+        "data-timeframe",
+        "1H",
+      );
+    });
+
+    it("passes the selected timeframe to the chart", () => {
+      render(<Dashboard />);
+      const timeframeSelect = screen.getByLabelText(/timeframe/i);
 
       act(() => {
-        fireEvent.change(pairSelect, { target: { value: "XRP-USDT" } });
+        fireEvent.change(timeframeSelect, { target: { value: "1D" } });
       });
 
-      expect(mockUseCryptoWebSocket).toHaveBeenLastCalledWith("XRP-USDT");
+      expect(screen.getByTestId("candle-chart")).toHaveAttribute(
+        "data-timeframe",
+        "1D",
+      );
     });
   });
 
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { createElement } from "react";
+import { DEFAULT_PAIRS } from "../../common/utils/pairCatalogue";
+import { DepthChart } from "../orderbook/DepthChart";
+import { getCumulativeDepth } from "../orderbook/utils";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const bids = getCumulativeDepth([
+  [99, 1],
+  [98, 2],
+]);
+const asks = getCumulativeDepth([
+  [101, 1],
+  [102, 3],
+]);
+
+/**
+ * jsdom does no layout — give the SVG a 400px wide box starting at x = 0
+ * so pointer positions map onto prices (98 … 102 across the width).
+ */
+function stubSvgBox(svg: Element) {
+  svg.getBoundingClientRect = () =>
+    ({ left: 0, top: 0, width: 400, height: 200 }) as DOMRect;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("DepthChart", () => {
+  it("renders a staircase per side", () => {
+    const { container } = render(
+      createElement(DepthChart, {
+        pairInfo: DEFAULT_PAIRS[0],
+        bids,
+        asks,
+        midPrice: 100,
+      }),
+    );
+
+    expect(
+      screen.getByRole("img", { name: "Cumulative order book depth" }),
+    ).toBeInTheDocument();
+    expect(
+      container.querySelector('path[data-side="bid"]')?.getAttribute("d"),
+    ).toMatch(/^M .* Z$/);
+    expect(
+      container.querySelector('path[data-side="ask"]')?.getAttribute("d"),
+    ).toMatch(/^M .* Z$/);
+  });
+
+  it("shows an empty state without levels", () => {
+    render(
+      createElement(DepthChart, {
+        pairInfo: DEFAULT_PAIRS[0],
+        bids: [],
+        asks: [],
+        midPrice: null,
+      }),
+    );
+    expect(screen.getByText("No depth data")).toBeInTheDocument();
+  });
+
+  it("reads out cumulative bid depth under the pointer", () => {
+    render(
+      createElement(DepthChart, {
+        pairInfo: DEFAULT_PAIRS[0],
+        bids,
+        asks,
+        midPrice: 100,
+      }),
+    );
+    const svg = screen.getByRole("img");
+    stubSvgBox(svg);
+
+    // x = 50 → price 98.5 → covered by the 99 bid only
+    fireEvent.pointerMove(svg, { clientX: 50 });
+
+    const readout = screen.getByTestId("depth-readout");
+    expect(readout).toHaveTextContent("99.00");
+    expect(readout).toHaveTextContent("1.00");
+  });
+
+  it("reads out cumulative ask size and notional", () => {
+    render(
+      createElement(DepthChart, {
+        pairInfo: DEFAULT_PAIRS[0],
+        bids,
+        asks,
+        midPrice: 100,
+      }),
+    );
+    const svg = screen.getByRole("img");
+    stubSvgBox(svg);
+
+    // x = 400 → price 102 → both ask levels: size 4, notional 101 + 306
+    fireEvent.pointerMove(svg, { clientX: 400 });
+
+    const readout = screen.getByTestId("depth-readout");
+    expect(readout).toHaveTextContent("4.00");
+    expect(readout).toHaveTextContent("407.00");
+  });
+
+  it("keeps the readout current as the book updates", () => {
+    const { rerender } = render(
+      createElement(DepthChart, {
+        pairInfo: DEFAULT_PAIRS[0],
+        bids,
+        asks,
+        midPrice: 100,
+      }),
+    );
+    const svg = screen.getByRole("img");
+    stubSvgBox(svg);
+    fireEvent.pointerMove(svg, { clientX: 50 });
+
+    const deeperBids = getCumulativeDepth([
+      [99, 5],
+      [98, 2],
+    ]);
+    rerender(
+      createElement(DepthChart, {
+        pairInfo: DEFAULT_PAIRS[0],
+        bids: deeperBids,
+        asks,
+        midPrice: 100,
+      }),
+    );
+
+    expect(screen.getByTestId("depth-readout")).toHaveTextContent("5.00");
+  });
+
+  it("clears the readout when the pointer leaves", () => {
+    render(
+      createElement(DepthChart, {
+        pairInfo: DEFAULT_PAIRS[0],
+        bids,
+        asks,
+        midPrice: 100,
+      }),
+    );
+    const svg = screen.getByRole("img");
+    stubSvgBox(svg);
+
+    fireEvent.pointerMove(svg, { clientX: 50 });
+    fireEvent.pointerLeave(svg);
+
+    expect(screen.getByTestId("depth-readout")).toHaveTextContent(
+      "Hover the chart for depth",
+    );
+  });
+});
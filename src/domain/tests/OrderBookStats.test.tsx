@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { createElement } from "react";
+import { DEFAULT_PAIRS } from "../../common/utils/pairCatalogue";
+import type { OrderBookAnalytics } from "../orderbook/analytics";
+import { OrderBookStats } from "../orderbook/OrderBookStats";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const analytics: OrderBookAnalytics = {
+  spread: { absolute: 2, bps: 200 },
+  microprice: 100.5,
+  weightedMid: 100.25,
+  imbalance: -0.25,
+  bandNotional: { bid: 1_500, ask: 2_000_000 },
+  buySlippage: {
+    averagePrice: 101.5,
+    worstPrice: 102,
+    slippageBps: 4.95,
+    complete: true,
+  },
+  sellSlippage: {
+    averagePrice: 95,
+    worstPrice: 90,
+    slippageBps: 404,
+    complete: false,
+  },
+};
+
+function renderStats(onOrderNotionalChange = vi.fn()) {
+  render(
+    createElement(OrderBookStats, {
+      pairInfo: DEFAULT_PAIRS[0],
+      analytics,
+      orderNotional: 100_000,
+      onOrderNotionalChange,
+    }),
+  );
+  return { onOrderNotionalChange };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("OrderBookStats", () => {
+  it("shows each metric", () => {
+    renderStats();
+    const strip = screen.getByLabelText("Order book analytics");
+
+    expect(strip).toHaveTextContent("2.00 · 200.00 bps");
+    expect(strip).toHaveTextContent("100.50");
+    expect(strip).toHaveTextContent("100.25");
+    expect(strip).toHaveTextContent("-25.0%");
+    expect(strip).toHaveTextContent("1.5K / 2M");
+  });
+
+  it("marks a slippage estimate the visible book could not fill", () => {
+    renderStats();
+    expect(screen.getByTitle("Market buy")).toHaveTextContent("B 4.95 bps");
+    expect(screen.getByTitle("Market sell")).toHaveTextContent("S >404.00 bps");
+  });
+
+  it("reports a new slippage order size", () => {
+    const { onOrderNotionalChange } = renderStats();
+    fireEvent.change(screen.getByLabelText("Slippage order size"), {
+      target: { value: "1000000" },
+    });
+    expect(onOrderNotionalChange).toHaveBeenCalledWith(1_000_000);
+  });
+
+  it("shows placeholders for metrics that are unavailable", () => {
+    render(
+      createElement(OrderBookStats, {
+        pairInfo: DEFAULT_PAIRS[0],
+        analytics: {
+          ...analytics,
+          spread: null,
+          microprice: null,
+          weightedMid: null,
+          imbalance: null,
+          buySlippage: null,
+          sellSlippage: null,
+        },
+        orderNotional: 100_000,
+        onOrderNotionalChange: vi.fn(),
+      }),
+    );
+    expect(screen.getByTitle("Market buy")).toHaveTextContent("B —");
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { createElement } from "react";
+import type {
+  Candle,
+  CryptoPair,
+  PairInfo,
+  Ticker,
+} from "../../services/apiTypes";
+import { DEFAULT_PAIRS } from "../../common/utils/pairCatalogue";
+import { PairPicker } from "../pairPicker/PairPicker";
+
+// ---------------------------------------------------------------------------
+// Mock fetchCandles
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchCandles: vi.fn(),
+}));
+
+import { fetchCandles } from "../../services/cryptoApiService";
+const mockFetchCandles = vi.mocked(fetchCandles);
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const pairs: PairInfo[] = [
+  ...DEFAULT_PAIRS,
+  { ...DEFAULT_PAIRS[2], symbol: "XRP-BTC", quote: "BTC", status: "halted" },
+];
+
+const HOUR = 3_600_000;
+
+const candle = (time: number, open: number, close: number): Candle => ({
+  time,
+  open,
+  high: Math.max(open, close),
+  low: Math.min(open, close),
+  close,
+  volume: 1,
+});
+
+function renderPicker(
+  onChange = vi.fn(),
+  liveTickers?: Partial<Record<CryptoPair, Ticker>>,
+) {
+  render(
+    createElement(PairPicker, {
+      pairs,
+      value: "BTC-USDT",
+      onChange,
+      liveTickers,
+    }),
+  );
+  return { onChange };
+}
+
+const openPicker = () => {
+  fireEvent.click(screen.getByLabelText("Pair"));
+  return screen.getByRole("dialog", { name: "Select pair" });
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("PairPicker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    // Pending by default; the price column test resolves it
+    mockFetchCandles.mockReturnValue(new Promise(() => {}));
+  });
+
+  it("shows the current pair on the trigger", () => {
+    renderPicker();
+    expect(screen.getByLabelText("Pair")).toHaveTextContent("BTC / USDT");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("opens with the search box focused on the current quote tab", () => {
+    renderPicker();
+    openPicker();
+    expect(
+      screen.getByRole("combobox", { name: "Search pairs" }),
+    ).toHaveFocus();
+    expect(screen.getByRole("tab", { name: "USDT" })).toHaveAttribute(
+      "aria-selected",
+      "true",
+    );
+    expect(screen.getAllByRole("option")).toHaveLength(3);
+  });
+
+  it("shows the last price and 24h change from hourly candles", async () => {
+    mockFetchCandles.mockImplementation((pair) =>
+      pair === "ETH-USDT"
+        ? Promise.resolve([
+            candle(HOUR, 3_000, 3_000),
+            candle(2 * HOUR, 3_000, 3_012.5),
+          ])
+        : new Promise(() => {}),
+    );
+    renderPicker();
+    openPicker();
+    const eth = screen.getByRole("option", { name: /ETH \/ USDT/ });
+    expect(await within(eth).findByText("+0.42%")).toBeInTheDocument();
+    expect(eth).toHaveTextContent("3,012.50");
+    expect(
+      screen.getByRole("option", { name: /BTC \/ USDT/ }),
+    ).toHaveTextContent("—");
+  });
+
+  it("shows live tickers for the streamed pairs", () => {
+    renderPicker(vi.fn(), {
+      "BTC-USDT": {
+        pair: "BTC-USDT",
+        last: 64_000,
+        change: -640,
+        changePercent: -0.99,
+        high: 65_000,
+        low: 63_000,
+        volume: 10,
+      },
+    });
+    openPicker();
+    const btc = screen.getByRole("option", { name: /BTC \/ USDT/ });
+    expect(btc).toHaveTextContent("64,000.00");
+    expect(btc).toHaveTextContent("-0.99%");
+  });
+
+  it("filters by fuzzy search and picks with the keyboard", () => {
+    const { onChange } = renderPicker();
+    openPicker();
+    const search = screen.getByRole("combobox", { name: "Search pairs" });
+
+    fireEvent.change(search, { target: { value: "xrp" } });
+    expect(screen.getAllByRole("option")).toHaveLength(2);
+
+    fireEvent.keyDown(search, { key: "ArrowDown" });
+    expect(search).toHaveAttribute(
+      "aria-activedescendant",
+      screen.getAllByRole("option")[1].id,
+    );
+    fireEvent.keyDown(search, { key: "Enter" });
+
+    expect(onChange).toHaveBeenCalledWith("XRP-BTC");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("marks halted pairs", () => {
+    renderPicker();
+    openPicker();
+    fireEvent.click(screen.getByRole("tab", { name: "BTC" }));
+    expect(
+      screen.getByRole("option", { name: /XRP \/ BTC/ }),
+    ).toHaveTextContent("Halted");
+  });
+
+  it("stars a pair without selecting it and lists it under favorites", () => {
+    const { onChange } = renderPicker();
+    openPicker();
+    fireEvent.click(
+      screen.getByRole("button", { name: "Add ETH / USDT to favorites" }),
+    );
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole("tab", { name: /Favorites/ }));
+    const options = screen.getAllByRole("option");
+    expect(options).toHaveLength(1);
+    expect(options[0]).toHaveTextContent("ETH / USDT");
+  });
+
+  it("closes on a click outside the dialog", () => {
+    renderPicker();
+    const dialog = openPicker();
+    fireEvent.click(dialog.parentElement!);
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(screen.getByLabelText("Pair")).toHaveFocus();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { createElement } from "react";
+import type { Ticker } from "../../services/apiTypes";
+import { TickerBar } from "../dashboard/TickerBar";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const ticker: Ticker = {
+  pair: "BTC-USDT",
+  last: 30_250,
+  change: -750,
+  changePercent: -2.42,
+  high: 31_100,
+  low: 30_000,
+  volume: 12_500,
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("TickerBar", () => {
+  it("shows the 24h summary", () => {
+    render(createElement(TickerBar, { ticker, direction: null, flashKey: 0 }));
+    const bar = screen.getByLabelText("24h ticker");
+
+    expect(bar).toHaveTextContent("30,250.00");
+    expect(bar).toHaveTextContent("-750.00 (-2.42%)");
+    expect(bar).toHaveTextContent("31,100.00");
+    expect(bar).toHaveTextContent("30,000.00");
+    expect(bar).toHaveTextContent("12.5K");
+  });
+
+  it("flashes the last price in the direction it moved", () => {
+    render(createElement(TickerBar, { ticker, direction: "up", flashKey: 3 }));
+    expect(screen.getByText("30,250.00")).toHaveClass("animate-flash-up");
+  });
+
+  it("shows a placeholder until the ticker is available", () => {
+    render(
+      createElement(TickerBar, { ticker: null, direction: null, flashKey: 0 }),
+    );
+    expect(screen.getByLabelText("Loading ticker")).toBeInTheDocument();
+  });
+});
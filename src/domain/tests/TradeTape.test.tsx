@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import type { Trade } from "../../services/apiTypes";
+import { TradeTape } from "../trades/TradeTape";
+
+// ---------------------------------------------------------------------------
+// Mock fetchTrades
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchTrades: vi.fn(),
+}));
+
+import { fetchTrades } from "../../services/cryptoApiService";
+const mockFetchTrades = vi.mocked(fetchTrades);
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const trade = (
+  id: string,
+  side: Trade["side"],
+  amount: number,
+  time: number,
+): Trade => ({ id, pair: "BTC-USDT", price: 30000, amount, side, time });
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("TradeTape", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("colours rows by taker side and highlights large prints", async () => {
+    mockFetchTrades.mockResolvedValue([
+      trade("a", "buy", 1, 3),
+      trade("b", "sell", 1, 2),
+      trade("c", "sell", 10, 1),
+    ]);
+    render(createElement(TradeTape, { pair: "BTC-USDT", liveTrades: [] }));
+
+    const log = await screen.findByRole("log", { name: "Recent trades" });
+    await waitFor(() =>
+      expect(log.querySelectorAll("[data-side]")).toHaveLength(3),
+    );
+    const rows = log.querySelectorAll("[data-side]");
+    expect(rows[0]).toHaveAttribute("data-side", "buy");
+    expect(rows[0]).toHaveAttribute("data-tier", "normal");
+    expect(rows[2]).toHaveAttribute("data-side", "sell");
+    expect(rows[2]).toHaveAttribute("data-tier", "large");
+  });
+
+  it("renders only a window of a long tape", async () => {
+    mockFetchTrades.mockResolvedValue(
+      Array.from({ length: 400 }, (_, i) => trade(`t${i}`, "buy", 1, -i)),
+    );
+    render(createElement(TradeTape, { pair: "BTC-USDT", liveTrades: [] }));
+
+    const log = await screen.findByRole("log", { name: "Recent trades" });
+    await waitFor(() =>
+      expect(log.querySelectorAll("[data-side]").length).toBeGreaterThan(0),
+    );
+    expect(log.querySelectorAll("[data-side]").length).toBeLessThan(400);
+  });
+
+  it("shows an empty state when there are no trades", async () => {
+    mockFetchTrades.mockResolvedValue([]);
+    render(createElement(TradeTape, { pair: "BTC-USDT", liveTrades: [] }));
+    expect(await screen.findByText("No trades yet")).toBeInTheDocument();
+  });
+
+  it("shows an error when the history cannot be loaded", async () => {
+    mockFetchTrades.mockRejectedValue(new Error("network error"));
+    render(createElement(TradeTape, { pair: "BTC-USDT", liveTrades: [] }));
+    expect(
+      await screen.findByText("Failed to fetch trades"),
+    ).toBeInTheDocument();
+  });
+});
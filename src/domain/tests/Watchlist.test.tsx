@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, act, within } from "@testing-library/react";
+import { createElement } from "react";
+import type { Candle } from "../../services/apiTypes";
+import { DEFAULT_PAIRS } from "../../common/utils/pairCatalogue";
+import { Watchlist } from "../watchlist/Watchlist";
+import type { WatchlistProps } from "../watchlist/useWatchlistController";
+
+// ---------------------------------------------------------------------------
+// Mock fetchCandles
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchCandles: vi.fn(),
+}));
+
+import { fetchCandles } from "../../services/cryptoApiService";
+const mockFetchCandles = vi.mocked(fetchCandles);
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const HOUR = 3_600_000;
+
+/** Hourly candles closing at the given prices, the last one at hour 100. */
+const candles = (...closes: number[]): Candle[] =>
+  closes.map((close, i) => ({
+    time: (100 - closes.length + 1 + i) * HOUR,
+    open: i === 0 ? close : closes[i - 1],
+    high: close,
+    low: close,
+    close,
+    volume: 1,
+  }));
+
+function renderWatchlist(overrides: Partial<WatchlistProps> = {}) {
+  const props: WatchlistProps = {
+    pairs: DEFAULT_PAIRS,
+    watchlist: ["BTC-USDT", "ETH-USDT"],
+    selectedPair: "BTC-USDT",
+    liveCandles: {},
+    liveTickers: {},
+    onSelect: vi.fn(),
+    onAdd: vi.fn(),
+    onRemove: vi.fn(),
+    ...overrides,
+  };
+  const result = render(createElement(Watchlist, props));
+  const rerender = (next: Partial<WatchlistProps>) =>
+    result.rerender(createElement(Watchlist, { ...props, ...next }));
+  return { props, rerender };
+}
+
+const row = (pair: string) =>
+  screen
+    .getByRole("region", { name: "Watchlist" })
+    .querySelector(`[data-pair="${pair}"]`) as HTMLElement;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("Watchlist", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetchCandles.mockImplementation(async (pair) =>
+      pair === "BTC-USDT" ? candles(100, 110) : candles(50, 45),
+    );
+  });
+
+  it("shows each pair's last price, 24h change and sparkline", async () => {
+    renderWatchlist();
+
+    expect(await within(row("BTC-USDT")).findByText("+10.00%")).toBeVisible();
+    expect(row("BTC-USDT")).toHaveTextContent("110.00");
+    expect(await within(row("ETH-USDT")).findByText("-10.00%")).toBeVisible();
+    expect(row("ETH-USDT").querySelector("polyline")).toHaveAttribute("points");
+  });
+
+  it("redraws a row when fresh candles replace cached ones", async () => {
+    renderWatchlist();
+    await within(row("BTC-USDT")).findByText("+10.00%");
+
+    const call = mockFetchCandles.mock.calls.find(([p]) => p === "BTC-USDT");
+    act(() => call?.[2]?.onRevalidate?.(candles(100, 130)));
+
+    expect(row("BTC-USDT")).toHaveTextContent("130.00");
+    expect(row("BTC-USDT")).toHaveTextContent("+30.00%");
+  });
+
+  it("updates live from the streamed candles", async () => {
+    const { rerender } = renderWatchlist();
+    await within(row("BTC-USDT")).findByText("+10.00%");
+
+    rerender({
+      liveCandles: {
+        "BTC-USDT": { ...candles(100, 120)[1] },
+      },
+    });
+
+    expect(row("BTC-USDT")).toHaveTextContent("120.00");
+    expect(row("BTC-USDT")).toHaveTextContent("+20.00%");
+  });
+
+  it("prefers a pushed ticker", async () => {
+    renderWatchlist({
+      liveTickers: {
+        "ETH-USDT": {
+          pair: "ETH-USDT",
+          last: 3_000,
+          change: 60,
+          changePercent: 2.04,
+          high: 3_100,
+          low: 2_900,
+          volume: 10,
+        },
+      },
+    });
+
+    expect(await within(row("ETH-USDT")).findByText("+2.04%")).toBeVisible();
+    expect(row("ETH-USDT")).toHaveTextContent("3,000.00");
+  });
+
+  it("marks the selected pair and selects a clicked one", () => {
+    mockFetchCandles.mockReturnValue(new Promise(() => {}));
+    const { props } = renderWatchlist();
+    expect(within(row("BTC-USDT")).getAllByRole("button")[0]).toHaveAttribute(
+      "aria-current",
+      "true",
+    );
+
+    fireEvent.click(within(row("ETH-USDT")).getAllByRole("button")[0]);
+    expect(props.onSelect).toHaveBeenCalledWith("ETH-USDT");
+  });
+
+  it("removes pairs and adds the ones not yet watched", () => {
+    mockFetchCandles.mockReturnValue(new Promise(() => {}));
+    const { props } = renderWatchlist();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Remove ETH / USDT from watchlist" }),
+    );
+    expect(props.onRemove).toHaveBeenCalledWith("ETH-USDT");
+
+    const add = screen.getByRole("combobox", { name: "Add pair to watchlist" });
+    expect(within(add).getAllByRole("option")).toHaveLength(2);
+    fireEvent.change(add, { target: { value: "XRP-USDT" } });
+    expect(props.onAdd).toHaveBeenCalledWith("XRP-USDT");
+  });
+
+  it("shows a placeholder row until the history arrives", () => {
+    mockFetchCandles.mockReturnValue(new Promise(() => {}));
+    renderWatchlist({ watchlist: ["XRP-USDT"] });
+    expect(row("XRP-USDT")).toHaveTextContent("—");
+  });
+});
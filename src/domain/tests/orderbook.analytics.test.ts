@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import type { OrderBook } from "../../services/apiTypes";
+import {
+  estimateSlippage,
+  getImbalance,
+  getMicroprice,
+  getNotionalWithinBand,
+  getOrderBookAnalytics,
+  getSpread,
+  getWeightedMid,
+} from "../orderbook/analytics";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const book: OrderBook = {
+  pair: "BTC-USDT",
+  asks: [
+    [101, 1],
+    [102, 3],
+    [110, 10],
+  ],
+  bids: [
+    [99, 3],
+    [98, 1],
+    [90, 10],
+  ],
+  timestamp: 1_680_000_000_000,
+};
+
+const empty: OrderBook = { ...book, asks: [], bids: [] };
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("orderbook analytics", () => {
+  describe("getSpread", () => {
+    it("returns the spread in quote currency and basis points", () => {
+      // 2 / mid 100 = 2%
+      expect(getSpread(book)).toEqual({ absolute: 2, bps: 200 });
+    });
+
+    it("returns null when a side is empty", () => {
+      expect(getSpread({ ...book, asks: [] })).toBeNull();
+    });
+  });
+
+  describe("getMicroprice", () => {
+    it("leans towards the side with less size at the top", () => {
+      // (99 * 1 + 101 * 3) / 4 — the thin ask pulls it up
+      expect(getMicroprice(book)).toBe(100.5);
+    });
+
+    it("falls back to the mid when the top levels hold no size", () => {
+      const flat: OrderBook = { ...book, asks: [[101, 0]], bids: [[99, 0]] };
+      expect(getMicroprice(flat)).toBe(100);
+    });
+
+    it("returns null when a side is empty", () => {
+      expect(getMicroprice(empty)).toBeNull();
+    });
+  });
+
+  describe("getWeightedMid", () => {
+    it("averages the VWAPs of the top levels on each side", () => {
+      // asks (101 + 306) / 4 = 101.75, bids (297 + 98) / 4 = 98.75
+      expect(getWeightedMid(book, 2)).toBe(100.25);
+    });
+
+    it("returns null when a side is empty", () => {
+      expect(getWeightedMid({ ...book, bids: [] }, 2)).toBeNull();
+    });
+  });
+
+  describe("getImbalance", () => {
+    it("compares bid and ask volume over the top levels", () => {
+      expect(getImbalance(book, 1)).toBe(0.5);
+      expect(getImbalance(book, 2)).toBe(0);
+    });
+
+    it("returns null when there is no volume", () => {
+      expect(getImbalance(empty, 5)).toBeNull();
+    });
+  });
+
+  describe("getNotionalWithinBand", () => {
+    it("sums the notional of levels within the band around the mid", () => {
+      expect(getNotionalWithinBand(book, 100, 2)).toEqual({
+        bid: 99 * 3 + 98,
+        ask: 101 + 102 * 3,
+      });
+    });
+
+    it("excludes levels outside the band", () => {
+      expect(getNotionalWithinBand(book, 100, 1)).toEqual({
+        bid: 99 * 3,
+        ask: 101,
+      });
+    });
+  });
+
+  describe("estimateSlippage", () => {
+    it("fills within the best level without slippage", () => {
+      expect(estimateSlippage(book.asks, 50)).toEqual({
+        averagePrice: 101,
+        worstPrice: 101,
+        slippageBps: 0,
+        complete: true,
+      });
+    });
+
+    it("walks deeper levels for a larger order", () => {
+      // 101 at 101, then 204 at 102 → 3 units for 305
+      const estimate = estimateSlippage(book.asks, 305);
+      expect(estimate?.worstPrice).toBe(102);
+      expect(estimate?.averagePrice).toBeCloseTo(305 / 3);
+      expect(estimate?.slippageBps).toBeCloseTo(
+        ((305 / 3 - 101) / 101) * 10_000,
+      );
+      expect(estimate?.complete).toBe(true);
+    });
+
+    it("measures sells against the best bid", () => {
+      // 297 at 99, then 98 at 98 → 4 units for 395
+      const estimate = estimateSlippage(book.bids, 395);
+      expect(estimate?.averagePrice).toBeCloseTo(98.75);
+      expect(estimate?.slippageBps).toBeCloseTo((0.25 / 99) * 10_000);
+    });
+
+    it("flags an order larger than the visible book", () => {
+      const estimate = estimateSlippage(book.asks, 1_000_000);
+      expect(estimate?.complete).toBe(false);
+      expect(estimate?.worstPrice).toBe(110);
+    });
+
+    it("skips levels with no amount", () => {
+      expect(
+        estimateSlippage(
+          [
+            [100, 0],
+            [101, 1],
+          ],
+          50,
+        ),
+      ).toEqual({
+        averagePrice: 101,
+        worstPrice: 101,
+        slippageBps: 0,
+        complete: true,
+      });
+    });
+
+    it("returns null for an empty side, nothing to fill or a non-positive size", () => {
+      expect(estimateSlippage([], 100)).toBeNull();
+      expect(estimateSlippage(book.asks, 0)).toBeNull();
+      expect(
+        estimateSlippage(
+          [
+            [101, 0],
+            [102, 0],
+          ],
+          100,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("getOrderBookAnalytics", () => {
+    it("combines every metric", () => {
+      const analytics = getOrderBookAnalytics(book, {
+        depthLevels: 2,
+        bandPercent: 1,
+        orderNotional: 50,
+      });
+      expect(analytics).toMatchObject({
+        spread: { absolute: 2, bps: 200 },
+        microprice: 100.5,
+        weightedMid: 100.25,
+        imbalance: 0,
+        bandNotional: { bid: 297, ask: 101 },
+        buySlippage: { averagePrice: 101 },
+        sellSlippage: { averagePrice: 99 },
+      });
+    });
+
+    it("handles an empty book", () => {
+      expect(
+        getOrderBookAnalytics(empty, {
+          depthLevels: 5,
+          bandPercent: 1,
+          orderNotional: 100,
+        }),
+      ).toEqual({
+        spread: null,
+        microprice: null,
+        weightedMid: null,
+        imbalance: null,
+        bandNotional: { bid: 0, ask: 0 },
+        buySlippage: null,
+        sellSlippage: null,
+      });
+    });
+  });
+});
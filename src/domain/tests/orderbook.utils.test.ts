@@ -1,10 +1,16 @@
 import { describe, it, expect } from "vitest";
 import type { OrderBook } from "../../services/apiTypes";
+import { DEFAULT_PAIRS } from "../../common/utils/pairCatalogue";
 import {
   getMidPrice,
   formatPrice,
   formatAmount,
   formatTotal,
+  getCumulativeDepth,
+  findDepthLevel,
+  getGroupingSteps,
+  getStepDecimals,
+  groupOrderBookLevels,
 } from "../orderbook/utils";
 
 // ---------------------------------------------------------------------------
@@ -89,6 +95,15 @@ describe("orderbook utils", () => {
     it("returns a non-empty string for zero", () => {
       expect(formatPrice(0)).toBeTruthy();
     });
+
+    it("uses the pair's price precision when its catalogue entry is given", () => {
+      expect(formatPrice(50, DEFAULT_PAIRS[0])).toMatch(/\.\d{2}$/);
+      expect(formatPrice(0.5, DEFAULT_PAIRS[2])).toMatch(/\.\d{4}$/);
+    });
+
+    it("falls back to the magnitude without a catalogue entry", () => {
+      expect(formatPrice(50, undefined)).toMatch(/\.\d{3}$/);
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -133,4 +148,160 @@ describe("orderbook utils", () => {
       expect(parseFloat(raw)).toBe(0);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // getCumulativeDepth
+  // -------------------------------------------------------------------------
+  describe("getCumulativeDepth", () => {
+    it("accumulates size and notional from the best level outward", () => {
+      expect(
+        getCumulativeDepth([
+          [100, 1],
+          [99, 2],
+        ]),
+      ).toEqual([
+        { price: 100, size: 1, cumulativeSize: 1, cumulativeNotional: 100 },
+        { price: 99, size: 2, cumulativeSize: 3, cumulativeNotional: 298 },
+      ]);
+    });
+
+    it("returns an empty array for an empty side", () => {
+      expect(getCumulativeDepth([])).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // findDepthLevel
+  // -------------------------------------------------------------------------
+  describe("findDepthLevel", () => {
+    const bids = getCumulativeDepth([
+      [100, 1],
+      [98, 2],
+      [95, 3],
+    ]);
+    const asks = getCumulativeDepth([
+      [101, 1],
+      [103, 2],
+    ]);
+
+    it("returns the deepest bid at or above the price", () => {
+      expect(findDepthLevel(bids, 97, "bid")?.price).toBe(98);
+      expect(findDepthLevel(bids, 98, "bid")?.price).toBe(98);
+    });
+
+    it("returns the deepest ask at or below the price", () => {
+      expect(findDepthLevel(asks, 102, "ask")?.price).toBe(101);
+      expect(findDepthLevel(asks, 110, "ask")?.cumulativeSize).toBe(3);
+    });
+
+    it("returns null inside the spread", () => {
+      expect(findDepthLevel(bids, 100.5, "bid")).toBeNull();
+      expect(findDepthLevel(asks, 100.5, "ask")).toBeNull();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // groupOrderBookLevels
+  // -------------------------------------------------------------------------
+  describe("groupOrderBookLevels", () => {
+    it("rounds bids down and sums amounts per bucket", () => {
+      expect(
+        groupOrderBookLevels(
+          [
+            [30012.5, 1],
+            [30009.9, 2],
+            [29999, 0.5],
+          ],
+          10,
+          "bid",
+        ),
+      ).toEqual([
+        [30010, 1],
+        [30000, 2],
+        [29990, 0.5],
+      ]);
+    });
+
+    it("rounds asks up", () => {
+      expect(
+        groupOrderBookLevels(
+          [
+            [30000.5, 1],
+            [30004, 2],
+            [30011, 3],
+          ],
+          10,
+          "ask",
+        ),
+      ).toEqual([
+        [30010, 3],
+        [30020, 3],
+      ]);
+    });
+
+    it("keeps a price that already sits on the step", () => {
+      expect(groupOrderBookLevels([[30010, 1]], 10, "ask")).toEqual([
+        [30010, 1],
+      ]);
+      expect(groupOrderBookLevels([[30010, 1]], 10, "bid")).toEqual([
+        [30010, 1],
+      ]);
+    });
+
+    it("avoids floating-point drift on decimal steps", () => {
+      expect(
+        groupOrderBookLevels(
+          [
+            [0.3, 1],
+            [0.29, 1],
+          ],
+          0.1,
+          "bid",
+        ),
+      ).toEqual([
+        [0.3, 1],
+        [0.2, 1],
+      ]);
+      expect(groupOrderBookLevels([[0.5012, 1]], 0.001, "ask")).toEqual([
+        [0.502, 1],
+      ]);
+    });
+
+    it("does not mutate the input levels", () => {
+      const levels: [number, number][] = [
+        [100.4, 1],
+        [100.2, 1],
+      ];
+      groupOrderBookLevels(levels, 1, "bid");
+      expect(levels).toEqual([
+        [100.4, 1],
+        [100.2, 1],
+      ]);
+    });
+
+    it("returns an empty array for an empty side", () => {
+      expect(groupOrderBookLevels([], 1, "bid")).toEqual([]);
+    });
+  });
+
+  describe("getStepDecimals", () => {
+    it("returns the decimals needed to print the step", () => {
+      expect(getStepDecimals(0.0001)).toBe(4);
+      expect(getStepDecimals(0.01)).toBe(2);
+      expect(getStepDecimals(1)).toBe(0);
+      expect(getStepDecimals(100)).toBe(0);
+      expect(getStepDecimals(0.25)).toBe(2);
+    });
+  });
+
+  describe("getGroupingSteps", () => {
+    it("starts at the tick size and steps up by powers of ten", () => {
+      expect(getGroupingSteps(0.01, 5)).toEqual([0.01, 0.1, 1, 10, 100]);
+      expect(getGroupingSteps(0.0001, 4)).toEqual([0.0001, 0.001, 0.01, 0.1]);
+    });
+
+    it("handles ticks that are not powers of ten", () => {
+      expect(getGroupingSteps(0.25, 3)).toEqual([0.25, 2.5, 25]);
+    });
+  });
 });
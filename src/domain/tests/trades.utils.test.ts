@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import type { Trade } from "../../services/apiTypes";
+import {
+  formatTradeTime,
+  getMedianAmount,
+  getSizeTier,
+  getVisibleRange,
+  mergeTrades,
+} from "../trades/utils";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const trade = (id: string, time: number, amount = 1): Trade => ({
+  id,
+  pair: "BTC-USDT",
+  price: 30000,
+  amount,
+  side: "buy",
+  time,
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("trades utils", () => {
+  describe("mergeTrades", () => {
+    it("puts live trades and history on one tape, newest first", () => {
+      const merged = mergeTrades(
+        [trade("c", 3)],
+        [trade("b", 2), trade("a", 1)],
+        10,
+      );
+      expect(merged.map((t) => t.id)).toEqual(["c", "b", "a"]);
+    });
+
+    it("keeps the live copy of a trade that is also in the history", () => {
+      const live = { ...trade("b", 2), amount: 5 };
+      const merged = mergeTrades([live], [trade("b", 2), trade("a", 1)], 10);
+      expect(merged).toEqual([live, trade("a", 1)]);
+    });
+
+    it("caps the tape at the most recent trades", () => {
+      const merged = mergeTrades(
+        [trade("c", 3)],
+        [trade("b", 2), trade("a", 1)],
+        2,
+      );
+      expect(merged.map((t) => t.id)).toEqual(["c", "b"]);
+    });
+  });
+
+  describe("getMedianAmount", () => {
+    it("returns the middle amount", () => {
+      expect(
+        getMedianAmount([trade("a", 1, 3), trade("b", 2, 1), trade("c", 3, 2)]),
+      ).toBe(2);
+    });
+
+    it("averages the two middle amounts of an even-sized tape", () => {
+      expect(getMedianAmount([trade("a", 1, 1), trade("b", 2, 4)])).toBe(2.5);
+    });
+
+    it("returns 0 for an empty tape", () => {
+      expect(getMedianAmount([])).toBe(0);
+    });
+  });
+
+  describe("getSizeTier", () => {
+    it("classifies trades by multiples of the median amount", () => {
+      expect(getSizeTier(1.9, 1)).toBe("normal");
+      expect(getSizeTier(2, 1)).toBe("medium");
+      expect(getSizeTier(5, 1)).toBe("large");
+    });
+
+    it("treats every trade as normal without a median", () => {
+      expect(getSizeTier(100, 0)).toBe("normal");
+    });
+  });
+
+  describe("getVisibleRange", () => {
+    const base = {
+      viewportHeight: 100,
+      rowHeight: 20,
+      count: 100,
+      overscan: 2,
+    };
+
+    it("covers the visible rows plus the overscan", () => {
+      expect(getVisibleRange({ ...base, scrollTop: 200 })).toEqual({
+        start: 8,
+        end: 17,
+      });
+    });
+
+    it("clamps to the start and end of the list", () => {
+      expect(getVisibleRange({ ...base, scrollTop: 0 })).toEqual({
+        start: 0,
+        end: 7,
+      });
+      expect(getVisibleRange({ ...base, scrollTop: 1_950 })).toEqual({
+        start: 95,
+        end: 100,
+      });
+    });
+  });
+
+  describe("formatTradeTime", () => {
+    it("prints a 24-hour HH:MM:SS time", () => {
+      expect(formatTradeTime(Date.UTC(2024, 0, 1, 13, 5, 9))).toMatch(
+        /^\d{2}:\d{2}:\d{2}$/,
+      );
+    });
+  });
+});
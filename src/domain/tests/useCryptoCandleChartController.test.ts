@@ -2,7 +2,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, act, waitFor } from "@testing-library/react";
 import { createElement, createRef } from "react";
-import type { Candle } from "../../services/apiTypes";
+import type { Candle, Timeframe } from "../../services/apiTypes";
+import { HttpError, TimeoutError } from "../../services/apiErrors";
 
 // ---------------------------------------------------------------------------
 // Mocks — declared before any imports that trigger module evaluation
@@ -17,20 +18,47 @@ vi.mock("../../services/cryptoApiService", () => ({
 const setCandles = vi.fn();
 const updateCandle = vi.fn();
 const fitContent = vi.fn();
+const resetZoom = vi.fn();
+const setScaleMode = vi.fn();
+const setCrosshairMode = vi.fn();
+const setVolumeVisible = vi.fn();
+const takeScreenshot = vi.fn((): HTMLCanvasElement | null => null);
+const addIndicator = vi.fn((config: { type: string }) => `id-${config.type}`);
+const removeIndicator = vi.fn();
 const containerRef = createRef<HTMLDivElement>();
 let mockIsReady = true;
+// The handler the controller subscribed to visible range changes with
+let onVisibleRange: ((range: { from: number; to: number }) => void) | null =
+  null;
+const subscribeVisibleRange = vi.fn(
+  (handler: (range: { from: number; to: number }) => void) => {
+    onVisibleRange = handler;
+    return () => {
+      if (onVisibleRange === handler) onVisibleRange = null;
+    };
+  },
+);
 
 vi.mock("../../common/hooks/useCandleChart", () => ({
   useCandleChart: vi.fn(() => ({
     containerRef,
     setCandles,
     updateCandle,
+    addIndicator,
+    removeIndicator,
     fitContent,
+    resetZoom,
+    setScaleMode,
+    setCrosshairMode,
+    setVolumeVisible,
+    takeScreenshot,
+    subscribeVisibleRange,
     isReady: mockIsReady,
   })),
 }));
 
 import { fetchCandles } from "../../services/cryptoApiService";
+import { useCandleChart } from "../../common/hooks/useCandleChart";
 import useCryptoCandleChartController from "../cryptoCandleChart/useCryptoCandleChartController";
 
 const mockFetchCandles = vi.mocked(fetchCandles);
@@ -38,9 +66,10 @@ const mockFetchCandles = vi.mocked(fetchCandles);
 // ---------------------------------------------------------------------------
 // Sample data
 // ---------------------------------------------------------------------------
+// Hour-aligned and one hour apart, so they already match the default 1H timeframe
 const sampleCandles: Candle[] = [
   {
-    time: 1_680_000_000_000,
+    time: 1_679_997_600_000,
     open: 100,
     high: 110,
     low: 90,
@@ -48,7 +77,7 @@ const sampleCandles: Candle[] = [
     volume: 1000,
   },
   {
-    time: 1_680_000_060_000,
+    time: 1_680_001_200_000,
     open: 105,
     high: 115,
     low: 95,
@@ -58,7 +87,7 @@ const sampleCandles: Candle[] = [
 ];
 
 const singleCandle: Candle = {
-  time: 1_680_000_120_000,
+  time: 1_680_004_800_000,
   open: 100,
   high: 120,
   low: 95,
@@ -74,12 +103,22 @@ type ControllerResult = ReturnType<typeof useCryptoCandleChartController>;
 function renderController(
   pair: "BTC-USDT" | "ETH-USDT" | "XRP-USDT" = "BTC-USDT",
   updatedCandle: Candle | null = null,
+  timeframe: Timeframe = "1H",
 ) {
   let captured: ControllerResult | undefined;
 
-  function TestComponent({ p, u }: { p: typeof pair; u: Candle | null }) {
+  function TestComponent({
+    p,
+    u,
+    t,
+  }: {
+    p: typeof pair;
+    u: Candle | null;
+    t: Timeframe;
+  }) {
     const result = useCryptoCandleChartController({
       pair: p,
+      timeframe: t,
       updatedCandle: u,
     });
     captured = result;
@@ -87,12 +126,20 @@ function renderController(
   }
 
   const renderResult = render(
-    createElement(TestComponent, { p: pair, u: updatedCandle }),
+    createElement(TestComponent, { p: pair, u: updatedCandle, t: timeframe }),
   );
 
-  const rerender = (newPair: typeof pair, newCandle: Candle | null = null) =>
+  const rerender = (
+    newPair: typeof pair,
+    newCandle: Candle | null = null,
+    newTimeframe: Timeframe = timeframe,
+  ) =>
     renderResult.rerender(
-      createElement(TestComponent, { p: newPair, u: newCandle }),
+      createElement(TestComponent, {
+        p: newPair,
+        u: newCandle,
+        t: newTimeframe,
+      }),
     );
 
   return { captured: () => captured as ControllerResult, rerender };
@@ -112,17 +159,21 @@ describe("useCryptoCandleChartController", () => {
   // Initial render / data fetching
   // -------------------------------------------------------------------------
   describe("data fetching", () => {
-    it("calls fetchCandles with the given pair when chart is ready", async () => {
+    it("calls fetchCandles with the given pair and timeframe when chart is ready", async () => {
       renderController("BTC-USDT");
       await waitFor(() =>
-        expect(mockFetchCandles).toHaveBeenCalledWith("BTC-USDT"),
+        expect(mockFetchCandles).toHaveBeenCalledWith(
+          "BTC-USDT",
+          "1H",
+          expect.objectContaining({ onRevalidate: expect.any(Function) }),
+        ),
       );
     });
 
     it("calls setCandles with the fetched data", async () => {
       renderController("BTC-USDT");
       await waitFor(() =>
-        expect(setCandles).toHaveBeenCalledWith(sampleCandles),
+        expect(setCandles).toHaveBeenCalledWith(sampleCandles, undefined),
       );
     });
 
@@ -138,6 +189,37 @@ describe("useCryptoCandleChartController", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Stale-while-revalidate
+  // -------------------------------------------------------------------------
+  describe("revalidation", () => {
+    it("redraws when fresh candles replace stale ones", async () => {
+      const fresh = [{ ...sampleCandles[0], close: 999 }];
+      renderController("BTC-USDT");
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenCalledWith(sampleCandles, undefined),
+      );
+
+      const onRevalidate = mockFetchCandles.mock.calls[0][2]?.onRevalidate;
+      act(() => onRevalidate?.(fresh));
+
+      expect(setCandles).toHaveBeenLastCalledWith(fresh, undefined);
+    });
+
+    it("ignores a refresh for a pair no longer shown", async () => {
+      const { rerender } = renderController("BTC-USDT");
+      await waitFor(() => expect(mockFetchCandles).toHaveBeenCalledOnce());
+      const onRevalidate = mockFetchCandles.mock.calls[0][2]?.onRevalidate;
+
+      rerender("ETH-USDT");
+      await waitFor(() => expect(mockFetchCandles).toHaveBeenCalledTimes(2));
+      setCandles.mockClear();
+      act(() => onRevalidate?.(sampleCandles));
+
+      expect(setCandles).not.toHaveBeenCalled();
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Error handling
   // -------------------------------------------------------------------------
@@ -155,6 +237,32 @@ describe("useCryptoCandleChartController", () => {
       const { captured } = renderController("BTC-USDT");
       await waitFor(() => expect(captured().state.isLoading).toBe(false));
     });
+
+    it("names the reason of a typed failure", async () => {
+      mockFetchCandles.mockRejectedValue(new TimeoutError("/api", 10_000));
+      const { captured } = renderController("BTC-USDT");
+      await waitFor(() =>
+        expect(captured().state.errorMessage).toBe(
+          "Failed to fetch candles: the server did not respond",
+        ),
+      );
+    });
+
+    it("retry re-runs the fetch and clears the error", async () => {
+      mockFetchCandles.mockRejectedValueOnce(
+        new HttpError("/api", 503, "Service Unavailable"),
+      );
+      const { captured } = renderController("BTC-USDT");
+      await waitFor(() => expect(captured().state.errorMessage).not.toBeNull());
+
+      act(() => captured().handler.retry());
+
+      await waitFor(() => expect(captured().state.errorMessage).toBeNull());
+      expect(mockFetchCandles).toHaveBeenCalledTimes(2);
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenCalledWith(sampleCandles, undefined),
+      );
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -164,31 +272,192 @@ describe("useCryptoCandleChartController", () => {
     it("re-fetches candles when pair prop changes", async () => {
       const { rerender } = renderController("BTC-USDT");
       await waitFor(() =>
-        expect(mockFetchCandles).toHaveBeenCalledWith("BTC-USDT"),
+        expect(mockFetchCandles).toHaveBeenCalledWith(
+          "BTC-USDT",
+          "1H",
+          expect.objectContaining({ onRevalidate: expect.any(Function) }),
+        ),
       );
 
       act(() => rerender("ETH-USDT"));
 
       await waitFor(() =>
-        expect(mockFetchCandles).toHaveBeenCalledWith("ETH-USDT"),
+        expect(mockFetchCandles).toHaveBeenCalledWith(
+          "ETH-USDT",
+          "1H",
+          expect.objectContaining({ onRevalidate: expect.any(Function) }),
+        ),
       );
       expect(mockFetchCandles).toHaveBeenCalledTimes(2);
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Timeframes
+  // -------------------------------------------------------------------------
+  describe("timeframes", () => {
+    const HOUR = 3_600_000;
+    // 00:00 UTC on a Monday, so 4H / 1D buckets start exactly here
+    const T0 = Date.UTC(2024, 0, 1);
+    const hourly: Candle[] = Array.from({ length: 8 }, (_, i) => ({
+      time: T0 + i * HOUR,
+      open: 100 + i,
+      high: 110 + i,
+      low: 90 + i,
+      close: 101 + i,
+      volume: 10,
+    }));
+
+    it("re-fetches candles when the timeframe changes", async () => {
+      const { rerender } = renderController("BTC-USDT");
+      await waitFor(() => expect(mockFetchCandles).toHaveBeenCalledTimes(1));
+
+      act(() => rerender("BTC-USDT", null, "4H"));
+
+      await waitFor(() =>
+        expect(mockFetchCandles).toHaveBeenCalledWith(
+          "BTC-USDT",
+          "4H",
+          expect.objectContaining({ onRevalidate: expect.any(Function) }),
+        ),
+      );
+    });
+
+    it("notes when the candles are coarser than the timeframe", async () => {
+      mockFetchCandles.mockResolvedValue(hourly);
+      const { captured } = renderController("BTC-USDT", null, "15m");
+
+      await waitFor(() =>
+        expect(captured().state.resolutionNotice).toBe(
+          "Showing 1H candles — the server has no 15m data",
+        ),
+      );
+      expect(setCandles).toHaveBeenCalledWith(hourly, undefined);
+    });
+
+    it("shows no notice when the candles match or are finer", async () => {
+      mockFetchCandles.mockResolvedValue(hourly);
+      const { captured } = renderController("BTC-USDT", null, "4H");
+
+      await waitFor(() => expect(setCandles).toHaveBeenCalled());
+      expect(captured().state.resolutionNotice).toBeNull();
+    });
+
+    it("aggregates hourly candles when the backend ignores the timeframe", async () => {
+      mockFetchCandles.mockResolvedValue(hourly);
+      renderController("BTC-USDT", null, "4H");
+
+      await waitFor(() => expect(setCandles).toHaveBeenCalled());
+      expect(setCandles).toHaveBeenCalledWith(
+        [
+          { time: T0, open: 100, high: 113, low: 90, close: 104, volume: 40 },
+          {
+            time: T0 + 4 * HOUR,
+            open: 104,
+            high: 117,
+            low: 94,
+            close: 108,
+            volume: 40,
+          },
+        ],
+        undefined,
+      );
+    });
+
+    it("passes candles through when they already match the timeframe", async () => {
+      mockFetchCandles.mockResolvedValue(hourly);
+      renderController("BTC-USDT", null, "1H");
+
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenCalledWith(hourly, undefined),
+      );
+    });
+
+    it("folds a live tick into the current aggregated bar", async () => {
+      mockFetchCandles.mockResolvedValue(hourly);
+      const { rerender } = renderController("BTC-USDT", null, "4H");
+      await waitFor(() => expect(setCandles).toHaveBeenCalled());
+
+      // Update the newest hourly candle (T0 + 7h) in place
+      const tick: Candle = { ...hourly[7], high: 130, close: 125, volume: 25 };
+      act(() => rerender("BTC-USDT", tick, "4H"));
+
+      expect(updateCandle).toHaveBeenLastCalledWith({
+        time: T0 + 4 * HOUR,
+        open: 104,
+        high: 130,
+        low: 94,
+        close: 125,
+        volume: 55,
+      });
+    });
+
+    it("folds ticks at the timeframe selected when they arrive", async () => {
+      mockFetchCandles.mockResolvedValue(hourly);
+      const { rerender } = renderController("BTC-USDT", null, "1H");
+      await waitFor(() => expect(setCandles).toHaveBeenCalledTimes(1));
+
+      act(() => rerender("BTC-USDT", null, "4H"));
+      await waitFor(() => expect(setCandles).toHaveBeenCalledTimes(2));
+
+      const tick: Candle = { ...hourly[7], close: 125 };
+      act(() => rerender("BTC-USDT", tick, "4H"));
+
+      expect(updateCandle).toHaveBeenLastCalledWith(
+        expect.objectContaining({ time: T0 + 4 * HOUR, open: 104, close: 125 }),
+      );
+    });
+
+    it("starts a new aggregated bar when a tick crosses the bucket boundary", async () => {
+      mockFetchCandles.mockResolvedValue(hourly);
+      const { rerender } = renderController("BTC-USDT", null, "4H");
+      await waitFor(() => expect(setCandles).toHaveBeenCalled());
+
+      const tick: Candle = {
+        time: T0 + 8 * HOUR,
+        open: 108,
+        high: 112,
+        low: 107,
+        close: 111,
+        volume: 5,
+      };
+      act(() => rerender("BTC-USDT", tick, "4H"));
+
+      expect(updateCandle).toHaveBeenLastCalledWith({ ...tick });
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Real-time candle updates
   // -------------------------------------------------------------------------
   describe("real-time updates", () => {
     it("calls updateCandle when updatedCandle prop is provided", async () => {
       const { rerender } = renderController("BTC-USDT", null);
-      await waitFor(() => expect(mockFetchCandles).toHaveBeenCalled());
+      await waitFor(() => expect(setCandles).toHaveBeenCalled());
 
       act(() => rerender("BTC-USDT", singleCandle));
 
       expect(updateCandle).toHaveBeenCalledWith(singleCandle);
     });
 
+    it("drops ticks for a new pair until its history has loaded", async () => {
+      const { rerender } = renderController("BTC-USDT", null);
+      await waitFor(() => expect(setCandles).toHaveBeenCalled());
+      mockFetchCandles.mockReturnValue(new Promise(() => {}));
+
+      rerender("ETH-USDT");
+      act(() =>
+        rerender("ETH-USDT", {
+          ...singleCandle,
+          time: singleCandle.time + 5 * 3_600_000,
+        }),
+      );
+
+      expect(updateCandle).not.toHaveBeenCalled();
+      // The initial load of each pair, but no backfill against the old one
+      expect(mockFetchCandles).toHaveBeenCalledTimes(2);
+    });
+
     it("does not call updateCandle when updatedCandle is null", async () => {
       renderController("BTC-USDT", null);
       await waitFor(() => expect(mockFetchCandles).toHaveBeenCalled());
@@ -196,6 +465,373 @@ describe("useCryptoCandleChartController", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Gaps and out-of-order ticks
+  // -------------------------------------------------------------------------
+  describe("gap backfill", () => {
+    const HOUR = 3_600_000;
+    const lastLoaded = sampleCandles[1];
+    const tickAt = (time: number): Candle => ({ ...singleCandle, time });
+
+    async function renderLoaded() {
+      const controller = renderController("BTC-USDT", null);
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenCalledWith(sampleCandles, undefined),
+      );
+      return controller;
+    }
+
+    it("drops a tick older than the loaded history", async () => {
+      const { rerender } = await renderLoaded();
+
+      act(() => rerender("BTC-USDT", tickAt(lastLoaded.time - HOUR)));
+
+      expect(updateCandle).not.toHaveBeenCalled();
+    });
+
+    it("does not backfill a tick that follows the last candle", async () => {
+      const { rerender } = await renderLoaded();
+
+      act(() => rerender("BTC-USDT", tickAt(lastLoaded.time + HOUR)));
+
+      expect(mockFetchCandles).toHaveBeenCalledOnce();
+    });
+
+    it("fetches the missing range when a tick skips candles", async () => {
+      const { rerender } = await renderLoaded();
+
+      act(() => rerender("BTC-USDT", tickAt(lastLoaded.time + 4 * HOUR)));
+
+      expect(updateCandle).toHaveBeenCalled();
+      expect(mockFetchCandles).toHaveBeenLastCalledWith(
+        "BTC-USDT",
+        "1H",
+        expect.objectContaining({
+          from: lastLoaded.time + HOUR,
+          to: lastLoaded.time + 3 * HOUR,
+        }),
+      );
+    });
+
+    it("measures hourly ticks against daily history day by day", async () => {
+      const DAY = 24 * HOUR;
+      const daily = [0, 1].map((days) => ({
+        ...sampleCandles[0],
+        time: Date.UTC(2024, 0, 1) + days * DAY,
+      }));
+      mockFetchCandles.mockResolvedValue(daily);
+      const { rerender } = renderController("BTC-USDT", null, "1D");
+      await waitFor(() => expect(setCandles).toHaveBeenCalled());
+
+      act(() =>
+        rerender("BTC-USDT", tickAt(daily[1].time + DAY + 13 * HOUR), "1D"),
+      );
+
+      expect(mockFetchCandles).toHaveBeenCalledOnce();
+    });
+
+    it("redraws the history with the backfilled candles merged in", async () => {
+      const missing = [1, 2, 3].map((hours) =>
+        tickAt(lastLoaded.time + hours * HOUR),
+      );
+      const tick = tickAt(lastLoaded.time + 4 * HOUR);
+      const { rerender } = await renderLoaded();
+      mockFetchCandles.mockResolvedValueOnce(missing);
+
+      act(() => rerender("BTC-USDT", tick));
+
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenLastCalledWith(
+          [...sampleCandles, ...missing, tick],
+          { keepView: true },
+        ),
+      );
+    });
+
+    it("drops a backfill that lands after the pair changed", async () => {
+      let respond: (candles: Candle[]) => void = () => {};
+      const { rerender } = await renderLoaded();
+      mockFetchCandles.mockReturnValueOnce(
+        new Promise((resolve) => (respond = resolve)),
+      );
+      act(() => rerender("BTC-USDT", tickAt(lastLoaded.time + 4 * HOUR)));
+
+      rerender("ETH-USDT");
+      await waitFor(() =>
+        expect(mockFetchCandles).toHaveBeenLastCalledWith(
+          "ETH-USDT",
+          "1H",
+          expect.anything(),
+        ),
+      );
+      setCandles.mockClear();
+      await act(async () => respond([tickAt(lastLoaded.time + HOUR)]));
+
+      expect(setCandles).not.toHaveBeenCalledWith(
+        expect.arrayContaining([tickAt(lastLoaded.time + HOUR)]),
+      );
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Scroll-back paging
+  // -------------------------------------------------------------------------
+  describe("scroll-back paging", () => {
+    const HOUR = 3_600_000;
+    const olderPage = (count: number): Candle[] =>
+      Array.from({ length: count }, (_, i) => ({
+        ...sampleCandles[0],
+        time: sampleCandles[0].time - (count - i) * HOUR,
+      }));
+
+    async function renderLoaded() {
+      const controller = renderController("BTC-USDT");
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenCalledWith(sampleCandles, undefined),
+      );
+      return controller;
+    }
+
+    it("requests the page before the oldest candle near the left edge", async () => {
+      await renderLoaded();
+
+      act(() => onVisibleRange?.({ from: 12, to: 50 }));
+      act(() => onVisibleRange?.({ from: 2, to: 40 }));
+
+      expect(mockFetchCandles).toHaveBeenLastCalledWith(
+        "BTC-USDT",
+        "1H",
+        expect.objectContaining({ before: sampleCandles[0].time, limit: 200 }),
+      );
+    });
+
+    it("does not page while the view is away from the left edge", async () => {
+      await renderLoaded();
+
+      act(() => onVisibleRange?.({ from: 40, to: 70 }));
+      act(() => onVisibleRange?.({ from: 30, to: 60 }));
+
+      expect(mockFetchCandles).toHaveBeenCalledOnce();
+    });
+
+    it("does not page on the fit after a load", async () => {
+      await renderLoaded();
+
+      act(() => onVisibleRange?.({ from: 0, to: 40 }));
+
+      expect(mockFetchCandles).toHaveBeenCalledOnce();
+    });
+
+    it("does not page while the view moves right near the left edge", async () => {
+      await renderLoaded();
+
+      act(() => onVisibleRange?.({ from: 0, to: 40 }));
+      act(() => onVisibleRange?.({ from: 3, to: 43 }));
+
+      expect(mockFetchCandles).toHaveBeenCalledOnce();
+    });
+
+    it("prepends the page and keeps the view in place", async () => {
+      const older = olderPage(200);
+      await renderLoaded();
+      mockFetchCandles.mockResolvedValueOnce(older);
+
+      act(() => onVisibleRange?.({ from: 20, to: 60 }));
+      act(() => onVisibleRange?.({ from: 0, to: 40 }));
+
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenLastCalledWith(
+          [...older, ...sampleCandles],
+          { keepView: true },
+        ),
+      );
+    });
+
+    it("requests one page at a time", async () => {
+      await renderLoaded();
+      mockFetchCandles.mockReturnValueOnce(new Promise(() => {}));
+
+      act(() => onVisibleRange?.({ from: 20, to: 60 }));
+      act(() => onVisibleRange?.({ from: 0, to: 40 }));
+      act(() => onVisibleRange?.({ from: -5, to: 35 }));
+
+      expect(mockFetchCandles).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops paging after a short page", async () => {
+      await renderLoaded();
+      mockFetchCandles.mockResolvedValueOnce(olderPage(3));
+      act(() => onVisibleRange?.({ from: 20, to: 60 }));
+      act(() => onVisibleRange?.({ from: 0, to: 40 }));
+      await waitFor(() =>
+        expect(setCandles).toHaveBeenLastCalledWith(
+          [...olderPage(3), ...sampleCandles],
+          { keepView: true },
+        ),
+      );
+
+      act(() => onVisibleRange?.({ from: -2, to: 38 }));
+
+      expect(mockFetchCandles).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not page before the history has loaded", () => {
+      mockFetchCandles.mockReturnValue(new Promise(() => {}));
+      renderController("BTC-USDT");
+
+      act(() => onVisibleRange?.({ from: 20, to: 60 }));
+      act(() => onVisibleRange?.({ from: 0, to: 40 }));
+
+      expect(mockFetchCandles).toHaveBeenCalledOnce();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Chart toolbar
+  // -------------------------------------------------------------------------
+  describe("chart toolbar", () => {
+    it("starts linear, with a free crosshair and volume shown", () => {
+      const { captured } = renderController();
+
+      expect(captured().state).toMatchObject({
+        scaleMode: "linear",
+        crosshairMode: "normal",
+        showVolume: true,
+      });
+      expect(setScaleMode).toHaveBeenCalledWith("linear");
+      expect(setCrosshairMode).toHaveBeenCalledWith("normal");
+      expect(setVolumeVisible).toHaveBeenCalledWith(true);
+    });
+
+    it("applies a new price scale to the chart", () => {
+      const { captured } = renderController();
+
+      act(() => captured().handler.setScaleMode("logarithmic"));
+
+      expect(captured().state.scaleMode).toBe("logarithmic");
+      expect(setScaleMode).toHaveBeenLastCalledWith("logarithmic");
+    });
+
+    it("toggles the crosshair between normal and magnet", () => {
+      const { captured } = renderController();
+
+      act(() => captured().handler.toggleCrosshairMode());
+      expect(setCrosshairMode).toHaveBeenLastCalledWith("magnet");
+
+      act(() => captured().handler.toggleCrosshairMode());
+      expect(setCrosshairMode).toHaveBeenLastCalledWith("normal");
+    });
+
+    it("hides and shows the volume", () => {
+      const { captured } = renderController();
+
+      act(() => captured().handler.toggleVolume());
+
+      expect(captured().state.showVolume).toBe(false);
+      expect(setVolumeVisible).toHaveBeenLastCalledWith(false);
+    });
+
+    it("waits for the chart before applying the settings", () => {
+      mockIsReady = false;
+      renderController();
+
+      expect(setScaleMode).not.toHaveBeenCalled();
+      expect(setVolumeVisible).not.toHaveBeenCalled();
+    });
+
+    it("passes fit and reset through to the chart", () => {
+      const { captured } = renderController();
+
+      captured().handler.fitContent();
+      captured().handler.resetZoom();
+
+      expect(fitContent).toHaveBeenCalledOnce();
+      expect(resetZoom).toHaveBeenCalledOnce();
+    });
+
+    it("downloads the screenshot as a PNG named after the pair", () => {
+      const canvas = document.createElement("canvas");
+      vi.spyOn(canvas, "toDataURL").mockReturnValue("data:image/png;base64,");
+      takeScreenshot.mockReturnValueOnce(canvas);
+      const click = vi
+        .spyOn(HTMLAnchorElement.prototype, "click")
+        .mockImplementation(function (this: HTMLAnchorElement) {
+          expect(this.href).toBe("data:image/png;base64,");
+          expect(this.download).toMatch(/^ETH-USDT-4H-.*\.png$/);
+        });
+      const { captured } = renderController("ETH-USDT", null, "4H");
+
+      captured().handler.saveScreenshot();
+
+      expect(click).toHaveBeenCalledOnce();
+      click.mockRestore();
+    });
+
+    it("saves nothing when the chart is not ready", () => {
+      const click = vi.spyOn(HTMLAnchorElement.prototype, "click");
+      const { captured } = renderController();
+
+      captured().handler.saveScreenshot();
+
+      expect(click).not.toHaveBeenCalled();
+      click.mockRestore();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Indicators
+  // -------------------------------------------------------------------------
+  describe("indicators", () => {
+    it("starts with no indicators", () => {
+      const { captured } = renderController("BTC-USDT");
+      expect(captured().state.activeIndicators).toEqual([]);
+      expect(addIndicator).not.toHaveBeenCalled();
+    });
+
+    it("adds the preset's indicator to the chart when toggled on", () => {
+      const { captured } = renderController("BTC-USDT");
+
+      act(() => captured().handler.toggleIndicator("sma20"));
+
+      expect(captured().state.activeIndicators).toEqual(["sma20"]);
+      expect(addIndicator).toHaveBeenCalledWith({ type: "sma", period: 20 });
+    });
+
+    it("removes the chart indicator when toggled off", () => {
+      const { captured } = renderController("BTC-USDT");
+
+      act(() => captured().handler.toggleIndicator("vwap"));
+      act(() => captured().handler.toggleIndicator("vwap"));
+
+      expect(captured().state.activeIndicators).toEqual([]);
+      expect(removeIndicator).toHaveBeenCalledWith("id-vwap");
+    });
+
+    it("adds oscillator presets like any other indicator", () => {
+      const { captured } = renderController("BTC-USDT");
+
+      act(() => captured().handler.toggleIndicator("rsi14"));
+
+      expect(addIndicator).toHaveBeenCalledWith({ type: "rsi", period: 14 });
+    });
+
+    it("gives volume its own pane below the price", () => {
+      renderController("BTC-USDT");
+      expect(useCandleChart).toHaveBeenCalledWith(
+        expect.objectContaining({ volumePaneHeight: expect.any(Number) }),
+      );
+    });
+
+    it("waits for the chart before adding indicators", () => {
+      mockIsReady = false;
+      const { captured } = renderController("BTC-USDT");
+
+      act(() => captured().handler.toggleIndicator("ema50"));
+
+      expect(addIndicator).not.toHaveBeenCalled();
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Return shape
   // -------------------------------------------------------------------------
@@ -1,8 +1,24 @@
 /* eslint-disable react-hooks/globals */
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, act, fireEvent } from "@testing-library/react";
 import { createElement } from "react";
 import { useDashboardController } from "../dashboard/useDashboardController";
+import { usePairs } from "../../common/hooks/usePairs";
+import { DEFAULT_PAIRS } from "../../common/utils/pairCatalogue";
+import { WATCHLIST_STORAGE_KEY } from "../watchlist/watchlistTypes";
+
+vi.mock("../../common/hooks/usePairs", async () => {
+  const { DEFAULT_PAIRS } = await import("../../common/utils/pairCatalogue");
+  return {
+    usePairs: vi.fn(() => ({
+      pairs: DEFAULT_PAIRS,
+      loading: false,
+      error: null,
+    })),
+  };
+});
+
+const mockUsePairs = vi.mocked(usePairs);
 
 // ---------------------------------------------------------------------------
 // Helper: render hook via a wrapper component
@@ -35,10 +51,26 @@ function renderHookViaComponent() {
         "data-testid": "set-orderbook",
         onClick: () => result.handler.handleStreamModeChange("orderbook"),
       }),
+      createElement("button", {
+        "data-testid": "set-trades",
+        onClick: () => result.handler.handleStreamModeChange("trades"),
+      }),
       createElement("button", {
         "data-testid": "set-all",
         onClick: () => result.handler.handleStreamModeChange("all"),
       }),
+      createElement("button", {
+        "data-testid": "set-4h",
+        onClick: () => result.handler.handleTimeframeChange("4H"),
+      }),
+      createElement("button", {
+        "data-testid": "unwatch-eth",
+        onClick: () => result.handler.handleWatchlistRemove("ETH-USDT"),
+      }),
+      createElement("button", {
+        "data-testid": "watch-eth",
+        onClick: () => result.handler.handleWatchlistAdd("ETH-USDT"),
+      }),
     );
   }
 
@@ -57,6 +89,15 @@ function renderHookViaComponent() {
 // ---------------------------------------------------------------------------
 
 describe("useDashboardController", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockUsePairs.mockReturnValue({
+      pairs: DEFAULT_PAIRS,
+      loading: false,
+      error: null,
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Initial state
   // -------------------------------------------------------------------------
@@ -71,6 +112,11 @@ describe("useDashboardController", () => {
       expect(captured().state.streamMode).toBe("all");
     });
 
+    it("defaults timeframe to '1H'", () => {
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.timeframe).toBe("1H");
+    });
+
     it("showCandles is true by default", () => {
       const { captured } = renderHookViaComponent();
       expect(captured().state.showCandles).toBe(true);
@@ -134,6 +180,24 @@ describe("useDashboardController", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Timeframe changes
+  // -------------------------------------------------------------------------
+  describe("handleTimeframeChange", () => {
+    it("sets timeframe to '4H'", () => {
+      const { captured, click } = renderHookViaComponent();
+      click("set-4h");
+      expect(captured().state.timeframe).toBe("4H");
+    });
+
+    it("does not change pair or streamMode", () => {
+      const { captured, click } = renderHookViaComponent();
+      click("set-4h");
+      expect(captured().state.pair).toBe("BTC-USDT");
+      expect(captured().state.streamMode).toBe("all");
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Derived visibility flags
   // -------------------------------------------------------------------------
@@ -174,6 +238,19 @@ describe("useDashboardController", () => {
       });
     });
 
+    describe("streamMode = 'trades'", () => {
+      it("shows only the trade tape", () => {
+        const { captured, click } = renderHookViaComponent();
+        click("set-trades");
+        expect(captured().state).toMatchObject({
+          showTrades: true,
+          showCandles: false,
+          showOrderBook: false,
+          showBoth: false,
+        });
+      });
+    });
+
     describe("streamMode = 'all'", () => {
       it("showCandles is true", () => {
         const { captured } = renderHookViaComponent();
@@ -187,6 +264,70 @@ describe("useDashboardController", () => {
         const { captured } = renderHookViaComponent();
         expect(captured().state.showBoth).toBe(true);
       });
+      it("showTrades is false", () => {
+        const { captured } = renderHookViaComponent();
+        expect(captured().state.showTrades).toBe(false);
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Pair catalogue
+  // -------------------------------------------------------------------------
+  describe("pair catalogue", () => {
+    it("exposes the catalogue pairs", () => {
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.pairs).toEqual(DEFAULT_PAIRS);
+    });
+
+    it("falls back to the first pair when the selection is not listed", () => {
+      mockUsePairs.mockReturnValue({
+        pairs: [DEFAULT_PAIRS[2]],
+        loading: false,
+        error: null,
+      });
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.pair).toBe("XRP-USDT");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Watchlist
+  // -------------------------------------------------------------------------
+  describe("watchlist", () => {
+    it("starts with the default pairs", () => {
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.watchlist).toEqual([
+        "BTC-USDT",
+        "ETH-USDT",
+        "XRP-USDT",
+      ]);
+    });
+
+    it("removes and re-adds pairs at the end, persisting each change", () => {
+      const { captured, click } = renderHookViaComponent();
+
+      click("unwatch-eth");
+      expect(captured().state.watchlist).toEqual(["BTC-USDT", "XRP-USDT"]);
+
+      click("watch-eth");
+      click("watch-eth");
+      expect(captured().state.watchlist).toEqual([
+        "BTC-USDT",
+        "XRP-USDT",
+        "ETH-USDT",
+      ]);
+      expect(JSON.parse(localStorage.getItem(WATCHLIST_STORAGE_KEY)!)).toEqual([
+        "BTC-USDT",
+        "XRP-USDT",
+        "ETH-USDT",
+      ]);
+    });
+
+    it("restores a saved watchlist, even an empty one", () => {
+      localStorage.setItem(WATCHLIST_STORAGE_KEY, "[]");
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.watchlist).toEqual([]);
     });
   });
 
@@ -201,6 +342,7 @@ describe("useDashboardController", () => {
       expect(result).toHaveProperty("handler");
       expect(typeof result.handler.handlePairChange).toBe("function");
       expect(typeof result.handler.handleStreamModeChange).toBe("function");
+      expect(typeof result.handler.handleTimeframeChange).toBe("function");
     });
   });
 });
@@ -3,6 +3,8 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, act, waitFor } from "@testing-library/react";
 import { createElement } from "react";
 import type { CryptoPair, OrderBook } from "../../services/apiTypes";
+import { HttpError, NetworkError } from "../../services/apiErrors";
+import { DEFAULT_PAIRS, getPairInfo } from "../../common/utils/pairCatalogue";
 import { useOrderbookController } from "../orderbook/useOrderbookController";
 
 // ---------------------------------------------------------------------------
@@ -44,7 +46,11 @@ function renderHookViaComponent(
   let captured: HookResult | undefined;
 
   function TestComponent({ p, u }: { p: CryptoPair; u: OrderBook | null }) {
-    const result = useOrderbookController({ pair: p, updatedOrderBook: u });
+    const result = useOrderbookController({
+      pair: p,
+      pairInfo: getPairInfo(p, DEFAULT_PAIRS),
+      updatedOrderBook: u,
+    });
     captured = result;
     return null;
   }
@@ -103,6 +109,26 @@ describe("useOrderbookController", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Cancellation
+  // -------------------------------------------------------------------------
+  describe("cancellation", () => {
+    it("aborts the pending fetch on unmount", () => {
+      mockFetchOrderBook.mockReturnValue(new Promise(() => {}));
+      const { unmount } = render(
+        createElement(function TestComponent() {
+          useOrderbookController({ pair: "BTC-USDT", updatedOrderBook: null });
+          return null;
+        }),
+      );
+      const signal = mockFetchOrderBook.mock.calls[0][1];
+
+      unmount();
+
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Error state
   // -------------------------------------------------------------------------
@@ -120,6 +146,32 @@ describe("useOrderbookController", () => {
       const { captured } = renderHookViaComponent();
       await waitFor(() => expect(captured().state.error).not.toBeNull());
     });
+
+    it("names the reason of a typed failure", async () => {
+      mockFetchOrderBook.mockRejectedValue(
+        new HttpError("/api", 503, "Service Unavailable"),
+      );
+      const { captured } = renderHookViaComponent();
+      await waitFor(() =>
+        expect(captured().state.error).toBe(
+          "Failed to fetch order book: the server answered 503",
+        ),
+      );
+    });
+
+    it("handleRetry re-runs the fetch", async () => {
+      mockFetchOrderBook.mockRejectedValueOnce(
+        new NetworkError("/api", new TypeError("Failed to fetch")),
+      );
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.error).not.toBeNull());
+
+      act(() => captured().handler.handleRetry());
+
+      await waitFor(() => expect(captured().state.error).toBeNull());
+      expect(mockFetchOrderBook).toHaveBeenCalledTimes(2);
+      await waitFor(() => expect(captured().state.asks).toHaveLength(1));
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -147,8 +199,143 @@ describe("useOrderbookController", () => {
       act(() => rerender("ETH-USDT"));
 
       expect(mockFetchOrderBook).toHaveBeenCalledTimes(2);
-      expect(mockFetchOrderBook).toHaveBeenNthCalledWith(1, "BTC-USDT");
-      expect(mockFetchOrderBook).toHaveBeenNthCalledWith(2, "ETH-USDT");
+      expect(mockFetchOrderBook).toHaveBeenNthCalledWith(
+        1,
+        "BTC-USDT",
+        expect.any(AbortSignal),
+      );
+      expect(mockFetchOrderBook).toHaveBeenNthCalledWith(
+        2,
+        "ETH-USDT",
+        expect.any(AbortSignal),
+      );
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Depth chart
+  // -------------------------------------------------------------------------
+  describe("depth", () => {
+    it("derives cumulative depth for both sides, best price first", async () => {
+      mockFetchOrderBook.mockResolvedValue({
+        ...sampleOrderBook,
+        asks: [
+          [30100, 0.5],
+          [30200, 1],
+        ],
+      });
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+
+      const { depth } = captured().state;
+      expect(depth.asks.map((l) => l.cumulativeSize)).toEqual([0.5, 1.5]);
+      expect(depth.bids).toEqual([
+        {
+          price: 29900,
+          size: 1.2,
+          cumulativeSize: 1.2,
+          cumulativeNotional: 29900 * 1.2,
+        },
+      ]);
+    });
+
+    it("is empty before any data arrives", () => {
+      mockFetchOrderBook.mockReturnValue(new Promise(() => {}));
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.depth).toEqual({ bids: [], asks: [] });
+    });
+  });
+
+  describe("view", () => {
+    it("starts on the table view", () => {
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.view).toBe("table");
+    });
+
+    it("switches view through handleViewChange", () => {
+      const { captured } = renderHookViaComponent();
+      act(() => captured().handler.handleViewChange("depth"));
+      expect(captured().state.view).toBe("depth");
+    });
+  });
+
+  describe("grouping", () => {
+    const fineBook: OrderBook = {
+      pair: "BTC-USDT",
+      asks: [
+        [30100.25, 0.5],
+        [30104, 1],
+      ],
+      bids: [
+        [29999.5, 1],
+        [29991, 2],
+      ],
+      timestamp: 1_680_000_000_000,
+    };
+
+    it("defaults to the pair's finest step", async () => {
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+      expect(captured().state.grouping).toBe(0.01);
+      expect(captured().state.groupingOptions).toEqual([0.01, 0.1, 1, 10, 100]);
+    });
+
+    it("groups levels, totals and depth by the chosen step", async () => {
+      mockFetchOrderBook.mockResolvedValue(fineBook);
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+
+      act(() => captured().handler.handleGroupingChange(10));
+
+      const { asks, bids, maxTotal, depth } = captured().state;
+      expect(asks).toEqual([[30110, 1.5]]);
+      expect(bids).toEqual([[29990, 3]]);
+      expect(maxTotal).toBe(29990 * 3);
+      expect(depth.asks[0].cumulativeSize).toBe(1.5);
+    });
+
+    it("remembers the step per pair", async () => {
+      const { captured, rerender } = renderHookViaComponent("BTC-USDT");
+      act(() => captured().handler.handleGroupingChange(100));
+
+      act(() => rerender("XRP-USDT"));
+      expect(captured().state.grouping).toBe(0.0001);
+
+      act(() => rerender("BTC-USDT"));
+      expect(captured().state.grouping).toBe(100);
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+    });
+  });
+
+  describe("analytics", () => {
+    it("is null until the order book has loaded", () => {
+      mockFetchOrderBook.mockReturnValue(new Promise(() => {}));
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.analytics).toBeNull();
+    });
+
+    it("is computed from the ungrouped book", async () => {
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+
+      act(() => captured().handler.handleGroupingChange(100));
+
+      expect(captured().state.analytics?.spread).toEqual({
+        absolute: 200,
+        bps: (200 / 30000) * 10_000,
+      });
+    });
+
+    it("re-estimates slippage for a new order size", async () => {
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+      // The book holds 0.5 * 30100 = 15,050 of asks
+      expect(captured().state.analytics?.buySlippage?.complete).toBe(false);
+
+      act(() => captured().handler.handleOrderNotionalChange(10_000));
+
+      expect(captured().state.orderNotional).toBe(10_000);
+      expect(captured().state.analytics?.buySlippage?.complete).toBe(true);
     });
   });
 
@@ -0,0 +1,305 @@
+/* eslint-disable react-hooks/globals */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, act, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import type {
+  Candle,
+  CryptoPair,
+  PairInfo,
+  Ticker,
+} from "../../services/apiTypes";
+import { usePairPickerController } from "../pairPicker/usePairPickerController";
+import { FAVORITES_STORAGE_KEY } from "../pairPicker/pairPickerTypes";
+
+// ---------------------------------------------------------------------------
+// Mock fetchCandles
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchCandles: vi.fn(),
+}));
+
+import { fetchCandles } from "../../services/cryptoApiService";
+const mockFetchCandles = vi.mocked(fetchCandles);
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const pair = (base: string, quote: string): PairInfo => ({
+  symbol: `${base}-${quote}`,
+  base,
+  quote,
+  pricePrecision: 2,
+  amountPrecision: 4,
+  tickSize: 0.01,
+  status: "trading",
+});
+
+const pairs = [
+  pair("BTC", "USDT"),
+  pair("ETH", "USDT"),
+  pair("XRP", "USDT"),
+  pair("ETH", "BTC"),
+  pair("XRP", "BTC"),
+];
+
+const HOUR = 3_600_000;
+
+/** Hourly candles closing at the given prices. */
+const candles = (...closes: number[]): Candle[] =>
+  closes.map((close, i) => ({
+    time: (i + 1) * HOUR,
+    open: i === 0 ? close : closes[i - 1],
+    high: close,
+    low: close,
+    close,
+    volume: 1,
+  }));
+
+// ---------------------------------------------------------------------------
+// Helper: render hook via component
+// ---------------------------------------------------------------------------
+type HookResult = ReturnType<typeof usePairPickerController>;
+
+function renderHookViaComponent(
+  value: CryptoPair = "BTC-USDT",
+  catalogue: PairInfo[] = pairs,
+  liveTickers?: Partial<Record<CryptoPair, Ticker>>,
+) {
+  let captured: HookResult | undefined;
+  const onChange = vi.fn();
+
+  function TestComponent() {
+    captured = usePairPickerController({
+      pairs: catalogue,
+      value,
+      onChange,
+      liveTickers,
+    });
+    return null;
+  }
+
+  render(createElement(TestComponent));
+  return { captured: () => captured as HookResult, onChange };
+}
+
+const symbols = (result: HookResult) =>
+  result.state.results.map((p) => p.symbol);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("usePairPickerController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    // Pending by default; the tickers tests resolve it
+    mockFetchCandles.mockReturnValue(new Promise(() => {}));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // -------------------------------------------------------------------------
+  // Tabs and search
+  // -------------------------------------------------------------------------
+  describe("tabs and search", () => {
+    it("opens on the current pair's quote tab with its row active", () => {
+      const { captured } = renderHookViaComponent("XRP-BTC");
+      expect(captured().state.tab).toBe("BTC");
+      expect(symbols(captured())).toEqual(["ETH-BTC", "XRP-BTC"]);
+      expect(captured().state.activeIndex).toBe(1);
+    });
+
+    it("lists the pairs quoted in the chosen tab", () => {
+      const { captured } = renderHookViaComponent();
+      act(() => captured().handler.handleTabChange("BTC"));
+      expect(symbols(captured())).toEqual(["ETH-BTC", "XRP-BTC"]);
+      expect(captured().state.activeIndex).toBe(0);
+    });
+
+    it("lists pairs whose quote has no tab under Other", () => {
+      const { captured } = renderHookViaComponent("BTC-EUR", [
+        ...pairs,
+        pair("BTC", "EUR"),
+        pair("ETH", "EUR"),
+      ]);
+      expect(captured().state.tab).toBe("other");
+      expect(symbols(captured())).toEqual(["BTC-EUR", "ETH-EUR"]);
+      expect(captured().state.activeIndex).toBe(0);
+
+      act(() => captured().handler.handleTabChange("USDT"));
+      expect(symbols(captured())).not.toContain("BTC-EUR");
+    });
+
+    it("searches across every tab, ignoring separators", () => {
+      const { captured } = renderHookViaComponent();
+      act(() => captured().handler.handleQueryChange("eth/"));
+      expect(captured().state.searching).toBe(true);
+      expect(symbols(captured())).toEqual(["ETH-USDT", "ETH-BTC"]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Keyboard navigation
+  // -------------------------------------------------------------------------
+  describe("keyboard navigation", () => {
+    it("moves the active row with the arrow keys, wrapping around", () => {
+      const { captured } = renderHookViaComponent();
+      act(() => {
+        captured().handler.handleKeyDown("ArrowUp");
+      });
+      expect(captured().state.activeIndex).toBe(2);
+      act(() => {
+        captured().handler.handleKeyDown("ArrowDown");
+      });
+      expect(captured().state.activeIndex).toBe(0);
+    });
+
+    it("picks the active row on Enter and closes", () => {
+      const { captured, onChange } = renderHookViaComponent();
+      act(() => captured().handler.handleOpen());
+      act(() => {
+        captured().handler.handleKeyDown("ArrowDown");
+      });
+      act(() => {
+        captured().handler.handleKeyDown("Enter");
+      });
+      expect(onChange).toHaveBeenCalledWith("ETH-USDT");
+      expect(captured().state.open).toBe(false);
+    });
+
+    it("closes on Escape and resets the search", () => {
+      const { captured } = renderHookViaComponent();
+      act(() => captured().handler.handleOpen());
+      act(() => captured().handler.handleQueryChange("xrp"));
+      act(() => {
+        captured().handler.handleKeyDown("Escape");
+      });
+      expect(captured().state.open).toBe(false);
+      expect(captured().state.query).toBe("");
+    });
+
+    it("leaves other keys to the input", () => {
+      const { captured } = renderHookViaComponent();
+      let handled = true;
+      act(() => {
+        handled = captured().handler.handleKeyDown("a");
+      });
+      expect(handled).toBe(false);
+    });
+
+    it("opens on Ctrl+K", () => {
+      const { captured } = renderHookViaComponent();
+      act(() => {
+        window.dispatchEvent(
+          new KeyboardEvent("keydown", { key: "k", ctrlKey: true }),
+        );
+      });
+      expect(captured().state.open).toBe(true);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Favorites
+  // -------------------------------------------------------------------------
+  describe("favorites", () => {
+    it("toggles a favorite and persists it", () => {
+      const { captured } = renderHookViaComponent();
+      act(() => captured().handler.handleToggleFavorite("XRP-BTC"));
+      expect(captured().state.favorites).toEqual(["XRP-BTC"]);
+      expect(JSON.parse(localStorage.getItem(FAVORITES_STORAGE_KEY)!)).toEqual([
+        "XRP-BTC",
+      ]);
+
+      act(() => captured().handler.handleToggleFavorite("XRP-BTC"));
+      expect(captured().state.favorites).toEqual([]);
+    });
+
+    it("restores favorites saved by an earlier session", () => {
+      localStorage.setItem(FAVORITES_STORAGE_KEY, '["ETH-BTC"]');
+      const { captured } = renderHookViaComponent();
+      act(() => captured().handler.handleTabChange("favorites"));
+      expect(symbols(captured())).toEqual(["ETH-BTC"]);
+    });
+
+    it("ignores corrupt saved favorites", () => {
+      localStorage.setItem(FAVORITES_STORAGE_KEY, "{not json");
+      const { captured } = renderHookViaComponent();
+      expect(captured().state.favorites).toEqual([]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Tickers
+  // -------------------------------------------------------------------------
+  describe("tickers", () => {
+    it("derives each pair's ticker from its hourly candles on open", async () => {
+      mockFetchCandles.mockResolvedValue(candles(100, 110));
+      const { captured } = renderHookViaComponent();
+      expect(mockFetchCandles).not.toHaveBeenCalled();
+
+      act(() => captured().handler.handleOpen());
+      expect(mockFetchCandles).toHaveBeenCalledTimes(pairs.length);
+      expect(mockFetchCandles).toHaveBeenCalledWith(
+        "ETH-USDT",
+        "1H",
+        expect.objectContaining({ onRevalidate: expect.any(Function) }),
+      );
+      await waitFor(() =>
+        expect(captured().state.tickers["ETH-USDT"]).toMatchObject({
+          last: 110,
+          changePercent: 10,
+        }),
+      );
+    });
+
+    it("updates a ticker when fresher candles arrive", async () => {
+      mockFetchCandles.mockResolvedValue(candles(100, 110));
+      const { captured } = renderHookViaComponent();
+
+      act(() => captured().handler.handleOpen());
+      await waitFor(() =>
+        expect(captured().state.tickers["BTC-USDT"]?.last).toBe(110),
+      );
+      const onRevalidate = mockFetchCandles.mock.calls[0][2]?.onRevalidate;
+      act(() => onRevalidate?.(candles(100, 120)));
+
+      expect(captured().state.tickers["BTC-USDT"]?.last).toBe(120);
+    });
+
+    it("prefers live tickers over the ones derived from candles", async () => {
+      mockFetchCandles.mockResolvedValue(candles(100, 110));
+      const live: Ticker = {
+        pair: "BTC-USDT",
+        last: 150,
+        change: 50,
+        changePercent: 50,
+        high: 150,
+        low: 100,
+        volume: 5,
+      };
+      const { captured } = renderHookViaComponent("BTC-USDT", pairs, {
+        "BTC-USDT": live,
+      });
+
+      act(() => captured().handler.handleOpen());
+      await waitFor(() =>
+        expect(captured().state.tickers["ETH-USDT"]?.last).toBe(110),
+      );
+      expect(captured().state.tickers["BTC-USDT"]).toBe(live);
+    });
+
+    it("leaves a pair without a ticker when its candles fail to load", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetchCandles.mockRejectedValue(new Error("boom"));
+      const { captured } = renderHookViaComponent();
+
+      act(() => captured().handler.handleOpen());
+      await waitFor(() =>
+        expect(console.warn).toHaveBeenCalledTimes(pairs.length),
+      );
+      expect(captured().state.tickers).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/* eslint-disable react-hooks/globals */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, act, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import type { CryptoPair, Trade } from "../../services/apiTypes";
+import { useTradeTapeController } from "../trades/useTradeTapeController";
+import { TAPE_ROW_HEIGHT } from "../trades/tradesTypes";
+
+// ---------------------------------------------------------------------------
+// Mock fetchTrades
+// ---------------------------------------------------------------------------
+vi.mock("../../services/cryptoApiService", () => ({
+  fetchTrades: vi.fn(),
+}));
+
+import { fetchTrades } from "../../services/cryptoApiService";
+const mockFetchTrades = vi.mocked(fetchTrades);
+
+// ---------------------------------------------------------------------------
+// Sample data
+// ---------------------------------------------------------------------------
+const trade = (id: string, time: number, pair: CryptoPair = "BTC-USDT") => ({
+  id,
+  pair,
+  price: 30000,
+  amount: 1,
+  side: "sell" as const,
+  time,
+});
+
+const history: Trade[] = Array.from({ length: 100 }, (_, i) =>
+  trade(`h${i}`, 1_000 - i),
+);
+
+// ---------------------------------------------------------------------------
+// Helper: render hook via component
+// ---------------------------------------------------------------------------
+type HookResult = ReturnType<typeof useTradeTapeController>;
+
+function renderHookViaComponent(
+  pair: CryptoPair = "BTC-USDT",
+  liveTrades: Trade[] = [],
+) {
+  let captured: HookResult | undefined;
+
+  function TestComponent({ p, l }: { p: CryptoPair; l: Trade[] }) {
+    captured = useTradeTapeController({ pair: p, liveTrades: l });
+    return null;
+  }
+
+  const renderResult = render(
+    createElement(TestComponent, { p: pair, l: liveTrades }),
+  );
+
+  const rerender = (newPair: CryptoPair, newLive: Trade[] = []) =>
+    renderResult.rerender(
+      createElement(TestComponent, { p: newPair, l: newLive }),
+    );
+
+  return { captured: () => captured as HookResult, rerender };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+describe("useTradeTapeController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetchTrades.mockResolvedValue(history);
+  });
+
+  describe("loading", () => {
+    it("fetches the trade history for the pair", async () => {
+      const { captured } = renderHookViaComponent("ETH-USDT");
+      expect(captured().state.loading).toBe(true);
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+      expect(mockFetchTrades).toHaveBeenCalledWith("ETH-USDT");
+    });
+
+    it("sets an error when the fetch fails", async () => {
+      mockFetchTrades.mockRejectedValue(new Error("network error"));
+      const { captured } = renderHookViaComponent();
+      await waitFor(() =>
+        expect(captured().state.error).toBe("Failed to fetch trades"),
+      );
+    });
+  });
+
+  describe("tape", () => {
+    it("puts live trades above the history", async () => {
+      const { captured } = renderHookViaComponent("BTC-USDT", [
+        trade("live", 2_000),
+      ]);
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+
+      const { trades } = captured().state;
+      expect(trades).toHaveLength(101);
+      expect(trades[0].id).toBe("live");
+    });
+
+    it("hides trades that belong to another pair", async () => {
+      const { captured } = renderHookViaComponent("BTC-USDT", [
+        trade("eth", 2_000, "ETH-USDT"),
+      ]);
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+      expect(captured().state.trades.map((t) => t.pair)).not.toContain(
+        "ETH-USDT",
+      );
+    });
+
+    it("computes the median amount of the tape", async () => {
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+      expect(captured().state.medianAmount).toBe(1);
+    });
+  });
+
+  describe("virtualization", () => {
+    it("only exposes the rows around the viewport", async () => {
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+
+      const { visibleTrades, visibleStart } = captured().state;
+      expect(visibleStart).toBe(0);
+      expect(visibleTrades.length).toBeLessThan(history.length);
+      expect(visibleTrades[0].id).toBe("h0");
+    });
+
+    it("moves the window when the tape is scrolled", async () => {
+      const { captured } = renderHookViaComponent();
+      await waitFor(() => expect(captured().state.loading).toBe(false));
+
+      act(() => captured().handler.handleScroll(50 * TAPE_ROW_HEIGHT));
+
+      const { visibleTrades, visibleStart } = captured().state;
+      expect(visibleStart).toBeGreaterThan(0);
+      expect(visibleTrades[0].id).toBe(`h${visibleStart}`);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  getSparklinePoints,
+  loadWatchlist,
+  saveWatchlist,
+} from "../watchlist/utils";
+import { WATCHLIST_STORAGE_KEY } from "../watchlist/watchlistTypes";
+
+describe("watchlist utils", () => {
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+  describe("loadWatchlist / saveWatchlist", () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("starts with the default pairs when nothing is saved", () => {
+      expect(loadWatchlist()).toEqual(["BTC-USDT", "ETH-USDT", "XRP-USDT"]);
+    });
+
+    it("round-trips a saved watchlist", () => {
+      saveWatchlist(["XRP-USDT"]);
+      expect(loadWatchlist()).toEqual(["XRP-USDT"]);
+    });
+
+    it("falls back to the defaults when the saved value is corrupt", () => {
+      localStorage.setItem(WATCHLIST_STORAGE_KEY, '{"pairs": 1}');
+      expect(loadWatchlist()).toHaveLength(3);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // getSparklinePoints
+  // -------------------------------------------------------------------------
+  describe("getSparklinePoints", () => {
+    it("spreads the values across the width, highest at the top", () => {
+      expect(getSparklinePoints([1, 3, 2], 10, 4)).toBe("0,4 5,0 10,2");
+    });
+
+    it("draws a flat series through the middle", () => {
+      expect(getSparklinePoints([5, 5], 10, 4)).toBe("0,2 10,2");
+    });
+
+    it("returns nothing for fewer than two values", () => {
+      expect(getSparklinePoints([5], 10, 4)).toBe("");
+      expect(getSparklinePoints([], 10, 4)).toBe("");
+    });
+  });
+});
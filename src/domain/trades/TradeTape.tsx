@@ -0,0 +1,153 @@
+import type { CSSProperties } from "react";
+import type { PairInfo, Trade } from "../../services/apiTypes";
+import { formatAmount, formatPrice } from "../orderbook/utils";
+import {
+  TAPE_ROW_HEIGHT,
+  TAPE_VIEWPORT_HEIGHT,
+  type TradeSizeTier,
+} from "./tradesTypes";
+import {
+  useTradeTapeController,
+  type TradeTapeProps,
+} from "./useTradeTapeController";
+import { formatTradeTime, getSizeTier } from "./utils";
+
+const TIER_BACKGROUND: Record<Trade["side"], Record<TradeSizeTier, string>> = {
+  buy: {
+    normal: "",
+    medium: "bg-teal-500/10",
+    large: "bg-teal-500/25 font-semibold",
+  },
+  sell: {
+    normal: "",
+    medium: "bg-red-500/10",
+    large: "bg-red-500/25 font-semibold",
+  },
+};
+
+/**
+ * One print on the tape. Positioned absolutely by the virtualizer, so it
+ * must keep exactly TAPE_ROW_HEIGHT.
+ */
+function TradeRow({
+  trade,
+  pairInfo,
+  tier,
+  style,
+}: {
+  trade: Trade;
+  pairInfo: PairInfo | undefined;
+  tier: TradeSizeTier;
+  style: CSSProperties;
+}) {
+  const priceColor = trade.side === "buy" ? "text-teal-400" : "text-red-400";
+
+  return (
+    <div
+      className={`absolute inset-x-0 grid grid-cols-3 items-center px-3 text-xs font-mono ${TIER_BACKGROUND[trade.side][tier]}`}
+      style={style}
+      data-side={trade.side}
+      data-tier={tier}
+    >
+      <span className={priceColor}>{formatPrice(trade.price, pairInfo)}</span>
+      <span className="text-slate-300 text-right">
+        {formatAmount(trade.amount)}
+      </span>
+      <span className="text-slate-500 text-right">
+        {formatTradeTime(trade.time)}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * TradeTape component.
+ *
+ * Time & sales for the given pair: REST history topped up by the live
+ * `trades` stream, newest first. Buys are green and sells red; trades well
+ * above the median size are highlighted. Only the rows in view are
+ * rendered, so the tape stays cheap however many trades it holds.
+ */
+export function TradeTape({ pair, pairInfo, liveTrades }: TradeTapeProps) {
+  const {
+    state: {
+      trades,
+      visibleTrades,
+      visibleStart,
+      medianAmount,
+      loading,
+      error,
+    },
+    handler: { handleScroll },
+  } = useTradeTapeController({ pair, liveTrades });
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium tracking-widest uppercase text-slate-500">
+          Trades
+        </span>
+        <span className="text-xs text-slate-600">{pair}</span>
+      </div>
+      {error ? (
+        <div className="flex items-center justify-center rounded-lg border border-slate-800 bg-slate-900 p-6 min-h-[200px]">
+          <p className="text-xs text-red-400 text-center">{error}</p>
+        </div>
+      ) : (
+        <div className="flex flex-col bg-slate-900 rounded-lg border border-slate-800 overflow-hidden">
+          <div className="grid grid-cols-3 px-3 py-2 border-b border-slate-800 shrink-0">
+            <span className="text-xs font-medium tracking-widest uppercase text-slate-500">
+              Price
+            </span>
+            <span className="text-xs font-medium tracking-widest uppercase text-slate-500 text-right">
+              Amount
+            </span>
+            <span className="text-xs font-medium tracking-widest uppercase text-slate-500 text-right">
+              Time
+            </span>
+          </div>
+          <div
+            role="log"
+            aria-label="Recent trades"
+            className="relative overflow-y-auto"
+            style={{ height: TAPE_VIEWPORT_HEIGHT }}
+            onScroll={(e) => handleScroll(e.currentTarget.scrollTop)}
+          >
+            {loading && trades.length === 0 ? (
+              <div className="flex flex-col gap-1.5 p-3">
+                {Array.from({ length: 12 }).map((_, i) => (
+                  <div
+                    key={i}
+                    className="h-3 rounded bg-slate-800 animate-pulse"
+                  />
+                ))}
+              </div>
+            ) : trades.length === 0 ? (
+              <p className="p-6 text-center text-xs text-slate-500">
+                No trades yet
+              </p>
+            ) : (
+              <div
+                className="relative"
+                style={{ height: trades.length * TAPE_ROW_HEIGHT }}
+              >
+                {visibleTrades.map((trade, i) => (
+                  <TradeRow
+                    key={trade.id}
+                    trade={trade}
+                    pairInfo={pairInfo}
+                    tier={getSizeTier(trade.amount, medianAmount)}
+                    style={{
+                      top: (visibleStart + i) * TAPE_ROW_HEIGHT,
+                      height: TAPE_ROW_HEIGHT,
+                    }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { MAX_LIVE_TRADES } from "../../common/hooks/useCryptoWebSocket";
+
+/**
+ * Trades kept on the tape (REST history plus live), newest first — the
+ * same limit the socket hook keeps live trades to.
+ */
+export const MAX_TAPE_TRADES = MAX_LIVE_TRADES;
+
+/** Height (px) of one tape row — the virtualizer relies on it being fixed. */
+export const TAPE_ROW_HEIGHT = 20;
+
+/** Height (px) of the scrolling tape. */
+export const TAPE_VIEWPORT_HEIGHT = 480;
+
+/** Rows rendered above and below the visible window to hide scroll gaps. */
+export const TAPE_OVERSCAN = 8;
+
+/**
+ * How a trade's size compares with the typical trade on the tape.
+ * Large prints are highlighted so block trades stand out.
+ */
+export type TradeSizeTier = "normal" | "medium" | "large";
+
+/** Multiples of the median amount at which a trade moves up a tier. */
+export const SIZE_TIER_MULTIPLIERS: Record<
+  Exclude<TradeSizeTier, "normal">,
+  number
+> = {
+  medium: 2,
+  large: 5,
+};
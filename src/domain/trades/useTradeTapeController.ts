@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import type { CryptoPair, PairInfo, Trade } from "../../services/apiTypes";
+import { fetchTrades } from "../../services/cryptoApiService";
+import {
+  MAX_TAPE_TRADES,
+  TAPE_OVERSCAN,
+  TAPE_ROW_HEIGHT,
+  TAPE_VIEWPORT_HEIGHT,
+} from "./tradesTypes";
+import { getMedianAmount, getVisibleRange, mergeTrades } from "./utils";
+
+export interface TradeTapeProps {
+  pair: CryptoPair;
+  /** Catalogue entry of `pair`, for its price decimals. */
+  pairInfo?: PairInfo;
+  /** Live trades from the WebSocket stream, newest first. */
+  liveTrades: Trade[];
+}
+
+export function useTradeTapeController({ pair, liveTrades }: TradeTapeProps) {
+  const [history, setHistory] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await fetchTrades(pair);
+        if (!cancelled) {
+          setHistory(data);
+          setLoading(false);
+        }
+      } catch {
+        if (!cancelled) {
+          setError("Failed to fetch trades");
+          setLoading(false);
+        }
+      }
+    };
+    fetchData();
+    return () => {
+      cancelled = true;
+    };
+  }, [pair]);
+
+  // History from the previous pair lingers until the new fetch resolves
+  const trades = mergeTrades(liveTrades, history, MAX_TAPE_TRADES).filter(
+    (trade) => trade.pair === pair,
+  );
+  const medianAmount = getMedianAmount(trades);
+  const { start, end } = getVisibleRange({
+    scrollTop,
+    viewportHeight: TAPE_VIEWPORT_HEIGHT,
+    rowHeight: TAPE_ROW_HEIGHT,
+    count: trades.length,
+    overscan: TAPE_OVERSCAN,
+  });
+
+  const handleScroll = (top: number) => {
+    setScrollTop(top);
+  };
+
+  return {
+    state: {
+      trades,
+      visibleTrades: trades.slice(start, end),
+      visibleStart: start,
+      medianAmount,
+      loading,
+      error,
+    },
+    handler: {
+      handleScroll,
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import type { Trade } from "../../services/apiTypes";
+import { SIZE_TIER_MULTIPLIERS, type TradeSizeTier } from "./tradesTypes";
+
+/**
+ * Combine live trades with the REST history into one tape, newest first.
+ * Live trades win over history entries with the same id, and the result
+ * is capped at `max` trades.
+ */
+export function mergeTrades(
+  live: readonly Trade[],
+  history: readonly Trade[],
+  max: number,
+): Trade[] {
+  const seen = new Set<string>();
+  const merged: Trade[] = [];
+  for (const trade of [...live, ...history]) {
+    if (seen.has(trade.id)) continue;
+    seen.add(trade.id);
+    merged.push(trade);
+  }
+  return merged.sort((a, b) => b.time - a.time).slice(0, max);
+}
+
+/**
+ * Median trade amount, or 0 for an empty tape.
+ */
+export function getMedianAmount(trades: readonly Trade[]): number {
+  if (trades.length === 0) return 0;
+  const amounts = trades.map((t) => t.amount).sort((a, b) => a - b);
+  const middle = Math.floor(amounts.length / 2);
+  return amounts.length % 2 === 0
+    ? (amounts[middle - 1] + amounts[middle]) / 2
+    : amounts[middle];
+}
+
+/**
+ * Classify a trade's size relative to the median amount on the tape.
+ * Relative tiers work for every pair, whatever its typical lot size.
+ */
+export function getSizeTier(
+  amount: number,
+  medianAmount: number,
+): TradeSizeTier {
+  if (medianAmount <= 0) return "normal";
+  if (amount >= medianAmount * SIZE_TIER_MULTIPLIERS.large) return "large";
+  if (amount >= medianAmount * SIZE_TIER_MULTIPLIERS.medium) return "medium";
+  return "normal";
+}
+
+/**
+ * Rows to render for a virtualized list with fixed-height rows:
+ * the visible window plus `overscan` rows either side, clamped to the list.
+ * `end` is exclusive.
+ */
+export function getVisibleRange({
+  scrollTop,
+  viewportHeight,
+  rowHeight,
+  count,
+  overscan,
+}: {
+  scrollTop: number;
+  viewportHeight: number;
+  rowHeight: number;
+  count: number;
+  overscan: number;
+}): { start: number; end: number } {
+  const first = Math.floor(scrollTop / rowHeight);
+  const visible = Math.ceil(viewportHeight / rowHeight);
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, first + visible + overscan),
+  };
+}
+
+/**
+ * Format an execution time as a 24-hour HH:MM:SS wall-clock time.
+ */
+export function formatTradeTime(time: number): string {
+  return new Date(time).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+}
@@ -0,0 +1,149 @@
+import { formatPairLabel } from "../../common/utils/pairCatalogue";
+import { formatPrice } from "../orderbook/utils";
+import {
+  useWatchlistController,
+  type WatchlistProps,
+  type WatchlistRow,
+} from "./useWatchlistController";
+import { getSparklinePoints } from "./utils";
+import { SPARKLINE_HEIGHT, SPARKLINE_WIDTH } from "./watchlistTypes";
+
+function Sparkline({ values, up }: { values: number[]; up: boolean }) {
+  return (
+    <svg
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      className="shrink-0 overflow-visible"
+      aria-hidden="true"
+    >
+      <polyline
+        points={getSparklinePoints(values, SPARKLINE_WIDTH, SPARKLINE_HEIGHT)}
+        fill="none"
+        strokeWidth={1.5}
+        className={up ? "stroke-teal-400" : "stroke-red-400"}
+      />
+    </svg>
+  );
+}
+
+function WatchlistItem({
+  row: { pair, info, label, halted, ticker, sparkline },
+  selected,
+  onSelect,
+  onRemove,
+}: {
+  row: WatchlistRow;
+  selected: boolean;
+  onSelect: () => void;
+  onRemove: () => void;
+}) {
+  const change = ticker?.changePercent ?? 0;
+  const changeColor =
+    change > 0
+      ? "text-teal-400"
+      : change < 0
+        ? "text-red-400"
+        : "text-slate-300";
+
+  return (
+    <li
+      className={`group flex items-center rounded-md ${
+        selected ? "bg-slate-800" : "hover:bg-slate-800/60"
+      }`}
+      data-pair={pair}
+    >
+      <button
+        type="button"
+        onClick={onSelect}
+        aria-current={selected || undefined}
+        className="flex flex-1 items-center gap-3 min-w-0 px-2 py-1.5 text-left focus:outline-none focus:ring-1 focus:ring-teal-500 rounded-md"
+      >
+        <span className="flex flex-col min-w-0 flex-1">
+          <span className="flex items-center gap-1.5 text-sm text-slate-100">
+            <span className="truncate">{label}</span>
+            {halted && (
+              <span className="rounded bg-amber-500/15 px-1 text-[10px] uppercase tracking-wider text-amber-300">
+                Halted
+              </span>
+            )}
+          </span>
+          <span className="text-xs font-mono text-slate-300">
+            {ticker ? formatPrice(ticker.last, info) : "—"}
+            <span className={`ml-2 ${changeColor}`}>
+              {ticker ? `${change > 0 ? "+" : ""}${change.toFixed(2)}%` : ""}
+            </span>
+          </span>
+        </span>
+        <Sparkline values={sparkline} up={change >= 0} />
+      </button>
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label={`Remove ${label} from watchlist`}
+        className="px-2 text-slate-600 hover:text-slate-300 opacity-0 group-hover:opacity-100 focus:opacity-100 focus:outline-none"
+      >
+        ×
+      </button>
+    </li>
+  );
+}
+
+/**
+ * Watchlist
+ *
+ * Sidebar following several pairs at once: last price, 24h change and a
+ * 24h sparkline per pair, all updating live over the shared WebSocket.
+ * Clicking a row selects the pair; pairs are added from the catalogue and
+ * removed with the × on hover.
+ */
+export function Watchlist(props: WatchlistProps) {
+  const {
+    state: { rows, addablePairs, selectedPair },
+    handler: { handleSelect, handleAdd, handleRemove },
+  } = useWatchlistController(props);
+
+  return (
+    <section aria-label="Watchlist" className="flex flex-col gap-2">
+      <span className="text-xs font-medium tracking-widest uppercase text-slate-500">
+        Watchlist
+      </span>
+      <div className="flex flex-col gap-1 rounded-lg border border-slate-800 bg-slate-900 p-1.5">
+        {rows.length === 0 ? (
+          <p className="p-4 text-center text-xs text-slate-500">
+            No pairs watched
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-0.5">
+            {rows.map((row) => (
+              <WatchlistItem
+                key={row.pair}
+                row={row}
+                selected={row.pair === selectedPair}
+                onSelect={() => handleSelect(row.pair)}
+                onRemove={() => handleRemove(row.pair)}
+              />
+            ))}
+          </ul>
+        )}
+        {addablePairs.length > 0 && (
+          <select
+            aria-label="Add pair to watchlist"
+            value=""
+            onChange={(e) => handleAdd(e.target.value)}
+            className="mt-1 w-full cursor-pointer rounded-md border border-dashed border-slate-700 bg-transparent px-2 py-1 text-xs text-slate-400 hover:border-slate-500 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          >
+            <option value="" disabled>
+              + Add pair
+            </option>
+            {addablePairs.map((pair) => (
+              <option key={pair.symbol} value={pair.symbol}>
+                {formatPairLabel(pair)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </section>
+  );
+}
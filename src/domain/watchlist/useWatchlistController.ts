@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import type {
+  Candle,
+  CryptoPair,
+  PairInfo,
+  Ticker,
+} from "../../services/apiTypes";
+import { fetchCandles } from "../../services/cryptoApiService";
+import { formatPairLabel, getPairInfo } from "../../common/utils/pairCatalogue";
+import { computeTicker, mergeLiveCandle } from "../../common/utils/ticker";
+import { SPARKLINE_POINTS } from "./watchlistTypes";
+
+export interface WatchlistProps {
+  /** The pair catalogue, for labels and the "add" menu. */
+  pairs: PairInfo[];
+  /** Watched pairs, in display order. */
+  watchlist: CryptoPair[];
+  selectedPair: CryptoPair;
+  /** Latest live candle per watched pair, from the WebSocket stream. */
+  liveCandles: Partial<Record<CryptoPair, Candle>>;
+  /** Latest pushed ticker per watched pair, from the WebSocket stream. */
+  liveTickers: Partial<Record<CryptoPair, Ticker>>;
+  onSelect: (pair: CryptoPair) => void;
+  onAdd: (pair: CryptoPair) => void;
+  onRemove: (pair: CryptoPair) => void;
+}
+
+export interface WatchlistRow {
+  pair: CryptoPair;
+  /** Catalogue entry, missing once the catalogue no longer lists the pair. */
+  info: PairInfo | undefined;
+  label: string;
+  halted: boolean;
+  /** Null until the pair's history (or a pushed ticker) has arrived. */
+  ticker: Ticker | null;
+  /** Recent hourly closes, oldest first. */
+  sparkline: number[];
+}
+
+export function useWatchlistController({
+  pairs,
+  watchlist,
+  selectedPair,
+  liveCandles,
+  liveTickers,
+  onSelect,
+  onAdd,
+  onRemove,
+}: WatchlistProps) {
+  const [history, setHistory] = useState<Partial<Record<CryptoPair, Candle[]>>>(
+    {},
+  );
+
+  // Hourly history per pair — served from the candle cache after the
+  // first load, so re-running on every watchlist change is cheap. Cached
+  // history may be stale; the row redraws once the fresh candles arrive
+  useEffect(() => {
+    let cancelled = false;
+    const store = (pair: CryptoPair, data: Candle[]) => {
+      if (!cancelled) setHistory((current) => ({ ...current, [pair]: data }));
+    };
+    for (const pair of watchlist) {
+      fetchCandles(pair, "1H", {
+        onRevalidate: (fresh) => store(pair, fresh),
+      })
+        .then((data) => store(pair, data))
+        .catch((error: unknown) => {
+          // The row simply stays without a price
+          console.warn(
+            `[watchlist] failed to load candles for ${pair}:`,
+            error,
+          );
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [watchlist]);
+
+  const rows: WatchlistRow[] = watchlist.map((pair) => {
+    const info = getPairInfo(pair, pairs);
+    const pairHistory = history[pair];
+    const candles = pairHistory
+      ? mergeLiveCandle(pairHistory, liveCandles[pair] ?? null)
+      : null;
+    return {
+      pair,
+      info,
+      label: info ? formatPairLabel(info) : pair,
+      halted: info?.status === "halted",
+      ticker:
+        liveTickers[pair] ?? (candles ? computeTicker(pair, candles) : null),
+      sparkline: candles
+        ? candles.slice(-SPARKLINE_POINTS).map((c) => c.close)
+        : [],
+    };
+  });
+  const addablePairs = pairs.filter((p) => !watchlist.includes(p.symbol));
+
+  const handleSelect = (pair: CryptoPair) => {
+    onSelect(pair);
+  };
+  const handleAdd = (pair: CryptoPair) => {
+    onAdd(pair);
+  };
+  const handleRemove = (pair: CryptoPair) => {
+    onRemove(pair);
+  };
+
+  return {
+    state: {
+      rows,
+      addablePairs,
+      selectedPair,
+    },
+    handler: {
+      handleSelect,
+      handleAdd,
+      handleRemove,
+    },
+  };
+}
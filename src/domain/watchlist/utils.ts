@@ -0,0 +1,43 @@
+import type { CryptoPair } from "../../services/apiTypes";
+import { DEFAULT_PAIRS } from "../../common/utils/pairCatalogue";
+import { loadStringList, saveStringList } from "../../common/utils/storage";
+import { WATCHLIST_STORAGE_KEY } from "./watchlistTypes";
+
+/**
+ * The watched pairs saved by a previous session. First-time visitors start
+ * with the default pairs; a watchlist the user emptied stays empty.
+ */
+export function loadWatchlist(): CryptoPair[] {
+  return (
+    loadStringList(WATCHLIST_STORAGE_KEY) ??
+    DEFAULT_PAIRS.map((pair) => pair.symbol)
+  );
+}
+
+export function saveWatchlist(watchlist: readonly CryptoPair[]): void {
+  saveStringList(WATCHLIST_STORAGE_KEY, watchlist);
+}
+
+/**
+ * SVG polyline points for a sparkline of `values` filling width × height,
+ * oldest value on the left. A flat series is drawn through the middle.
+ * Empty for fewer than two values — there is no line to draw.
+ */
+export function getSparklinePoints(
+  values: readonly number[],
+  width: number,
+  height: number,
+): string {
+  if (values.length < 2) return "";
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  const step = width / (values.length - 1);
+  return values
+    .map((value, i) => {
+      const y =
+        range === 0 ? height / 2 : height - ((value - min) / range) * height;
+      return `${+(i * step).toFixed(2)},${+y.toFixed(2)}`;
+    })
+    .join(" ");
+}
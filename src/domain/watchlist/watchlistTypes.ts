@@ -0,0 +1,9 @@
+/** localStorage key the watched pairs are persisted under. */
+export const WATCHLIST_STORAGE_KEY = "cryptoDashboard.watchlist";
+
+/** Hourly closes drawn in each row's sparkline — the last 24h. */
+export const SPARKLINE_POINTS = 24;
+
+/** Drawing size (px) of a row's sparkline. */
+export const SPARKLINE_WIDTH = 80;
+export const SPARKLINE_HEIGHT = 24;
@@ -1,10 +1,13 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
+import { StreamClientProvider } from "./common/components/StreamClientProvider.tsx";
 import Dashboard from "./domain/dashboard/Dashboard.tsx";
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
-    <Dashboard />
+    <StreamClientProvider>
+      <Dashboard />
+    </StreamClientProvider>
   </StrictMode>,
 );
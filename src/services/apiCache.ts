@@ -1,67 +1,302 @@
 /**
- * Simple in-memory cache with optional TTL (time-to-live).
+ * Client-side cache for REST responses, with per-entry TTL, an LRU size
+ * cap, stale-while-revalidate and optional persistence.
  *
  * Used to prevent redundant REST API calls when the user re-selects
- * a crypto pair whose data has already been fetched this session.
+ * a crypto pair whose data has already been fetched this session — and,
+ * with a storage adapter (see cacheStorage.ts), after a reload too.
  */
 
+import type { CacheStorage, StoredEntry } from "./cacheStorage";
+
 interface CacheEntry<T> {
   data: T;
   /** Timestamp (ms) when this entry was stored */
   storedAt: number;
+  /** How long (ms) after `storedAt` the entry is fresh */
+  ttlMs: number;
+}
+
+export interface CacheOptions<T> {
+  /** How long (ms) an entry is fresh unless `set` says otherwise. Defaults to Infinity. */
+  ttlMs?: number;
+  /**
+   * How long (ms) past its TTL an entry is still served by `getOrLoad`
+   * while it is refreshed in the background. Defaults to 0.
+   */
+  staleMs?: number;
+  /** Least recently used entries are evicted beyond this many. Defaults to Infinity. */
+  maxEntries?: number;
+  /** Where entries are persisted. Memory-only when omitted. */
+  storage?: CacheStorage;
+  /**
+   * Rebuild a value loaded from `storage`; throw to drop the entry.
+   * Persisted data may predate the current code, so check it here.
+   */
+  revive?: (data: unknown) => T;
+}
+
+export interface CacheStats {
+  /** Lookups answered by a fresh entry */
+  hits: number;
+  /** Lookups answered by a stale entry while it was refreshed */
+  staleHits: number;
+  /** Lookups that found nothing usable */
+  misses: number;
+  /** Entries dropped to stay within `maxEntries` */
+  evictions: number;
+  /** Entries currently held, fresh or stale */
+  size: number;
 }
 
 export interface Cache<T> {
-  /** Store a value under `key`. */
-  set: (key: string, data: T) => void;
+  /** Store a value under `key`, fresh for `ttlMs` (defaults to the cache's TTL). */
+  set: (key: string, data: T, ttlMs?: number) => void;
   /**
    * Retrieve a cached value.
-   * Returns `undefined` when the key is missing or the entry has expired.
+   * Returns `undefined` when the key is missing or the entry is not fresh.
    */
   get: (key: string) => T | undefined;
   /** Check whether a fresh value exists for `key`. */
   has: (key: string) => boolean;
+  /**
+   * The value under `key`, fresh or stale. Unlike `get`, it is neither
+   * counted in the stats nor marked as recently used.
+   */
+  peek: (key: string) => T | undefined;
+  /**
+   * Replace the value of the entry under `key`, fresh or stale, without
+   * changing when it goes stale. Does nothing when there is no entry.
+   */
+  update: (key: string, change: (data: T) => T) => void;
   /** Manually invalidate a single key. */
   delete: (key: string) => void;
   /** Clear the entire cache. */
   clear: () => void;
+  /**
+   * Stale-while-revalidate lookup. A fresh entry is returned as is; a
+   * stale one is returned at once while `load` refreshes it in the
+   * background, and `onRevalidate` receives the refreshed value. Without
+   * an entry, `load` is awaited and its result cached.
+   */
+  getOrLoad: (
+    key: string,
+    load: () => Promise<T>,
+    onRevalidate?: (data: T) => void,
+  ) => Promise<T>;
+  /** Hit, miss and eviction counts since the cache was created. */
+  getStats: () => CacheStats;
+  /** Settles once the entries persisted in `storage` have been loaded. */
+  ready: Promise<void>;
 }
 
 /**
- * Creates an in-memory cache.
+ * Creates a cache.
  *
- * @param ttlMs  How long (ms) a cached value is considered fresh.
- *               Defaults to Infinity (never expires within a session).
+ * @param options  A CacheOptions object, or just the TTL (ms) for a plain
+ *                 in-memory cache. The TTL defaults to Infinity (never
+ *                 expires within a session).
  */
-export function createCache<T>(ttlMs: number = Infinity): Cache<T> {
+export function createCache<T>(
+  options: number | CacheOptions<T> = {},
+): Cache<T> {
+  const {
+    ttlMs: defaultTtlMs = Infinity,
+    staleMs = 0,
+    maxEntries = Infinity,
+    storage,
+    revive = (data: unknown) => data as T,
+  } = typeof options === "number" ? { ttlMs: options } : options;
+
+  // Map order doubles as LRU order: least recently used first
   const store = new Map<string, CacheEntry<T>>();
+  const revalidating = new Map<string, Promise<T>>();
+  const stats = { hits: 0, staleHits: 0, misses: 0, evictions: 0 };
 
-  const get = (key: string): T | undefined => {
+  const age = (entry: CacheEntry<T>) => Date.now() - entry.storedAt;
+  const isFresh = (entry: CacheEntry<T>) => age(entry) <= entry.ttlMs;
+  const isExpired = (entry: CacheEntry<T>) =>
+    age(entry) > entry.ttlMs + staleMs;
+
+  // JSON has no Infinity — a TTL that never runs out is stored as null
+  const toStored = ({ data, storedAt, ttlMs }: CacheEntry<T>): StoredEntry => ({
+    data,
+    storedAt,
+    ttlMs: Number.isFinite(ttlMs) ? ttlMs : null,
+  });
+
+  const remove = (key: string): void => {
+    store.delete(key);
+    void storage?.remove(key);
+  };
+
+  const evictOverflow = (): void => {
+    while (store.size > maxEntries) {
+      const oldest = store.keys().next().value as string;
+      remove(oldest);
+      stats.evictions++;
+    }
+  };
+
+  /** The live entry for `key`, fresh or stale, marked as recently used. */
+  const lookup = (key: string): CacheEntry<T> | undefined => {
     const entry = store.get(key);
     if (!entry) return undefined;
 
-    const isExpired = Date.now() - entry.storedAt > ttlMs;
-    if (isExpired) {
-      store.delete(key);
+    if (isExpired(entry)) {
+      remove(key);
       return undefined;
     }
 
-    return entry.data;
+    store.delete(key);
+    store.set(key, entry);
+    return entry;
+  };
+
+  const get = (key: string): T | undefined => {
+    const entry = lookup(key);
+    if (entry && isFresh(entry)) {
+      stats.hits++;
+      return entry.data;
+    }
+    stats.misses++;
+    return undefined;
+  };
+
+  const set = (key: string, data: T, ttlMs = defaultTtlMs): void => {
+    const entry = { data, storedAt: Date.now(), ttlMs };
+    store.delete(key);
+    store.set(key, entry);
+    void storage?.save(key, toStored(entry));
+    evictOverflow();
   };
 
-  const set = (key: string, data: T): void => {
-    store.set(key, { data, storedAt: Date.now() });
+  const has = (key: string): boolean => {
+    const entry = lookup(key);
+    return entry !== undefined && isFresh(entry);
   };
 
-  const has = (key: string): boolean => get(key) !== undefined;
+  const peek = (key: string): T | undefined => {
+    const entry = store.get(key);
+    return entry && !isExpired(entry) ? entry.data : undefined;
+  };
+
+  const update = (key: string, change: (data: T) => T): void => {
+    const entry = store.get(key);
+    if (!entry || isExpired(entry)) return;
+    const updated = { ...entry, data: change(entry.data) };
+    store.set(key, updated);
+    void storage?.save(key, toStored(updated));
+  };
 
   const deleteKey = (key: string): void => {
-    store.delete(key);
+    remove(key);
   };
 
   const clear = (): void => {
     store.clear();
+    void storage?.clear();
   };
 
-  return { get, set, has, delete: deleteKey, clear };
+  /** Refresh `key` in the background; concurrent refreshes share one load. */
+  const revalidate = (
+    key: string,
+    load: () => Promise<T>,
+    onRevalidate?: (data: T) => void,
+  ): void => {
+    let pending = revalidating.get(key);
+    if (!pending) {
+      pending = load()
+        .then((data) => {
+          set(key, data);
+          return data;
+        })
+        .finally(() => revalidating.delete(key));
+      pending.catch((error: unknown) => {
+        console.warn(`[cache] could not refresh ${key}:`, error);
+      });
+      revalidating.set(key, pending);
+    }
+    pending.then(onRevalidate, () => {});
+  };
+
+  // Persisted entries go behind any set while they were loading, oldest
+  // first, so the LRU order survives the reload
+  const hydrate = async (adapter: CacheStorage): Promise<void> => {
+    const persisted = await adapter.load();
+    const restored: [string, CacheEntry<T>][] = [];
+
+    for (const [key, stored] of persisted) {
+      if (store.has(key)) continue;
+      let entry: CacheEntry<T>;
+      try {
+        entry = {
+          data: revive(stored.data),
+          storedAt: stored.storedAt,
+          ttlMs: stored.ttlMs ?? Infinity,
+        };
+      } catch {
+        void adapter.remove(key);
+        continue;
+      }
+      if (isExpired(entry)) {
+        void adapter.remove(key);
+        continue;
+      }
+      restored.push([key, entry]);
+    }
+
+    const current = [...store];
+    store.clear();
+    restored.sort(([, a], [, b]) => a.storedAt - b.storedAt);
+    for (const [key, entry] of [...restored, ...current]) {
+      store.set(key, entry);
+    }
+    evictOverflow();
+  };
+
+  const ready = storage
+    ? hydrate(storage).catch((error: unknown) => {
+        console.warn("[cache] could not load persisted entries:", error);
+      })
+    : Promise.resolve();
+
+  const getOrLoad = async (
+    key: string,
+    load: () => Promise<T>,
+    onRevalidate?: (data: T) => void,
+  ): Promise<T> => {
+    await ready;
+
+    const entry = lookup(key);
+    if (entry && isFresh(entry)) {
+      stats.hits++;
+      return entry.data;
+    }
+    if (entry) {
+      stats.staleHits++;
+      revalidate(key, load, onRevalidate);
+      return entry.data;
+    }
+
+    stats.misses++;
+    const data = await load();
+    set(key, data);
+    return data;
+  };
+
+  const getStats = (): CacheStats => ({ ...stats, size: store.size });
+
+  return {
+    get,
+    set,
+    has,
+    peek,
+    update,
+    delete: deleteKey,
+    clear,
+    getOrLoad,
+    getStats,
+    ready,
+  };
 }
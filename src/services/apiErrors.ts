@@ -0,0 +1,94 @@
+/**
+ * apiErrors.ts
+ *
+ * Typed failures of a REST request, so callers can tell a backend that is
+ * down from one that answered with an error or took too long. A response
+ * that arrives but has the wrong shape is a DecodeError (see
+ * payloadValidation.ts).
+ */
+
+import { DecodeError } from "./payloadValidation";
+
+/** Base class of every transport-level failure; `url` is the request URL. */
+export class ApiError extends Error {
+  readonly url: string;
+
+  constructor(url: string, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ApiError";
+    this.url = url;
+  }
+}
+
+/** fetch() itself failed — the backend is unreachable or the request was blocked. */
+export class NetworkError extends ApiError {
+  constructor(url: string, cause: unknown) {
+    super(
+      url,
+      `Network error while reaching ${url}. Is the backend running? (${String(cause)})`,
+      { cause },
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/** The backend answered with a non-2xx status. */
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly statusText: string;
+  /** Response body, if it could be read — often the backend's explanation */
+  readonly body: string;
+
+  constructor(url: string, status: number, statusText: string, body = "") {
+    super(
+      url,
+      `HTTP ${status} ${statusText} — ${url}${body ? `: ${body}` : ""}`,
+    );
+    this.name = "HttpError";
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+/** The backend did not answer within `timeoutMs`; the request was aborted. */
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(url, `No response from ${url} within ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Whether repeating the request could succeed. Outages, timeouts, 5xx and
+ * 429 are transient; other 4xx responses and bad payloads are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 429;
+  }
+  return false;
+}
+
+/**
+ * A message for the UI: `summary` plus, for the typed failures above, a
+ * short reason — e.g. "Failed to fetch candles: the server did not respond".
+ */
+export function formatRequestError(summary: string, error: unknown): string {
+  const reason = describeRequestError(error);
+  return reason ? `${summary}: ${reason}` : summary;
+}
+
+function describeRequestError(error: unknown): string | null {
+  if (error instanceof TimeoutError) return "the server did not respond";
+  if (error instanceof NetworkError) return "the server is unreachable";
+  if (error instanceof HttpError) return `the server answered ${error.status}`;
+  if (error instanceof DecodeError) return "the server sent invalid data";
+  return null;
+}
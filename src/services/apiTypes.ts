@@ -1,7 +1,49 @@
 /**
- * Supported cryptocurrency trading pairs.
+ * Trading pair symbol, e.g. "BTC-USDT".
+ * The pairs on offer come from the backend — see `PairInfo`.
  */
-export type CryptoPair = "BTC-USDT" | "ETH-USDT" | "XRP-USDT";
+export type CryptoPair = string;
+
+/**
+ * Whether a pair can currently be traded. Halted pairs stay listed but
+ * are not streamed.
+ */
+export type PairStatus = "trading" | "halted";
+
+/**
+ * Metadata of one market, as returned by `GET /api/pairs`.
+ */
+export interface PairInfo {
+  /** e.g. "BTC-USDT" */
+  symbol: CryptoPair;
+  /** Base asset, e.g. "BTC" */
+  base: string;
+  /** Quote asset, e.g. "USDT" */
+  quote: string;
+  /** Decimal places prices are quoted with */
+  pricePrecision: number;
+  /** Decimal places amounts are quoted with */
+  amountPrecision: number;
+  /** Smallest price increment */
+  tickSize: number;
+  status: PairStatus;
+}
+
+/**
+ * Individual live data streams a client can subscribe to over the WebSocket.
+ */
+export type StreamChannel = "candles" | "orderbook" | "trades";
+
+/**
+ * Which live streams the user has chosen to follow.
+ * "all" follows every channel; the others follow a single one.
+ */
+export type StreamMode = "all" | StreamChannel;
+
+/**
+ * Candle resolutions the chart can display.
+ */
+export type Timeframe = "1m" | "5m" | "15m" | "1H" | "4H" | "1D" | "1W";
 
 /**
  * Represents a single OHLCV candlestick data point.
@@ -38,8 +80,112 @@ export interface OrderBook {
   bids: OrderBookEntry[];
   /** Server timestamp (ms) of the snapshot */
   timestamp: number;
+  /** Sequence number of the last delta included in the snapshot, if any */
+  sequence?: number;
+}
+
+/**
+ * Incremental change to the order book for a trading pair.
+ *
+ * Each entry sets the amount resting at its price; an amount of 0 removes
+ * the level. Sequence numbers increase by exactly 1 per delta, so a jump
+ * means a delta was missed and the local book can no longer be trusted.
+ */
+export interface OrderBookDelta {
+  pair: CryptoPair;
+  sequence: number;
+  /** Changed ask levels */
+  asks: OrderBookEntry[];
+  /** Changed bid levels */
+  bids: OrderBookEntry[];
+  /** Server timestamp (ms) of the change */
+  timestamp: number;
+}
+
+/**
+ * Rolling 24-hour summary of a trading pair.
+ */
+export interface Ticker {
+  pair: CryptoPair;
+  /** Last traded price */
+  last: number;
+  /** last − price 24 hours ago */
+  change: number;
+  /** `change` as a percentage of the price 24 hours ago */
+  changePercent: number;
+  /** Highest price over the last 24 hours */
+  high: number;
+  /** Lowest price over the last 24 hours */
+  low: number;
+  /** Base-currency volume traded over the last 24 hours */
+  volume: number;
+}
+
+/**
+ * A single executed trade.
+ */
+export interface Trade {
+  /** Exchange trade id, unique per pair */
+  id: string;
+  pair: CryptoPair;
+  price: number;
+  amount: number;
+  /** Side of the taker — "buy" lifted an ask, "sell" hit a bid */
+  side: "buy" | "sell";
+  /** Unix timestamp (ms) of the execution */
+  time: number;
+}
+
+export interface CandleUpdateMessage {
+  type: "candle_update";
+  pair: CryptoPair;
+  candle: Candle;
+}
+
+export interface OrderBookUpdateMessage {
+  type: "orderbook_update";
+  pair: CryptoPair;
+  data: OrderBook;
+}
+
+export interface OrderBookDeltaMessage {
+  type: "orderbook_delta";
+  pair: CryptoPair;
+  data: OrderBookDelta;
+}
+
+export interface TradeMessage {
+  type: "trade";
+  pair: CryptoPair;
+  trade: Trade;
 }
 
+/**
+ * 24h summary pushed by servers that support it. It has no channel of its
+ * own and is sent for pairs that have at least one subscription.
+ */
+export interface TickerMessage {
+  type: "ticker";
+  pair: CryptoPair;
+  ticker: Ticker;
+}
+
+export interface ErrorMessage {
+  type: "error";
+  message: string;
+}
+
+/**
+ * Any message the server pushes over the WebSocket.
+ */
+export type InboundMessage =
+  | CandleUpdateMessage
+  | OrderBookUpdateMessage
+  | OrderBookDeltaMessage
+  | TradeMessage
+  | TickerMessage
+  | ErrorMessage;
+
 /**
  * Generic wrapper for all API responses.
  */
@@ -0,0 +1,221 @@
+/**
+ * cacheStorage.ts
+ *
+ * Storage adapters a cache (see apiCache.ts) can persist its entries to,
+ * so cached history survives a reload. Every adapter has the same async
+ * interface; failures — quota, private mode, a blocked database — are
+ * logged and otherwise ignored, leaving the cache memory-only.
+ */
+
+/** An entry as persisted. `ttlMs` is null for entries that never go stale. */
+export interface StoredEntry {
+  data: unknown;
+  /** Epoch ms the entry was stored */
+  storedAt: number;
+  ttlMs: number | null;
+}
+
+export interface CacheStorage {
+  /** Every stored entry, in no particular order. */
+  load: () => Promise<[string, StoredEntry][]>;
+  save: (key: string, entry: StoredEntry) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const isStoredEntry = (value: unknown): value is StoredEntry =>
+  typeof value === "object" &&
+  value !== null &&
+  "data" in value &&
+  typeof (value as StoredEntry).storedAt === "number" &&
+  ((value as StoredEntry).ttlMs === null ||
+    typeof (value as StoredEntry).ttlMs === "number");
+
+/**
+ * Keeps entries in a Map for the lifetime of the page. Caches on the same
+ * adapter share their entries — handy in tests.
+ */
+export function createMemoryStorage(): CacheStorage {
+  const entries = new Map<string, StoredEntry>();
+  return {
+    load: async () => [...entries],
+    save: async (key, entry) => {
+      entries.set(key, entry);
+    },
+    remove: async (key) => {
+      entries.delete(key);
+    },
+    clear: async () => {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Persists each entry as JSON under `${namespace}:${key}` in
+ * localStorage. Synchronous and limited to a few MB — fine for small
+ * caches, use IndexedDB for large ones.
+ */
+export function createLocalStorage(namespace: string): CacheStorage {
+  const prefix = `${namespace}:`;
+
+  const ownKeys = (): string[] => {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  };
+
+  const attempt = async <T>(action: string, run: () => T, fallback: T) => {
+    try {
+      return run();
+    } catch (error) {
+      console.warn(`[cacheStorage] could not ${action} ${namespace}:`, error);
+      return fallback;
+    }
+  };
+
+  return {
+    load: () =>
+      attempt(
+        "load",
+        () =>
+          ownKeys().flatMap((storageKey): [string, StoredEntry][] => {
+            try {
+              const entry: unknown = JSON.parse(
+                localStorage.getItem(storageKey) ?? "null",
+              );
+              return isStoredEntry(entry)
+                ? [[storageKey.slice(prefix.length), entry]]
+                : [];
+            } catch {
+              return [];
+            }
+          }),
+        [],
+      ),
+    save: (key, entry) =>
+      attempt(
+        "persist",
+        () => localStorage.setItem(prefix + key, JSON.stringify(entry)),
+        undefined,
+      ),
+    remove: (key) =>
+      attempt("update", () => localStorage.removeItem(prefix + key), undefined),
+    clear: () =>
+      attempt(
+        "clear",
+        () => ownKeys().forEach((key) => localStorage.removeItem(key)),
+        undefined,
+      ),
+  };
+}
+
+/** Resolve an IndexedDB request as a promise. */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persists entries in the object store `storeName` of the IndexedDB
+ * database `databaseName`, which is created on first use. Falls back to
+ * memory where IndexedDB is unavailable (old browsers, some private
+ * modes, jsdom).
+ */
+export function createIndexedDbStorage(
+  databaseName: string,
+  storeName: string,
+): CacheStorage {
+  if (typeof indexedDB === "undefined") {
+    console.warn(
+      `[cacheStorage] IndexedDB unavailable, ${databaseName}/${storeName} is memory-only`,
+    );
+    return createMemoryStorage();
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      database = settle(request);
+    }
+    return database;
+  };
+
+  const run = async <T>(
+    action: string,
+    mode: IDBTransactionMode,
+    request: (store: IDBObjectStore) => Promise<T>,
+    fallback: T,
+  ): Promise<T> => {
+    try {
+      const db = await open();
+      return await request(
+        db.transaction(storeName, mode).objectStore(storeName),
+      );
+    } catch (error) {
+      console.warn(
+        `[cacheStorage] could not ${action} ${databaseName}/${storeName}:`,
+        error,
+      );
+      return fallback;
+    }
+  };
+
+  return {
+    load: () =>
+      run(
+        "load",
+        "readonly",
+        async (store) => {
+          // Both lists come back in key order from the same transaction
+          const [keys, values] = await Promise.all([
+            settle(store.getAllKeys()),
+            settle(store.getAll()),
+          ]);
+          return keys.flatMap((key, i): [string, StoredEntry][] =>
+            typeof key === "string" && isStoredEntry(values[i])
+              ? [[key, values[i]]]
+              : [],
+          );
+        },
+        [],
+      ),
+    save: async (key, entry) => {
+      await run(
+        "persist",
+        "readwrite",
+        async (store) => {
+          await settle(store.put(entry, key));
+        },
+        undefined,
+      );
+    },
+    remove: async (key) => {
+      await run(
+        "update",
+        "readwrite",
+        (store) => settle(store.delete(key)),
+        undefined,
+      );
+    },
+    clear: async () => {
+      await run(
+        "clear",
+        "readwrite",
+        (store) => settle(store.clear()),
+        undefined,
+      );
+    },
+  };
+}
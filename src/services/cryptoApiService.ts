@@ -2,12 +2,42 @@
  * cryptoApiService.ts
  *
  * Handles all REST API calls to the mock crypto backend.
+ * Every response is validated before it is handed out (see
+ * payloadValidation.ts); failures are thrown as typed errors (see
+ * apiErrors.ts), and transient ones are retried with backoff first.
  * Candle responses are cached client-side so re-selecting a pair
  * does not trigger a redundant network request.
  */
 
-import type { Candle, CryptoPair, OrderBook } from "./apiTypes";
-import { createCache } from "./apiCache";
+import type {
+  Candle,
+  CryptoPair,
+  OrderBook,
+  PairInfo,
+  Timeframe,
+  Trade,
+} from "./apiTypes";
+import { createCache, type CacheStats } from "./apiCache";
+import { createIndexedDbStorage } from "./cacheStorage";
+import {
+  ApiError,
+  HttpError,
+  isRetryableError,
+  NetworkError,
+  TimeoutError,
+} from "./apiErrors";
+import { reportDiagnostic } from "./diagnostics";
+import { parsePairList } from "./pairValidation";
+import {
+  DecodeError,
+  parseCandleList,
+  parseOrderBook,
+  parseTradeList,
+  type InvalidEntryHandler,
+} from "./payloadValidation";
+import { inferCandleInterval, TIMEFRAME_MS } from "../common/utils/resampler";
+import { mergeCandles, refreshHistory } from "../common/utils/candleGaps";
+import { getBackoffDelay, type BackoffPolicy } from "../common/utils/backoff";
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -16,71 +46,399 @@ import { createCache } from "./apiCache";
 const BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:3001";
 
 /**
- * Candle data is relatively stable historical data, so we cache it for
- * the lifetime of the browser session (TTL = Infinity by default).
- * Swap in a numeric ms value if you want time-based expiry.
+ * Candle history is fresh for a few minutes. After that it is still shown
+ * for up to a week — instantly, also after a reload, as it is persisted to
+ * IndexedDB — while a background request refreshes it.
  */
-const candleCache = createCache<Candle[]>();
+const CANDLE_TTL_MS = 5 * 60_000;
+const CANDLE_STALE_MS = 7 * 24 * 60 * 60_000;
+/** Pair × timeframe combinations kept; the least recently viewed go first. */
+const CANDLE_CACHE_MAX_ENTRIES = 50;
+/** Candles per page when scrolling back, unless the caller asks otherwise. */
+const CANDLE_PAGE_LIMIT = 200;
+
+const candleCache = createCache<Candle[]>({
+  ttlMs: CANDLE_TTL_MS,
+  staleMs: CANDLE_STALE_MS,
+  maxEntries: CANDLE_CACHE_MAX_ENTRIES,
+  storage: createIndexedDbStorage("crypto-dashboard", "candles"),
+  // A persisted list with any invalid candle is dropped and refetched
+  revive: (data) =>
+    parseCandleList(data, (error) => {
+      throw error;
+    }),
+});
+
+export interface RequestOptions {
+  /** Abort a request that has not completed after this many ms. */
+  timeoutMs: number;
+  /**
+   * Backoff between attempts of a failed GET. `maxAttempts` is the number
+   * of retries after the first attempt — 0 disables retrying.
+   */
+  retry: BackoffPolicy;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  timeoutMs: 10_000,
+  retry: {
+    initialDelayMs: 500,
+    maxDelayMs: 4_000,
+    multiplier: 2,
+    jitter: 0.5,
+    maxAttempts: 2,
+  },
+};
+
+let requestOptions = DEFAULT_REQUEST_OPTIONS;
+
+/** Candles are cached per pair *and* timeframe. */
+function candleCacheKey(pair: CryptoPair, timeframe: Timeframe): string {
+  return `candles:${pair}:${timeframe}`;
+}
 
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
 
 /**
- * Fetch wrapper that throws a descriptive error on non-2xx responses.
+ * Sleep for `ms` — the pause between two attempts of a request. Rejects
+ * with the abort reason as soon as `signal` aborts.
+ */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/** A request shared by every caller that asked for the same key. */
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiters: number;
+}
+
+const inFlight = new Map<string, InFlightRequest<unknown>>();
+
+/**
+ * Run `request` once per `key` at a time: callers asking for a key that
+ * is already being fetched share the pending promise. A caller whose
+ * `signal` aborts stops waiting (its promise rejects with the abort
+ * reason); once every caller has gone, the request itself is aborted.
+ * The abort waits for the current task to end, so a React StrictMode
+ * remount joins the pending request instead of restarting it.
  */
-async function apiFetch<T>(path: string): Promise<T> {
+function coalesce<T>(
+  key: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  let shared = inFlight.get(key) as InFlightRequest<T> | undefined;
+  if (!shared) {
+    const controller = new AbortController();
+    const created: InFlightRequest<T> = {
+      controller,
+      waiters: 0,
+      promise: request(controller.signal).finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      }),
+    };
+    inFlight.set(key, created);
+    shared = created;
+  }
+
+  const joined = shared;
+  joined.waiters++;
+  if (!signal) return joined.promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      reject(signal.reason);
+      joined.waiters--;
+      queueMicrotask(() => {
+        if (joined.waiters > 0) return;
+        joined.controller.abort();
+        if (inFlight.get(key) === joined) inFlight.delete(key);
+      });
+    };
+    signal.addEventListener("abort", leave, { once: true });
+    joined.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", leave));
+  });
+}
+
+/**
+ * One attempt of a GET request. Throws a typed error (see apiErrors.ts)
+ * when the request fails, a DecodeError when the body does not have the
+ * shape `decode` expects. Entries `decode` drops, and bodies it rejects,
+ * are reported to the diagnostics channel.
+ */
+async function requestOnce<T>(
+  path: string,
+  decode: (payload: unknown, onInvalid: InvalidEntryHandler) => T,
+  signal?: AbortSignal,
+): Promise<T> {
   const url = `${BASE_URL}${path}`;
+  const { timeoutMs } = requestOptions;
+  const report = (error: Error) => reportDiagnostic(`GET ${path}`, error);
 
-  let response: Response;
+  // The timer covers reading the body too — a stalled stream is a timeout
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  let payload: unknown;
   try {
-    response = await fetch(url, {
+    const response = await fetch(url, {
       method: "GET",
       headers: { "Content-Type": "application/json" },
+      signal: controller.signal,
     });
-  } catch (networkError) {
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new HttpError(url, response.status, response.statusText, body);
+    }
+
+    payload = await response.json().catch((error: unknown) => {
+      if (controller.signal.aborted) throw error;
+      throw new DecodeError("response", "not valid JSON");
+    });
+  } catch (error) {
+    if (error instanceof DecodeError) report(error);
+    if (error instanceof ApiError || error instanceof DecodeError) throw error;
+    if (signal?.aborted) throw signal.reason;
+    if (controller.signal.aborted) throw new TimeoutError(url, timeoutMs);
     // fetch() itself threw — server is likely unreachable
-    throw new Error(
-      `Network error while reaching ${url}. Is the backend running? (${String(networkError)})`,
-    );
+    throw new NetworkError(url, error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
   }
 
-  if (!response.ok) {
-    const body = await response.text().catch(() => "");
-    throw new Error(
-      `HTTP ${response.status} ${response.statusText} — ${url}${body ? `: ${body}` : ""}`,
-    );
+  try {
+    return decode(payload, report);
+  } catch (error) {
+    if (error instanceof DecodeError) report(error);
+    throw error;
   }
+}
 
-  return response.json() as Promise<T>;
+/**
+ * GET `path` and validate the body with `decode`, retrying transient
+ * failures (see isRetryableError) with exponential backoff. Only GETs go
+ * through here, so repeating a request is always safe. Aborting `signal`
+ * cancels the request and any pending retry.
+ */
+async function apiFetch<T>(
+  path: string,
+  decode: (payload: unknown, onInvalid: InvalidEntryHandler) => T,
+  signal?: AbortSignal,
+): Promise<T> {
+  const { retry } = requestOptions;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestOnce(path, decode, signal);
+    } catch (error) {
+      if (attempt > retry.maxAttempts || !isRetryableError(error)) throw error;
+      const delay = getBackoffDelay(attempt, retry);
+      console.warn(
+        `[api] GET ${path} failed, retry ${attempt}/${retry.maxAttempts} in ${delay}ms:`,
+        (error as Error).message,
+      );
+      await wait(delay, signal);
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/**
+ * Fetch the catalogue of pairs the backend offers, with their metadata.
+ *
+ * The response is validated at runtime: a payload that is not an array
+ * throws, and malformed entries are dropped.
+ *
+ * @returns  Every listed pair, including halted ones
+ */
+export async function fetchPairs(): Promise<PairInfo[]> {
+  return apiFetch("/api/pairs", parsePairList);
+}
+
+export interface FetchCandlesOptions {
+  /**
+   * Only fetch candles from this time on (ms, inclusive). Together with
+   * `to`, this turns the call into a range request — see fetchCandles.
+   */
+  from?: number;
+  /** Only fetch candles up to this time (ms, inclusive). */
+  to?: number;
+  /**
+   * Only fetch candles older than this time (ms, exclusive), `limit` at
+   * most. This turns the call into a page request — see fetchCandles.
+   */
+  before?: number;
+  /** The most candles a page request returns. Defaults to 200. */
+  limit?: number;
+  /** Called with fresh candles after stale cached ones were returned */
+  onRevalidate?: (candles: Candle[]) => void;
+  /**
+   * Stops waiting for the candles when aborted. It also cancels a
+   * background refresh this call started, which then waits for the next
+   * request.
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Fetch historical candle (OHLCV) data for a trading pair.
  *
+ * The timeframe is forwarded as `?timeframe=`. A backend that does not
+ * support it returns its native hourly candles instead — callers should
+ * check the resolution of the result and aggregate client-side if needed.
+ *
  * Results are cached client-side: calling this function again with the
- * same `pair` returns the cached data immediately without a network request.
+ * same `pair` and `timeframe` returns the cached data without a network
+ * request. Stale data is returned as well, but refreshed in the background;
+ * `onRevalidate` then receives the fresh candles. Concurrent calls for the
+ * same pair and timeframe share one request.
  *
- * @param pair  e.g. "BTC-USDT"
- * @returns     Ordered array of candles (oldest → newest)
+ * With `from` and/or `to`, only that range is requested (`?from=&to=`,
+ * epoch ms), e.g. to backfill candles missed while the socket was down.
+ * Range requests bypass the cache lookup; their candles are merged into
+ * the cached history instead, if there is one. A backend that ignores the
+ * range returns its whole history, which is then cut down to the range.
+ *
+ * @param pair       e.g. "BTC-USDT"
+ * @param timeframe  e.g. "4H" — defaults to the backend's native "1H"
+ * @returns          Ordered array of candles (oldest → newest)
  */
-export async function fetchCandles(pair: CryptoPair): Promise<Candle[]> {
-  const cacheKey = `candles:${pair}`;
-
-  const cached = candleCache.get(cacheKey);
-  if (cached) {
-    console.debug(`[candleCache] HIT for ${pair}`);
-    return cached;
+export async function fetchCandles(
+  pair: CryptoPair,
+  timeframe: Timeframe = "1H",
+  {
+    from,
+    to,
+    before,
+    limit = CANDLE_PAGE_LIMIT,
+    onRevalidate,
+    signal,
+  }: FetchCandlesOptions = {},
+): Promise<Candle[]> {
+  const cacheKey = candleCacheKey(pair, timeframe);
+  if (before !== undefined) {
+    return fetchCandlePage(pair, timeframe, before, limit, signal);
   }
+  if (from !== undefined || to !== undefined) {
+    return fetchCandleRange(pair, timeframe, from ?? 0, to ?? Infinity, signal);
+  }
+  return candleCache.getOrLoad(
+    cacheKey,
+    () =>
+      coalesce(
+        cacheKey,
+        async (sharedSignal) => {
+          console.debug(`[candleCache] fetching ${pair} ${timeframe} from API`);
+          const fresh = await apiFetch(
+            `/api/candles/${pair}?timeframe=${encodeURIComponent(timeframe)}`,
+            parseCandleList,
+            sharedSignal,
+          );
+          // A refresh keeps the older pages and backfills cached so far,
+          // as long as they still connect to the fresh candles
+          return refreshHistory(
+            candleCache.peek(cacheKey) ?? [],
+            fresh,
+            inferCandleInterval(fresh) ?? TIMEFRAME_MS[timeframe],
+          );
+        },
+        signal,
+      ),
+    onRevalidate,
+  );
+}
 
-  console.debug(`[candleCache] MISS for ${pair} — fetching from API`);
-  const candles = await apiFetch<Candle[]>(`/api/candles/${pair}`);
+/** The page request behind `fetchCandles(pair, timeframe, { before, limit })`. */
+async function fetchCandlePage(
+  pair: CryptoPair,
+  timeframe: Timeframe,
+  before: number,
+  limit: number,
+  signal?: AbortSignal,
+): Promise<Candle[]> {
+  const cacheKey = candleCacheKey(pair, timeframe);
+  await candleCache.ready;
+  const cached = (candleCache.peek(cacheKey) ?? []).filter(
+    (candle) => candle.time < before,
+  );
+  if (cached.length >= limit) return cached.slice(-limit);
 
-  candleCache.set(cacheKey, candles);
+  const query = new URLSearchParams({
+    timeframe,
+    before: String(before),
+    limit: String(limit),
+  });
+  const fetched = await coalesce(
+    `${cacheKey}:before-${before}-${limit}`,
+    (sharedSignal) =>
+      apiFetch(
+        `/api/candles/${pair}?${query.toString()}`,
+        parseCandleList,
+        sharedSignal,
+      ),
+    signal,
+  );
+  const candles = fetched
+    .filter((candle) => candle.time < before)
+    .slice(-limit);
+
+  candleCache.update(cacheKey, (history) => mergeCandles(candles, history));
+  return candles;
+}
+
+/** The range request behind `fetchCandles(pair, timeframe, { from, to })`. */
+async function fetchCandleRange(
+  pair: CryptoPair,
+  timeframe: Timeframe,
+  from: number,
+  to: number,
+  signal?: AbortSignal,
+): Promise<Candle[]> {
+  const cacheKey = candleCacheKey(pair, timeframe);
+  const query = new URLSearchParams({ timeframe });
+  if (from > 0) query.set("from", String(from));
+  if (Number.isFinite(to)) query.set("to", String(to));
+
+  const fetched = await coalesce(
+    `${cacheKey}:${from}-${to}`,
+    (sharedSignal) =>
+      apiFetch(
+        `/api/candles/${pair}?${query.toString()}`,
+        parseCandleList,
+        sharedSignal,
+      ),
+    signal,
+  );
+  const candles = fetched.filter(
+    (candle) => candle.time >= from && candle.time <= to,
+  );
+
+  await candleCache.ready;
+  candleCache.update(cacheKey, (cached) => mergeCandles(cached, candles));
   return candles;
 }
 
@@ -89,21 +447,71 @@ export async function fetchCandles(pair: CryptoPair): Promise<Candle[]> {
  *
  * Order book data is NOT cached because it is highly volatile — the
  * WebSocket stream is responsible for keeping it up-to-date after the
- * initial load.
+ * initial load. Concurrent calls for the same pair still share one request.
+ *
+ * @param pair    e.g. "BTC-USDT"
+ * @param signal  Stops waiting for the snapshot when aborted
+ * @returns       Order book snapshot with asks and bids
+ */
+export async function fetchOrderBook(
+  pair: CryptoPair,
+  signal?: AbortSignal,
+): Promise<OrderBook> {
+  return coalesce(
+    `orderbook:${pair}`,
+    (sharedSignal) =>
+      apiFetch(
+        `/api/orderbook/${pair}`,
+        (payload) => parseOrderBook(payload),
+        sharedSignal,
+      ),
+    signal,
+  );
+}
+
+/**
+ * Fetch the most recent trades for a trading pair.
+ *
+ * Like the order book, trades are NOT cached — the WebSocket `trades`
+ * stream appends to this history once it has loaded.
  *
  * @param pair  e.g. "BTC-USDT"
- * @returns     Order book snapshot with asks and bids
+ * @returns     Recent trades, newest first
  */
-export async function fetchOrderBook(pair: CryptoPair): Promise<OrderBook> {
-  return apiFetch<OrderBook>(`/api/orderbook/${pair}`);
+export async function fetchTrades(pair: CryptoPair): Promise<Trade[]> {
+  return apiFetch(`/api/trades/${pair}`, parseTradeList);
 }
 
 /**
- * Manually invalidate the candle cache for a specific pair.
+ * Change the timeout and retry policy of every later request. Options not
+ * given keep their current value.
+ */
+export function configureRequests(options: Partial<RequestOptions>): void {
+  requestOptions = { ...requestOptions, ...options };
+}
+
+/**
+ * Restore the default timeout and retry policy.
+ */
+export function resetRequestOptions(): void {
+  requestOptions = DEFAULT_REQUEST_OPTIONS;
+}
+
+/**
+ * Manually invalidate the candle cache for a specific pair (every timeframe).
  * Useful if you want to force a fresh fetch (e.g., after a long idle period).
  */
 export function invalidateCandleCache(pair: CryptoPair): void {
-  candleCache.delete(`candles:${pair}`);
+  for (const timeframe of Object.keys(TIMEFRAME_MS) as Timeframe[]) {
+    candleCache.delete(candleCacheKey(pair, timeframe));
+  }
+}
+
+/**
+ * Hit, miss and eviction counts of the candle cache.
+ */
+export function getCandleCacheStats(): CacheStats {
+  return candleCache.getStats();
 }
 
 /**
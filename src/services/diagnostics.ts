@@ -0,0 +1,62 @@
+/**
+ * diagnostics.ts
+ *
+ * App-wide channel for problems that are worth knowing about but must not
+ * break the UI — e.g. a payload from the backend that failed validation
+ * and was dropped. Reports are logged, kept in a short history and pushed
+ * to listeners such as the connection status badge.
+ */
+
+/** How many reports are kept; older ones are dropped first. */
+const MAX_DIAGNOSTICS = 50;
+
+export interface Diagnostic {
+  /** Where the problem was found, e.g. "GET /api/candles/BTC-USDT" */
+  source: string;
+  error: Error;
+  /** Epoch ms of the report */
+  at: number;
+}
+
+let diagnostics: readonly Diagnostic[] = [];
+const listeners = new Set<(diagnostics: readonly Diagnostic[]) => void>();
+
+/**
+ * Record a problem found in `source`.
+ */
+export function reportDiagnostic(source: string, error: Error): void {
+  console.warn(`[diagnostics] ${source}:`, error.message);
+  diagnostics = [
+    ...diagnostics.slice(-(MAX_DIAGNOSTICS - 1)),
+    { source, error, at: Date.now() },
+  ];
+  for (const listener of [...listeners]) listener(diagnostics);
+}
+
+/**
+ * Reports so far, oldest first. The same array is returned until a new
+ * report arrives.
+ */
+export function getDiagnostics(): readonly Diagnostic[] {
+  return diagnostics;
+}
+
+/**
+ * Listen for new reports. Returns the unlisten function.
+ */
+export function subscribeDiagnostics(
+  listener: (diagnostics: readonly Diagnostic[]) => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget every report — for tests.
+ */
+export function clearDiagnostics(): void {
+  diagnostics = [];
+  for (const listener of [...listeners]) listener(diagnostics);
+}
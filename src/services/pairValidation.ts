@@ -0,0 +1,98 @@
+/**
+ * pairValidation.ts
+ *
+ * Runtime checks for the `GET /api/pairs` payload. TypeScript types vanish
+ * at runtime, and the pair catalogue drives subscriptions and formatting,
+ * so malformed entries must not slip through.
+ */
+
+import type { PairInfo, PairStatus } from "./apiTypes";
+import {
+  DecodeError,
+  isRecord,
+  type InvalidEntryHandler,
+} from "./payloadValidation";
+
+const PAIR_STATUSES: readonly PairStatus[] = ["trading", "halted"];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+const isPrecision = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Validate a single pair entry. Throws a DecodeError naming the first
+ * offending field.
+ */
+export function parsePairInfo(value: unknown): PairInfo {
+  if (!isRecord(value)) throw new DecodeError("pair", "expected an object");
+
+  const {
+    symbol,
+    base,
+    quote,
+    pricePrecision,
+    amountPrecision,
+    tickSize,
+    status,
+  } = value;
+  if (!isNonEmptyString(symbol)) throw new DecodeError("symbol", "invalid");
+  if (!isNonEmptyString(base)) throw new DecodeError(symbol, "invalid base");
+  if (!isNonEmptyString(quote)) throw new DecodeError(symbol, "invalid quote");
+  if (!isPrecision(pricePrecision)) {
+    throw new DecodeError(symbol, "invalid pricePrecision");
+  }
+  if (!isPrecision(amountPrecision)) {
+    throw new DecodeError(symbol, "invalid amountPrecision");
+  }
+  if (typeof tickSize !== "number" || !(tickSize > 0)) {
+    throw new DecodeError(symbol, "invalid tickSize");
+  }
+  if (!PAIR_STATUSES.includes(status as PairStatus)) {
+    throw new DecodeError(symbol, "invalid status");
+  }
+
+  return {
+    symbol,
+    base,
+    quote,
+    pricePrecision,
+    amountPrecision,
+    tickSize,
+    status: status as PairStatus,
+  };
+}
+
+const warnInvalidPair: InvalidEntryHandler = (error) =>
+  console.warn("[pairs] skipping invalid pair:", error.message);
+
+/**
+ * Validate the pair list. A payload that is not an array is rejected
+ * outright; individual malformed or duplicate entries are dropped and
+ * passed to `onInvalid` (a warning by default) so one bad market does not
+ * take the whole catalogue down.
+ */
+export function parsePairList(
+  value: unknown,
+  onInvalid: InvalidEntryHandler = warnInvalidPair,
+): PairInfo[] {
+  if (!Array.isArray(value)) {
+    throw new DecodeError("pairs", "pair list must be an array");
+  }
+
+  const pairs: PairInfo[] = [];
+  for (const entry of value) {
+    try {
+      const pair = parsePairInfo(entry);
+      if (pairs.some((p) => p.symbol === pair.symbol)) {
+        throw new DecodeError(pair.symbol, "duplicate symbol");
+      }
+      pairs.push(pair);
+    } catch (error) {
+      if (!(error instanceof DecodeError)) throw error;
+      onInvalid(error);
+    }
+  }
+  return pairs;
+}
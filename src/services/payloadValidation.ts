@@ -0,0 +1,281 @@
+/**
+ * payloadValidation.ts
+ *
+ * Runtime checks for REST responses and WebSocket messages. TypeScript
+ * types vanish at runtime, so without these a string price or a missing
+ * field would travel straight into the chart. Every parser either returns
+ * a value of the declared type — built from the checked fields only — or
+ * throws a DecodeError pointing at the offending value.
+ */
+
+import type {
+  Candle,
+  CryptoPair,
+  InboundMessage,
+  OrderBook,
+  OrderBookDelta,
+  OrderBookEntry,
+  Ticker,
+  Trade,
+} from "./apiTypes";
+
+/**
+ * A payload that does not have the expected shape. `path` locates the
+ * offending value, e.g. `candles[3].close`.
+ */
+export class DecodeError extends TypeError {
+  readonly path: string;
+
+  constructor(path: string, problem: string) {
+    super(`${path}: ${problem}`);
+    this.name = "DecodeError";
+    this.path = path;
+  }
+}
+
+/** Called with each list entry that was dropped as invalid. */
+export type InvalidEntryHandler = (error: DecodeError) => void;
+
+/**
+ * Timestamps below this are taken to be in seconds: 1e11 ms is in 1973,
+ * while 1e11 s is thousands of years away.
+ */
+const SECONDS_TIMESTAMP_LIMIT = 1e11;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) throw new DecodeError(path, "expected an object");
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new DecodeError(path, "expected a non-empty string");
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new DecodeError(path, "expected a finite number");
+  }
+  return value;
+}
+
+function expectPositive(value: unknown, path: string): number {
+  const number = expectNumber(value, path);
+  if (number <= 0) throw new DecodeError(path, "expected a positive number");
+  return number;
+}
+
+function expectNonNegative(value: unknown, path: string): number {
+  const number = expectNumber(value, path);
+  if (number < 0) throw new DecodeError(path, "must not be negative");
+  return number;
+}
+
+function expectSequence(value: unknown, path: string): number {
+  const number = expectNonNegative(value, path);
+  if (!Number.isInteger(number)) {
+    throw new DecodeError(path, "expected an integer");
+  }
+  return number;
+}
+
+/**
+ * A Unix timestamp in ms. Timestamps in seconds are converted — some
+ * backends send those, and lightweight-charts would otherwise draw them
+ * in 1970.
+ */
+function expectTimestamp(value: unknown, path: string): number {
+  const time = expectPositive(value, path);
+  return time < SECONDS_TIMESTAMP_LIMIT ? time * 1000 : time;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new DecodeError(path, "expected an array");
+  return value;
+}
+
+const expectPair = (value: unknown, path: string): CryptoPair =>
+  expectString(value, path);
+
+/**
+ * Validate a list whose entries are independent (candles, trades,
+ * tickers). A payload that is not an array is rejected outright; invalid
+ * entries are dropped and passed to `onInvalid`, so one bad row does not
+ * take the whole response down.
+ */
+export function parseList<T>(
+  value: unknown,
+  path: string,
+  parseEntry: (entry: unknown, path: string) => T,
+  onInvalid: InvalidEntryHandler,
+): T[] {
+  const entries = expectArray(value, path);
+  const parsed: T[] = [];
+  entries.forEach((entry, i) => {
+    try {
+      parsed.push(parseEntry(entry, `${path}[${i}]`));
+    } catch (error) {
+      if (!(error instanceof DecodeError)) throw error;
+      onInvalid(error);
+    }
+  });
+  return parsed;
+}
+
+// ---------------------------------------------------------------------------
+// REST and stream payloads
+// ---------------------------------------------------------------------------
+
+export function parseCandle(value: unknown, path = "candle"): Candle {
+  const record = expectRecord(value, path);
+  const candle: Candle = {
+    time: expectTimestamp(record.time, `${path}.time`),
+    open: expectPositive(record.open, `${path}.open`),
+    high: expectPositive(record.high, `${path}.high`),
+    low: expectPositive(record.low, `${path}.low`),
+    close: expectPositive(record.close, `${path}.close`),
+    volume: expectNonNegative(record.volume, `${path}.volume`),
+  };
+
+  if (candle.high < candle.low) {
+    throw new DecodeError(`${path}.high`, "below low");
+  }
+  return candle;
+}
+
+export const parseCandleList = (
+  value: unknown,
+  onInvalid: InvalidEntryHandler,
+): Candle[] => parseList(value, "candles", parseCandle, onInvalid);
+
+function parseLevels(value: unknown, path: string): OrderBookEntry[] {
+  return expectArray(value, path).map((level, i) => {
+    const levelPath = `${path}[${i}]`;
+    if (!Array.isArray(level) || level.length !== 2) {
+      throw new DecodeError(levelPath, "expected a [price, amount] pair");
+    }
+    return [
+      expectPositive(level[0], `${levelPath}[0]`),
+      expectNonNegative(level[1], `${levelPath}[1]`),
+    ];
+  });
+}
+
+/**
+ * Validate an order book snapshot. Unlike lists, a single bad level
+ * rejects the whole book — a book with holes in it would misreport the
+ * depth.
+ */
+export function parseOrderBook(value: unknown, path = "orderBook"): OrderBook {
+  const record = expectRecord(value, path);
+  const book: OrderBook = {
+    pair: expectPair(record.pair, `${path}.pair`),
+    asks: parseLevels(record.asks, `${path}.asks`),
+    bids: parseLevels(record.bids, `${path}.bids`),
+    timestamp: expectTimestamp(record.timestamp, `${path}.timestamp`),
+  };
+  if (record.sequence !== undefined) {
+    book.sequence = expectSequence(record.sequence, `${path}.sequence`);
+  }
+  return book;
+}
+
+export function parseOrderBookDelta(
+  value: unknown,
+  path = "delta",
+): OrderBookDelta {
+  const record = expectRecord(value, path);
+  return {
+    pair: expectPair(record.pair, `${path}.pair`),
+    sequence: expectSequence(record.sequence, `${path}.sequence`),
+    asks: parseLevels(record.asks, `${path}.asks`),
+    bids: parseLevels(record.bids, `${path}.bids`),
+    timestamp: expectTimestamp(record.timestamp, `${path}.timestamp`),
+  };
+}
+
+export function parseTrade(value: unknown, path = "trade"): Trade {
+  const record = expectRecord(value, path);
+  if (record.side !== "buy" && record.side !== "sell") {
+    throw new DecodeError(`${path}.side`, 'expected "buy" or "sell"');
+  }
+  return {
+    id: expectString(record.id, `${path}.id`),
+    pair: expectPair(record.pair, `${path}.pair`),
+    price: expectPositive(record.price, `${path}.price`),
+    amount: expectPositive(record.amount, `${path}.amount`),
+    side: record.side,
+    time: expectTimestamp(record.time, `${path}.time`),
+  };
+}
+
+export const parseTradeList = (
+  value: unknown,
+  onInvalid: InvalidEntryHandler,
+): Trade[] => parseList(value, "trades", parseTrade, onInvalid);
+
+export function parseTicker(value: unknown, path = "ticker"): Ticker {
+  const record = expectRecord(value, path);
+  return {
+    pair: expectPair(record.pair, `${path}.pair`),
+    last: expectPositive(record.last, `${path}.last`),
+    change: expectNumber(record.change, `${path}.change`),
+    changePercent: expectNumber(record.changePercent, `${path}.changePercent`),
+    high: expectPositive(record.high, `${path}.high`),
+    low: expectPositive(record.low, `${path}.low`),
+    volume: expectNonNegative(record.volume, `${path}.volume`),
+  };
+}
+
+/**
+ * Validate a message received over the WebSocket (already JSON-parsed).
+ * Returns null for message types this client does not know, so a server
+ * that adds new ones does not flood the diagnostics.
+ */
+export function parseInboundMessage(value: unknown): InboundMessage | null {
+  const record = expectRecord(value, "message");
+  const type = expectString(record.type, "message.type");
+  const path = (field: string) => `${type}.${field}`;
+
+  switch (type) {
+    case "candle_update":
+      return {
+        type,
+        pair: expectPair(record.pair, path("pair")),
+        candle: parseCandle(record.candle, path("candle")),
+      };
+    case "orderbook_update":
+      return {
+        type,
+        pair: expectPair(record.pair, path("pair")),
+        data: parseOrderBook(record.data, path("data")),
+      };
+    case "orderbook_delta":
+      return {
+        type,
+        pair: expectPair(record.pair, path("pair")),
+        data: parseOrderBookDelta(record.data, path("data")),
+      };
+    case "trade":
+      return {
+        type,
+        pair: expectPair(record.pair, path("pair")),
+        trade: parseTrade(record.trade, path("trade")),
+      };
+    case "ticker":
+      return {
+        type,
+        pair: expectPair(record.pair, path("pair")),
+        ticker: parseTicker(record.ticker, path("ticker")),
+      };
+    case "error":
+      return { type, message: expectString(record.message, path("message")) };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * Client for the live WebSocket stream.
+ *
+ * One client owns one socket and any number of consumers subscribe to
+ * (pair, stream) topics through it. Subscriptions are reference counted:
+ * the server is asked to `subscribe` when the first consumer of a topic
+ * arrives and to `unsubscribe` only once the last one has gone. Dropped
+ * connections are re-opened with exponential backoff and every held
+ * topic is replayed on the new socket.
+ *
+ * Inbound messages are validated before they reach any handler; invalid
+ * ones are dropped and reported. Framework-agnostic — React components
+ * reach it through `common/hooks/useStreamClient`.
+ */
+
+import {
+  DEFAULT_BACKOFF_POLICY,
+  getBackoffDelay,
+  type BackoffPolicy,
+} from "../common/utils/backoff";
+import {
+  INITIAL_CONNECTION_STATUS,
+  transitionConnection,
+  type ConnectionEvent,
+  type ConnectionStatus,
+} from "../common/utils/connectionStateMachine";
+import {
+  reconcileSubscriptions,
+  type Subscription,
+} from "../common/utils/streamSubscriptions";
+import type {
+  Candle,
+  CryptoPair,
+  InboundMessage,
+  OrderBook,
+  OrderBookDelta,
+  StreamChannel,
+  Ticker,
+  Trade,
+} from "./apiTypes";
+import { reportDiagnostic } from "./diagnostics";
+import { DecodeError, parseInboundMessage } from "./payloadValidation";
+
+const DEFAULT_STREAM_URL = import.meta.env.VITE_WS_URL || "ws://localhost:3001";
+
+/** `WebSocket.OPEN`, without reaching for the global. */
+const SOCKET_OPEN = 1;
+
+/** `JSON.parse` that fails with a DecodeError like the other checks. */
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new DecodeError("message", "not valid JSON");
+  }
+}
+
+interface SubscribePayload {
+  type: "subscribe" | "unsubscribe";
+  pair: CryptoPair;
+  stream: StreamChannel;
+}
+
+/** What the `orderbook` channel delivers: a full snapshot or a delta. */
+export type OrderBookEvent =
+  | { type: "snapshot"; book: OrderBook }
+  | { type: "delta"; delta: OrderBookDelta };
+
+/** Payload type delivered on each channel. */
+export interface StreamPayloads {
+  candles: Candle;
+  orderbook: OrderBookEvent;
+  trades: Trade;
+}
+
+export type StreamHandler<S extends StreamChannel> = (
+  payload: StreamPayloads[S],
+) => void;
+
+/** Handle returned by every subscribe call. */
+export interface StreamSubscription {
+  /** Stop receiving. Safe to call more than once. */
+  unsubscribe: () => void;
+}
+
+export interface StreamConnectionState {
+  status: ConnectionStatus;
+  /** Consecutive reconnect attempts since the last successful open. */
+  reconnectAttempt: number;
+  /** Epoch ms at which the next reconnect fires, null when none is pending. */
+  nextRetryAt: number | null;
+}
+
+/**
+ * The part of `WebSocket` the client uses — lets tests pass a fake.
+ */
+export interface StreamSocket {
+  readonly readyState: number;
+  send: (data: string) => void;
+  close: () => void;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+}
+
+export interface StreamClientOptions {
+  /** Defaults to `VITE_WS_URL`, or ws://localhost:3001. */
+  url?: string;
+  /** Override parts of the reconnection policy. */
+  reconnect?: Partial<BackoffPolicy>;
+  /** Opens a socket. Defaults to `new WebSocket(url)`. */
+  createSocket?: (url: string) => StreamSocket;
+  /**
+   * Called with every inbound message that failed validation; the message
+   * itself is dropped. Defaults to the diagnostics channel.
+   */
+  onInvalidMessage?: (error: DecodeError) => void;
+}
+
+export interface StreamClient {
+  /**
+   * Receive `stream` messages for `pair` until the returned handle is
+   * unsubscribed. Subscribing before the socket is open is fine — the
+   * topic is sent to the server as soon as it opens.
+   */
+  subscribe: <S extends StreamChannel>(
+    pair: CryptoPair,
+    stream: S,
+    handler: StreamHandler<S>,
+  ) => StreamSubscription;
+  /**
+   * Receive ticker updates for `pair`. Tickers have no channel: they only
+   * flow while some consumer holds a topic for the pair.
+   */
+  subscribeTicker: (
+    pair: CryptoPair,
+    handler: (ticker: Ticker) => void,
+  ) => StreamSubscription;
+  /** Topics currently held, in the order they were first subscribed. */
+  getSubscriptions: () => Subscription[];
+  /** Current connection state. Same object until it changes. */
+  getState: () => StreamConnectionState;
+  /** Listen for connection state changes. Returns the unlisten function. */
+  onStateChange: (
+    listener: (state: StreamConnectionState) => void,
+  ) => () => void;
+  /**
+   * Listen for every inbound frame, valid or not, with its arrival time
+   * (epoch ms). Returns the unlisten function.
+   */
+  onFrame: (listener: (receivedAt: number) => void) => () => void;
+  /** Open the socket. No-op while one is open or a reconnect is pending. */
+  connect: () => void;
+  /**
+   * Close the socket and stop reconnecting; the state moves to "closed".
+   * `connect` starts over.
+   */
+  close: () => void;
+}
+
+interface Topic {
+  subscription: Subscription;
+  handlers: Set<(payload: never) => void>;
+}
+
+const topicKey = (pair: CryptoPair, stream: StreamChannel) =>
+  `${pair}|${stream}`;
+
+/**
+ * Creates a stream client. Nothing is opened until `connect` is called.
+ */
+export function createStreamClient({
+  url = DEFAULT_STREAM_URL,
+  reconnect,
+  createSocket = (socketUrl) => new WebSocket(socketUrl),
+  onInvalidMessage = (error) => reportDiagnostic("WebSocket", error),
+}: StreamClientOptions = {}): StreamClient {
+  const policy: BackoffPolicy = { ...DEFAULT_BACKOFF_POLICY, ...reconnect };
+  const topics = new Map<string, Topic>();
+  const tickerHandlers = new Map<CryptoPair, Set<(ticker: Ticker) => void>>();
+  const stateListeners = new Set<(state: StreamConnectionState) => void>();
+  const frameListeners = new Set<(receivedAt: number) => void>();
+
+  let socket: StreamSocket | null = null;
+  // What the server has been asked for on the current socket
+  let active: readonly Subscription[] = [];
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let state: StreamConnectionState = {
+    status: INITIAL_CONNECTION_STATUS,
+    reconnectAttempt: 0,
+    nextRetryAt: null,
+  };
+
+  const setState = (patch: Partial<StreamConnectionState>) => {
+    state = { ...state, ...patch };
+    for (const listener of [...stateListeners]) listener(state);
+  };
+
+  const transition = (event: ConnectionEvent) =>
+    transitionConnection(state.status, event);
+
+  const getSubscriptions = () =>
+    [...topics.values()].map((topic) => topic.subscription);
+
+  const send = (
+    type: SubscribePayload["type"],
+    subscriptions: readonly Subscription[],
+  ) => {
+    for (const { pair, stream } of subscriptions) {
+      socket?.send(
+        JSON.stringify({ type, pair, stream } satisfies SubscribePayload),
+      );
+    }
+  };
+
+  /*
+   * Bring the server in line with the held topics. While the socket is not
+   * open nothing is sent — the topics stay queued until the next `onopen`.
+   */
+  const flush = () => {
+    if (!socket || socket.readyState !== SOCKET_OPEN) return;
+
+    const desired = getSubscriptions();
+    const { subscribe, unsubscribe } = reconcileSubscriptions(active, desired);
+    send("unsubscribe", unsubscribe);
+    send("subscribe", subscribe);
+    active = desired;
+  };
+
+  const deliver = <S extends StreamChannel>(
+    pair: CryptoPair,
+    stream: S,
+    payload: StreamPayloads[S],
+  ) => {
+    const handlers = topics.get(topicKey(pair, stream))?.handlers;
+    // Copied so a handler may unsubscribe while being called
+    for (const handler of [...(handlers ?? [])]) {
+      (handler as StreamHandler<S>)(payload);
+    }
+  };
+
+  const handleFrame = (raw: string) => {
+    const receivedAt = Date.now();
+    for (const listener of [...frameListeners]) listener(receivedAt);
+
+    let msg: InboundMessage | null;
+    try {
+      msg = parseInboundMessage(parseJson(raw));
+    } catch (error) {
+      if (!(error instanceof DecodeError)) throw error;
+      onInvalidMessage(error);
+      return;
+    }
+    if (!msg) return;
+
+    // Late messages for topics nobody holds any more find no handlers
+    switch (msg.type) {
+      case "error":
+        console.warn("[ws] server error:", msg.message);
+        break;
+      case "candle_update":
+        deliver(msg.pair, "candles", msg.candle);
+        break;
+      case "orderbook_update":
+        deliver(msg.pair, "orderbook", { type: "snapshot", book: msg.data });
+        break;
+      case "orderbook_delta":
+        deliver(msg.pair, "orderbook", { type: "delta", delta: msg.data });
+        break;
+      case "trade":
+        deliver(msg.pair, "trades", msg.trade);
+        break;
+      case "ticker":
+        for (const handler of [...(tickerHandlers.get(msg.pair) ?? [])]) {
+          handler(msg.ticker);
+        }
+        break;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (attempt >= policy.maxAttempts) {
+      console.warn(`[ws] giving up after ${attempt} reconnect attempts`);
+      setState({ status: transition({ type: "GIVE_UP" }), nextRetryAt: null });
+      return;
+    }
+
+    attempt += 1;
+    const delay = getBackoffDelay(attempt, policy);
+    setState({
+      status: transition({ type: "RETRY" }),
+      reconnectAttempt: attempt,
+      nextRetryAt: Date.now() + delay,
+    });
+
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    const current = createSocket(url);
+    socket = current;
+
+    current.onopen = () => {
+      if (socket !== current) return;
+      console.log("WebSocket connected");
+      attempt = 0;
+      setState({
+        status: transition({ type: "OPEN" }),
+        reconnectAttempt: 0,
+        nextRetryAt: null,
+      });
+      // A fresh socket holds nothing — replay every topic, including
+      // changes made while we were offline
+      active = [];
+      flush();
+    };
+
+    current.onmessage = (event: MessageEvent) => {
+      if (socket !== current) return;
+      handleFrame(event.data as string);
+    };
+
+    current.onerror = () => {
+      if (socket !== current) return;
+      setState({ status: transition({ type: "ERROR" }) });
+    };
+
+    current.onclose = () => {
+      console.log("WebSocket disconnected");
+      // Closed by `close()` or already replaced
+      if (socket !== current) return;
+      socket = null;
+      active = [];
+      setState({ status: transition({ type: "CLOSE" }) });
+      scheduleReconnect();
+    };
+  };
+
+  const connect = () => {
+    if (socket || retryTimer) return;
+    if (state.status !== INITIAL_CONNECTION_STATUS) {
+      setState({ status: INITIAL_CONNECTION_STATUS });
+    }
+    open();
+  };
+
+  const close = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    attempt = 0;
+    active = [];
+    const current = socket;
+    socket = null;
+    current?.close();
+    // A deliberate close, not a socket event: "closed" from any state
+    if (state.status !== "closed" || state.nextRetryAt !== null) {
+      setState({ status: "closed", reconnectAttempt: 0, nextRetryAt: null });
+    }
+  };
+
+  const subscribe = <S extends StreamChannel>(
+    pair: CryptoPair,
+    stream: S,
+    handler: StreamHandler<S>,
+  ): StreamSubscription => {
+    const key = topicKey(pair, stream);
+    let topic = topics.get(key);
+    if (!topic) {
+      topic = { subscription: { pair, stream }, handlers: new Set() };
+      topics.set(key, topic);
+    }
+    // Wrapped so the same function subscribed twice counts twice
+    const entry = (payload: StreamPayloads[S]) => handler(payload);
+    const handlers = topic.handlers;
+    handlers.add(entry);
+    flush();
+
+    let subscribed = true;
+    return {
+      unsubscribe: () => {
+        if (!subscribed) return;
+        subscribed = false;
+        handlers.delete(entry);
+        if (handlers.size === 0) {
+          topics.delete(key);
+          flush();
+        }
+      },
+    };
+  };
+
+  const subscribeTicker = (
+    pair: CryptoPair,
+    handler: (ticker: Ticker) => void,
+  ): StreamSubscription => {
+    let handlers = tickerHandlers.get(pair);
+    if (!handlers) {
+      handlers = new Set();
+      tickerHandlers.set(pair, handlers);
+    }
+    const entry = (ticker: Ticker) => handler(ticker);
+    handlers.add(entry);
+
+    let subscribed = true;
+    return {
+      unsubscribe: () => {
+        if (!subscribed) return;
+        subscribed = false;
+        handlers.delete(entry);
+        if (handlers.size === 0) tickerHandlers.delete(pair);
+      },
+    };
+  };
+
+  const onStateChange = (listener: (state: StreamConnectionState) => void) => {
+    stateListeners.add(listener);
+    return () => {
+      stateListeners.delete(listener);
+    };
+  };
+
+  const onFrame = (listener: (receivedAt: number) => void) => {
+    frameListeners.add(listener);
+    return () => {
+      frameListeners.delete(listener);
+    };
+  };
+
+  return {
+    subscribe,
+    subscribeTicker,
+    getSubscriptions,
+    getState: () => state,
+    onStateChange,
+    onFrame,
+    connect,
+    close,
+  };
+}
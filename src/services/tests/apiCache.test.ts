@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { createCache } from "../apiCache";
+import { createMemoryStorage } from "../cacheStorage";
 
 describe("createCache", () => {
   // -------------------------------------------------------------------------
@@ -168,4 +169,298 @@ describe("createCache", () => {
       expect(cache.get("k")).toBe("v");
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Per-entry TTL
+  // -------------------------------------------------------------------------
+  describe("per-entry TTL", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("lets set() override the cache's TTL", () => {
+      const cache = createCache<string>(10_000);
+      cache.set("short", "v", 1_000);
+      cache.set("default", "v");
+
+      vi.advanceTimersByTime(1_001);
+
+      expect(cache.get("short")).toBeUndefined();
+      expect(cache.get("default")).toBe("v");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // peek()
+  // -------------------------------------------------------------------------
+  describe("peek()", () => {
+    it("returns a stale value without counting a lookup", () => {
+      vi.useFakeTimers();
+      const cache = createCache<string>({ ttlMs: 1_000, staleMs: 1_000 });
+      cache.set("k", "v");
+      vi.advanceTimersByTime(1_500);
+
+      expect(cache.peek("k")).toBe("v");
+      expect(cache.get("k")).toBeUndefined();
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1 });
+
+      vi.advanceTimersByTime(501);
+      expect(cache.peek("k")).toBeUndefined();
+      vi.useRealTimers();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // update()
+  // -------------------------------------------------------------------------
+  describe("update()", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("changes the value without refreshing the entry", () => {
+      const cache = createCache<number[]>(1_000);
+      cache.set("k", [1]);
+      vi.advanceTimersByTime(600);
+
+      cache.update("k", (data) => [...data, 2]);
+      expect(cache.get("k")).toEqual([1, 2]);
+
+      vi.advanceTimersByTime(401);
+      expect(cache.get("k")).toBeUndefined();
+    });
+
+    it("does nothing for a missing key", () => {
+      const cache = createCache<number[]>();
+      const change = vi.fn((data: number[]) => data);
+      cache.update("k", change);
+
+      expect(change).not.toHaveBeenCalled();
+      expect(cache.getStats().size).toBe(0);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // LRU cap
+  // -------------------------------------------------------------------------
+  describe("LRU cap", () => {
+    it("evicts the least recently used entry beyond maxEntries", () => {
+      const cache = createCache<number>({ maxEntries: 2 });
+      cache.set("a", 1);
+      cache.set("b", 2);
+      cache.get("a"); // "b" is now the least recently used
+      cache.set("c", 3);
+
+      expect(cache.get("a")).toBe(1);
+      expect(cache.get("b")).toBeUndefined();
+      expect(cache.get("c")).toBe(3);
+    });
+
+    it("does not evict when overwriting a key", () => {
+      const cache = createCache<number>({ maxEntries: 2 });
+      cache.set("a", 1);
+      cache.set("b", 2);
+      cache.set("a", 10);
+
+      expect(cache.getStats()).toMatchObject({ evictions: 0, size: 2 });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Stale-while-revalidate
+  // -------------------------------------------------------------------------
+  describe("getOrLoad()", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("loads and caches a missing key", async () => {
+      const cache = createCache<string>();
+      const load = vi.fn().mockResolvedValue("loaded");
+
+      expect(await cache.getOrLoad("k", load)).toBe("loaded");
+      expect(await cache.getOrLoad("k", load)).toBe("loaded");
+      expect(load).toHaveBeenCalledOnce();
+    });
+
+    it("does not cache a failed load", async () => {
+      const cache = createCache<string>();
+      await expect(
+        cache.getOrLoad("k", () => Promise.reject(new Error("down"))),
+      ).rejects.toThrow("down");
+      expect(cache.getStats().size).toBe(0);
+    });
+
+    it("serves a stale entry and refreshes it in the background", async () => {
+      const cache = createCache<string>({ ttlMs: 1_000, staleMs: 10_000 });
+      cache.set("k", "old");
+      vi.advanceTimersByTime(1_001);
+
+      const onRevalidate = vi.fn();
+      const load = vi.fn().mockResolvedValue("new");
+      expect(await cache.getOrLoad("k", load, onRevalidate)).toBe("old");
+
+      await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith("new"));
+      expect(cache.get("k")).toBe("new");
+    });
+
+    it("shares one refresh between concurrent stale lookups", async () => {
+      const cache = createCache<string>({ ttlMs: 1_000, staleMs: 10_000 });
+      cache.set("k", "old");
+      vi.advanceTimersByTime(1_001);
+
+      let finish: (value: string) => void = () => {};
+      const load = vi.fn(
+        () => new Promise<string>((resolve) => (finish = resolve)),
+      );
+      const first = vi.fn();
+      const second = vi.fn();
+      await cache.getOrLoad("k", load, first);
+      await cache.getOrLoad("k", load, second);
+      finish("new");
+
+      await vi.waitFor(() => expect(second).toHaveBeenCalledWith("new"));
+      expect(first).toHaveBeenCalledWith("new");
+      expect(load).toHaveBeenCalledOnce();
+    });
+
+    it("keeps the stale entry when the refresh fails", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const cache = createCache<string>({ ttlMs: 1_000, staleMs: 10_000 });
+      cache.set("k", "old");
+      vi.advanceTimersByTime(1_001);
+
+      const onRevalidate = vi.fn();
+      await cache.getOrLoad(
+        "k",
+        () => Promise.reject(new Error("down")),
+        onRevalidate,
+      );
+
+      await vi.waitFor(() => expect(console.warn).toHaveBeenCalled());
+      expect(onRevalidate).not.toHaveBeenCalled();
+      expect(await cache.getOrLoad("k", async () => "new")).toBe("old");
+    });
+
+    it("loads afresh once the stale window has passed", async () => {
+      const cache = createCache<string>({ ttlMs: 1_000, staleMs: 1_000 });
+      cache.set("k", "old");
+      vi.advanceTimersByTime(2_001);
+
+      expect(await cache.getOrLoad("k", async () => "new")).toBe("new");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Metrics
+  // -------------------------------------------------------------------------
+  describe("getStats()", () => {
+    it("counts hits, stale hits, misses and evictions", async () => {
+      vi.useFakeTimers();
+      const cache = createCache<number>({
+        ttlMs: 1_000,
+        staleMs: 10_000,
+        maxEntries: 1,
+      });
+      cache.get("a"); // miss
+      cache.set("a", 1);
+      cache.get("a"); // hit
+      vi.advanceTimersByTime(1_001);
+      await cache.getOrLoad("a", async () => 2); // stale hit
+      cache.set("b", 3); // evicts "a"
+      vi.useRealTimers();
+
+      expect(cache.getStats()).toEqual({
+        hits: 1,
+        staleHits: 1,
+        misses: 1,
+        evictions: 1,
+        size: 1,
+      });
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+  describe("persistence", () => {
+    it("restores entries saved by an earlier cache", async () => {
+      const storage = createMemoryStorage();
+      const first = createCache<string>({ storage });
+      await first.ready;
+      first.set("k", "v");
+
+      const second = createCache<string>({ storage });
+      await second.ready;
+      expect(second.get("k")).toBe("v");
+    });
+
+    it("keeps a TTL of Infinity across a reload", async () => {
+      const storage = createMemoryStorage();
+      createCache<string>({ storage }).set("k", "v");
+
+      const [[, stored]] = await storage.load();
+      expect(stored.ttlMs).toBeNull();
+
+      const restored = createCache<string>({ storage });
+      await restored.ready;
+      expect(restored.has("k")).toBe(true);
+    });
+
+    it("drops persisted entries that revive() rejects", async () => {
+      const storage = createMemoryStorage();
+      createCache<unknown>({ storage }).set("k", "not a number");
+
+      const cache = createCache<number>({
+        storage,
+        revive: (data) => {
+          if (typeof data !== "number") throw new TypeError("not a number");
+          return data;
+        },
+      });
+      await cache.ready;
+
+      expect(cache.get("k")).toBeUndefined();
+      expect(await storage.load()).toEqual([]);
+    });
+
+    it("prefers a value set while the persisted ones were loading", async () => {
+      const storage = createMemoryStorage();
+      createCache<string>({ storage }).set("k", "persisted");
+
+      const cache = createCache<string>({ storage });
+      cache.set("k", "newer");
+      await cache.ready;
+
+      expect(cache.get("k")).toBe("newer");
+    });
+
+    it("removes deleted and cleared entries from storage", async () => {
+      const storage = createMemoryStorage();
+      const cache = createCache<string>({ storage });
+      cache.set("a", "1");
+      cache.set("b", "2");
+
+      cache.delete("a");
+      await vi.waitFor(async () =>
+        expect((await storage.load()).map(([key]) => key)).toEqual(["b"]),
+      );
+
+      cache.clear();
+      await vi.waitFor(async () => expect(await storage.load()).toEqual([]));
+    });
+  });
 });
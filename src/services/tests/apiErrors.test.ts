@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  ApiError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  formatRequestError,
+  isRetryableError,
+} from "../apiErrors";
+import { DecodeError } from "../payloadValidation";
+
+const URL = "http://localhost:3001/api/trades/BTC-USDT";
+
+describe("API errors", () => {
+  it("share a base class carrying the request URL", () => {
+    const errors = [
+      new NetworkError(URL, new TypeError("Failed to fetch")),
+      new HttpError(URL, 503, "Service Unavailable"),
+      new TimeoutError(URL, 10_000),
+    ];
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.url).toBe(URL);
+    }
+  });
+
+  it("keep the cause of a network error", () => {
+    const cause = new TypeError("Failed to fetch");
+    const error = new NetworkError(URL, cause);
+    expect(error.name).toBe("NetworkError");
+    expect(error.cause).toBe(cause);
+    expect(error.message).toMatch(/^Network error while reaching/);
+  });
+
+  it("put the status and body of an HTTP error in the message", () => {
+    expect(new HttpError(URL, 404, "Not Found", "unknown pair").message).toBe(
+      `HTTP 404 Not Found — ${URL}: unknown pair`,
+    );
+  });
+});
+
+describe("isRetryableError", () => {
+  it.each([
+    ["a network error", new NetworkError(URL, "offline"), true],
+    ["a timeout", new TimeoutError(URL, 10_000), true],
+    ["a 503", new HttpError(URL, 503, "Service Unavailable"), true],
+    ["a 429", new HttpError(URL, 429, "Too Many Requests"), true],
+    ["a 404", new HttpError(URL, 404, "Not Found"), false],
+    ["a decode error", new DecodeError("trades", "expected an array"), false],
+    ["a plain error", new Error("boom"), false],
+  ])("%s → %s", (_label, error, expected) => {
+    expect(isRetryableError(error)).toBe(expected);
+  });
+});
+
+describe("formatRequestError", () => {
+  it("appends the reason of a typed error", () => {
+    expect(
+      formatRequestError(
+        "Failed to fetch trades",
+        new HttpError(URL, 500, "Internal Server Error"),
+      ),
+    ).toBe("Failed to fetch trades: the server answered 500");
+    expect(
+      formatRequestError(
+        "Failed to fetch trades",
+        new DecodeError("trades", "expected an array"),
+      ),
+    ).toBe("Failed to fetch trades: the server sent invalid data");
+  });
+
+  it("keeps the summary alone for any other error", () => {
+    expect(formatRequestError("Failed to fetch trades", new Error("x"))).toBe(
+      "Failed to fetch trades",
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createIndexedDbStorage,
+  createLocalStorage,
+  createMemoryStorage,
+  type StoredEntry,
+} from "../cacheStorage";
+
+const entry: StoredEntry = { data: [1, 2, 3], storedAt: 1_000, ttlMs: null };
+
+describe("createLocalStorage", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("saves entries as JSON under the namespace", async () => {
+    const storage = createLocalStorage("candles");
+    await storage.save("BTC-USDT", entry);
+
+    expect(JSON.parse(localStorage.getItem("candles:BTC-USDT")!)).toEqual(
+      entry,
+    );
+    expect(await storage.load()).toEqual([["BTC-USDT", entry]]);
+  });
+
+  it("ignores other keys and unreadable entries when loading", async () => {
+    localStorage.setItem("favorites", "[]");
+    localStorage.setItem("candles:broken", "{");
+    localStorage.setItem("candles:wrong", JSON.stringify({ data: 1 }));
+    const storage = createLocalStorage("candles");
+    await storage.save("ok", entry);
+
+    expect(await storage.load()).toEqual([["ok", entry]]);
+  });
+
+  it("clears only its own namespace", async () => {
+    localStorage.setItem("favorites", "[]");
+    const storage = createLocalStorage("candles");
+    await storage.save("a", entry);
+    await storage.save("b", entry);
+
+    await storage.clear();
+
+    expect(await storage.load()).toEqual([]);
+    expect(localStorage.getItem("favorites")).toBe("[]");
+  });
+
+  it("logs and swallows a full quota", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new DOMException("full", "QuotaExceededError");
+    });
+
+    await expect(
+      createLocalStorage("candles").save("a", entry),
+    ).resolves.toBeUndefined();
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+describe("createMemoryStorage", () => {
+  it("round-trips and removes entries", async () => {
+    const storage = createMemoryStorage();
+    await storage.save("a", entry);
+    await storage.save("b", entry);
+    await storage.remove("a");
+
+    expect(await storage.load()).toEqual([["b", entry]]);
+  });
+});
+
+describe("createIndexedDbStorage", () => {
+  it("falls back to memory where IndexedDB is unavailable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const storage = createIndexedDbStorage("test-db", "candles");
+    await storage.save("a", entry);
+
+    expect(await storage.load()).toEqual([["a", entry]]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("memory-only"),
+    );
+    vi.restoreAllMocks();
+  });
+});
@@ -1,10 +1,19 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import type { Candle, OrderBook } from "../apiTypes";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Candle, OrderBook, PairInfo, Trade } from "../apiTypes";
+import { clearDiagnostics, getDiagnostics } from "../diagnostics";
+import { DecodeError } from "../payloadValidation";
+import { HttpError, NetworkError, TimeoutError } from "../apiErrors";
 import {
+  configureRequests,
+  DEFAULT_REQUEST_OPTIONS,
+  resetRequestOptions,
   fetchCandles,
   fetchOrderBook,
+  fetchPairs,
+  fetchTrades,
   invalidateCandleCache,
   clearCandleCache,
+  getCandleCacheStats,
 } from "../cryptoApiService";
 
 // ---------------------------------------------------------------------------
@@ -34,6 +43,29 @@ const sampleOrderBook: OrderBook = {
   timestamp: 1_680_000_000_000,
 };
 
+const sampleTrades: Trade[] = [
+  {
+    id: "t1",
+    pair: "BTC-USDT",
+    price: 30000,
+    amount: 0.25,
+    side: "buy",
+    time: 1_680_000_000_000,
+  },
+];
+
+const samplePairs: PairInfo[] = [
+  {
+    symbol: "SOL-USDT",
+    base: "SOL",
+    quote: "USDT",
+    pricePrecision: 3,
+    amountPrecision: 2,
+    tickSize: 0.001,
+    status: "trading",
+  },
+];
+
 function mockFetchSuccess(data: unknown) {
   mockFetch.mockResolvedValue({
     ok: true,
@@ -63,6 +95,15 @@ describe("cryptoApiService", () => {
     vi.clearAllMocks();
     // Reset the module-level candle cache before every test
     clearCandleCache();
+    // Failures surface at once; retries have their own tests below
+    configureRequests({
+      retry: { ...DEFAULT_REQUEST_OPTIONS.retry, maxAttempts: 0 },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetRequestOptions();
   });
 
   // -------------------------------------------------------------------------
@@ -73,7 +114,29 @@ describe("cryptoApiService", () => {
       mockFetchSuccess(sampleCandles);
       await fetchCandles("BTC-USDT");
       expect(mockFetch).toHaveBeenCalledOnce();
-      expect(mockFetch.mock.calls[0][0]).toMatch(/\/api\/candles\/BTC-USDT$/);
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/api\/candles\/BTC-USDT\?/);
+    });
+
+    it("sends the default 1H timeframe as a query parameter", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT");
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\?timeframe=1H$/);
+    });
+
+    it("sends the requested timeframe as a query parameter", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("ETH-USDT", "4H");
+      expect(mockFetch.mock.calls[0][0]).toMatch(
+        /\/api\/candles\/ETH-USDT\?timeframe=4H$/,
+      );
+    });
+
+    it("caches each timeframe of a pair separately", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H");
+      await fetchCandles("BTC-USDT", "1D");
+      await fetchCandles("BTC-USDT", "1D");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it("returns the candles from the API response", async () => {
@@ -96,6 +159,145 @@ describe("cryptoApiService", () => {
       expect(second).toBe(first); // same reference from cache
     });
 
+    it("serves stale candles while refreshing them in the background", async () => {
+      vi.useFakeTimers();
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT");
+      vi.advanceTimersByTime(5 * 60_000 + 1);
+
+      const fresh = [{ ...sampleCandles[0], close: 107 }];
+      mockFetchSuccess(fresh);
+      const onRevalidate = vi.fn();
+      expect(await fetchCandles("BTC-USDT", "1H", { onRevalidate })).toEqual(
+        sampleCandles,
+      );
+
+      await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith(fresh));
+      expect(await fetchCandles("BTC-USDT")).toEqual(fresh);
+      expect(getCandleCacheStats().staleHits).toBeGreaterThan(0);
+    });
+
+    it("requests a range with from and to", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H", { from: 1_000, to: 2_000 });
+      expect(mockFetch.mock.calls[0][0]).toMatch(
+        /\/api\/candles\/BTC-USDT\?timeframe=1H&from=1000&to=2000$/,
+      );
+    });
+
+    it("cuts a response that ignores the range down to it", async () => {
+      const later = { ...sampleCandles[0], time: sampleCandles[0].time + 1 };
+      mockFetchSuccess([...sampleCandles, later]);
+      expect(
+        await fetchCandles("BTC-USDT", "1H", {
+          from: later.time,
+          to: later.time,
+        }),
+      ).toEqual([later]);
+    });
+
+    it("merges a range into the cached history", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT");
+
+      const missing = { ...sampleCandles[0], time: 1_680_003_600_000 };
+      mockFetchSuccess([missing]);
+      await fetchCandles("BTC-USDT", "1H", { from: missing.time });
+
+      expect(await fetchCandles("BTC-USDT")).toEqual([
+        ...sampleCandles,
+        missing,
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not cache a range on its own", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H", { to: 2_000_000_000_000 });
+      await fetchCandles("BTC-USDT");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("requests a page with before and limit", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H", { before: 2_000, limit: 50 });
+      expect(mockFetch.mock.calls[0][0]).toMatch(
+        /\/api\/candles\/BTC-USDT\?timeframe=1H&before=2000&limit=50$/,
+      );
+    });
+
+    it("cuts a response that ignores paging down to the page", async () => {
+      const hour = 3_600_000;
+      const history = [0, 1, 2, 3].map((i) => ({
+        ...sampleCandles[0],
+        time: sampleCandles[0].time + i * hour,
+      }));
+      mockFetchSuccess(history);
+      expect(
+        await fetchCandles("BTC-USDT", "1H", {
+          before: history[3].time,
+          limit: 2,
+        }),
+      ).toEqual(history.slice(1, 3));
+    });
+
+    it("merges a page into the cached history and serves it from there", async () => {
+      const latest = { ...sampleCandles[0], time: 1_680_007_200_000 };
+      mockFetchSuccess([latest]);
+      await fetchCandles("BTC-USDT");
+
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H", { before: latest.time, limit: 1 });
+
+      expect(await fetchCandles("BTC-USDT")).toEqual([
+        ...sampleCandles,
+        latest,
+      ]);
+      expect(
+        await fetchCandles("BTC-USDT", "1H", { before: latest.time, limit: 1 }),
+      ).toEqual(sampleCandles);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps older pages when the cached history is refreshed", async () => {
+      vi.useFakeTimers();
+      const latest = { ...sampleCandles[0], time: 1_680_007_200_000 };
+      mockFetchSuccess([latest]);
+      await fetchCandles("BTC-USDT");
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H", { before: latest.time, limit: 1 });
+      vi.advanceTimersByTime(5 * 60_000 + 1);
+
+      const refreshed = { ...latest, close: 107 };
+      mockFetchSuccess([refreshed]);
+      const onRevalidate = vi.fn();
+      await fetchCandles("BTC-USDT", "1H", { onRevalidate });
+
+      await vi.waitFor(() =>
+        expect(onRevalidate).toHaveBeenCalledWith([
+          ...sampleCandles,
+          refreshed,
+        ]),
+      );
+    });
+
+    it("drops cached pages that no longer connect to the refreshed history", async () => {
+      vi.useFakeTimers();
+      const latest = { ...sampleCandles[0], time: 1_680_007_200_000 };
+      mockFetchSuccess([latest]);
+      await fetchCandles("BTC-USDT");
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H", { before: latest.time, limit: 1 });
+      vi.advanceTimersByTime(3 * 24 * 60 * 60_000);
+
+      const days = { ...latest, time: latest.time + 3 * 24 * 3_600_000 };
+      mockFetchSuccess([days]);
+      const onRevalidate = vi.fn();
+      await fetchCandles("BTC-USDT", "1H", { onRevalidate });
+
+      await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith([days]));
+    });
+
     it("fetches independently for different pairs", async () => {
       mockFetchSuccess(sampleCandles);
       await fetchCandles("BTC-USDT");
@@ -157,10 +359,385 @@ describe("cryptoApiService", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Payload validation
+  // -------------------------------------------------------------------------
+  describe("payload validation", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      clearDiagnostics();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("drops malformed candles and reports them", async () => {
+      mockFetchSuccess([...sampleCandles, { ...sampleCandles[0], low: "90" }]);
+      expect(await fetchCandles("BTC-USDT")).toEqual(sampleCandles);
+
+      const [diagnostic] = getDiagnostics();
+      expect(diagnostic.source).toBe("GET /api/candles/BTC-USDT?timeframe=1H");
+      expect(diagnostic.error.message).toBe(
+        "candles[1].low: expected a finite number",
+      );
+    });
+
+    it("rejects and reports an order book with a bad level", async () => {
+      mockFetchSuccess({ ...sampleOrderBook, asks: [[30100, "0.5"]] });
+      await expect(fetchOrderBook("BTC-USDT")).rejects.toBeInstanceOf(
+        DecodeError,
+      );
+      expect(getDiagnostics()[0].source).toBe("GET /api/orderbook/BTC-USDT");
+    });
+
+    it("rejects a trades payload that is not a list", async () => {
+      mockFetchSuccess({ trades: sampleTrades });
+      await expect(fetchTrades("BTC-USDT")).rejects.toThrow(
+        "trades: expected an array",
+      );
+    });
+
+    it("does not cache a rejected candle payload", async () => {
+      mockFetchSuccess({ error: "busy" });
+      await expect(fetchCandles("BTC-USDT")).rejects.toThrow(DecodeError);
+
+      mockFetchSuccess(sampleCandles);
+      expect(await fetchCandles("BTC-USDT")).toEqual(sampleCandles);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Typed errors, timeouts and retries
+  // -------------------------------------------------------------------------
+  describe("typed errors", () => {
+    it("throws an HttpError carrying the status and body", async () => {
+      mockFetchFailure(404, "Not Found");
+      const error = await fetchTrades("BTC-USDT").catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({ status: 404, body: "Not Found" });
+    });
+
+    it("throws a NetworkError when fetch itself fails", async () => {
+      mockFetchNetworkError();
+      await expect(fetchPairs()).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it("throws a DecodeError for a body that is not JSON", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.reject(new SyntaxError("Unexpected token <")),
+      });
+      await expect(fetchPairs()).rejects.toThrow("response: not valid JSON");
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe("timeouts and retries", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      configureRequests({
+        timeoutMs: 1_000,
+        retry: { ...DEFAULT_REQUEST_OPTIONS.retry, jitter: 0, maxAttempts: 2 },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    /** A fetch that never answers, but rejects once its signal aborts. */
+    function mockFetchHang() {
+      mockFetch.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError")),
+            );
+          }),
+      );
+    }
+
+    it("aborts a request that outlives the timeout", async () => {
+      configureRequests({
+        retry: { ...DEFAULT_REQUEST_OPTIONS.retry, maxAttempts: 0 },
+      });
+      mockFetchHang();
+      const result = fetchOrderBook("BTC-USDT").catch((e: unknown) => e);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      const error = await result;
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toMatchObject({ timeoutMs: 1_000 });
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it("retries a 5xx response with backoff and then succeeds", async () => {
+      mockFetchSuccess(sampleOrderBook);
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        text: () => Promise.resolve(""),
+      });
+      const result = fetchOrderBook("BTC-USDT");
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalledOnce();
+      await vi.advanceTimersByTimeAsync(500);
+      expect(await result).toEqual(sampleOrderBook);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after the configured number of retries", async () => {
+      mockFetchNetworkError();
+      const result = fetchTrades("BTC-USDT").catch((e: unknown) => e);
+
+      // 500ms before the first retry, 1000ms before the second
+      await vi.advanceTimersByTimeAsync(1_500);
+      expect(await result).toBeInstanceOf(NetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("retries a timed-out request", async () => {
+      mockFetchHang();
+      const result = fetchPairs().catch((e: unknown) => e);
+
+      // Three attempts of 1000ms each, with 500ms and 1000ms between them
+      await vi.advanceTimersByTimeAsync(4_500);
+      expect(await result).toBeInstanceOf(TimeoutError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it.each([
+      ["a 4xx response", () => mockFetchFailure(404, "Not Found")],
+      ["an invalid payload", () => mockFetchSuccess({ trades: [] })],
+    ])("does not retry %s", async (_label, arrange) => {
+      arrange();
+      const result = fetchTrades("BTC-USDT").catch((e: unknown) => e);
+      await vi.advanceTimersByTimeAsync(5_000);
+      await result;
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+
+    it("retries a 429 response", async () => {
+      mockFetchFailure(429, "Too Many Requests");
+      const result = fetchTrades("BTC-USDT").catch((e: unknown) => e);
+      await vi.advanceTimersByTimeAsync(1_500);
+      expect(await result).toBeInstanceOf(HttpError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Request coalescing
+  // -------------------------------------------------------------------------
+  describe("request coalescing", () => {
+    /** A fetch that answers with `data` once `respond` is called. */
+    function mockFetchDeferred(data: unknown) {
+      let respond = () => {};
+      mockFetch.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((resolve, reject) => {
+            respond = () =>
+              resolve({
+                ok: true,
+                json: () => Promise.resolve(data),
+                text: () => Promise.resolve(""),
+              });
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError")),
+            );
+          }),
+      );
+      return () => respond();
+    }
+
+    /** Lets queued microtasks (the deferred abort) run. */
+    const flushMicrotasks = () => new Promise((resolve) => setTimeout(resolve));
+
+    it("shares one request between concurrent candle calls", async () => {
+      const respond = mockFetchDeferred(sampleCandles);
+      const first = fetchCandles("BTC-USDT", "1H");
+      const second = fetchCandles("BTC-USDT", "1H");
+      await flushMicrotasks();
+      respond();
+
+      expect(await first).toEqual(sampleCandles);
+      expect(await second).toEqual(sampleCandles);
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+
+    it("shares one request between concurrent order book calls", async () => {
+      const respond = mockFetchDeferred(sampleOrderBook);
+      const calls = [fetchOrderBook("BTC-USDT"), fetchOrderBook("BTC-USDT")];
+      respond();
+
+      expect(await Promise.all(calls)).toEqual([
+        sampleOrderBook,
+        sampleOrderBook,
+      ]);
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+
+    it("does not share across pairs or after the request settled", async () => {
+      mockFetchSuccess(sampleOrderBook);
+      await Promise.all([
+        fetchOrderBook("BTC-USDT"),
+        fetchOrderBook("ETH-USDT"),
+      ]);
+      await fetchOrderBook("BTC-USDT");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("rejects every waiter when the shared request fails", async () => {
+      mockFetchFailure(404, "Not Found");
+      const results = await Promise.allSettled([
+        fetchOrderBook("BTC-USDT"),
+        fetchOrderBook("BTC-USDT"),
+      ]);
+      expect(results.map((result) => result.status)).toEqual([
+        "rejected",
+        "rejected",
+      ]);
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+
+    it("lets one waiter leave while the others keep waiting", async () => {
+      const respond = mockFetchDeferred(sampleOrderBook);
+      const leaving = new AbortController();
+      const left = fetchOrderBook("BTC-USDT", leaving.signal);
+      const staying = fetchOrderBook("BTC-USDT");
+
+      leaving.abort();
+      await expect(left).rejects.toMatchObject({ name: "AbortError" });
+      await flushMicrotasks();
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(false);
+
+      respond();
+      expect(await staying).toEqual(sampleOrderBook);
+    });
+
+    it("aborts the request once every waiter has gone", async () => {
+      mockFetchDeferred(sampleOrderBook);
+      const first = new AbortController();
+      const second = new AbortController();
+      const calls = [
+        fetchOrderBook("BTC-USDT", first.signal).catch(() => {}),
+        fetchOrderBook("BTC-USDT", second.signal).catch(() => {}),
+      ];
+
+      first.abort();
+      second.abort();
+      await Promise.all(calls);
+      await flushMicrotasks();
+
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it("keeps the request for a caller that rejoins at once (StrictMode)", async () => {
+      const respond = mockFetchDeferred(sampleOrderBook);
+      const unmounted = new AbortController();
+      fetchOrderBook("BTC-USDT", unmounted.signal).catch(() => {});
+      unmounted.abort();
+      const remounted = fetchOrderBook(
+        "BTC-USDT",
+        new AbortController().signal,
+      );
+
+      await flushMicrotasks();
+      respond();
+
+      expect(await remounted).toEqual(sampleOrderBook);
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+
+    it("rejects at once for a signal that is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      await expect(
+        fetchCandles("BTC-USDT", "1H", { signal: controller.signal }),
+      ).rejects.toMatchObject({ name: "AbortError" });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // fetchTrades
+  // -------------------------------------------------------------------------
+  describe("fetchTrades", () => {
+    it("calls the trades endpoint with the correct pair", async () => {
+      mockFetchSuccess(sampleTrades);
+      await fetchTrades("XRP-USDT");
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/api\/trades\/XRP-USDT$/);
+    });
+
+    it("returns the trades from the API response", async () => {
+      mockFetchSuccess(sampleTrades);
+      expect(await fetchTrades("BTC-USDT")).toEqual(sampleTrades);
+    });
+
+    it("does NOT cache — a second call hits the network again", async () => {
+      mockFetchSuccess(sampleTrades);
+      await fetchTrades("BTC-USDT");
+      await fetchTrades("BTC-USDT");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("throws on a non-2xx HTTP response", async () => {
+      mockFetchFailure(404, "Not Found");
+      await expect(fetchTrades("BTC-USDT")).rejects.toThrow(/HTTP 404/);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // fetchPairs
+  // -------------------------------------------------------------------------
+  describe("fetchPairs", () => {
+    it("calls the pairs endpoint", async () => {
+      mockFetchSuccess(samplePairs);
+      await fetchPairs();
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/api\/pairs$/);
+    });
+
+    it("returns the validated pairs", async () => {
+      mockFetchSuccess(samplePairs);
+      expect(await fetchPairs()).toEqual(samplePairs);
+    });
+
+    it("drops malformed entries", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetchSuccess([...samplePairs, { symbol: "BAD-USDT" }]);
+      expect(await fetchPairs()).toEqual(samplePairs);
+      expect(warn).toHaveBeenCalledOnce();
+      warn.mockRestore();
+    });
+
+    it("throws when the payload is not a list", async () => {
+      mockFetchSuccess({ pairs: samplePairs });
+      await expect(fetchPairs()).rejects.toThrow(/must be an array/);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Cache management
   // -------------------------------------------------------------------------
   describe("invalidateCandleCache", () => {
+    it("invalidates every timeframe of the pair", async () => {
+      mockFetchSuccess(sampleCandles);
+      await fetchCandles("BTC-USDT", "1H");
+      await fetchCandles("BTC-USDT", "4H");
+
+      invalidateCandleCache("BTC-USDT");
+
+      await fetchCandles("BTC-USDT", "1H");
+      await fetchCandles("BTC-USDT", "4H");
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
     it("forces a fresh fetch after invalidation", async () => {
       mockFetchSuccess(sampleCandles);
       await fetchCandles("BTC-USDT"); // populates cache
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  clearDiagnostics,
+  getDiagnostics,
+  reportDiagnostic,
+  subscribeDiagnostics,
+} from "../diagnostics";
+
+describe("diagnostics", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    clearDiagnostics();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps reports oldest first, with their source and time", () => {
+    vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+    const error = new Error("bad");
+    reportDiagnostic("WebSocket", error);
+
+    expect(getDiagnostics()).toEqual([
+      { source: "WebSocket", error, at: 1_700_000_000_000 },
+    ]);
+  });
+
+  it("logs every report", () => {
+    reportDiagnostic("GET /api/trades/BTC-USDT", new Error("bad"));
+    expect(console.warn).toHaveBeenCalledWith(
+      "[diagnostics] GET /api/trades/BTC-USDT:",
+      "bad",
+    );
+  });
+
+  it("returns the same array until a new report arrives", () => {
+    reportDiagnostic("WebSocket", new Error("bad"));
+    const first = getDiagnostics();
+    expect(getDiagnostics()).toBe(first);
+
+    reportDiagnostic("WebSocket", new Error("worse"));
+    expect(getDiagnostics()).not.toBe(first);
+  });
+
+  it("keeps only the latest 50 reports", () => {
+    for (let i = 0; i < 60; i++) {
+      reportDiagnostic("WebSocket", new Error(`#${i}`));
+    }
+    const diagnostics = getDiagnostics();
+    expect(diagnostics).toHaveLength(50);
+    expect(diagnostics[0].error.message).toBe("#10");
+  });
+
+  it("notifies listeners until they unlisten", () => {
+    const listener = vi.fn();
+    const unlisten = subscribeDiagnostics(listener);
+    reportDiagnostic("WebSocket", new Error("bad"));
+    expect(listener).toHaveBeenCalledWith(getDiagnostics());
+
+    unlisten();
+    reportDiagnostic("WebSocket", new Error("bad"));
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { PairInfo } from "../apiTypes";
+import { parsePairInfo, parsePairList } from "../pairValidation";
+
+const btc: PairInfo = {
+  symbol: "BTC-USDT",
+  base: "BTC",
+  quote: "USDT",
+  pricePrecision: 2,
+  amountPrecision: 5,
+  tickSize: 0.01,
+  status: "trading",
+};
+
+describe("parsePairInfo", () => {
+  it("accepts a well-formed pair", () => {
+    expect(parsePairInfo(btc)).toEqual(btc);
+  });
+
+  it("drops unknown fields", () => {
+    expect(parsePairInfo({ ...btc, listedAt: 1 })).toEqual(btc);
+  });
+
+  it("rejects values that are not objects", () => {
+    expect(() => parsePairInfo(null)).toThrow(TypeError);
+    expect(() => parsePairInfo("BTC-USDT")).toThrow(TypeError);
+    expect(() => parsePairInfo([btc])).toThrow(TypeError);
+  });
+
+  it.each([
+    ["symbol", { symbol: "" }],
+    ["base", { base: 1 }],
+    ["quote", { quote: undefined }],
+    ["pricePrecision", { pricePrecision: 1.5 }],
+    ["amountPrecision", { amountPrecision: -1 }],
+    ["tickSize", { tickSize: 0 }],
+    ["tickSize", { tickSize: "0.01" }],
+    ["status", { status: "delisted" }],
+  ])("names the invalid %s", (field, patch) => {
+    expect(() => parsePairInfo({ ...btc, ...patch })).toThrow(
+      new RegExp(field),
+    );
+  });
+});
+
+describe("parsePairList", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rejects a payload that is not an array", () => {
+    expect(() => parsePairList({ pairs: [btc] })).toThrow(/must be an array/);
+  });
+
+  it("skips invalid entries with a warning", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      parsePairList([btc, { ...btc, symbol: "ETH-USDT", tickSize: -1 }]),
+    ).toEqual([btc]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("keeps the first of duplicate symbols", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const halted = { ...btc, status: "halted" };
+    expect(parsePairList([btc, halted])).toEqual([btc]);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi } from "vitest";
+import type {
+  Candle,
+  OrderBook,
+  OrderBookDelta,
+  Ticker,
+  Trade,
+} from "../apiTypes";
+import {
+  DecodeError,
+  parseCandle,
+  parseCandleList,
+  parseInboundMessage,
+  parseOrderBook,
+  parseOrderBookDelta,
+  parseTicker,
+  parseTrade,
+  parseTradeList,
+} from "../payloadValidation";
+
+const candle: Candle = {
+  time: 1_680_000_000_000,
+  open: 100,
+  high: 110,
+  low: 90,
+  close: 105,
+  volume: 1_000,
+};
+
+const book: OrderBook = {
+  pair: "BTC-USDT",
+  asks: [[30100, 0.5]],
+  bids: [[29900, 1.2]],
+  timestamp: 1_680_000_000_000,
+};
+
+const delta: OrderBookDelta = {
+  pair: "BTC-USDT",
+  sequence: 11,
+  asks: [[30100, 0]],
+  bids: [],
+  timestamp: 1_680_000_000_000,
+};
+
+const trade: Trade = {
+  id: "t1",
+  pair: "BTC-USDT",
+  price: 30000,
+  amount: 0.25,
+  side: "sell",
+  time: 1_680_000_000_000,
+};
+
+const ticker: Ticker = {
+  pair: "BTC-USDT",
+  last: 30_000,
+  change: -150,
+  changePercent: -0.5,
+  high: 30_500,
+  low: 29_500,
+  volume: 1_000,
+};
+
+/** The DecodeError `fn` throws. */
+function decodeErrorOf(fn: () => unknown): DecodeError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof DecodeError) return error;
+    throw error;
+  }
+  throw new Error("expected a DecodeError");
+}
+
+describe("DecodeError", () => {
+  it("is a TypeError carrying the path of the bad value", () => {
+    const error = decodeErrorOf(() => parseCandle({ ...candle, close: "105" }));
+    expect(error).toBeInstanceOf(TypeError);
+    expect(error.name).toBe("DecodeError");
+    expect(error.path).toBe("candle.close");
+    expect(error.message).toBe("candle.close: expected a finite number");
+  });
+});
+
+describe("parseCandle", () => {
+  it("accepts a well-formed candle", () => {
+    expect(parseCandle(candle)).toEqual(candle);
+  });
+
+  it("drops unknown fields", () => {
+    expect(parseCandle({ ...candle, trades: 12 })).toEqual(candle);
+  });
+
+  it("converts a timestamp in seconds to ms", () => {
+    expect(parseCandle({ ...candle, time: 1_680_000_000 }).time).toBe(
+      1_680_000_000_000,
+    );
+  });
+
+  it.each([
+    ["time", { time: undefined }],
+    ["open", { open: "100" }],
+    ["high", { high: Number.NaN }],
+    ["low", { low: 0 }],
+    ["close", { close: null }],
+    ["volume", { volume: -1 }],
+    ["high", { high: 80 }],
+  ])("names the invalid %s", (field, patch) => {
+    expect(decodeErrorOf(() => parseCandle({ ...candle, ...patch })).path).toBe(
+      `candle.${field}`,
+    );
+  });
+
+  it("rejects values that are not objects", () => {
+    expect(() => parseCandle([candle])).toThrow(DecodeError);
+    expect(() => parseCandle(null)).toThrow(DecodeError);
+  });
+});
+
+describe("parseCandleList", () => {
+  it("rejects a payload that is not an array", () => {
+    expect(() => parseCandleList({ candles: [candle] }, vi.fn())).toThrow(
+      "candles: expected an array",
+    );
+  });
+
+  it("drops invalid entries and reports each one", () => {
+    const onInvalid = vi.fn();
+    const later = { ...candle, time: candle.time + 3_600_000 };
+    expect(
+      parseCandleList([candle, { ...candle, open: "x" }, later], onInvalid),
+    ).toEqual([candle, later]);
+    expect(onInvalid).toHaveBeenCalledOnce();
+    expect(onInvalid.mock.calls[0][0].path).toBe("candles[1].open");
+  });
+});
+
+describe("parseOrderBook", () => {
+  it("accepts a well-formed book, with or without a sequence", () => {
+    expect(parseOrderBook(book)).toEqual(book);
+    expect(parseOrderBook({ ...book, sequence: 10 })).toEqual({
+      ...book,
+      sequence: 10,
+    });
+  });
+
+  it("rejects the whole book for one bad level", () => {
+    const error = decodeErrorOf(() =>
+      parseOrderBook({ ...book, bids: [[29900, 1.2], [29800]] }),
+    );
+    expect(error.path).toBe("orderBook.bids[1]");
+  });
+
+  it.each([
+    ["pair", { pair: "" }],
+    ["asks", { asks: null }],
+    ["asks[0][0]", { asks: [["30100", 0.5]] }],
+    ["bids[0][1]", { bids: [[29900, -1]] }],
+    ["sequence", { sequence: 1.5 }],
+  ])("names the invalid %s", (field, patch) => {
+    expect(
+      decodeErrorOf(() => parseOrderBook({ ...book, ...patch })).path,
+    ).toBe(`orderBook.${field}`);
+  });
+});
+
+describe("parseOrderBookDelta", () => {
+  it("accepts a well-formed delta, including removed levels", () => {
+    expect(parseOrderBookDelta(delta)).toEqual(delta);
+  });
+
+  it("requires a sequence number", () => {
+    expect(
+      decodeErrorOf(() =>
+        parseOrderBookDelta({ ...delta, sequence: undefined }),
+      ).path,
+    ).toBe("delta.sequence");
+  });
+});
+
+describe("parseTrade", () => {
+  it("accepts a well-formed trade", () => {
+    expect(parseTrade(trade)).toEqual(trade);
+  });
+
+  it.each([
+    ["id", { id: 7 }],
+    ["side", { side: "short" }],
+    ["amount", { amount: 0 }],
+  ])("names the invalid %s", (field, patch) => {
+    expect(decodeErrorOf(() => parseTrade({ ...trade, ...patch })).path).toBe(
+      `trade.${field}`,
+    );
+  });
+
+  it("drops invalid trades from a list", () => {
+    const onInvalid = vi.fn();
+    expect(parseTradeList([{ ...trade, price: -1 }, trade], onInvalid)).toEqual(
+      [trade],
+    );
+    expect(onInvalid).toHaveBeenCalledOnce();
+  });
+});
+
+describe("parseTicker", () => {
+  it("accepts a negative change", () => {
+    expect(parseTicker(ticker)).toEqual(ticker);
+  });
+
+  it("names the invalid field", () => {
+    expect(decodeErrorOf(() => parseTicker({ ...ticker, last: 0 })).path).toBe(
+      "ticker.last",
+    );
+  });
+});
+
+describe("parseInboundMessage", () => {
+  it.each([
+    { type: "candle_update", pair: "BTC-USDT", candle },
+    { type: "orderbook_update", pair: "BTC-USDT", data: book },
+    { type: "orderbook_delta", pair: "BTC-USDT", data: delta },
+    { type: "trade", pair: "BTC-USDT", trade },
+    { type: "ticker", pair: "BTC-USDT", ticker },
+    { type: "error", message: "Unknown pair" },
+  ])("accepts a well-formed $type message", (message) => {
+    expect(parseInboundMessage(message)).toEqual(message);
+  });
+
+  it("returns null for an unknown message type", () => {
+    expect(parseInboundMessage({ type: "heartbeat" })).toBeNull();
+  });
+
+  it("rejects a message without a type", () => {
+    expect(decodeErrorOf(() => parseInboundMessage({ pair: "x" })).path).toBe(
+      "message.type",
+    );
+  });
+
+  it("prefixes the path with the message type", () => {
+    const error = decodeErrorOf(() =>
+      parseInboundMessage({
+        type: "candle_update",
+        pair: "BTC-USDT",
+        candle: { ...candle, close: "105" },
+      }),
+    );
+    expect(error.path).toBe("candle_update.candle.close");
+  });
+
+  it("rejects an invalid payload inside a message", () => {
+    expect(() =>
+      parseInboundMessage({ type: "trade", pair: "BTC-USDT", trade: {} }),
+    ).toThrow(DecodeError);
+  });
+});
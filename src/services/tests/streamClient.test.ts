@@ -0,0 +1,533 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Candle, Ticker, Trade } from "../apiTypes";
+import {
+  createStreamClient,
+  type StreamClientOptions,
+  type StreamSocket,
+} from "../streamClient";
+
+// ---------------------------------------------------------------------------
+// FakeSocket — injected through `createSocket`
+// ---------------------------------------------------------------------------
+class FakeSocket implements StreamSocket {
+  readyState = 0;
+  sent: unknown[] = [];
+  closed = false;
+
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({} as Event);
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) } as MessageEvent);
+  }
+
+  receiveRaw(raw: string) {
+    this.onmessage?.({ data: raw } as MessageEvent);
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.({} as CloseEvent);
+  }
+
+  fail() {
+    this.onerror?.({} as Event);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const candle: Candle = {
+  time: 1_700_000_000_000,
+  open: 100,
+  high: 110,
+  low: 95,
+  close: 105,
+  volume: 12,
+};
+
+const trade: Trade = {
+  id: "t1",
+  pair: "BTC-USDT",
+  price: 105,
+  amount: 0.5,
+  side: "buy",
+  time: 1_700_000_000_000,
+};
+
+const ticker: Ticker = {
+  pair: "BTC-USDT",
+  last: 105,
+  change: 5,
+  changePercent: 5,
+  high: 110,
+  low: 95,
+  volume: 1_000,
+};
+
+function setup(options: Omit<StreamClientOptions, "createSocket"> = {}) {
+  const sockets: FakeSocket[] = [];
+  const client = createStreamClient({
+    url: "ws://test",
+    ...options,
+    createSocket: (url) => {
+      const socket = new FakeSocket(url);
+      sockets.push(socket);
+      return socket;
+    },
+  });
+  const latest = () => sockets[sockets.length - 1];
+  return { client, sockets, latest };
+}
+
+describe("createStreamClient", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // -------------------------------------------------------------------------
+  // Connection
+  // -------------------------------------------------------------------------
+  describe("connection", () => {
+    it("opens nothing until connect() is called", () => {
+      const { client, sockets } = setup();
+      client.subscribe("BTC-USDT", "candles", () => {});
+      expect(sockets).toHaveLength(0);
+
+      client.connect();
+      expect(sockets).toHaveLength(1);
+      expect(sockets[0].url).toBe("ws://test");
+    });
+
+    it("keeps a single socket when connect() is called again", () => {
+      const { client, sockets } = setup();
+      client.connect();
+      client.connect();
+      expect(sockets).toHaveLength(1);
+    });
+
+    it("reports connecting, then open", () => {
+      const { client, latest } = setup();
+      const listener = vi.fn();
+      client.onStateChange(listener);
+      client.connect();
+      expect(client.getState().status).toBe("connecting");
+
+      latest().open();
+      expect(client.getState().status).toBe("open");
+      expect(listener).toHaveBeenLastCalledWith({
+        status: "open",
+        reconnectAttempt: 0,
+        nextRetryAt: null,
+      });
+    });
+
+    it("keeps the same state object until something changes", () => {
+      const { client } = setup();
+      expect(client.getState()).toBe(client.getState());
+    });
+
+    it("moves to error when the socket reports one", () => {
+      const { client, latest } = setup();
+      client.connect();
+      latest().open();
+      latest().fail();
+      expect(client.getState().status).toBe("error");
+    });
+
+    it("stops notifying a listener once it unlistens", () => {
+      const { client, latest } = setup();
+      const listener = vi.fn();
+      const unlisten = client.onStateChange(listener);
+      unlisten();
+      client.connect();
+      latest().open();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("closes the socket and ignores its late events on close()", () => {
+      const { client, latest } = setup();
+      client.connect();
+      const socket = latest();
+      socket.open();
+      client.close();
+
+      expect(socket.closed).toBe(true);
+      expect(client.getState().status).toBe("closed");
+      socket.drop();
+      expect(client.getState().status).toBe("closed");
+    });
+
+    it("can connect again after close()", () => {
+      const { client, sockets } = setup();
+      client.connect();
+      client.close();
+      client.connect();
+      expect(sockets).toHaveLength(2);
+      expect(client.getState().status).toBe("connecting");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Reference-counted subscriptions
+  // -------------------------------------------------------------------------
+  describe("subscriptions", () => {
+    it("queues topics until the socket opens", () => {
+      const { client, latest } = setup();
+      client.connect();
+      client.subscribe("BTC-USDT", "candles", () => {});
+      client.subscribe("BTC-USDT", "orderbook", () => {});
+      expect(latest().sent).toEqual([]);
+
+      latest().open();
+      expect(latest().sent).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "candles" },
+        { type: "subscribe", pair: "BTC-USDT", stream: "orderbook" },
+      ]);
+    });
+
+    it("subscribes straight away while open", () => {
+      const { client, latest } = setup();
+      client.connect();
+      latest().open();
+      client.subscribe("ETH-USDT", "trades", () => {});
+      expect(latest().sent).toEqual([
+        { type: "subscribe", pair: "ETH-USDT", stream: "trades" },
+      ]);
+    });
+
+    it("sends one subscribe for several consumers of a topic", () => {
+      const { client, latest } = setup();
+      client.connect();
+      latest().open();
+      client.subscribe("BTC-USDT", "candles", () => {});
+      client.subscribe("BTC-USDT", "candles", () => {});
+      expect(latest().sent).toHaveLength(1);
+      expect(client.getSubscriptions()).toEqual([
+        { pair: "BTC-USDT", stream: "candles" },
+      ]);
+    });
+
+    it("unsubscribes only when the last consumer goes away", () => {
+      const { client, latest } = setup();
+      client.connect();
+      latest().open();
+      const first = client.subscribe("BTC-USDT", "candles", () => {});
+      const second = client.subscribe("BTC-USDT", "candles", () => {});
+      latest().sent = [];
+
+      first.unsubscribe();
+      expect(latest().sent).toEqual([]);
+
+      second.unsubscribe();
+      expect(latest().sent).toEqual([
+        { type: "unsubscribe", pair: "BTC-USDT", stream: "candles" },
+      ]);
+      expect(client.getSubscriptions()).toEqual([]);
+    });
+
+    it("counts the same handler subscribed twice as two consumers", () => {
+      const { client, latest } = setup();
+      client.connect();
+      latest().open();
+      const handler = vi.fn();
+      const first = client.subscribe("BTC-USDT", "candles", handler);
+      client.subscribe("BTC-USDT", "candles", handler);
+      latest().sent = [];
+
+      first.unsubscribe();
+      expect(latest().sent).toEqual([]);
+      latest().receive({ type: "candle_update", pair: "BTC-USDT", candle });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores a second unsubscribe on the same handle", () => {
+      const { client, latest } = setup();
+      client.connect();
+      latest().open();
+      const first = client.subscribe("BTC-USDT", "candles", () => {});
+      client.subscribe("BTC-USDT", "candles", () => {});
+      latest().sent = [];
+
+      first.unsubscribe();
+      first.unsubscribe();
+      expect(latest().sent).toEqual([]);
+      expect(client.getSubscriptions()).toHaveLength(1);
+    });
+
+    it("sends nothing for a topic added and dropped while offline", () => {
+      const { client, latest } = setup();
+      client.connect();
+      client.subscribe("BTC-USDT", "candles", () => {});
+      client.subscribe("ETH-USDT", "candles", () => {}).unsubscribe();
+
+      latest().open();
+      expect(latest().sent).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "candles" },
+      ]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Message routing
+  // -------------------------------------------------------------------------
+  describe("message routing", () => {
+    function openClient() {
+      const context = setup();
+      context.client.connect();
+      context.latest().open();
+      return context;
+    }
+
+    it("delivers candles to the topic's handlers only", () => {
+      const { client, latest } = openClient();
+      const btc = vi.fn();
+      const eth = vi.fn();
+      client.subscribe("BTC-USDT", "candles", btc);
+      client.subscribe("ETH-USDT", "candles", eth);
+
+      latest().receive({ type: "candle_update", pair: "BTC-USDT", candle });
+      expect(btc).toHaveBeenCalledWith(candle);
+      expect(eth).not.toHaveBeenCalled();
+    });
+
+    it("delivers order book snapshots and deltas as events", () => {
+      const { client, latest } = openClient();
+      const handler = vi.fn();
+      client.subscribe("BTC-USDT", "orderbook", handler);
+      const book = {
+        pair: "BTC-USDT",
+        asks: [[101, 1]],
+        bids: [[100, 1]],
+        timestamp: 1_700_000_000_000,
+      };
+      const delta = {
+        pair: "BTC-USDT",
+        sequence: 2,
+        asks: [],
+        bids: [],
+        timestamp: 1_700_000_000_000,
+      };
+
+      latest().receive({
+        type: "orderbook_update",
+        pair: "BTC-USDT",
+        data: book,
+      });
+      latest().receive({
+        type: "orderbook_delta",
+        pair: "BTC-USDT",
+        data: delta,
+      });
+      expect(handler.mock.calls).toEqual([
+        [{ type: "snapshot", book }],
+        [{ type: "delta", delta }],
+      ]);
+    });
+
+    it("delivers trades", () => {
+      const { client, latest } = openClient();
+      const handler = vi.fn();
+      client.subscribe("BTC-USDT", "trades", handler);
+      latest().receive({ type: "trade", pair: "BTC-USDT", trade });
+      expect(handler).toHaveBeenCalledWith(trade);
+    });
+
+    it("delivers tickers to the pair's ticker handlers", () => {
+      const { client, latest } = openClient();
+      const handler = vi.fn();
+      const subscription = client.subscribeTicker("BTC-USDT", handler);
+      latest().receive({ type: "ticker", pair: "BTC-USDT", ticker });
+      latest().receive({ type: "ticker", pair: "ETH-USDT", ticker });
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      subscription.unsubscribe();
+      latest().receive({ type: "ticker", pair: "BTC-USDT", ticker });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("drops late messages for a released topic", () => {
+      const { client, latest } = openClient();
+      const handler = vi.fn();
+      client.subscribe("BTC-USDT", "candles", handler).unsubscribe();
+      latest().receive({ type: "candle_update", pair: "BTC-USDT", candle });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("lets a handler unsubscribe while being called", () => {
+      const { client, latest } = openClient();
+      const later = vi.fn();
+      const subscription = client.subscribe("BTC-USDT", "candles", () =>
+        subscription.unsubscribe(),
+      );
+      client.subscribe("BTC-USDT", "candles", later);
+
+      latest().receive({ type: "candle_update", pair: "BTC-USDT", candle });
+      expect(later).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports every frame, including unparseable ones", () => {
+      const { client, latest } = openClient();
+      const listener = vi.fn();
+      client.onFrame(listener);
+      latest().receiveRaw("not json");
+      latest().receive({ type: "unknown" });
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it("drops invalid messages and reports them", () => {
+      const onInvalidMessage = vi.fn();
+      const context = setup({ onInvalidMessage });
+      context.client.connect();
+      context.latest().open();
+      const handler = vi.fn();
+      context.client.subscribe("BTC-USDT", "candles", handler);
+
+      context.latest().receive({
+        type: "candle_update",
+        pair: "BTC-USDT",
+        candle: { ...candle, close: "105" },
+      });
+      context.latest().receiveRaw("not json");
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(
+        onInvalidMessage.mock.calls.map(([error]) => error.message),
+      ).toEqual([
+        "candle_update.candle.close: expected a finite number",
+        "message: not valid JSON",
+      ]);
+    });
+
+    it("ignores message types it does not know", () => {
+      const onInvalidMessage = vi.fn();
+      const context = setup({ onInvalidMessage });
+      context.client.connect();
+      context.latest().open();
+      context.latest().receive({ type: "heartbeat" });
+      expect(onInvalidMessage).not.toHaveBeenCalled();
+    });
+
+    it("logs server errors", () => {
+      const { latest } = openClient();
+      latest().receive({ type: "error", message: "Unknown pair" });
+      expect(console.warn).toHaveBeenCalledWith(
+        "[ws] server error:",
+        "Unknown pair",
+      );
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Reconnection
+  // -------------------------------------------------------------------------
+  describe("reconnection", () => {
+    const reconnect = {
+      initialDelayMs: 1_000,
+      maxDelayMs: 8_000,
+      multiplier: 2,
+      jitter: 0,
+      maxAttempts: 2,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_700_000_000_000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("opens a new socket after the backoff delay", () => {
+      const { client, sockets, latest } = setup({ reconnect });
+      client.connect();
+      latest().open();
+      latest().drop();
+
+      expect(client.getState()).toEqual({
+        status: "reconnecting",
+        reconnectAttempt: 1,
+        nextRetryAt: 1_700_000_001_000,
+      });
+      vi.advanceTimersByTime(999);
+      expect(sockets).toHaveLength(1);
+      vi.advanceTimersByTime(1);
+      expect(sockets).toHaveLength(2);
+    });
+
+    it("replays every held topic on the new socket", () => {
+      const { client, latest } = setup({ reconnect });
+      client.connect();
+      latest().open();
+      client.subscribe("BTC-USDT", "candles", () => {});
+      latest().drop();
+      // Changes made while offline are part of the replay
+      client.subscribe("ETH-USDT", "trades", () => {});
+      vi.advanceTimersByTime(1_000);
+
+      latest().open();
+      expect(latest().sent).toEqual([
+        { type: "subscribe", pair: "BTC-USDT", stream: "candles" },
+        { type: "subscribe", pair: "ETH-USDT", stream: "trades" },
+      ]);
+    });
+
+    it("gives up after the last attempt", () => {
+      const { client, sockets, latest } = setup({ reconnect });
+      client.connect();
+      latest().drop();
+      vi.advanceTimersByTime(1_000);
+      latest().drop();
+      vi.advanceTimersByTime(2_000);
+      latest().drop();
+
+      expect(client.getState().status).toBe("closed");
+      expect(client.getState().nextRetryAt).toBeNull();
+      vi.advanceTimersByTime(60_000);
+      expect(sockets).toHaveLength(3);
+    });
+
+    it("cancels a pending reconnect on close()", () => {
+      const { client, sockets, latest } = setup({ reconnect });
+      client.connect();
+      latest().drop();
+      client.close();
+      expect(client.getState()).toEqual({
+        status: "closed",
+        reconnectAttempt: 0,
+        nextRetryAt: null,
+      });
+      vi.advanceTimersByTime(60_000);
+      expect(sockets).toHaveLength(1);
+    });
+  });
+});